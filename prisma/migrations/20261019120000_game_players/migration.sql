@@ -0,0 +1,72 @@
+-- Game sessions only live for the lifetime of a server process, so the JSON player list is dropped rather than copied over.
+
+-- AlterTable
+ALTER TABLE "game_sessions" DROP COLUMN "players";
+
+-- CreateTable
+CREATE TABLE "game_players" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "isBot" BOOLEAN NOT NULL DEFAULT false,
+    "isHost" BOOLEAN NOT NULL DEFAULT false,
+    "isCoHost" BOOLEAN NOT NULL DEFAULT false,
+    "anonymousMode" BOOLEAN NOT NULL DEFAULT false,
+    "connected" BOOLEAN NOT NULL DEFAULT true,
+    "socketId" TEXT,
+    "connectedSince" TIMESTAMP(3),
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "streak" INTEGER NOT NULL DEFAULT 0,
+    "correctAnswers" INTEGER NOT NULL DEFAULT 0,
+    "lastAnswerCorrect" BOOLEAN NOT NULL DEFAULT false,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_players_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "game_answers" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "gamePlayerId" TEXT NOT NULL,
+    "questionId" TEXT,
+    "questionIndex" INTEGER NOT NULL,
+    "answer" TEXT NOT NULL,
+    "accuracy" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "game_players_userId_idx" ON "game_players"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_players_sessionId_playerId_key" ON "game_players"("sessionId", "playerId");
+
+-- CreateIndex
+CREATE INDEX "game_answers_sessionId_idx" ON "game_answers"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "game_answers_questionId_idx" ON "game_answers"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_answers_gamePlayerId_questionIndex_key" ON "game_answers"("gamePlayerId", "questionIndex");
+
+-- AddForeignKey
+ALTER TABLE "game_players" ADD CONSTRAINT "game_players_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "game_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_players" ADD CONSTRAINT "game_players_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_answers" ADD CONSTRAINT "game_answers_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "game_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_answers" ADD CONSTRAINT "game_answers_gamePlayerId_fkey" FOREIGN KEY ("gamePlayerId") REFERENCES "game_players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_answers" ADD CONSTRAINT "game_answers_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "game_results" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT,
+    "quizTitle" TEXT NOT NULL,
+    "hostId" TEXT,
+    "pin" TEXT NOT NULL,
+    "questions" TEXT NOT NULL DEFAULT '[]',
+    "playedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "game_result_players" (
+    "id" TEXT NOT NULL,
+    "resultId" TEXT NOT NULL,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "isBot" BOOLEAN NOT NULL DEFAULT false,
+    "rank" INTEGER NOT NULL,
+    "score" INTEGER NOT NULL,
+    "correctAnswers" INTEGER NOT NULL DEFAULT 0,
+    "answers" TEXT NOT NULL DEFAULT '[]',
+
+    CONSTRAINT "game_result_players_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "game_results_quizId_idx" ON "game_results"("quizId");
+
+-- CreateIndex
+CREATE INDEX "game_results_hostId_idx" ON "game_results"("hostId");
+
+-- CreateIndex
+CREATE INDEX "game_results_playedAt_idx" ON "game_results"("playedAt");
+
+-- CreateIndex
+CREATE INDEX "game_result_players_resultId_idx" ON "game_result_players"("resultId");
+
+-- CreateIndex
+CREATE INDEX "game_result_players_userId_idx" ON "game_result_players"("userId");
+
+-- AddForeignKey
+ALTER TABLE "game_results" ADD CONSTRAINT "game_results_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_results" ADD CONSTRAINT "game_results_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_result_players" ADD CONSTRAINT "game_result_players_resultId_fkey" FOREIGN KEY ("resultId") REFERENCES "game_results"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_result_players" ADD CONSTRAINT "game_result_players_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "game_answers" ADD COLUMN "responseMs" INTEGER;
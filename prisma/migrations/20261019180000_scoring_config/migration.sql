@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "quizzes" ADD COLUMN "scoringConfig" TEXT;
+
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN "scoringConfig" TEXT;
+
+-- AlterTable
+ALTER TABLE "game_players" ADD COLUMN "basePoints" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "speedPoints" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "streakPoints" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "penaltyPoints" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN "teamSettings" TEXT;
+
+-- AlterTable
+ALTER TABLE "game_players" ADD COLUMN "team" INTEGER;
+
+-- AlterTable
+ALTER TABLE "game_results" ADD COLUMN "teamSettings" TEXT;
+
+-- AlterTable
+ALTER TABLE "game_result_players" ADD COLUMN "team" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN "isLocked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "bannedIds" TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "realtime_connections" (
+    "pin" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "socketId" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "realtime_connections_pkey" PRIMARY KEY ("pin","playerId")
+);
+
+-- CreateTable
+CREATE TABLE "realtime_acks" (
+    "pin" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "realtime_acks_pkey" PRIMARY KEY ("pin","playerId")
+);
+
+-- CreateTable
+CREATE TABLE "socket_io_attachments" (
+    "id" BIGSERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) DEFAULT CURRENT_TIMESTAMP,
+    "payload" BYTEA
+);
+
+-- CreateIndex
+CREATE INDEX "realtime_connections_socketId_idx" ON "realtime_connections"("socketId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "socket_io_attachments_id_key" ON "socket_io_attachments"("id");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "reserved_pins" (
+    "pin" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reserved_pins_pkey" PRIMARY KEY ("pin")
+);
+
+-- CreateIndex
+CREATE INDEX "reserved_pins_userId_idx" ON "reserved_pins"("userId");
+
+-- CreateIndex
+CREATE INDEX "game_results_pin_idx" ON "game_results"("pin");
+
+-- AddForeignKey
+ALTER TABLE "reserved_pins" ADD CONSTRAINT "reserved_pins_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
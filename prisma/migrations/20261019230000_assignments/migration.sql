@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "assignments" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "opensAt" TIMESTAMP(3) NOT NULL,
+    "closesAt" TIMESTAMP(3) NOT NULL,
+    "maxAttempts" INTEGER,
+    "scoringConfig" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "assignment_attempts" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currentIndex" INTEGER NOT NULL DEFAULT 0,
+    "questionStartedAt" TIMESTAMP(3),
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "streak" INTEGER NOT NULL DEFAULT 0,
+    "correctAnswers" INTEGER NOT NULL DEFAULT 0,
+    "basePoints" INTEGER NOT NULL DEFAULT 0,
+    "speedPoints" INTEGER NOT NULL DEFAULT 0,
+    "streakPoints" INTEGER NOT NULL DEFAULT 0,
+    "penaltyPoints" INTEGER NOT NULL DEFAULT 0,
+    "lastAnswerCorrect" BOOLEAN NOT NULL DEFAULT false,
+    "answers" TEXT NOT NULL DEFAULT '[]',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "assignment_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assignments_quizId_idx" ON "assignments"("quizId");
+
+-- CreateIndex
+CREATE INDEX "assignments_hostId_idx" ON "assignments"("hostId");
+
+-- CreateIndex
+CREATE INDEX "assignment_attempts_assignmentId_idx" ON "assignment_attempts"("assignmentId");
+
+-- CreateIndex
+CREATE INDEX "assignment_attempts_userId_idx" ON "assignment_attempts"("userId");
+
+-- AddForeignKey
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_attempts" ADD CONSTRAINT "assignment_attempts_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_attempts" ADD CONSTRAINT "assignment_attempts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
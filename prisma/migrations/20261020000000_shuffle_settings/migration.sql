@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "quizzes" ADD COLUMN "shuffleSettings" TEXT;
+
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN "shuffleSettings" TEXT;
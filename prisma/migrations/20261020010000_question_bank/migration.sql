@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "bankQuestionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "bank_questions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tags" TEXT NOT NULL DEFAULT '[]',
+    "type" TEXT NOT NULL,
+    "pointType" TEXT NOT NULL DEFAULT 'NORMAL',
+    "text" TEXT NOT NULL,
+    "options" TEXT NOT NULL DEFAULT '[]',
+    "correctIndices" TEXT,
+    "correctTexts" TEXT,
+    "correctSequence" TEXT,
+    "puzzleScoring" TEXT,
+    "correctValue" DOUBLE PRECISION,
+    "minValue" DOUBLE PRECISION,
+    "maxValue" DOUBLE PRECISION,
+    "stepValue" DOUBLE PRECISION,
+    "imageUrl" TEXT,
+    "audioUrl" TEXT,
+    "correctRegions" TEXT,
+    "targetLatLng" TEXT,
+    "backText" TEXT,
+    "isCaseSensitive" BOOLEAN NOT NULL DEFAULT false,
+    "matchSettings" TEXT,
+    "timeLimit" INTEGER NOT NULL DEFAULT 20,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "questions_bankQuestionId_idx" ON "questions"("bankQuestionId");
+
+-- CreateIndex
+CREATE INDEX "bank_questions_userId_idx" ON "bank_questions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_bankQuestionId_fkey" FOREIGN KEY ("bankQuestionId") REFERENCES "bank_questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_questions" ADD CONSTRAINT "bank_questions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "quiz_revisions" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "userId" TEXT,
+    "version" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "restoredFrom" INTEGER,
+    "title" TEXT NOT NULL,
+    "genre" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "visibility" TEXT NOT NULL,
+    "scoringConfig" TEXT,
+    "shuffleSettings" TEXT,
+    "questions" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quiz_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quiz_revisions_quizId_version_key" ON "quiz_revisions"("quizId", "version");
+
+-- CreateIndex
+CREATE INDEX "quiz_revisions_userId_idx" ON "quiz_revisions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "quiz_revisions" ADD CONSTRAINT "quiz_revisions_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_revisions" ADD CONSTRAINT "quiz_revisions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
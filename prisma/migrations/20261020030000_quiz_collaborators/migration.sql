@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "quiz_collaborators" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'EDITOR',
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quiz_collaborators_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quiz_collaborators_quizId_userId_key" ON "quiz_collaborators"("quizId", "userId");
+
+-- CreateIndex
+CREATE INDEX "quiz_collaborators_userId_idx" ON "quiz_collaborators"("userId");
+
+-- AddForeignKey
+ALTER TABLE "quiz_collaborators" ADD CONSTRAINT "quiz_collaborators_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_collaborators" ADD CONSTRAINT "quiz_collaborators_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "assignment_attempts" ADD COLUMN "questions" TEXT,
+ADD COLUMN "shuffleSettings" TEXT;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "question_locks" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "socketId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "question_locks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "question_locks_socketId_key" ON "question_locks"("socketId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "question_locks_quizId_questionId_key" ON "question_locks"("quizId", "questionId");
+
+-- CreateIndex
+CREATE INDEX "question_locks_userId_idx" ON "question_locks"("userId");
+
+-- AddForeignKey
+ALTER TABLE "question_locks" ADD CONSTRAINT "question_locks_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "question_locks" ADD CONSTRAINT "question_locks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "game_result_players" ADD COLUMN "leftGame" BOOLEAN NOT NULL DEFAULT false;
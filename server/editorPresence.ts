@@ -0,0 +1,165 @@
+import { Server, Socket } from 'socket.io';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { socketUserId } from './socket.js';
+import { canEditQuiz, getQuizRole } from './services/collaboratorService.js';
+import { EditorPresence } from '../src/types.js';
+
+// What an editor socket keeps in socket.data, readable from every server process through fetchSockets
+type EditorData = Omit<EditorPresence, 'socketId' | 'questionId'> & { quizId: string };
+
+// Set up by setupEditorPresence, for routes that change who may edit a quiz
+let editorIo: Server | null = null;
+
+const editorRoom = (quizId: string) => `editor:${quizId}`;
+
+// Everyone in a quiz's editor and the question each of them holds. Locks whose connection is gone,
+// such as those of a server process that stopped, are released on the way.
+async function getEditors(io: Server, quizId: string): Promise<EditorPresence[]> {
+  const sockets = (await io.in(editorRoom(quizId)).fetchSockets()).filter(s => s.data.editor?.quizId === quizId);
+  const locks = await prisma.questionLock.findMany({ where: { quizId } });
+
+  const connected = new Set(sockets.map(s => s.id));
+  const stale = locks.filter(lock => !connected.has(lock.socketId));
+  if (stale.length > 0) {
+    await prisma.questionLock.deleteMany({ where: { id: { in: stale.map(lock => lock.id) } } });
+  }
+
+  const held = new Map(locks.map(lock => [lock.socketId, lock.questionId]));
+  return sockets.map(s => {
+    const { quizId: _, ...editor } = s.data.editor as EditorData;
+    return { socketId: s.id, ...editor, questionId: held.get(s.id) ?? null };
+  });
+}
+
+async function broadcastPresence(io: Server, quizId: string) {
+  io.to(editorRoom(quizId)).emit('EDITOR_PRESENCE', { quizId, editors: await getEditors(io, quizId) });
+}
+
+async function leaveEditor(io: Server, socket: Socket) {
+  const editor = socket.data.editor as EditorData | undefined;
+  if (!editor) return;
+  socket.data.editor = undefined;
+  socket.leave(editorRoom(editor.quizId));
+  await prisma.questionLock.deleteMany({ where: { socketId: socket.id } });
+  await broadcastPresence(io, editor.quizId);
+}
+
+// Take a question for an editor's connection, letting go of the one it held before. The unique
+// (quizId, questionId) row settles two editors asking at once, whichever process they are on.
+async function takeLock(editor: EditorData, socketId: string, questionId: string): Promise<boolean> {
+  try {
+    await prisma.$transaction([
+      prisma.questionLock.deleteMany({ where: { socketId } }),
+      prisma.questionLock.create({ data: { quizId: editor.quizId, questionId, userId: editor.userId, socketId } })
+    ]);
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false;
+    throw error;
+  }
+}
+
+// Let go of the questions held by connections that are gone, before a save checks a quiz's locks
+export async function releaseStaleLocks(quizId: string) {
+  if (editorIo) await getEditors(editorIo, quizId);
+}
+
+// Send someone who may no longer edit a quiz out of its editor, releasing the question they held
+export async function removeEditor(quizId: string, userId: string) {
+  await prisma.questionLock.deleteMany({ where: { quizId, userId } });
+  if (!editorIo) return;
+
+  const sockets = await editorIo.in(editorRoom(quizId)).fetchSockets();
+  for (const s of sockets.filter(s => s.data.editor?.userId === userId)) {
+    s.leave(editorRoom(quizId));
+    s.emit('EDITOR_ERROR', { quizId, message: 'You can no longer edit this quiz' });
+  }
+  await broadcastPresence(editorIo, quizId);
+}
+
+// Who has a quiz open in the editor, and which question each of them is working on.
+// A question can be locked by one editor at a time, so two people never edit it at once.
+// Locks belong to a connection and are released when it moves on, leaves or disconnects.
+export function setupEditorPresence(io: Server) {
+  editorIo = io;
+
+  io.on('connection', (socket: Socket) => {
+    socket.on('EDITOR_JOIN', async (data: { quizId: string }) => {
+      try {
+        const userId = socketUserId(socket);
+        const quiz = typeof data?.quizId === 'string'
+          ? await prisma.quiz.findUnique({ where: { id: data.quizId }, select: { id: true, userId: true } })
+          : null;
+        if (!quiz || !canEditQuiz(await getQuizRole(quiz, userId))) {
+          socket.emit('EDITOR_ERROR', { quizId: data?.quizId, message: 'You cannot edit this quiz' });
+          return;
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { username: true, profilePicture: true } });
+        if (!user) return;
+
+        await leaveEditor(io, socket);
+        const editor: EditorData = { quizId: quiz.id, userId: userId!, username: user.username, profilePicture: user.profilePicture };
+        socket.data.editor = editor;
+        socket.join(editorRoom(quiz.id));
+        await broadcastPresence(io, quiz.id);
+      } catch (error) {
+        console.error('Error joining editor:', error);
+      }
+    });
+
+    socket.on('QUESTION_LOCK', async (data: { questionId: string }) => {
+      try {
+        const editor = socket.data.editor as EditorData | undefined;
+        // Editors removed from the quiz are sent out of its room and can no longer lock anything
+        if (!editor || typeof data?.questionId !== 'string' || !socket.rooms.has(editorRoom(editor.quizId))) return;
+
+        // Releases locks of connections that are gone, so they don't stand in the way
+        const editors = await getEditors(io, editor.quizId);
+        if (editors.some(e => e.socketId === socket.id && e.questionId === data.questionId)) return;
+
+        if (!(await takeLock(editor, socket.id, data.questionId))) {
+          const holder = (await getEditors(io, editor.quizId)).find(e => e.questionId === data.questionId);
+          socket.emit('QUESTION_LOCK_DENIED', { questionId: data.questionId, username: holder?.username ?? 'Someone' });
+          return;
+        }
+
+        await broadcastPresence(io, editor.quizId);
+      } catch (error) {
+        console.error('Error locking question:', error);
+      }
+    });
+
+    socket.on('QUESTION_UNLOCK', async () => {
+      try {
+        const editor = socket.data.editor as EditorData | undefined;
+        if (!editor) return;
+
+        const released = await prisma.questionLock.deleteMany({ where: { socketId: socket.id } });
+        if (released.count > 0) await broadcastPresence(io, editor.quizId);
+      } catch (error) {
+        console.error('Error unlocking question:', error);
+      }
+    });
+
+    socket.on('EDITOR_LEAVE', async () => {
+      try {
+        await leaveEditor(io, socket);
+      } catch (error) {
+        console.error('Error leaving editor:', error);
+      }
+    });
+
+    socket.on('disconnect', async () => {
+      const editor = socket.data.editor as EditorData | undefined;
+      if (!editor) return;
+      try {
+        await prisma.questionLock.deleteMany({ where: { socketId: socket.id } });
+        await broadcastPresence(io, editor.quizId);
+      } catch (error) {
+        console.error('Error updating editor presence:', error);
+      }
+    });
+  });
+}
@@ -14,7 +14,11 @@ import gameRoutes from './routes/game.js';
 import userRoutes from './routes/user.js';
 import adminRoutes from './routes/admin.js';
 import reportsRoutes from './routes/reports.js';
-import { setupSocketHandlers } from './socket.js';
+import assignmentRoutes from './routes/assignment.js';
+import bankRoutes from './routes/bank.js';
+import { clearOrphanedGames, setupSocketHandlers } from './socket.js';
+import { setupEditorPresence } from './editorPresence.js';
+import { createRealtimeStore } from './realtime/index.js';
 import { validateInput, validatePagination } from './middleware/inputValidation.js';
 import prisma from './prisma.js';
 
@@ -72,8 +76,8 @@ app.use((req, res, next) => {
 app.use(validateInput);
 app.use(validatePagination);
 
-// Session middleware
-app.use(session({
+// Session middleware, shared with socket.io so game sockets know who is signed in
+const sessionMiddleware = session({
   store: new PrismaSessionStore(),
   secret: process.env.SESSION_SECRET || 'quizly-secret-key-change-in-production',
   resave: false,
@@ -84,7 +88,9 @@ app.use(session({
     maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
     // domain: process.env.NODE_ENV === 'production' ? '.quizly.omgrod.me' : undefined
   }
-}));
+});
+app.use(sessionMiddleware);
+io.engine.use(sessionMiddleware);
 
 // CSRF protection middleware
 const csrfProtection = csrf({ cookie: false });
@@ -125,6 +131,8 @@ app.use('/api/game', gameRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/reports', reportsRoutes);
+app.use('/api/assignments', assignmentRoutes);
+app.use('/api/bank', bankRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -191,15 +199,17 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 // Setup Socket.IO
-setupSocketHandlers(io);
+setupSocketHandlers(io, createRealtimeStore());
+setupEditorPresence(io);
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 
-// Clear all game sessions on startup
+// Clear the games left without a server process on startup. Other processes may be running games on
+// the same database, so theirs are left alone.
 async function initializeServer() {
   try {
-    const deletedCount = await prisma.gameSession.deleteMany({});
-    console.log(`Cleared ${deletedCount.count} game session(s) from previous server instance`);
+    const deletedCount = await clearOrphanedGames();
+    console.log(`Cleared ${deletedCount} orphaned game session(s)`);
   } catch (error) {
     console.error('Failed to clear game sessions on startup:', error);
   }
@@ -1,9 +1,12 @@
 
 console.log('DATABASE_URL at prisma.ts:', process.env.DATABASE_URL);
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient({
 	datasourceUrl: process.env.DATABASE_URL,
 });
 
+// The client a query runs on: prisma itself, or a transaction the caller has open
+export type Db = Prisma.TransactionClient;
+
 export default prisma;
@@ -0,0 +1,62 @@
+import { RealtimeStore, PendingAck } from './RealtimeStore.js';
+
+// Keeps everything in this process, which is all a single server needs
+export class MemoryRealtimeStore implements RealtimeStore {
+  private connections: Map<string, Map<string, string>> = new Map(); // pin -> playerId -> socketId
+  private pendingAcks: Map<string, Map<string, PendingAck>> = new Map(); // pin -> playerId -> {event, payload}
+
+  attach() {
+    // socket.io's default in-memory adapter already covers a single process
+  }
+
+  async getSocketId(pin: string, playerId: string) {
+    return this.connections.get(pin)?.get(playerId);
+  }
+
+  async getConnections(pin: string) {
+    return new Map(this.connections.get(pin));
+  }
+
+  async setConnection(pin: string, playerId: string, socketId: string) {
+    if (!this.connections.has(pin)) this.connections.set(pin, new Map());
+    this.connections.get(pin)!.set(playerId, socketId);
+  }
+
+  async removeConnection(pin: string, playerId: string, socketId?: string) {
+    const room = this.connections.get(pin);
+    if (!room || (socketId && room.get(playerId) !== socketId)) return;
+    room.delete(playerId);
+    if (room.size === 0) this.connections.delete(pin);
+  }
+
+  async findConnections(socketId: string) {
+    const found: { pin: string; playerId: string }[] = [];
+    for (const [pin, room] of this.connections.entries()) {
+      for (const [playerId, id] of room.entries()) {
+        if (id === socketId) found.push({ pin, playerId });
+      }
+    }
+    return found;
+  }
+
+  async setPendingAcks(pin: string, playerIds: string[], ack: PendingAck) {
+    if (!this.pendingAcks.has(pin)) this.pendingAcks.set(pin, new Map());
+    const room = this.pendingAcks.get(pin)!;
+    playerIds.forEach((playerId) => room.set(playerId, ack));
+  }
+
+  async getPendingAck(pin: string, playerId: string) {
+    return this.pendingAcks.get(pin)?.get(playerId);
+  }
+
+  async clearPendingAck(pin: string, playerId: string, event?: string) {
+    const room = this.pendingAcks.get(pin);
+    if (!room || (event && room.get(playerId)?.event !== event)) return;
+    room.delete(playerId);
+  }
+
+  async clearRoom(pin: string) {
+    this.connections.delete(pin);
+    this.pendingAcks.delete(pin);
+  }
+}
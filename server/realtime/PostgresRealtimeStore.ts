@@ -0,0 +1,78 @@
+import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/postgres-adapter';
+import pg from 'pg';
+import prisma from '../prisma.js';
+import { RealtimeStore, PendingAck } from './RealtimeStore.js';
+
+// Shares room state between server processes through the app's own Postgres database.
+// Connections and pending ACKs are rows in realtime_connections and realtime_acks; socket.io's
+// Postgres adapter relays emits and room changes between processes with LISTEN/NOTIFY.
+export class PostgresRealtimeStore implements RealtimeStore {
+  private pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+
+  constructor() {
+    this.pool.on('error', (err) => console.error('[REALTIME] Postgres pool error:', err));
+  }
+
+  attach(io: Server) {
+    io.adapter(createAdapter(this.pool));
+  }
+
+  async getSocketId(pin: string, playerId: string) {
+    const row = await prisma.realtimeConnection.findUnique({ where: { pin_playerId: { pin, playerId } } });
+    return row?.socketId;
+  }
+
+  async getConnections(pin: string) {
+    const rows = await prisma.realtimeConnection.findMany({ where: { pin } });
+    return new Map(rows.map((row) => [row.playerId, row.socketId]));
+  }
+
+  async setConnection(pin: string, playerId: string, socketId: string) {
+    await prisma.realtimeConnection.upsert({
+      where: { pin_playerId: { pin, playerId } },
+      update: { socketId },
+      create: { pin, playerId, socketId }
+    });
+  }
+
+  async removeConnection(pin: string, playerId: string, socketId?: string) {
+    await prisma.realtimeConnection.deleteMany({
+      where: { pin, playerId, ...(socketId ? { socketId } : {}) }
+    });
+  }
+
+  async findConnections(socketId: string) {
+    return prisma.realtimeConnection.findMany({
+      where: { socketId },
+      select: { pin: true, playerId: true }
+    });
+  }
+
+  async setPendingAcks(pin: string, playerIds: string[], ack: PendingAck) {
+    const payload = JSON.stringify(ack.payload ?? null);
+    await prisma.$transaction(playerIds.map((playerId) => prisma.realtimeAck.upsert({
+      where: { pin_playerId: { pin, playerId } },
+      update: { event: ack.event, payload },
+      create: { pin, playerId, event: ack.event, payload }
+    })));
+  }
+
+  async getPendingAck(pin: string, playerId: string) {
+    const row = await prisma.realtimeAck.findUnique({ where: { pin_playerId: { pin, playerId } } });
+    return row ? { event: row.event, payload: JSON.parse(row.payload) } : undefined;
+  }
+
+  async clearPendingAck(pin: string, playerId: string, event?: string) {
+    await prisma.realtimeAck.deleteMany({
+      where: { pin, playerId, ...(event ? { event } : {}) }
+    });
+  }
+
+  async clearRoom(pin: string) {
+    await prisma.$transaction([
+      prisma.realtimeConnection.deleteMany({ where: { pin } }),
+      prisma.realtimeAck.deleteMany({ where: { pin } })
+    ]);
+  }
+}
@@ -0,0 +1,28 @@
+import { Server } from 'socket.io';
+
+// A critical event sent to a player, kept until they acknowledge it so it can be resent on reconnect
+export interface PendingAck {
+  event: string;
+  payload: any;
+}
+
+// Room, connection and acknowledgement state of the game sockets. A store shared between
+// server processes lets several of them serve the same games behind a load balancer.
+export interface RealtimeStore {
+  // Hooks the store into socket.io, so rooms and emits reach sockets connected to other processes
+  attach(io: Server): void;
+
+  getSocketId(pin: string, playerId: string): Promise<string | undefined>;
+  getConnections(pin: string): Promise<Map<string, string>>; // playerId -> socketId
+  setConnection(pin: string, playerId: string, socketId: string): Promise<void>;
+  // Pass the socket ID to remove the connection only if it is still the player's current one
+  removeConnection(pin: string, playerId: string, socketId?: string): Promise<void>;
+  findConnections(socketId: string): Promise<{ pin: string; playerId: string }[]>;
+
+  setPendingAcks(pin: string, playerIds: string[], ack: PendingAck): Promise<void>;
+  getPendingAck(pin: string, playerId: string): Promise<PendingAck | undefined>;
+  // Pass the event to clear the pending event only if it is still that one
+  clearPendingAck(pin: string, playerId: string, event?: string): Promise<void>;
+
+  clearRoom(pin: string): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import os from 'os';
+import { RealtimeStore } from './RealtimeStore.js';
+import { MemoryRealtimeStore } from './MemoryRealtimeStore.js';
+import { PostgresRealtimeStore } from './PostgresRealtimeStore.js';
+
+export type { RealtimeStore, PendingAck } from './RealtimeStore.js';
+export { MemoryRealtimeStore, PostgresRealtimeStore };
+
+// This server process among the others serving the same games, recorded on the games it runs
+export const SERVER_ID = process.env.SERVER_ID || `${os.hostname()}:${process.env.PORT || '3001'}`;
+
+// REALTIME_STORE picks where room state lives: "memory" (default) for a single server process,
+// or "postgres" to run several processes against the same database
+export function createRealtimeStore(): RealtimeStore {
+  const kind = process.env.REALTIME_STORE || 'memory';
+  console.log(`[REALTIME] Using store: ${kind}`);
+  return kind === 'postgres' ? new PostgresRealtimeStore() : new MemoryRealtimeStore();
+}
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import prisma from '../prisma.js';
 import { requireAdmin } from '../middleware/admin.js';
 import { requireAuth } from '../middleware/auth.js';
+import { isValidPin } from '../services/pinService.js';
 
 const router = Router();
 
@@ -344,4 +345,74 @@ router.delete('/users/:id', requireAdmin, async (req, res) => {
   }
 });
 
+// Get reserved PINs (admin only)
+router.get('/pins', requireAdmin, async (req, res) => {
+  try {
+    const pins = await prisma.reservedPin.findMany({
+      include: { user: { select: { id: true, username: true } } },
+      orderBy: { pin: 'asc' }
+    });
+
+    res.json({ pins });
+  } catch (error) {
+    console.error('Get reserved PINs error:', error);
+    res.status(500).json({ error: 'Failed to get reserved PINs' });
+  }
+});
+
+// Reserve a PIN for recurring events, optionally for one host (admin only)
+router.post('/pins', requireAdmin, async (req, res) => {
+  try {
+    const { pin, label, username } = req.body;
+
+    if (typeof pin !== 'string' || !isValidPin(pin)) {
+      return res.status(400).json({ error: 'PINs must be 6 to 8 digits' });
+    }
+    if (typeof label !== 'string' || !label.trim() || label.trim().length > 60) {
+      return res.status(400).json({ error: 'A label of up to 60 characters is required' });
+    }
+
+    let userId: string | null = null;
+    if (username) {
+      const user = await prisma.user.findUnique({ where: { username }, select: { id: true } });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      userId = user.id;
+    }
+
+    const existing = await prisma.reservedPin.findUnique({ where: { pin } });
+    if (existing) {
+      return res.status(409).json({ error: 'That PIN is already reserved' });
+    }
+
+    const reserved = await prisma.reservedPin.create({
+      data: { pin, label: label.trim(), userId },
+      include: { user: { select: { id: true, username: true } } }
+    });
+
+    res.json({ pin: reserved });
+  } catch (error) {
+    console.error('Reserve PIN error:', error);
+    res.status(500).json({ error: 'Failed to reserve PIN' });
+  }
+});
+
+// Release a reserved PIN (admin only)
+router.delete('/pins/:pin', requireAdmin, async (req, res) => {
+  try {
+    const pin = Array.isArray(req.params.pin) ? req.params.pin[0] : req.params.pin;
+    const deleted = await prisma.reservedPin.deleteMany({ where: { pin } });
+
+    if (deleted.count === 0) {
+      return res.status(404).json({ error: 'Reserved PIN not found' });
+    }
+
+    res.json({ message: 'PIN released' });
+  } catch (error) {
+    console.error('Release PIN error:', error);
+    res.status(500).json({ error: 'Failed to release PIN' });
+  }
+});
+
 export default router;
@@ -0,0 +1,366 @@
+import { Router } from 'express';
+import { AssignmentAttempt } from '@prisma/client';
+import prisma from '../prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { isValidUUID, sanitizeText } from '../middleware/inputValidation.js';
+import { deserializeQuestion, getAnswerKey, toPlayerQuestion } from '../services/questionService.js';
+import { getGameScoringConfig, serializeScoringConfig } from '../services/scoringService.js';
+import { parseShuffleSettings, serializeShuffleSettings } from '../services/shuffleService.js';
+import { getQuizRole } from '../services/collaboratorService.js';
+import { Question } from '../../src/types.js';
+import { applyOptionOrder, drawQuestions, getDrawnCount, getOptionOrder, resolveShuffleSettings, toCanonicalAnswer } from '../../src/utils/shuffle.js';
+import {
+  checkAssignmentOpen,
+  gradeAttemptAnswer,
+  rankAssignmentResults,
+  toAssignment,
+  toAttempt,
+  validateAssignment
+} from '../services/assignmentService.js';
+
+const router = Router();
+
+// Students get the same few seconds to read a question as in live games before its timer starts
+const QUESTION_INTRO_MS = 3000;
+
+const loadAssignment = (id: string) => prisma.assignment.findUnique({
+  where: { id },
+  include: { quiz: { include: { questions: { orderBy: { orderIndex: 'asc' } } } } }
+});
+
+// Assignments play by the quiz's own shuffle settings, with a pool and order drawn for every attempt
+const shuffleSettingsOf = (quiz: { shuffleSettings: string | null }) =>
+  resolveShuffleSettings(parseShuffleSettings(quiz.shuffleSettings));
+
+const countQuestions = (quiz: { shuffleSettings: string | null; _count: { questions: number } }) =>
+  getDrawnCount(quiz._count.questions, shuffleSettingsOf(quiz));
+
+type StoredAttempt = Pick<AssignmentAttempt, 'id' | 'questions' | 'shuffleSettings'>;
+
+// The questions an attempt plays, in play order, and the settings their options are shuffled by.
+// Both are copied onto the attempt when it starts, so edits to the quiz don't change it half way.
+// Attempts started before that was done are drawn from the quiz as it is now.
+const attemptQuestions = (attempt: StoredAttempt, quiz: { shuffleSettings: string | null; questions: any[] }): Question[] =>
+  attempt.questions
+    ? JSON.parse(attempt.questions)
+    : drawQuestions(quiz.questions.map(deserializeQuestion), shuffleSettingsOf(quiz), attempt.id);
+
+const attemptShuffleSettings = (attempt: StoredAttempt, quiz: { shuffleSettings: string | null }) =>
+  attempt.shuffleSettings ? resolveShuffleSettings(parseShuffleSettings(attempt.shuffleSettings)) : shuffleSettingsOf(quiz);
+
+const attemptQuestionCount = (attempt: StoredAttempt, quizQuestionCount: number) =>
+  attempt.questions ? JSON.parse(attempt.questions).length : quizQuestionCount;
+
+// Create an assignment from a quiz
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const { quizId, title, opensAt, closesAt, maxAttempts, scoringConfig } = req.body;
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(quizId)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    const validationError = validateAssignment(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Same rules as hosting a live game
+    const quiz = await prisma.quiz.findUnique({ where: { id: quizId } });
+    if (!quiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    const visibility = (quiz.visibility || 'PUBLIC').toUpperCase();
+    if (visibility === 'DRAFT') {
+      return res.status(403).json({ error: 'Draft quizzes cannot be assigned' });
+    }
+
+    if (visibility === 'PRIVATE' && !(await getQuizRole(quiz, userId))) {
+      return res.status(403).json({ error: 'Only the creator and collaborators can assign a private quiz' });
+    }
+
+    const assignment = await prisma.assignment.create({
+      data: {
+        quizId,
+        hostId: userId,
+        title: sanitizeText(title?.trim() || quiz.title),
+        opensAt: new Date(opensAt),
+        closesAt: new Date(closesAt),
+        maxAttempts: maxAttempts ?? null,
+        scoringConfig: serializeScoringConfig(scoringConfig)
+      },
+      include: { quiz: { select: { title: true, shuffleSettings: true, _count: { select: { questions: true } } } } }
+    });
+
+    res.json({ assignment: toAssignment(assignment, countQuestions(assignment.quiz), userId, 0) });
+  } catch (error) {
+    console.error('Create assignment error:', error);
+    res.status(500).json({ error: 'Failed to create assignment' });
+  }
+});
+
+// Assignments the signed-in teacher has set, newest first
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const rows = await prisma.assignment.findMany({
+      where: { hostId: userId },
+      include: {
+        quiz: { select: { title: true, shuffleSettings: true, _count: { select: { questions: true } } } },
+        _count: { select: { attempts: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      assignments: rows.map((row) => toAssignment(row, countQuestions(row.quiz), userId, row._count.attempts))
+    });
+  } catch (error) {
+    console.error('Get assignments error:', error);
+    res.status(500).json({ error: 'Failed to get assignments' });
+  }
+});
+
+// An assignment and the signed-in student's attempts at it
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    const assignment = await loadAssignment(id);
+    if (!assignment) {
+      return res.status(404).json({ error: 'Assignment not found' });
+    }
+
+    const questionCount = getDrawnCount(assignment.quiz.questions.length, shuffleSettingsOf(assignment.quiz));
+    const attempts = await prisma.assignmentAttempt.findMany({
+      where: { assignmentId: id, userId },
+      orderBy: { startedAt: 'asc' }
+    });
+
+    res.json({
+      assignment: toAssignment(assignment, questionCount, userId),
+      attempts: attempts.map((attempt) => toAttempt(attempt, attemptQuestionCount(attempt, questionCount)))
+    });
+  } catch (error) {
+    console.error('Get assignment error:', error);
+    res.status(500).json({ error: 'Failed to get assignment' });
+  }
+});
+
+// Delete an assignment along with its attempts
+router.delete('/:id', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+
+    const assignment = await prisma.assignment.findUnique({ where: { id } });
+    if (!assignment) {
+      return res.status(404).json({ error: 'Assignment not found' });
+    }
+    if (assignment.hostId !== req.session.userId) {
+      return res.status(403).json({ error: 'Only the teacher who set this assignment can delete it' });
+    }
+
+    await prisma.assignment.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete assignment error:', error);
+    res.status(500).json({ error: 'Failed to delete assignment' });
+  }
+});
+
+// Every student's best finished attempt, ranked
+router.get('/:id/results', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+
+    const assignment = await prisma.assignment.findUnique({ where: { id } });
+    if (!assignment) {
+      return res.status(404).json({ error: 'Assignment not found' });
+    }
+    if (assignment.hostId !== req.session.userId) {
+      return res.status(403).json({ error: 'Only the teacher who set this assignment can see its results' });
+    }
+
+    const attempts = await prisma.assignmentAttempt.findMany({ where: { assignmentId: id } });
+    res.json({ results: rankAssignmentResults(attempts) });
+  } catch (error) {
+    console.error('Get assignment results error:', error);
+    res.status(500).json({ error: 'Failed to get assignment results' });
+  }
+});
+
+// Start an attempt, or pick up the student's unfinished one
+router.post('/:id/attempts', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    const assignment = await loadAssignment(id);
+    if (!assignment) {
+      return res.status(404).json({ error: 'Assignment not found' });
+    }
+    // Answers are only taken while the assignment is open, so unfinished attempts end when it closes
+    const closedError = checkAssignmentOpen(assignment);
+    if (closedError) {
+      return res.status(403).json({ error: closedError });
+    }
+
+    const shuffleSettings = shuffleSettingsOf(assignment.quiz);
+    const questionCount = getDrawnCount(assignment.quiz.questions.length, shuffleSettings);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { username: true, anonymousMode: true } });
+
+    // Checked and started under a lock on the assignment, so a student starting twice at once
+    // gets a single attempt and cannot go over the limit
+    const started = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM assignments WHERE id = ${id} FOR UPDATE`;
+
+      const unfinished = await tx.assignmentAttempt.findFirst({
+        where: { assignmentId: id, userId, completedAt: null }
+      });
+      if (unfinished) return { attempt: unfinished };
+
+      if (assignment.maxAttempts !== null) {
+        const used = await tx.assignmentAttempt.count({ where: { assignmentId: id, userId } });
+        if (used >= assignment.maxAttempts) return { error: 'You have used all your attempts at this assignment' };
+      }
+
+      const created = await tx.assignmentAttempt.create({
+        data: {
+          assignmentId: id,
+          userId,
+          name: user?.anonymousMode ? 'Anonymous' : (user?.username || 'Player')
+        }
+      });
+      // Each attempt draws its own pool and order, seeded by its ID
+      const attempt = await tx.assignmentAttempt.update({
+        where: { id: created.id },
+        data: {
+          questions: JSON.stringify(drawQuestions(assignment.quiz.questions.map(deserializeQuestion), shuffleSettings, created.id)),
+          shuffleSettings: serializeShuffleSettings(shuffleSettings)
+        }
+      });
+      return { attempt };
+    });
+
+    if (!started.attempt) {
+      return res.status(403).json({ error: started.error });
+    }
+
+    res.json({ attempt: toAttempt(started.attempt, attemptQuestionCount(started.attempt, questionCount)) });
+  } catch (error) {
+    console.error('Start attempt error:', error);
+    res.status(500).json({ error: 'Failed to start attempt' });
+  }
+});
+
+// Hand out the attempt's current question without its answer key. The question's timer is set
+// the first time it is handed out, so reloading the page does not reset it.
+router.post('/:id/attempts/:attemptId/question', requireAuth, async (req, res) => {
+  try {
+    let { id, attemptId } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    if (Array.isArray(attemptId)) attemptId = attemptId[0];
+
+    const assignment = await loadAssignment(id);
+    const attempt = await prisma.assignmentAttempt.findUnique({ where: { id: attemptId } });
+    if (!assignment || !attempt || attempt.assignmentId !== id) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+    if (attempt.userId !== req.session.userId) {
+      return res.status(403).json({ error: 'This is not your attempt' });
+    }
+    if (attempt.completedAt) {
+      return res.status(409).json({ error: 'This attempt is already finished' });
+    }
+    const closedError = checkAssignmentOpen(assignment);
+    if (closedError) {
+      return res.status(403).json({ error: closedError });
+    }
+
+    const question = attemptQuestions(attempt, assignment.quiz)[attempt.currentIndex];
+    if (!question) {
+      return res.status(409).json({ error: 'This attempt has no question left' });
+    }
+
+    let startedAt = attempt.questionStartedAt;
+    if (!startedAt) {
+      startedAt = new Date(Date.now() + QUESTION_INTRO_MS);
+      await prisma.assignmentAttempt.updateMany({
+        where: { id: attemptId, currentIndex: attempt.currentIndex, questionStartedAt: null },
+        data: { questionStartedAt: startedAt }
+      });
+    }
+
+    res.json({
+      index: attempt.currentIndex,
+      question: applyOptionOrder(toPlayerQuestion(question), getOptionOrder(question, attemptShuffleSettings(attempt, assignment.quiz), attempt.id)),
+      startedAt: startedAt.getTime(),
+      serverTime: Date.now()
+    });
+  } catch (error) {
+    console.error('Get attempt question error:', error);
+    res.status(500).json({ error: 'Failed to get question' });
+  }
+});
+
+// Grade the answer to the attempt's current question and reveal its answer key
+router.post('/:id/attempts/:attemptId/answer', requireAuth, async (req, res) => {
+  try {
+    let { id, attemptId } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    if (Array.isArray(attemptId)) attemptId = attemptId[0];
+    const { index, answer } = req.body;
+
+    const assignment = await loadAssignment(id);
+    const attempt = await prisma.assignmentAttempt.findUnique({ where: { id: attemptId } });
+    if (!assignment || !attempt || attempt.assignmentId !== id) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+    if (attempt.userId !== req.session.userId) {
+      return res.status(403).json({ error: 'This is not your attempt' });
+    }
+    if (attempt.completedAt || index !== attempt.currentIndex || !attempt.questionStartedAt) {
+      return res.status(409).json({ error: 'This question is not open' });
+    }
+    const closedError = checkAssignmentOpen(assignment);
+    if (closedError) {
+      return res.status(403).json({ error: closedError });
+    }
+
+    const questions = attemptQuestions(attempt, assignment.quiz);
+    const question = questions[attempt.currentIndex];
+    // Picks arrive as positions in the shuffled options the student saw
+    const order = getOptionOrder(question, attemptShuffleSettings(attempt, assignment.quiz), attempt.id);
+    const graded = gradeAttemptAnswer(attempt, question, toCanonicalAnswer(answer, order), questions.length, getGameScoringConfig(assignment));
+
+    // Only the first answer to a question counts, even if two arrive at once
+    const saved = await prisma.assignmentAttempt.updateMany({
+      where: { id: attemptId, currentIndex: attempt.currentIndex },
+      data: graded.update
+    });
+    if (saved.count === 0) {
+      return res.status(409).json({ error: 'This question was already answered' });
+    }
+
+    const updated = await prisma.assignmentAttempt.findUnique({ where: { id: attemptId } });
+    res.json({
+      accuracy: graded.accuracy,
+      points: graded.points,
+      inTime: graded.inTime,
+      answer: applyOptionOrder(getAnswerKey(question), order),
+      attempt: toAttempt(updated!, questions.length)
+    });
+  } catch (error) {
+    console.error('Submit attempt answer error:', error);
+    res.status(500).json({ error: 'Failed to submit answer' });
+  }
+});
+
+export default router;
@@ -0,0 +1,204 @@
+import { Router } from 'express';
+import prisma from '../prisma.js';
+import { requireAuth } from '../middleware/auth.js';
+import { isValidUUID } from '../middleware/inputValidation.js';
+import { deserializeQuestion, sanitizeQuestion, serializeQuestionContent, validateQuestion, validateQuestionLimits } from '../services/questionService.js';
+import { MAX_BANK_SIZE, normalizeTags, toBankQuestion, validateTags } from '../services/bankService.js';
+import { findLockConflict, lockQuiz, recordBaseline, recordRevision } from '../services/revisionService.js';
+import { releaseStaleLocks } from '../editorPresence.js';
+import { editableQuizWhere } from '../services/collaboratorService.js';
+
+const router = Router();
+
+const withUsage = { _count: { select: { questions: true } } };
+
+const validateBankQuestion = (q: any): string | null =>
+  validateQuestionLimits(q, 'Question') || validateQuestion(q, 'Question');
+
+// The signed-in author's bank, filtered by text and tag, with every tag they use
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+    const search = req.query.search ? String(req.query.search).trim().substring(0, 100) : null;
+    const tag = req.query.tag ? String(req.query.tag).trim().toLowerCase() : null;
+
+    const rows = await prisma.bankQuestion.findMany({
+      where: { userId },
+      include: withUsage,
+      orderBy: { updatedAt: 'desc' }
+    });
+    const questions = rows.map(toBankQuestion);
+    const tags = [...new Set(questions.flatMap(q => q.tags))].sort();
+
+    const needle = search?.toLowerCase();
+    const matches = questions.filter(q =>
+      (!tag || q.tags.includes(tag)) &&
+      (!needle || q.text.toLowerCase().includes(needle) || q.tags.some(t => t.includes(needle)))
+    );
+
+    res.json({ questions: matches, tags });
+  } catch (error) {
+    console.error('Get question bank error:', error);
+    res.status(500).json({ error: 'Failed to fetch question bank' });
+  }
+});
+
+// Save a question to the bank
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const { question, tags = [] } = req.body;
+    const userId = req.session.userId!;
+
+    const validationError = validateBankQuestion(question) || validateTags(tags);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const count = await prisma.bankQuestion.count({ where: { userId } });
+    if (count >= MAX_BANK_SIZE) {
+      return res.status(400).json({ error: `Your question bank is full (${MAX_BANK_SIZE} questions)` });
+    }
+
+    const row = await prisma.bankQuestion.create({
+      data: {
+        ...serializeQuestionContent(sanitizeQuestion(question)),
+        tags: JSON.stringify(normalizeTags(tags)),
+        userId
+      },
+      include: withUsage
+    });
+
+    res.json({ question: toBankQuestion(row) });
+  } catch (error) {
+    console.error('Create bank question error:', error);
+    res.status(500).json({ error: 'Failed to save question to bank' });
+  }
+});
+
+// Edit a bank entry's question or tags. Linked quiz questions keep their copy until it is pushed.
+router.put('/:id', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const { question, tags } = req.body;
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid question ID format' });
+    }
+
+    const validationError = (question !== undefined ? validateBankQuestion(question) : null) ||
+      (tags !== undefined ? validateTags(tags) : null);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const existing = await prisma.bankQuestion.findUnique({ where: { id } });
+    if (!existing || existing.userId !== userId) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const row = await prisma.bankQuestion.update({
+      where: { id },
+      data: {
+        ...(question !== undefined && serializeQuestionContent(sanitizeQuestion(question))),
+        ...(tags !== undefined && { tags: JSON.stringify(normalizeTags(tags)) })
+      },
+      include: withUsage
+    });
+
+    res.json({ question: toBankQuestion(row) });
+  } catch (error) {
+    console.error('Update bank question error:', error);
+    res.status(500).json({ error: 'Failed to update bank question' });
+  }
+});
+
+// Remove a bank entry. Quiz questions inserted from it stay, just no longer linked.
+router.delete('/:id', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid question ID format' });
+    }
+
+    const existing = await prisma.bankQuestion.findUnique({ where: { id } });
+    if (!existing || existing.userId !== userId) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    await prisma.bankQuestion.delete({ where: { id } });
+
+    res.json({ message: 'Question removed from bank' });
+  } catch (error) {
+    console.error('Delete bank question error:', error);
+    res.status(500).json({ error: 'Failed to delete bank question' });
+  }
+});
+
+// Copy a bank entry over every quiz question linked to it in quizzes the author can edit.
+// Each question keeps its place in its quiz. Quizzes where someone else is editing a linked question are skipped.
+router.post('/:id/push', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid question ID format' });
+    }
+
+    const existing = await prisma.bankQuestion.findUnique({ where: { id } });
+    if (!existing || existing.userId !== userId) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const where = { bankQuestionId: id, quiz: editableQuizWhere(userId) };
+    const bankCopy = deserializeQuestion(existing);
+    const content = serializeQuestionContent(bankCopy);
+
+    const linkedQuizzes = await prisma.question.findMany({ where, select: { quizId: true }, distinct: ['quizId'] });
+    for (const { quizId } of linkedQuizzes) {
+      await releaseStaleLocks(quizId);
+    }
+
+    // Each quiz is locked like a save, in a set order so two pushes never wait on each other,
+    // and gets a version in its history for the change
+    const pushed = await prisma.$transaction(async (tx) => {
+      const linked = await tx.question.findMany({ where, select: { quizId: true } });
+      const quizIds = [...new Set(linked.map(q => q.quizId))].sort();
+      let questionCount = 0;
+      let quizCount = 0;
+      const skipped: string[] = [];
+      for (const quizId of quizIds) {
+        const quiz = await lockQuiz(tx, quizId);
+        if (!quiz) continue;
+
+        const conflict = await findLockConflict(tx, quiz, userId, stored => [stored.bankQuestionId === id ? bankCopy : stored]);
+        if (conflict) {
+          skipped.push(`${quiz.title}: ${conflict}`);
+          continue;
+        }
+        await recordBaseline(quiz, tx);
+
+        const updated = await tx.question.updateMany({ where: { ...where, quizId }, data: content });
+        if (updated.count === 0) continue;
+        questionCount += updated.count;
+        quizCount++;
+        const saved = await tx.quiz.update({ where: { id: quizId }, data: { updatedAt: new Date() }, include: { questions: true } });
+        await recordRevision(saved, 'BANK_PUSH', userId, { note: `Bank question updated: ${existing.text}` }, tx);
+      }
+      return { questionCount, quizCount, skipped };
+    });
+
+    res.json(pushed);
+  } catch (error) {
+    console.error('Push bank question error:', error);
+    res.status(500).json({ error: 'Failed to update linked quizzes' });
+  }
+});
+
+export default router;
@@ -3,20 +3,17 @@ import prisma from '../prisma.js';
 import { requireAuth } from '../middleware/auth.js';
 import { isValidUUID } from '../middleware/inputValidation.js';
 import rateLimit from 'express-rate-limit';
-
-// Helper to deserialize questions from quiz
-const deserializeQuestion = (q: any) => ({
-  ...q,
-  options: q.options ? JSON.parse(q.options) : [],
-  correctIndices: q.correctIndices ? JSON.parse(q.correctIndices) : [],
-  correctTexts: q.correctTexts ? JSON.parse(q.correctTexts) : null,
-  correctSequence: q.correctSequence ? JSON.parse(q.correctSequence) : null,
-  correctRegions: q.correctRegions ? JSON.parse(q.correctRegions) : null,
-  targetLatLng: q.targetLatLng ? JSON.parse(q.targetLatLng) : null
-});
-
-// Validate PIN format (should be numeric string)
-const isValidPIN = (pin: string): boolean => /^\d{6,8}$/.test(pin);
+import { toPlayerQuiz } from '../services/questionService.js';
+import { endGameSession } from '../services/gameService.js';
+import { toPlayer } from '../services/playerService.js';
+import { parseTeamSettings } from '../services/teamService.js';
+import { isBanned } from '../services/lobbyService.js';
+import { getQuizRole } from '../services/collaboratorService.js';
+import { getGameScoringConfig, parseScoringConfig, serializeScoringConfig, validateScoringConfig } from '../services/scoringService.js';
+import { getGameQuestions, getGameShuffleSettings, getPlayerOptionOrder, parseShuffleSettings, serializeShuffleSettings, validateShuffleSettings } from '../services/shuffleService.js';
+import { applyOptionOrder } from '../../src/utils/shuffle.js';
+import { checkReservedPin, createWithPin, getReservedPinsFor, isPinTaken, isValidPin } from '../services/pinService.js';
+import { releaseEndedPin } from '../socket.js';
 
 const router = Router();
 
@@ -34,7 +31,7 @@ const createGameLimiter = rateLimit({
 // Create game session
 router.post('/create', createGameLimiter, requireAuth, async (req, res) => {
   try {
-    const { quizId, solo } = req.body;
+    const { quizId, solo, scoringConfig, shuffleSettings, pin: reservedPin } = req.body;
     const userId = req.session.userId!;
 
     // Validate quiz ID format
@@ -42,10 +39,33 @@ router.post('/create', createGameLimiter, requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Invalid quiz ID format' });
     }
 
+    // The host may play by different scoring rules than the quiz's own
+    const scoringError = scoringConfig ? validateScoringConfig(scoringConfig) : null;
+    if (scoringError) {
+      return res.status(400).json({ error: scoringError });
+    }
+
+    // ...and draw or shuffle its questions differently
+    const shuffleError = shuffleSettings ? validateShuffleSettings(shuffleSettings) : null;
+    if (shuffleError) {
+      return res.status(400).json({ error: shuffleError });
+    }
+
+    // Hosts may start a game under a PIN an admin reserved for them
+    if (reservedPin !== undefined) {
+      if (typeof reservedPin !== 'string' || !isValidPin(reservedPin)) {
+        return res.status(400).json({ error: 'Invalid PIN format' });
+      }
+      const pinError = await checkReservedPin(reservedPin, userId);
+      if (pinError) {
+        return res.status(403).json({ error: pinError });
+      }
+    }
+
     // Validate quiz visibility and ownership before allowing hosting
     const quiz = await prisma.quiz.findUnique({
       where: { id: quizId },
-      include: { questions: true }
+      include: { questions: { orderBy: { orderIndex: 'asc' } } }
     });
 
     if (!quiz) {
@@ -57,35 +77,51 @@ router.post('/create', createGameLimiter, requireAuth, async (req, res) => {
       return res.status(403).json({ error: 'Draft quizzes cannot be hosted' });
     }
 
-    if (visibility === 'PRIVATE' && quiz.userId !== userId) {
-      return res.status(403).json({ error: 'Only the creator can host a private quiz' });
+    if (visibility === 'PRIVATE' && !(await getQuizRole(quiz, userId))) {
+      return res.status(403).json({ error: 'Only the creator and collaborators can host a private quiz' });
     }
 
-    // Generate unique PIN
-    const pin = Math.abs(Math.random() * 1000000 | 0).toString().padStart(6, '0');
-
     // If solo mode, add bots to the initial players array
     const initialPlayers = solo ? [
-      { id: 'bot1', name: 'CyberLink', score: 0, lastAnswerCorrect: false, streak: 0, isBot: true },
-      { id: 'bot2', name: 'NeuralX', score: 0, lastAnswerCorrect: false, streak: 0, isBot: true }
+      { playerId: 'bot1', name: 'CyberLink', isBot: true },
+      { playerId: 'bot2', name: 'NeuralX', isBot: true }
     ] : [];
 
-    const session = await prisma.gameSession.create({
+    const createSession = (pin: string) => prisma.gameSession.create({
       data: {
         pin,
         quizId,
         hostId: userId,
-        players: JSON.stringify(initialPlayers)
-      }
+        scoringConfig: serializeScoringConfig(scoringConfig),
+        shuffleSettings: serializeShuffleSettings(shuffleSettings),
+        players: { create: initialPlayers }
+      },
+      include: { players: { orderBy: { joinedAt: 'asc' } } }
     });
 
+    let session;
+    try {
+      if (reservedPin) await releaseEndedPin(reservedPin);
+      session = reservedPin ? await createSession(reservedPin) : await createWithPin(createSession);
+    } catch (error) {
+      if (reservedPin && isPinTaken(error)) {
+        return res.status(409).json({ error: 'A game is already running under that PIN' });
+      }
+      throw error;
+    }
+
     // Deserialize data
     const deserializedSession = {
       ...session,
-      players: JSON.parse(session.players),
+      scoringConfig: getGameScoringConfig({ ...session, quiz }),
+      shuffleSettings: getGameShuffleSettings({ ...session, quiz }),
+      teamSettings: parseTeamSettings(session.teamSettings),
+      players: session.players.map(toPlayer),
       quiz: {
         ...quiz,
-        questions: quiz.questions.map(deserializeQuestion)
+        scoringConfig: parseScoringConfig(quiz.scoringConfig),
+        shuffleSettings: parseShuffleSettings(quiz.shuffleSettings),
+        questions: getGameQuestions({ ...session, quiz })
       }
     };
 
@@ -96,13 +132,24 @@ router.post('/create', createGameLimiter, requireAuth, async (req, res) => {
   }
 });
 
+// Reserved PINs the signed-in host can start games under
+router.get('/reserved-pins', requireAuth, async (req, res) => {
+  try {
+    const pins = await getReservedPinsFor(req.session.userId!);
+    res.json({ pins });
+  } catch (error) {
+    console.error('Get reserved PINs error:', error);
+    res.status(500).json({ error: 'Failed to get reserved PINs' });
+  }
+});
+
 // Join game session
 router.post('/join', async (req, res) => {
   try {
     const { pin, playerName, userId } = req.body;
 
     // Validate PIN format
-    if (!isValidPIN(pin)) {
+    if (!isValidPin(pin)) {
       return res.status(400).json({ error: 'Invalid PIN format' });
     }
 
@@ -116,9 +163,10 @@ router.post('/join', async (req, res) => {
       include: {
         quiz: {
           include: {
-            questions: true
+            questions: { orderBy: { orderIndex: 'asc' } }
           }
-        }
+        },
+        players: { orderBy: { joinedAt: 'asc' } }
       }
     });
 
@@ -127,39 +175,55 @@ router.post('/join', async (req, res) => {
     }
 
     const visibility = (session.quiz.visibility || 'PUBLIC').toUpperCase();
-    const hostIsCreator = session.quiz.userId === session.hostId;
     if (visibility === 'DRAFT') {
       return res.status(403).json({ error: 'This draft quiz cannot be hosted' });
     }
 
-    if (visibility === 'PRIVATE' && !hostIsCreator) {
-      return res.status(403).json({ error: 'This private quiz can only be hosted by its creator' });
+    if (visibility === 'PRIVATE' && !(await getQuizRole(session.quiz, session.hostId))) {
+      return res.status(403).json({ error: 'This private quiz can only be hosted by its creator and collaborators' });
     }
 
     if (!session.isActive) {
       return res.status(410).json({ error: 'Game has already started and is no longer joinable' });
     }
 
-    // Deserialize players
-    const players = JSON.parse(session.players);
-    const existingPlayer = players.find((p: any) => 
+    const players = session.players.map(toPlayer);
+    const existingPlayer = players.find((p) => 
       (userId && p.userId === userId) || p.name === playerName
     );
 
-    // Deserialize data
+    // Deserialize data - answer keys stay on the server until each question is revealed, and so
+    // does which quiz this is, since a public quiz's keys can be read through the quiz API
+    const isHost = req.session?.userId === session.hostId;
+    const quiz = {
+      ...session.quiz,
+      scoringConfig: parseScoringConfig(session.quiz.scoringConfig),
+      shuffleSettings: parseShuffleSettings(session.quiz.shuffleSettings),
+      questions: getGameQuestions(session)
+    };
     const deserializedSession = {
       ...session,
+      scoringConfig: getGameScoringConfig(session),
+      shuffleSettings: getGameShuffleSettings(session),
+      teamSettings: parseTeamSettings(session.teamSettings),
+      quizId: isHost ? session.quizId : undefined,
+      questions: undefined, // the game's own copy, sent as the quiz's questions
       players,
-      quiz: {
-        ...session.quiz,
-        questions: session.quiz.questions.map(deserializeQuestion)
-      }
+      quiz: isHost ? quiz : toPlayerQuiz(quiz)
     };
 
     if (existingPlayer) {
       return res.json({ session: deserializedSession, player: existingPlayer });
     }
 
+    if (isBanned(session, undefined, userId)) {
+      return res.status(403).json({ error: 'You have been removed from this game' });
+    }
+
+    if (session.isLocked) {
+      return res.status(403).json({ error: 'The host has locked this game' });
+    }
+
     res.json({ session: deserializedSession });
   } catch (error) {
     console.error('Join game error:', error);
@@ -173,7 +237,7 @@ router.get('/:pin', async (req, res) => {
     const { pin } = req.params;
 
     // Validate PIN format
-    if (!isValidPIN(pin)) {
+    if (!isValidPin(pin)) {
       return res.status(400).json({ error: 'Invalid PIN format' });
     }
 
@@ -188,7 +252,8 @@ router.get('/:pin', async (req, res) => {
               }
             }
           }
-        }
+        },
+        players: { orderBy: { joinedAt: 'asc' } }
       }
     });
 
@@ -197,27 +262,45 @@ router.get('/:pin', async (req, res) => {
     }
 
     const visibility = (session.quiz.visibility || 'PUBLIC').toUpperCase();
-    const hostIsCreator = session.quiz.userId === session.hostId;
     if (visibility === 'DRAFT') {
       return res.status(403).json({ error: 'This draft quiz cannot be hosted' });
     }
 
-    if (visibility === 'PRIVATE' && !hostIsCreator) {
-      return res.status(403).json({ error: 'This private quiz can only be hosted by its creator' });
+    if (visibility === 'PRIVATE' && !(await getQuizRole(session.quiz, session.hostId))) {
+      return res.status(403).json({ error: 'This private quiz can only be hosted by its creator and collaborators' });
     }
 
-    if (!session.isActive) {
+    // Sessions stop being joinable once they start, but stay readable until they end
+    if (session.state === 'ENDED') {
       return res.status(410).json({ error: 'This game session has ended or does not exist' });
     }
 
-    // Deserialize data
+    // A player who names themselves gets the options in their own shuffled order, answer keys included
+    // for the host. Anyone else, such as a projector display, gets them as written.
+    const shuffleSettings = getGameShuffleSettings(session);
+    const viewer = session.players.find((p) => p.playerId === req.query.playerId);
+
+    // Deserialize data - only the host receives the answer keys and the quiz ID
+    const isHost = req.session?.userId === session.hostId;
+    const quiz = {
+      ...session.quiz,
+      scoringConfig: parseScoringConfig(session.quiz.scoringConfig),
+      shuffleSettings: parseShuffleSettings(session.quiz.shuffleSettings),
+      questions: getGameQuestions(session)
+    };
+    const viewerQuiz = isHost ? quiz : toPlayerQuiz(quiz);
     const deserializedSession = {
       ...session,
-      players: JSON.parse(session.players),
-      quiz: {
-        ...session.quiz,
-        questions: session.quiz.questions.map(deserializeQuestion)
-      }
+      quizId: isHost ? session.quizId : undefined,
+      questions: undefined, // the game's own copy, sent as the quiz's questions
+      scoringConfig: getGameScoringConfig(session),
+      shuffleSettings,
+      teamSettings: parseTeamSettings(session.teamSettings),
+      players: session.players.map(toPlayer),
+      quiz: viewer ? {
+        ...viewerQuiz,
+        questions: viewerQuiz.questions.map((q) => applyOptionOrder(q, getPlayerOptionOrder(q, shuffleSettings, session.id, viewer.playerId)))
+      } : viewerQuiz
     };
 
     res.json({ session: deserializedSession });
@@ -227,100 +310,32 @@ router.get('/:pin', async (req, res) => {
   }
 });
 
-// Update game session
-router.put('/:pin', async (req, res) => {
-  try {
-    const { pin } = req.params;
-    const { players, currentQuestionIndex, state, isActive } = req.body;
-
-    // Validate PIN format
-    if (!isValidPIN(pin)) {
-      return res.status(400).json({ error: 'Invalid PIN format' });
-    }
-
-    // Validate currentQuestionIndex if provided
-    if (currentQuestionIndex !== undefined && (typeof currentQuestionIndex !== 'number' || currentQuestionIndex < 0)) {
-      return res.status(400).json({ error: 'Invalid question index' });
-    }
-
-    const updateData: any = {};
-    if (players !== undefined) updateData.players = JSON.stringify(players);
-    if (currentQuestionIndex !== undefined) updateData.currentQuestionIndex = currentQuestionIndex;
-    if (state !== undefined) updateData.state = state;
-    if (isActive !== undefined) updateData.isActive = isActive;
-
-    const session = await prisma.gameSession.update({
-      where: { pin },
-      data: updateData
-    });
-
-    // Deserialize data
-    const deserializedSession = {
-      ...session,
-      players: JSON.parse(session.players)
-    };
-
-    res.json({ session: deserializedSession });
-  } catch (error) {
-    console.error('Update game error:', error);
-    res.status(500).json({ error: 'Failed to update game session' });
-  }
-});
-
 // End game and award points
-router.post('/:pin/end', async (req, res) => {
+router.post('/:pin/end', requireAuth, async (req, res) => {
   try {
-    const { pin } = req.params;
-    const { players } = req.body;
+    let { pin } = req.params;
+    if (Array.isArray(pin)) pin = pin[0];
 
     // Validate PIN format
-    if (!isValidPIN(pin)) {
+    if (!isValidPin(pin)) {
       return res.status(400).json({ error: 'Invalid PIN format' });
     }
 
-    // Validate players array
-    if (!Array.isArray(players)) {
-      return res.status(400).json({ error: 'Invalid players data' });
+    const existing = await prisma.gameSession.findUnique({ where: { pin }, select: { hostId: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+    if (existing.hostId !== req.session.userId) {
+      return res.status(403).json({ error: 'Only the host can end this game' });
     }
 
-    const session = await prisma.gameSession.update({
-      where: { pin },
-      data: {
-        isActive: false,
-        players: JSON.stringify(players)
-      }
-    });
+    const session = await endGameSession(pin);
 
-    // Award XP and points to logged-in players
-    for (const player of players as any[]) {
-      if (player.userId) {
-        const xpGain = Math.floor(player.score / 10);
-        const coinsGain = Math.floor(player.score / 100);
-        
-        await prisma.user.update({
-          where: { id: player.userId },
-          data: {
-            totalPoints: {
-              increment: player.score
-            },
-            xp: {
-              increment: xpGain
-            },
-            coins: {
-              increment: coinsGain
-            }
-          }
-        });
-      }
+    if (!session) {
+      return res.status(404).json({ error: 'Game not found' });
     }
 
-    // Deserialize data
-    const deserializedSession = {
-      ...session,
-      players: JSON.parse(session.players)
-    };
-
-    res.json({ session: deserializedSession });
+    res.json({ session });
   } catch (error) {
     console.error('End game error:', error);
     res.status(500).json({ error: 'Failed to end game' });
@@ -3,6 +3,15 @@ import prisma from '../prisma.js';
 import { requireAuth } from '../middleware/auth.js';
 import { isValidUUID, sanitizeText } from '../middleware/inputValidation.js';
 import { generateQuizFromAI, modifyQuizWithAI } from '../services/aiService.js';
+import { getQuizAnalytics } from '../services/analyticsService.js';
+import { deserializeQuestion, sanitizeQuestion, serializeQuestion, validateQuestion, validateQuestionLimits } from '../services/questionService.js';
+import { keepOwnBankLinks } from '../services/bankService.js';
+import { RevisionContent, diffRevisions, findLockConflict, getLatestVersion, lockQuiz, mergeConcurrentSave, parseRevisionContent, recordBaseline, recordRevision, toRevision, toRevisionContent } from '../services/revisionService.js';
+import { releaseStaleLocks, removeEditor } from '../editorPresence.js';
+import { MAX_COLLABORATORS, canEditQuiz, getQuizRole, isCollaboratorRole, toCollaborator } from '../services/collaboratorService.js';
+import { parseScoringConfig, serializeScoringConfig, validateScoringConfig } from '../services/scoringService.js';
+import { parseShuffleSettings, serializeShuffleSettings, validateShuffleSettings } from '../services/shuffleService.js';
+import { Question } from '../../src/types.js';
 import rateLimit from 'express-rate-limit';
 
 // Rate limiter for AI endpoints to prevent abuse / DoS
@@ -17,50 +26,27 @@ const aiLimiter = rateLimit({
   legacyHeaders: false
 });
 
-// Helper to serialize JSON fields to strings for SQLite
-const serializeQuestion = (q: any, index: number) => ({
-  type: q.type,
-  pointType: q.pointType || 'NORMAL',
-  text: q.text,
-  options: JSON.stringify(q.options || []),
-  correctIndices: JSON.stringify(q.correctIndices || []),
-  correctTexts: q.correctTexts ? JSON.stringify(q.correctTexts) : null,
-  correctSequence: q.correctSequence ? JSON.stringify(q.correctSequence) : null,
-  correctValue: q.correctValue,
-  minValue: q.minValue,
-  maxValue: q.maxValue,
-  stepValue: q.stepValue,
-  imageUrl: q.imageUrl,
-  audioUrl: q.audioUrl,
-  correctRegions: q.correctRegions ? JSON.stringify(q.correctRegions) : null,
-  targetLatLng: q.targetLatLng ? JSON.stringify(q.targetLatLng) : null,
-  isCaseSensitive: q.isCaseSensitive || false,
-  timeLimit: q.timeLimit || 20,
-  orderIndex: index
-});
-
-// Helper to deserialize JSON strings back to objects/arrays
-const deserializeQuestion = (q: any) => ({
-  ...q,
-  options: q.options ? JSON.parse(q.options) : [],
-  correctIndices: q.correctIndices ? JSON.parse(q.correctIndices) : [],
-  correctTexts: q.correctTexts ? JSON.parse(q.correctTexts) : null,
-  correctSequence: q.correctSequence ? JSON.parse(q.correctSequence) : null,
-  correctRegions: q.correctRegions ? JSON.parse(q.correctRegions) : null,
-  targetLatLng: q.targetLatLng ? JSON.parse(q.targetLatLng) : null
-});
-
 const router = Router();
 
 // Character limits
 const LIMITS = {
   QUIZ_TITLE: 100,
-  QUIZ_DESCRIPTION: 500,
-  QUESTION_TEXT: 300,
-  ANSWER_OPTION: 150,
-  CORRECT_ANSWER: 150
+  QUIZ_DESCRIPTION: 500
+};
+
+// Questions keep their ID across saves while it still belongs to this quiz, so open editors,
+// question locks and merges can tell them apart. Anything else gets a new ID.
+const toQuestionRows = (questions: any[], currentIds: Set<string>) => {
+  const kept = new Set<string>();
+  return questions.map((q, index) => {
+    const keepId = currentIds.has(q.id) && !kept.has(q.id);
+    if (keepId) kept.add(q.id);
+    return { ...(keepId && { id: q.id }), ...serializeQuestion(q, index) };
+  });
 };
 
+const withUser = { user: { select: { username: true, profilePicture: true } } };
+
 const normalizeVisibility = (v: any): 'PUBLIC' | 'PRIVATE' | 'DRAFT' => {
   if (v === 'PRIVATE') return 'PRIVATE';
   if (v === 'DRAFT') return 'DRAFT';
@@ -83,39 +69,8 @@ const validateCharacterLimits = (quiz: any): string | null => {
 
   if (Array.isArray(quiz?.questions)) {
     for (let i = 0; i < quiz.questions.length; i++) {
-      const q = quiz.questions[i];
-      const label = `Question ${i + 1}`;
-
-      if (q?.text && q.text.length > LIMITS.QUESTION_TEXT) {
-        return `${label} text exceeds ${LIMITS.QUESTION_TEXT} character limit (${q.text.length} characters)`;
-      }
-
-      if (Array.isArray(q?.options)) {
-        for (let j = 0; j < q.options.length; j++) {
-          const option = q.options[j];
-          if (option && String(option).length > LIMITS.ANSWER_OPTION) {
-            return `${label} option ${j + 1} exceeds ${LIMITS.ANSWER_OPTION} character limit (${String(option).length} characters)`;
-          }
-        }
-      }
-
-      if (Array.isArray(q?.correctTexts)) {
-        for (let j = 0; j < q.correctTexts.length; j++) {
-          const answer = q.correctTexts[j];
-          if (answer && String(answer).length > LIMITS.CORRECT_ANSWER) {
-            return `${label} correct answer ${j + 1} exceeds ${LIMITS.CORRECT_ANSWER} character limit (${String(answer).length} characters)`;
-          }
-        }
-      }
-
-      if (Array.isArray(q?.correctSequence)) {
-        for (let j = 0; j < q.correctSequence.length; j++) {
-          const step = q.correctSequence[j];
-          if (step && String(step).length > LIMITS.ANSWER_OPTION) {
-            return `${label} sequence step ${j + 1} exceeds ${LIMITS.ANSWER_OPTION} character limit (${String(step).length} characters)`;
-          }
-        }
-      }
+      const limitError = validateQuestionLimits(quiz.questions[i], `Question ${i + 1}`);
+      if (limitError) return limitError;
     }
   }
 
@@ -140,62 +95,9 @@ const validatePlayableQuiz = (quiz: any): string | null => {
     return 'At least one question is required';
   }
 
-  const allowedTypes = new Set(['MULTIPLE_CHOICE', 'TRUE_FALSE', 'INPUT', 'PUZZLE', 'POLL', 'WORD_CLOUD', 'AUDIO_QUIZ', 'IMAGE_QUIZ']);
-
   for (let i = 0; i < quiz.questions.length; i++) {
-    const q = quiz.questions[i];
-    const label = `Question ${i + 1}`;
-
-    if (!q?.text || !q.text.trim()) {
-      return `${label} is missing text`;
-    }
-
-    if (!allowedTypes.has(q?.type)) {
-      return `${label} has an unsupported type`;
-    }
-
-    if (typeof q.timeLimit !== 'number' || q.timeLimit <= 0) {
-      return `${label} has an invalid time limit`;
-    }
-
-    if (q.type === 'MULTIPLE_CHOICE' || q.type === 'TRUE_FALSE' || q.type === 'AUDIO_QUIZ' || q.type === 'IMAGE_QUIZ') {
-      if (!Array.isArray(q.options) || q.options.length < 2) {
-        return `${label} needs at least two options`;
-      }
-      if (!Array.isArray(q.correctIndices) || q.correctIndices.length === 0) {
-        return `${label} must have at least one correct option`;
-      }
-    }
-
-    if (q.type === 'TRUE_FALSE') {
-      if (q.options.length !== 2) {
-        return `${label} must have exactly two options (True/False)`;
-      }
-    }
-
-    if (q.type === 'INPUT') {
-      if (!Array.isArray(q.correctTexts) || q.correctTexts.length === 0) {
-        return `${label} must include at least one accepted answer`;
-      }
-    }
-
-    if (q.type === 'PUZZLE') {
-      if (!Array.isArray(q.correctSequence) || q.correctSequence.length < 2) {
-        return `${label} must include an ordered sequence with at least two steps`;
-      }
-    }
-
-    if (q.type === 'WORD_CLOUD') {
-      // WORD_CLOUD just needs text, no options or correct answers needed
-    }
-
-    if (q.type === 'AUDIO_QUIZ' && !q.audioUrl) {
-      return `${label} is missing an audio URL`;
-    }
-
-    if (q.type === 'IMAGE_QUIZ' && !q.imageUrl) {
-      return `${label} is missing an image URL`;
-    }
+    const questionError = validateQuestion(quiz.questions[i], `Question ${i + 1}`);
+    if (questionError) return questionError;
   }
 
   return null;
@@ -277,16 +179,20 @@ const normalizeAiQuiz = (incoming: any, original: any) => {
       correctIndices,
       correctTexts: q?.correctTexts || correctTexts,
       correctSequence: q?.correctSequence || correctSequence,
+      puzzleScoring: q?.puzzleScoring,
       timeLimit,
       imageUrl: q?.imageUrl,
       audioUrl: q?.audioUrl,
       isCaseSensitive: Boolean(q?.isCaseSensitive),
+      matchSettings: q?.matchSettings,
       targetLatLng: q?.targetLatLng,
       correctRegions: q?.correctRegions,
       minValue: q?.minValue,
       maxValue: q?.maxValue,
       stepValue: q?.stepValue,
-      correctValue: q?.correctValue
+      correctValue: q?.correctValue,
+      backText: q?.backText,
+      bankQuestionId: q?.bankQuestionId
     };
   };
 
@@ -453,6 +359,7 @@ router.get('/', async (req, res) => {
       ...quiz,
       authorName: quiz.user.username,
       authorProfilePicture: quiz.user.profilePicture,
+      shuffleSettings: parseShuffleSettings(quiz.shuffleSettings),
       questions: quiz.questions.map(deserializeQuestion)
     }));
 
@@ -463,6 +370,44 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Quizzes shared with the signed-in user, and invitations they have not answered yet
+router.get('/shared', requireAuth, async (req, res) => {
+  try {
+    const userId = req.session.userId!;
+
+    const rows = await prisma.quizCollaborator.findMany({
+      where: { userId },
+      include: {
+        quiz: {
+          include: {
+            questions: { orderBy: { orderIndex: 'asc' } },
+            ...withUser
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const toSharedQuiz = (row: typeof rows[number]) => ({
+      ...row.quiz,
+      authorName: row.quiz.user.username,
+      authorProfilePicture: row.quiz.user.profilePicture,
+      scoringConfig: parseScoringConfig(row.quiz.scoringConfig),
+      shuffleSettings: parseShuffleSettings(row.quiz.shuffleSettings),
+      questions: row.quiz.questions.map(deserializeQuestion),
+      role: row.role
+    });
+
+    res.json({
+      quizzes: rows.filter(row => row.acceptedAt).map(toSharedQuiz),
+      invitations: rows.filter(row => !row.acceptedAt).map(toSharedQuiz)
+    });
+  } catch (error) {
+    console.error('Get shared quizzes error:', error);
+    res.status(500).json({ error: 'Failed to fetch shared quizzes' });
+  }
+});
+
 // Get single quiz
 router.get('/:id', async (req, res) => {
   try {
@@ -505,16 +450,21 @@ router.get('/:id', async (req, res) => {
       isAdmin = viewer?.adminRole === 'ADMIN';
     }
 
-    const isOwner = viewerId && viewerId === quiz.userId;
-    // Allow access if: owner, admin, or public quiz
-    if (!isOwner && !isAdmin && quiz.visibility !== 'PUBLIC') {
+    const role = await getQuizRole(quiz, viewerId);
+    // Allow access if: owner, collaborator, admin, or public quiz
+    if (!role && !isAdmin && quiz.visibility !== 'PUBLIC') {
       return res.status(404).json({ error: 'Quiz not found' });
     }
 
-    // Deserialize JSON strings back to objects
+    // Deserialize JSON strings back to objects. Those who can edit also get the version
+    // they are starting from, so concurrent saves can be merged.
     const deserializedQuiz = {
       ...quiz,
-      questions: quiz.questions.map(deserializeQuestion)
+      scoringConfig: parseScoringConfig(quiz.scoringConfig),
+      shuffleSettings: parseShuffleSettings(quiz.shuffleSettings),
+      questions: quiz.questions.map(deserializeQuestion),
+      role: role ?? undefined,
+      version: canEditQuiz(role) ? await getLatestVersion(quiz.id) : undefined
     };
 
     res.json({ quiz: deserializedQuiz });
@@ -527,7 +477,7 @@ router.get('/:id', async (req, res) => {
 // Create quiz (requires auth)
 router.post('/', requireAuth, async (req, res) => {
   try {
-    const { title, genre, description, questions, visibility } = req.body;
+    const { title, genre, description, questions, visibility, scoringConfig, shuffleSettings, revisionNote } = req.body;
     const userId = req.session.userId!;
 
     const validationError = validatePlayableQuiz({ title, genre, questions });
@@ -535,6 +485,16 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(400).json({ error: validationError });
     }
 
+    const scoringError = scoringConfig ? validateScoringConfig(scoringConfig) : null;
+    if (scoringError) {
+      return res.status(400).json({ error: scoringError });
+    }
+
+    const shuffleError = shuffleSettings ? validateShuffleSettings(shuffleSettings) : null;
+    if (shuffleError) {
+      return res.status(400).json({ error: shuffleError });
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: userId }
     });
@@ -543,21 +503,20 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    const linkedQuestions = await keepOwnBankLinks(userId, questions);
+
     const quiz = await prisma.quiz.create({
       data: {
         title: sanitizeText(title),
         genre,
         description: sanitizeText(description || ''),
         visibility: normalizeVisibility(visibility),
+        scoringConfig: serializeScoringConfig(scoringConfig),
+        shuffleSettings: serializeShuffleSettings(shuffleSettings),
         authorName: user.username,
         userId,
         questions: {
-          create: questions.map((q: any) => serializeQuestion({
-            ...q,
-            text: sanitizeText(q.text),
-            options: (q.options || []).map((opt: any) => sanitizeText(opt)),
-            correctTexts: (q.correctTexts || []).map((text: any) => sanitizeText(text))
-          }, q.__index || 0))
+          create: linkedQuestions.map((q: any) => serializeQuestion(sanitizeQuestion(q), q.__index || 0))
         }
       },
       include: {
@@ -565,11 +524,17 @@ router.post('/', requireAuth, async (req, res) => {
       }
     });
 
+    const revision = await recordRevision(quiz, 'CREATE', userId, { note: revisionNote });
+
     // Deserialize JSON strings back to objects
     const deserializedQuiz = {
       ...quiz,
       authorProfilePicture: user.profilePicture,
-      questions: quiz.questions.map(deserializeQuestion)
+      scoringConfig: parseScoringConfig(quiz.scoringConfig),
+      shuffleSettings: parseShuffleSettings(quiz.shuffleSettings),
+      questions: quiz.questions.map(deserializeQuestion),
+      role: 'OWNER',
+      version: revision.version
     };
 
     res.json({ quiz: deserializedQuiz });
@@ -579,12 +544,12 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
-// Update quiz (requires auth)
+// Update quiz (author and editors)
 router.put('/:id', requireAuth, async (req, res) => {
   try {
     let { id } = req.params;
     if (Array.isArray(id)) id = id[0];
-    const { title, genre, description, questions, visibility } = req.body;
+    const { title, genre, description, questions, visibility, scoringConfig, shuffleSettings, revisionNote, baseVersion } = req.body;
     const userId = req.session.userId!;
 
     // Validate quiz ID format
@@ -597,63 +562,316 @@ router.put('/:id', requireAuth, async (req, res) => {
       return res.status(400).json({ error: validationError });
     }
 
-    // Check if user owns this quiz
-    const existingQuiz = await prisma.quiz.findUnique({
-      where: { id }
+    const scoringError = scoringConfig ? validateScoringConfig(scoringConfig) : null;
+    if (scoringError) {
+      return res.status(400).json({ error: scoringError });
+    }
+
+    const shuffleError = shuffleSettings ? validateShuffleSettings(shuffleSettings) : null;
+    if (shuffleError) {
+      return res.status(400).json({ error: shuffleError });
+    }
+
+    // Check if user can edit this quiz
+    const owner = await prisma.quiz.findUnique({
+      where: { id },
+      select: { id: true, userId: true }
     });
 
-    if (!existingQuiz) {
+    if (!owner) {
       return res.status(404).json({ error: 'Quiz not found' });
     }
 
-    if (existingQuiz.userId !== userId) {
+    const role = await getQuizRole(owner, userId);
+    if (!canEditQuiz(role)) {
       return res.status(403).json({ error: 'Not authorized to edit this quiz' });
     }
 
-    // Delete existing questions
-    await prisma.question.deleteMany({
-      where: { quizId: id }
-    });
+    await releaseStaleLocks(id);
 
-    // Update quiz with new questions
-    const quiz = await prisma.quiz.update({
-      where: { id },
-      data: {
-        title: sanitizeText(title),
+    // The quiz is read, merged and written under its row lock, so concurrent saves apply one at a time
+    const saved = await prisma.$transaction(async (tx) => {
+      const existingQuiz = await lockQuiz(tx, id);
+      if (!existingQuiz) return null;
+
+      const linkedQuestions = await keepOwnBankLinks<Question>(userId, questions, existingQuiz.questions.map(q => q.bankQuestionId));
+      await recordBaseline(existingQuiz, tx);
+
+      // Left as it is when the request does not mention scoring, cleared by null.
+      // Only the author decides who can see the quiz.
+      let content: RevisionContent = {
+        title,
         genre,
-        description: sanitizeText(description),
-        visibility: normalizeVisibility(visibility || existingQuiz.visibility),
-        questions: {
-          create: questions.map((q: any) => serializeQuestion({
-            ...q,
-            text: sanitizeText(q.text),
-            options: (q.options || []).map((opt: any) => sanitizeText(opt)),
-            correctTexts: (q.correctTexts || []).map((text: any) => sanitizeText(text))
-          }, q.__index || 0))
+        description,
+        visibility: role === 'OWNER' ? normalizeVisibility(visibility || existingQuiz.visibility) : existingQuiz.visibility,
+        scoringConfig: scoringConfig === undefined ? existingQuiz.scoringConfig : serializeScoringConfig(scoringConfig),
+        shuffleSettings: shuffleSettings === undefined ? existingQuiz.shuffleSettings : serializeShuffleSettings(shuffleSettings),
+        questions: linkedQuestions
+      };
+
+      // Someone else saved after this editor loaded the quiz: keep their changes to whatever this save left alone
+      let merged = false;
+      if (Number.isInteger(baseVersion) && baseVersion < await getLatestVersion(id, tx)) {
+        const base = await tx.quizRevision.findUnique({ where: { quizId_version: { quizId: id, version: baseVersion } } });
+        const result = base && mergeConcurrentSave(parseRevisionContent(base), toRevisionContent(existingQuiz), content);
+        if (result) {
+          content = result;
+          merged = true;
         }
-      },
-      include: {
-        questions: true
       }
+
+      // Only what this save brought in is sanitized, the rest is already stored that way
+      const fromSaver = new Set<any>(linkedQuestions);
+      const currentIds = new Set(existingQuiz.questions.map(q => q.id));
+      const newQuestions = content.questions.map(q => fromSaver.has(q) ? sanitizeQuestion(q) : q);
+
+      // Editors send back stored text as they received it, so an untouched question matches before sanitizing
+      const conflict = await findLockConflict(tx, existingQuiz, userId, stored => {
+        const index = content.questions.findIndex(q => q.id === stored.id);
+        return index === -1 ? [] : [content.questions[index], newQuestions[index]];
+      });
+      if (conflict) return { error: conflict };
+
+      // Delete existing questions
+      await tx.question.deleteMany({
+        where: { quizId: id }
+      });
+
+      // Update quiz with new questions
+      const quiz = await tx.quiz.update({
+        where: { id },
+        data: {
+          title: content.title === title ? sanitizeText(title) : content.title,
+          genre: content.genre,
+          description: content.description === description ? sanitizeText(description) : content.description,
+          visibility: content.visibility,
+          scoringConfig: content.scoringConfig,
+          shuffleSettings: content.shuffleSettings,
+          questions: {
+            create: toQuestionRows(newQuestions, currentIds)
+          }
+        },
+        include: {
+          questions: {
+            orderBy: {
+              orderIndex: 'asc'
+            }
+          }
+        }
+      });
+
+      const revision = await recordRevision(quiz, 'SAVE', userId, { note: revisionNote }, tx);
+      return { quiz, revision, merged };
     });
 
-    // Fetch user for profile picture
-    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!saved) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+    if ('error' in saved) {
+      return res.status(409).json({ error: saved.error });
+    }
+    const { quiz, revision, merged } = saved;
+
+    // Fetch the author for their profile picture
+    const user = await prisma.user.findUnique({ where: { id: quiz.userId } });
 
     // Deserialize JSON strings back to objects
     const deserializedQuiz = {
       ...quiz,
       authorProfilePicture: user?.profilePicture,
-      questions: quiz.questions.map(deserializeQuestion)
+      scoringConfig: parseScoringConfig(quiz.scoringConfig),
+      shuffleSettings: parseShuffleSettings(quiz.shuffleSettings),
+      questions: quiz.questions.map(deserializeQuestion),
+      role,
+      version: revision.version
     };
 
-    res.json({ quiz: deserializedQuiz });
+    res.json({ quiz: deserializedQuiz, merged });
   } catch (error) {
     console.error('Update quiz error:', error);
     res.status(500).json({ error: 'Failed to update quiz' });
   }
 });
 
+// A quiz's version history, newest first (author and collaborators)
+router.get('/:id/revisions', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    if (!(await getQuizRole(existingQuiz, userId))) {
+      return res.status(403).json({ error: 'Not authorized to view the history of this quiz' });
+    }
+
+    const revisions = await prisma.quizRevision.findMany({
+      where: { quizId: id },
+      include: { user: { select: { username: true } } },
+      orderBy: { version: 'desc' }
+    });
+
+    res.json({ revisions: revisions.map(toRevision) });
+  } catch (error) {
+    console.error('Get quiz revisions error:', error);
+    res.status(500).json({ error: 'Failed to fetch quiz history' });
+  }
+});
+
+// Question-level differences between two versions of a quiz (author and collaborators)
+router.get('/:id/revisions/diff', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ error: 'Both versions to compare are required' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    if (!(await getQuizRole(existingQuiz, userId))) {
+      return res.status(403).json({ error: 'Not authorized to view the history of this quiz' });
+    }
+
+    const [fromRevision, toRevisionRow] = await Promise.all([
+      prisma.quizRevision.findUnique({ where: { quizId_version: { quizId: id, version: from } } }),
+      prisma.quizRevision.findUnique({ where: { quizId_version: { quizId: id, version: to } } })
+    ]);
+    if (!fromRevision || !toRevisionRow) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({ diff: diffRevisions(parseRevisionContent(fromRevision), parseRevisionContent(toRevisionRow)) });
+  } catch (error) {
+    console.error('Diff quiz revisions error:', error);
+    res.status(500).json({ error: 'Failed to compare versions' });
+  }
+});
+
+// Bring an earlier version back. It is saved as a new version, so the history itself never changes.
+router.post('/:id/revisions/:version/restore', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const version = Number(req.params.version);
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    const role = await getQuizRole(existingQuiz, userId);
+    if (!canEditQuiz(role)) {
+      return res.status(403).json({ error: 'Not authorized to edit this quiz' });
+    }
+
+    const revision = Number.isInteger(version)
+      ? await prisma.quizRevision.findUnique({ where: { quizId_version: { quizId: id, version } } })
+      : null;
+    if (!revision) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    // The rules may have changed since the version was saved
+    const content = parseRevisionContent(revision);
+    const validationError = validatePlayableQuiz(content);
+    if (validationError) {
+      return res.status(400).json({ error: `This version can no longer be played: ${validationError}` });
+    }
+
+    await releaseStaleLocks(id);
+
+    // Written under the quiz's row lock, like a save
+    const saved = await prisma.$transaction(async (tx) => {
+      const current = await lockQuiz(tx, id);
+      if (!current) return null;
+
+      // Bank entries deleted since then are no longer linked
+      const linkedQuestions = await keepOwnBankLinks(userId, content.questions, current.questions.map(q => q.bankQuestionId));
+      const currentIds = new Set(current.questions.map(q => q.id));
+
+      const conflict = await findLockConflict(tx, current, userId, stored => linkedQuestions.filter(q => q.id === stored.id));
+      if (conflict) return { error: conflict };
+
+      await tx.question.deleteMany({
+        where: { quizId: id }
+      });
+
+      // Stored content was sanitized when it was first saved. Only the author decides who can see the quiz.
+      const quiz = await tx.quiz.update({
+        where: { id },
+        data: {
+          title: content.title,
+          genre: content.genre,
+          description: content.description,
+          visibility: role === 'OWNER' ? content.visibility : current.visibility,
+          scoringConfig: content.scoringConfig,
+          shuffleSettings: content.shuffleSettings,
+          questions: {
+            create: toQuestionRows(linkedQuestions, currentIds)
+          }
+        },
+        include: {
+          questions: {
+            orderBy: {
+              orderIndex: 'asc'
+            }
+          }
+        }
+      });
+
+      const restored = await recordRevision(quiz, 'RESTORE', userId, { restoredFrom: version }, tx);
+      return { quiz, restored };
+    });
+
+    if (!saved) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+    if ('error' in saved) {
+      return res.status(409).json({ error: saved.error });
+    }
+    const { quiz, restored } = saved;
+
+    res.json({
+      quiz: {
+        ...quiz,
+        scoringConfig: parseScoringConfig(quiz.scoringConfig),
+        shuffleSettings: parseShuffleSettings(quiz.shuffleSettings),
+        questions: quiz.questions.map(deserializeQuestion),
+        role,
+        version: restored.version
+      }
+    });
+  } catch (error) {
+    console.error('Restore quiz revision error:', error);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
 // Delete quiz (requires auth)
 router.delete('/:id', requireAuth, async (req, res) => {
   try {
@@ -690,6 +908,249 @@ router.delete('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// Per-question analytics from recorded games (author and collaborators)
+router.get('/:id/analytics', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    // Validate quiz ID format
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({
+      where: { id }
+    });
+
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    if (!(await getQuizRole(existingQuiz, userId))) {
+      return res.status(403).json({ error: 'Not authorized to view analytics for this quiz' });
+    }
+
+    const analytics = await getQuizAnalytics(id);
+
+    res.json({ quiz: { id: existingQuiz.id, title: existingQuiz.title, playCount: existingQuiz.playCount }, analytics });
+  } catch (error) {
+    console.error('Get quiz analytics error:', error);
+    res.status(500).json({ error: 'Failed to fetch quiz analytics' });
+  }
+});
+
+// Who a quiz is shared with (author and collaborators)
+router.get('/:id/collaborators', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    const role = await getQuizRole(existingQuiz, userId);
+    if (!role) {
+      return res.status(403).json({ error: 'Not authorized to view the collaborators of this quiz' });
+    }
+
+    const collaborators = await prisma.quizCollaborator.findMany({
+      where: { quizId: id },
+      include: withUser,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ collaborators: collaborators.map(toCollaborator), role });
+  } catch (error) {
+    console.error('Get quiz collaborators error:', error);
+    res.status(500).json({ error: 'Failed to fetch collaborators' });
+  }
+});
+
+// Invite someone by username (author only). The invite counts once they accept it.
+router.post('/:id/collaborators', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const { username, role = 'EDITOR' } = req.body;
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    if (typeof username !== 'string' || !username.trim()) {
+      return res.status(400).json({ error: 'Username is required' });
+    }
+
+    if (!isCollaboratorRole(role)) {
+      return res.status(400).json({ error: 'Role must be EDITOR or VIEWER' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    if (existingQuiz.userId !== userId) {
+      return res.status(403).json({ error: 'Only the author can invite collaborators' });
+    }
+
+    // Usernames are unique regardless of case
+    const invitee = await prisma.user.findFirst({
+      where: { username: { equals: username.trim(), mode: 'insensitive' } }
+    });
+    if (!invitee) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (invitee.id === userId) {
+      return res.status(400).json({ error: 'You already own this quiz' });
+    }
+
+    const [existing, count] = await Promise.all([
+      prisma.quizCollaborator.findUnique({ where: { quizId_userId: { quizId: id, userId: invitee.id } } }),
+      prisma.quizCollaborator.count({ where: { quizId: id } })
+    ]);
+    if (existing) {
+      return res.status(400).json({ error: `${invitee.username} has already been invited` });
+    }
+
+    if (count >= MAX_COLLABORATORS) {
+      return res.status(400).json({ error: `A quiz can be shared with at most ${MAX_COLLABORATORS} people` });
+    }
+
+    const collaborator = await prisma.quizCollaborator.create({
+      data: { quizId: id, userId: invitee.id, role },
+      include: withUser
+    });
+
+    res.json({ collaborator: toCollaborator(collaborator) });
+  } catch (error) {
+    console.error('Invite collaborator error:', error);
+    res.status(500).json({ error: 'Failed to invite collaborator' });
+  }
+});
+
+// Accept an invitation to a quiz
+router.post('/:id/collaborators/accept', requireAuth, async (req, res) => {
+  try {
+    let { id } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid quiz ID format' });
+    }
+
+    const invite = await prisma.quizCollaborator.findUnique({ where: { quizId_userId: { quizId: id, userId } } });
+    if (!invite) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    const collaborator = await prisma.quizCollaborator.update({
+      where: { id: invite.id },
+      data: { acceptedAt: invite.acceptedAt ?? new Date() },
+      include: withUser
+    });
+
+    res.json({ collaborator: toCollaborator(collaborator) });
+  } catch (error) {
+    console.error('Accept collaboration error:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+// Change a collaborator's role (author only)
+router.put('/:id/collaborators/:userId', requireAuth, async (req, res) => {
+  try {
+    let { id, userId: collaboratorId } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    if (Array.isArray(collaboratorId)) collaboratorId = collaboratorId[0];
+    const { role } = req.body;
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id) || !isValidUUID(collaboratorId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    if (!isCollaboratorRole(role)) {
+      return res.status(400).json({ error: 'Role must be EDITOR or VIEWER' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    if (existingQuiz.userId !== userId) {
+      return res.status(403).json({ error: 'Only the author can change collaborator roles' });
+    }
+
+    const existing = await prisma.quizCollaborator.findUnique({ where: { quizId_userId: { quizId: id, userId: collaboratorId } } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    const collaborator = await prisma.quizCollaborator.update({
+      where: { id: existing.id },
+      data: { role },
+      include: withUser
+    });
+    if (role === 'VIEWER') await removeEditor(id, collaboratorId);
+
+    res.json({ collaborator: toCollaborator(collaborator) });
+  } catch (error) {
+    console.error('Update collaborator error:', error);
+    res.status(500).json({ error: 'Failed to update collaborator' });
+  }
+});
+
+// Remove a collaborator or withdraw an invite. Collaborators can also remove themselves,
+// which is how an invitation is declined or a shared quiz left.
+router.delete('/:id/collaborators/:userId', requireAuth, async (req, res) => {
+  try {
+    let { id, userId: collaboratorId } = req.params;
+    if (Array.isArray(id)) id = id[0];
+    if (Array.isArray(collaboratorId)) collaboratorId = collaboratorId[0];
+    const userId = req.session.userId!;
+
+    if (!isValidUUID(id) || !isValidUUID(collaboratorId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const existingQuiz = await prisma.quiz.findUnique({ where: { id } });
+    if (!existingQuiz) {
+      return res.status(404).json({ error: 'Quiz not found' });
+    }
+
+    if (existingQuiz.userId !== userId && collaboratorId !== userId) {
+      return res.status(403).json({ error: 'Only the author can remove collaborators' });
+    }
+
+    const existing = await prisma.quizCollaborator.findUnique({ where: { quizId_userId: { quizId: id, userId: collaboratorId } } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+
+    await prisma.quizCollaborator.delete({ where: { id: existing.id } });
+    await removeEditor(id, collaboratorId);
+
+    res.json({ message: 'Collaborator removed' });
+  } catch (error) {
+    console.error('Remove collaborator error:', error);
+    res.status(500).json({ error: 'Failed to remove collaborator' });
+  }
+});
+
 // Increment play count
 router.post('/:id/play', async (req, res) => {
   try {
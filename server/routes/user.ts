@@ -5,6 +5,7 @@ import prisma from '../prisma.js';
 import { requireAuth } from '../middleware/auth.js';
 import { isValidUUID, isValidImageUrl, isValidUsername } from '../middleware/inputValidation.js';
 import rateLimit from 'express-rate-limit';
+import { parseShuffleSettings } from '../services/shuffleService.js';
 
 const router = Router();
 
@@ -401,13 +402,90 @@ router.get('/:id/quizzes', async (req, res) => {
       }
     });
 
-    res.json({ quizzes });
+    // Shuffle settings go back as sent, so a quiz saved from this list keeps them
+    res.json({ quizzes: quizzes.map((quiz) => ({ ...quiz, shuffleSettings: parseShuffleSettings(quiz.shuffleSettings) })) });
   } catch (error) {
     console.error('Get user quizzes error:', error);
     res.status(500).json({ error: 'Failed to fetch user quizzes' });
   }
 });
 
+// Get a user's archived live games, most recent first
+router.get('/:id/history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const requesterId = req.session.userId;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    // Validate user ID format
+    if (!isValidUUID(id)) {
+      return res.status(400).json({ error: 'Invalid user ID format' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { profileVisibility: true, showQuizStats: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const isOwner = requesterId === id;
+    if (user.profileVisibility === false && !isOwner) {
+      return res.status(403).json({ error: 'This profile is private' });
+    }
+
+    // Same rule as quiz stats: hidden from everyone but the owner
+    if (user.showQuizStats === false && !isOwner) {
+      return res.json({ history: [], total: 0 });
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.gameResultPlayer.findMany({
+        where: { userId: id },
+        include: {
+          result: {
+            include: { _count: { select: { players: true } } }
+          }
+        },
+        orderBy: { result: { playedAt: 'desc' } },
+        skip: offset,
+        take: limit
+      }),
+      prisma.gameResultPlayer.count({ where: { userId: id } })
+    ]);
+
+    const history = entries.map(entry => {
+      const questions: { text: string; type: string }[] = JSON.parse(entry.result.questions);
+      return {
+        id: entry.result.id,
+        quizId: entry.result.quizId,
+        quizTitle: entry.result.quizTitle,
+        playedAt: entry.result.playedAt,
+        rank: entry.rank,
+        playerCount: entry.result._count.players,
+        score: entry.score,
+        correctAnswers: entry.correctAnswers,
+        questionCount: questions.length,
+        // Individual answers are only shown to the player who gave them
+        answers: isOwner
+          ? JSON.parse(entry.answers).map((a: any) => ({
+              ...a,
+              questionText: questions[a.questionIndex]?.text ?? ''
+            }))
+          : []
+      };
+    });
+
+    res.json({ history, total });
+  } catch (error) {
+    console.error('Get user history error:', error);
+    res.status(500).json({ error: 'Failed to fetch play history' });
+  }
+});
+
 // Accept legal updates
 router.post('/accept-legal', requireAuth, async (req, res) => {
   try {
@@ -0,0 +1,140 @@
+import prisma from "../prisma.js";
+import { deserializeQuestion } from "./questionService.js";
+
+interface ArchivedQuestion {
+  id?: string;
+  text: string;
+  type: string;
+}
+
+interface ArchivedAnswer {
+  questionIndex: number;
+  answer: any;
+  accuracy: number;
+  points: number;
+  responseMs?: number | null;
+}
+
+export interface QuestionAnalytics {
+  questionId: string;
+  index: number;
+  text: string;
+  type: string;
+  options: string[];
+  reached: number; // players still in the game when the question was asked
+  answered: number;
+  correctRate: number; // share of answers that were fully correct
+  averageAccuracy: number;
+  averageResponseMs: number | null;
+  optionCounts: number[]; // how often each option was picked, for choice questions
+  topAnswers: { answer: string; count: number }[]; // most common answers for free-text questions
+  quitRate: number; // share of players who stopped answering for good at this question
+}
+
+export interface QuizAnalytics {
+  quizId: string;
+  gamesPlayed: number;
+  playersTracked: number;
+  questions: QuestionAnalytics[];
+}
+
+const average = (values: number[]): number | null =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+// Per-question statistics for a quiz, built from the archived answers of every finished live game.
+// Archived questions are matched to the current ones by ID, or by text and type if the quiz was edited since.
+export async function getQuizAnalytics(quizId: string): Promise<QuizAnalytics | null> {
+  const quiz = await prisma.quiz.findUnique({
+    where: { id: quizId },
+    include: { questions: { orderBy: { orderIndex: 'asc' } } }
+  });
+  if (!quiz) return null;
+
+  const questions = quiz.questions.map(deserializeQuestion);
+  const results = await prisma.gameResult.findMany({
+    where: { quizId },
+    include: { players: { where: { isBot: false } } }
+  });
+
+  const stats = questions.map((q, index) => ({
+    question: q,
+    index,
+    reached: 0,
+    quit: 0,
+    accuracies: [] as number[],
+    responseTimes: [] as number[],
+    optionCounts: new Array((q.options || []).length).fill(0) as number[],
+    textCounts: new Map<string, number>()
+  }));
+
+  const findCurrent = (archived: ArchivedQuestion) =>
+    stats.find(s => archived.id && s.question.id === archived.id) ||
+    stats.find(s => s.question.text === archived.text && s.question.type === archived.type);
+
+  let playersTracked = 0;
+
+  for (const result of results) {
+    const archivedQuestions: ArchivedQuestion[] = JSON.parse(result.questions);
+    const mapped = archivedQuestions.map(findCurrent);
+
+    for (const player of result.players) {
+      playersTracked++;
+      const answers: ArchivedAnswer[] = JSON.parse(player.answers);
+      const byIndex = new Map(answers.map(a => [a.questionIndex, a]));
+      // A player who gave no answers from some question to the end is taken to have quit there, if they
+      // left the game or sat out more than its last question. Missing only the final answer is not quitting.
+      const lastAnswered = answers.reduce((max, a) => Math.max(max, a.questionIndex), -1);
+      const unanswered = archivedQuestions.length - (lastAnswered + 1);
+      const quitAt = unanswered > 0 && (player.leftGame || unanswered > 1) ? lastAnswered + 1 : null;
+
+      mapped.forEach((current, archivedIndex) => {
+        if (!current) return;
+        if (quitAt !== null && archivedIndex > quitAt) return;
+        current.reached++;
+        if (archivedIndex === quitAt) {
+          current.quit++;
+          return;
+        }
+
+        const entry = byIndex.get(archivedIndex);
+        if (!entry) return;
+        current.accuracies.push(entry.accuracy);
+        if (typeof entry.responseMs === 'number') current.responseTimes.push(entry.responseMs);
+
+        const picks = Array.isArray(entry.answer) ? entry.answer : [entry.answer];
+        if (current.optionCounts.length && picks.every(p => typeof p === 'number')) {
+          picks.forEach(p => {
+            if (p >= 0 && p < current.optionCounts.length) current.optionCounts[p]++;
+          });
+        } else if (typeof entry.answer === 'string' && entry.answer.trim()) {
+          const text = entry.answer.trim().toLowerCase();
+          current.textCounts.set(text, (current.textCounts.get(text) || 0) + 1);
+        }
+      });
+    }
+  }
+
+  return {
+    quizId,
+    gamesPlayed: results.length,
+    playersTracked,
+    questions: stats.map(s => ({
+      questionId: s.question.id,
+      index: s.index,
+      text: s.question.text,
+      type: s.question.type,
+      options: s.question.options || [],
+      reached: s.reached,
+      answered: s.accuracies.length,
+      correctRate: s.accuracies.length ? s.accuracies.filter(a => a > 0.9).length / s.accuracies.length : 0,
+      averageAccuracy: average(s.accuracies) ?? 0,
+      averageResponseMs: average(s.responseTimes),
+      optionCounts: s.optionCounts,
+      topAnswers: [...s.textCounts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5)
+        .map(([answer, count]) => ({ answer, count })),
+      quitRate: s.reached ? s.quit / s.reached : 0
+    }))
+  };
+}
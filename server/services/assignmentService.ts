@@ -0,0 +1,153 @@
+import { Assignment, AssignmentAttempt as AttemptRow } from "@prisma/client";
+import { Question, ScoringConfig, Assignment as AssignmentView, AssignmentAttempt, AssignmentResultRow } from "../../src/types.js";
+import { applyScore, scoreAnswer } from "../../src/utils/scoring.js";
+import { validateScoringConfig } from "./scoringService.js";
+
+// Longest an assignment can stay open, and most attempts a teacher can allow
+const MAX_OPEN_DAYS = 365;
+const MAX_ATTEMPTS = 100;
+// Grace period for answers that were sent just before the timer ran out
+const ANSWER_GRACE_MS = 1000;
+
+// Returns an error message, or null if the assignment settings can be used
+export function validateAssignment(input: any): string | null {
+  if (input.title !== undefined && (typeof input.title !== 'string' || input.title.length > 100)) {
+    return 'Title must be at most 100 characters';
+  }
+  const opensAt = new Date(input.opensAt);
+  const closesAt = new Date(input.closesAt);
+  if (isNaN(opensAt.getTime()) || isNaN(closesAt.getTime())) {
+    return 'Open and close dates are required';
+  }
+  if (closesAt <= opensAt) {
+    return 'The close date must be after the open date';
+  }
+  if (closesAt <= new Date()) {
+    return 'The close date must be in the future';
+  }
+  if (closesAt.getTime() - opensAt.getTime() > MAX_OPEN_DAYS * 24 * 60 * 60 * 1000) {
+    return `Assignments can be open for at most ${MAX_OPEN_DAYS} days`;
+  }
+  if (input.maxAttempts !== undefined && input.maxAttempts !== null &&
+      !(Number.isInteger(input.maxAttempts) && input.maxAttempts >= 1 && input.maxAttempts <= MAX_ATTEMPTS)) {
+    return `Attempt limit must be a whole number between 1 and ${MAX_ATTEMPTS}`;
+  }
+  return input.scoringConfig ? validateScoringConfig(input.scoringConfig) : null;
+}
+
+// Returns why an attempt cannot be started right now, or null if it can
+export function checkAssignmentOpen(assignment: Pick<Assignment, 'opensAt' | 'closesAt'>, now = new Date()): string | null {
+  if (now < assignment.opensAt) return `This assignment opens on ${assignment.opensAt.toISOString()}`;
+  if (now >= assignment.closesAt) return 'This assignment has closed';
+  return null;
+}
+
+// Shape a stored assignment the way clients expect it
+export const toAssignment = (row: Assignment & { quiz: { title: string } }, questionCount: number, userId: string, attemptCount?: number): AssignmentView => ({
+  id: row.id,
+  // Students are not told which quiz it is, since a public quiz's answer keys can be read through the quiz API
+  quizId: row.hostId === userId ? row.quizId : undefined,
+  quizTitle: row.quiz.title,
+  title: row.title,
+  questionCount,
+  opensAt: row.opensAt.toISOString(),
+  closesAt: row.closesAt.toISOString(),
+  maxAttempts: row.maxAttempts,
+  isOwner: row.hostId === userId,
+  ...(attemptCount !== undefined && { attemptCount })
+});
+
+// Shape a stored attempt the way clients expect it
+export const toAttempt = (row: AttemptRow, questionCount: number): AssignmentAttempt => ({
+  id: row.id,
+  currentIndex: row.currentIndex,
+  questionCount,
+  score: row.score,
+  streak: row.streak,
+  correctAnswers: row.correctAnswers,
+  scoreBreakdown: { base: row.basePoints, speed: row.speedPoints, streak: row.streakPoints, penalty: row.penaltyPoints },
+  startedAt: row.startedAt.toISOString(),
+  completedAt: row.completedAt ? row.completedAt.toISOString() : null
+});
+
+// Grade the answer to an attempt's current question against the server's own timer. Answers that
+// arrive after the time limit count as unanswered. Returns the result and the update for the attempt.
+export function gradeAttemptAnswer(row: AttemptRow, question: Question, answer: any, questionCount: number, config: ScoringConfig, now = Date.now()) {
+  const startedAt = row.questionStartedAt ? row.questionStartedAt.getTime() : now;
+  const responseMs = Math.max(0, now - startedAt);
+  const timeLimitMs = (question.timeLimit || 20) * 1000;
+  const inTime = responseMs <= timeLimitMs + ANSWER_GRACE_MS;
+  const timeLeft = Math.max(0, (timeLimitMs - responseMs) / 1000);
+
+  const result = scoreAnswer(question, inTime ? answer : undefined, timeLeft, config);
+  const previous = {
+    score: row.score,
+    streak: row.streak,
+    lastAnswerCorrect: row.lastAnswerCorrect,
+    correctAnswers: row.correctAnswers,
+    scoreBreakdown: { base: row.basePoints, speed: row.speedPoints, streak: row.streakPoints, penalty: row.penaltyPoints }
+  };
+  const next = applyScore(previous, result, config);
+  const breakdown = next.scoreBreakdown!;
+  const points = next.score - row.score;
+
+  const answers = JSON.parse(row.answers || '[]');
+  answers.push({
+    questionIndex: row.currentIndex,
+    answer: inTime ? answer ?? null : null,
+    accuracy: result.accuracy,
+    points,
+    responseMs
+  });
+
+  const nextIndex = row.currentIndex + 1;
+  return {
+    inTime,
+    accuracy: result.accuracy,
+    points,
+    update: {
+      currentIndex: nextIndex,
+      questionStartedAt: null,
+      score: next.score,
+      streak: next.streak,
+      correctAnswers: next.correctAnswers ?? row.correctAnswers,
+      basePoints: breakdown.base,
+      speedPoints: breakdown.speed,
+      streakPoints: breakdown.streak,
+      penaltyPoints: breakdown.penalty,
+      lastAnswerCorrect: next.lastAnswerCorrect,
+      answers: JSON.stringify(answers),
+      completedAt: nextIndex >= questionCount ? new Date(now) : null
+    }
+  };
+}
+
+// Ranks each student by their best finished attempt; tied scores share a rank, the earlier finish listed first
+export function rankAssignmentResults(attempts: AttemptRow[]): AssignmentResultRow[] {
+  const byUser = new Map<string, { best: AttemptRow; attempts: number }>();
+  for (const attempt of attempts) {
+    if (!attempt.completedAt) continue;
+    const entry = byUser.get(attempt.userId);
+    if (!entry) {
+      byUser.set(attempt.userId, { best: attempt, attempts: 1 });
+      continue;
+    }
+    entry.attempts++;
+    if (attempt.score > entry.best.score ||
+        (attempt.score === entry.best.score && attempt.completedAt < entry.best.completedAt!)) {
+      entry.best = attempt;
+    }
+  }
+
+  const sorted = [...byUser.values()].sort((a, b) =>
+    b.best.score - a.best.score || a.best.completedAt!.getTime() - b.best.completedAt!.getTime());
+  return sorted.map(({ best, attempts }) => ({
+    userId: best.userId,
+    name: best.name,
+    rank: sorted.findIndex(e => e.best.score === best.score) + 1,
+    score: best.score,
+    correctAnswers: best.correctAnswers,
+    attempts,
+    completedAt: best.completedAt!.toISOString()
+  }));
+}
@@ -0,0 +1,50 @@
+import { BankQuestion as BankQuestionRow } from "@prisma/client";
+import prisma from "../prisma.js";
+import { BankQuestion } from "../../src/types.js";
+import { deserializeQuestion } from "./questionService.js";
+
+// Most questions one author can keep in their bank, and tags on one question
+export const MAX_BANK_SIZE = 1000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+// Returns an error message, or null if the tags can be stored
+export function validateTags(tags: any): string | null {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    return 'Tags must be a list of words';
+  }
+  if (tags.length > MAX_TAGS) {
+    return `A question can have at most ${MAX_TAGS} tags`;
+  }
+  if (tags.some((tag: string) => tag.trim().length > MAX_TAG_LENGTH)) {
+    return `Tags can be at most ${MAX_TAG_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Tags are matched case-insensitively, so they are stored trimmed, lowercase and once each
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+// Shape a stored bank entry the way clients expect it
+export const toBankQuestion = ({ userId, tags, createdAt, updatedAt, _count, ...row }: BankQuestionRow & { _count?: { questions: number } }): BankQuestion => ({
+  ...deserializeQuestion(row),
+  tags: JSON.parse(tags || '[]'),
+  usageCount: _count?.questions ?? 0,
+  updatedAt: updatedAt.toISOString()
+});
+
+// Drop links to bank entries the saver does not own, so nobody can tie a quiz to someone else's
+// bank and have that author's pushes rewrite it. Links the quiz already has are kept, so an
+// editor saving a shared quiz does not unlink the questions its author took from their bank.
+export async function keepOwnBankLinks<Q extends { bankQuestionId?: string | null }>(userId: string, questions: Q[], existingLinks: (string | null)[] = []): Promise<Q[]> {
+  const linked = [...new Set(questions.map(q => q.bankQuestionId).filter((id): id is string => !!id))];
+  if (linked.length === 0) return questions;
+
+  const owned = await prisma.bankQuestion.findMany({
+    where: { id: { in: linked }, userId },
+    select: { id: true }
+  });
+  const allowedIds = new Set([...owned.map(b => b.id), ...existingLinks]);
+  return questions.map(q => q.bankQuestionId && !allowedIds.has(q.bankQuestionId) ? { ...q, bankQuestionId: null } : q);
+}
@@ -0,0 +1,40 @@
+import prisma from "../prisma.js";
+import { CollaboratorRole, QuizCollaborator, QuizRole } from "../../src/types.js";
+
+// Most people one quiz can be shared with
+export const MAX_COLLABORATORS = 20;
+
+const ROLES: CollaboratorRole[] = ['EDITOR', 'VIEWER'];
+
+export const isCollaboratorRole = (role: any): role is CollaboratorRole => ROLES.includes(role);
+
+// What a user may do with a quiz: its author owns it, accepted invites grant their role
+export async function getQuizRole(quiz: { id: string; userId: string }, userId: string | undefined): Promise<QuizRole | null> {
+  if (!userId) return null;
+  if (quiz.userId === userId) return 'OWNER';
+
+  const collaborator = await prisma.quizCollaborator.findUnique({
+    where: { quizId_userId: { quizId: quiz.id, userId } }
+  });
+  return collaborator?.acceptedAt ? collaborator.role as CollaboratorRole : null;
+}
+
+export const canEditQuiz = (role: QuizRole | null) => role === 'OWNER' || role === 'EDITOR';
+
+// Prisma filter for the quizzes a user may edit: their own and those they accepted an EDITOR invite to
+export const editableQuizWhere = (userId: string) => ({
+  OR: [
+    { userId },
+    { collaborators: { some: { userId, role: 'EDITOR', acceptedAt: { not: null } } } }
+  ]
+});
+
+// Shape a stored collaborator the way clients expect it
+export const toCollaborator = (row: any): QuizCollaborator => ({
+  userId: row.userId,
+  username: row.user.username,
+  profilePicture: row.user.profilePicture,
+  role: row.role as CollaboratorRole,
+  accepted: !!row.acceptedAt,
+  createdAt: row.createdAt.toISOString()
+});
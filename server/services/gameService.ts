@@ -0,0 +1,129 @@
+import prisma, { Db } from "../prisma.js";
+import { getSessionPlayers } from "./playerService.js";
+import { getGameQuestions } from "./shuffleService.js";
+import { Player } from "../../src/types.js";
+import { hasResponseSummary, summarizeResponses } from "../../src/utils/responses.js";
+
+// Ranks players by score; tied scores share a rank
+const rankPlayers = (players: Player[]) => {
+  const sorted = [...players].sort((a, b) => b.score - a.score);
+  return sorted.map((player, i) => ({
+    player,
+    rank: sorted.findIndex(p => p.score === player.score) + 1
+  }));
+};
+
+// Copy a finished game into the GameResult archive, which outlives the GameSession
+async function archiveGameResult(db: Db, sessionId: string, players: Player[]) {
+  const session = await db.gameSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      quiz: {
+        include: { questions: { orderBy: { orderIndex: 'asc' } } }
+      },
+      players: { include: { answers: true } }
+    }
+  });
+  if (!session) return;
+
+  const answersByPlayer = new Map(session.players.map(row => [row.playerId, row.answers]));
+  const allAnswers = session.players.flatMap(row => row.answers);
+
+  // The questions as the game played them, pool and order included. Polls and word clouds
+  // keep their tally, since they have no right answer to grade against
+  const questions = getGameQuestions(session).map((q, index) => ({
+    id: q.id,
+    text: q.text,
+    type: q.type,
+    ...(hasResponseSummary(q) && {
+      results: summarizeResponses(q, allAnswers.filter(a => a.questionIndex === index).map(a => JSON.parse(a.answer)))
+    })
+  }));
+
+  await db.gameResult.create({
+    data: {
+      quizId: session.quizId,
+      quizTitle: session.quiz.title,
+      hostId: session.hostId,
+      pin: session.pin,
+      questions: JSON.stringify(questions),
+      teamSettings: session.teamSettings,
+      players: {
+        create: rankPlayers(players).map(({ player, rank }) => ({
+          userId: player.isBot ? null : (player.userId || null),
+          name: player.name,
+          isBot: player.isBot,
+          rank,
+          score: player.score,
+          correctAnswers: player.correctAnswers || 0,
+          team: player.team ?? null,
+          leftGame: player.connected === false,
+          answers: JSON.stringify(
+            (answersByPlayer.get(player.id) || [])
+              .sort((a, b) => a.questionIndex - b.questionIndex)
+              .map(a => ({
+                questionIndex: a.questionIndex,
+                answer: JSON.parse(a.answer),
+                accuracy: a.accuracy,
+                points: a.points,
+                responseMs: a.responseMs
+              }))
+          )
+        }))
+      }
+    }
+  });
+}
+
+// Mark a game as ended, award XP, coins and points from its server-graded scores and archive the result.
+// Ending is done exactly once, so rewards cannot be claimed twice, and in one transaction, so a game is
+// never left ended without its rewards or its result. Returns null if the game does not exist.
+export async function endGameSession(pin: string) {
+  return prisma.$transaction(async (tx) => {
+    const ended = await tx.gameSession.updateMany({
+      where: { pin, NOT: { state: 'ENDED' } },
+      data: {
+        isActive: false,
+        state: 'ENDED'
+      }
+    });
+
+    const session = await tx.gameSession.findUnique({
+      where: { pin }
+    });
+
+    if (!session) return null;
+
+    // Scores come from the server-graded session, never from a client
+    const players = await getSessionPlayers(session.id, tx);
+
+    // Award XP and points to logged-in players
+    if (ended.count > 0) {
+      for (const player of players) {
+        if (player.userId && !player.isBot) {
+          const xpGain = Math.floor(player.score / 10);
+          const coinsGain = Math.floor(player.score / 100);
+
+          await tx.user.update({
+            where: { id: player.userId },
+            data: {
+              totalPoints: {
+                increment: player.score
+              },
+              xp: {
+                increment: xpGain
+              },
+              coins: {
+                increment: coinsGain
+              }
+            }
+          });
+        }
+      }
+
+      await archiveGameResult(tx, session.id, players);
+    }
+
+    return { ...session, players };
+  });
+}
@@ -0,0 +1,49 @@
+import { GameSession } from "@prisma/client";
+import prisma from "../prisma.js";
+import { DEFAULT_NICKNAME_FILTER, NicknameFilterOptions, checkNickname } from "../../src/utils/nicknames.js";
+
+// NICKNAME_FILTER lists the checks run on guest nicknames ("profanity,impersonation" by default, "off" for none).
+// NICKNAME_BLOCKLIST adds comma-separated words to the built-in profanity list.
+const filterChecks = (process.env.NICKNAME_FILTER ?? 'profanity,impersonation')
+  .split(',')
+  .map((check) => check.trim().toLowerCase());
+
+const nicknameFilter: NicknameFilterOptions = {
+  ...DEFAULT_NICKNAME_FILTER,
+  profanity: filterChecks.includes('profanity'),
+  impersonation: filterChecks.includes('impersonation'),
+  blockedWords: (process.env.NICKNAME_BLOCKLIST || '')
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean)
+};
+
+// Returns why a guest cannot use a nickname in a session, or null if they can
+export async function checkGuestNickname(session: GameSession, playerId: string, name: string): Promise<string | null> {
+  const others = await prisma.gamePlayer.findMany({
+    where: { sessionId: session.id, playerId: { not: playerId } },
+    select: { name: true }
+  });
+  const host = await prisma.user.findUnique({ where: { id: session.hostId }, select: { username: true } });
+  return checkNickname(name, {
+    ...nicknameFilter,
+    takenNames: [...others.map((p) => p.name), ...(host ? [host.username] : [])]
+  });
+}
+
+export const getBannedIds = (session: Pick<GameSession, 'bannedIds'>): string[] =>
+  JSON.parse(session.bannedIds || '[]');
+
+// Bans cover both the player ID and, for signed-in players, their account
+export const isBanned = (session: Pick<GameSession, 'bannedIds'>, playerId?: string, userId?: string | null): boolean => {
+  const banned = getBannedIds(session);
+  return (!!playerId && banned.includes(playerId)) || (!!userId && banned.includes(userId));
+};
+
+export async function banFromSession(session: GameSession, ids: string[]) {
+  const banned = new Set([...getBannedIds(session), ...ids]);
+  await prisma.gameSession.update({
+    where: { id: session.id },
+    data: { bannedIds: JSON.stringify([...banned]) }
+  });
+}
@@ -0,0 +1,110 @@
+import { randomInt } from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+
+export const MIN_PIN_LENGTH = 6;
+export const MAX_PIN_LENGTH = 8;
+
+// GAME_PIN_LENGTH sets the length of new PINs (6 by default). Longer ones are used as the shorter ones fill up.
+const basePinLength = Math.min(MAX_PIN_LENGTH, Math.max(MIN_PIN_LENGTH, parseInt(process.env.GAME_PIN_LENGTH || '', 10) || MIN_PIN_LENGTH));
+
+// Move on to longer PINs once this share of the shorter ones is in use, so random PINs rarely collide
+const PIN_FILL_RATIO = 0.01;
+// PINs of games played this recently are not handed out again, so old links don't lead into someone else's game
+const RECENT_PIN_HOURS = 24;
+const ATTEMPTS_PER_LENGTH = 10;
+
+// Numbers nobody wants to read out to a room
+const UNLUCKY_NUMBERS = ['666', '1488', '8008'];
+
+export const isValidPin = (pin: string): boolean => /^\d{6,8}$/.test(pin);
+
+// How many PINs of a length there are, leaving out those starting with 0
+const pinSpace = (length: number): number => 9 * 10 ** (length - 1);
+
+// Runs like 1234 or 9876
+const hasRun = (pin: string, length: number): boolean => {
+  let up = 1;
+  let down = 1;
+  for (let i = 1; i < pin.length; i++) {
+    const step = Number(pin[i]) - Number(pin[i - 1]);
+    up = step === 1 ? up + 1 : 1;
+    down = step === -1 ? down + 1 : 1;
+    if (up >= length || down >= length) return true;
+  }
+  return false;
+};
+
+// Whether a PIN is easy to mistype, easy to guess or unpleasant, which random PINs avoid
+export function isBadLookingPin(pin: string): boolean {
+  if (pin.startsWith('0')) return true;
+  if (/(\d)\1{3}/.test(pin)) return true;
+  // The same few digits over and over: 121212, 123123
+  for (let size = 1; size <= pin.length / 2; size++) {
+    if (pin.length % size === 0 && pin.slice(0, size).repeat(pin.length / size) === pin) return true;
+  }
+  return hasRun(pin, 4) || UNLUCKY_NUMBERS.some((number) => pin.includes(number));
+}
+
+const randomPin = (length: number): string => randomInt(10 ** (length - 1), 10 ** length).toString();
+
+// Random PINs skip those reserved for events and those of recent games
+async function isPinFree(pin: string): Promise<boolean> {
+  const since = new Date(Date.now() - RECENT_PIN_HOURS * 60 * 60 * 1000);
+  const [reserved, recent] = await Promise.all([
+    prisma.reservedPin.findUnique({ where: { pin }, select: { pin: true } }),
+    prisma.gameResult.findFirst({ where: { pin, playedAt: { gte: since } }, select: { id: true } })
+  ]);
+  return !reserved && !recent;
+}
+
+// Whether creating a session failed because another game holds its PIN
+export const isPinTaken = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2002' &&
+  ([] as string[]).concat((error.meta?.target as string | string[] | undefined) ?? []).includes('pin');
+
+// Create a game session under a new random PIN, trying again with another one when two games
+// pick the same PIN at once, and with longer PINs when short ones keep being taken.
+export async function createWithPin<T>(create: (pin: string) => Promise<T>): Promise<T> {
+  const running = await prisma.gameSession.count({ where: { NOT: { state: 'ENDED' } } });
+  let length = basePinLength;
+  while (length < MAX_PIN_LENGTH && running > pinSpace(length) * PIN_FILL_RATIO) length++;
+
+  for (; length <= MAX_PIN_LENGTH; length++) {
+    for (let attempt = 0; attempt < ATTEMPTS_PER_LENGTH; attempt++) {
+      const pin = randomPin(length);
+      if (isBadLookingPin(pin) || !(await isPinFree(pin))) continue;
+      try {
+        return await create(pin);
+      } catch (error) {
+        if (!isPinTaken(error)) throw error;
+        console.warn(`[PIN] PIN ${pin} was taken, trying another`);
+      }
+    }
+  }
+  throw new Error('No free game PIN could be found');
+}
+
+// Returns why a host cannot start a game under a reserved PIN, or null if they can.
+// A reserved PIN belongs to one host, or to any admin when nobody is set.
+export async function checkReservedPin(pin: string, userId: string): Promise<string | null> {
+  const reserved = await prisma.reservedPin.findUnique({ where: { pin } });
+  if (!reserved) return 'That PIN is not reserved';
+  if (reserved.userId) {
+    return reserved.userId === userId ? null : 'That PIN is reserved for another host';
+  }
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { adminRole: true } });
+  return user?.adminRole === 'ADMIN' || user?.adminRole === 'MODERATOR' ? null : 'That PIN is reserved for another host';
+}
+
+// The reserved PINs a host can start games under
+export async function getReservedPinsFor(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { adminRole: true } });
+  const isAdmin = user?.adminRole === 'ADMIN' || user?.adminRole === 'MODERATOR';
+  return prisma.reservedPin.findMany({
+    where: isAdmin ? { OR: [{ userId }, { userId: null }] } : { userId },
+    select: { pin: true, label: true },
+    orderBy: { pin: 'asc' }
+  });
+}
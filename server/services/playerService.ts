@@ -0,0 +1,87 @@
+import { GamePlayer } from "@prisma/client";
+import prisma, { Db } from "../prisma.js";
+import { Player } from "../../src/types.js";
+
+// Shape a stored player row the way clients expect it
+export const toPlayer = (row: GamePlayer): Player => ({
+  id: row.playerId,
+  name: row.name,
+  score: row.score,
+  lastAnswerCorrect: row.lastAnswerCorrect,
+  streak: row.streak,
+  isBot: row.isBot,
+  userId: row.userId ?? undefined,
+  isHost: row.isHost,
+  isCoHost: row.isCoHost,
+  connected: row.connected,
+  socketId: row.socketId ?? undefined,
+  anonymousMode: row.anonymousMode,
+  correctAnswers: row.correctAnswers,
+  team: row.team,
+  scoreBreakdown: { base: row.basePoints, speed: row.speedPoints, streak: row.streakPoints, penalty: row.penaltyPoints },
+  connectedSince: row.connectedSince ? row.connectedSince.getTime() : null
+});
+
+// Update that moves a stored player row to a newly scored state. Totals are incremented
+// rather than overwritten, so other changes to the row made in the meantime are kept.
+export const scoreUpdate = (row: GamePlayer, next: Player) => {
+  const breakdown = next.scoreBreakdown || { base: row.basePoints, speed: row.speedPoints, streak: row.streakPoints, penalty: row.penaltyPoints };
+  return {
+    score: { increment: next.score - row.score },
+    correctAnswers: { increment: (next.correctAnswers ?? row.correctAnswers) - row.correctAnswers },
+    basePoints: { increment: breakdown.base - row.basePoints },
+    speedPoints: { increment: breakdown.speed - row.speedPoints },
+    streakPoints: { increment: breakdown.streak - row.streakPoints },
+    penaltyPoints: { increment: breakdown.penalty - row.penaltyPoints },
+    streak: next.streak,
+    lastAnswerCorrect: next.lastAnswerCorrect
+  };
+};
+
+// Players of a session in the order they joined
+export async function getSessionPlayers(sessionId: string, db: Db = prisma): Promise<Player[]> {
+  const rows = await db.gamePlayer.findMany({
+    where: { sessionId },
+    orderBy: { joinedAt: 'asc' }
+  });
+  return rows.map(toPlayer);
+}
+
+export async function getPlayersByPin(pin: string): Promise<Player[]> {
+  const rows = await prisma.gamePlayer.findMany({
+    where: { session: { pin } },
+    orderBy: { joinedAt: 'asc' }
+  });
+  return rows.map(toPlayer);
+}
+
+export async function findPlayer(sessionId: string, playerId: string) {
+  return prisma.gamePlayer.findUnique({
+    where: { sessionId_playerId: { sessionId, playerId } }
+  });
+}
+
+// Add a player unless they are already in the session. Scores always start at zero.
+// Returns true if the player was added.
+export async function addPlayer(sessionId: string, player: Player): Promise<boolean> {
+  const existing = await findPlayer(sessionId, player.id);
+  if (existing) return false;
+
+  await prisma.gamePlayer.upsert({
+    where: { sessionId_playerId: { sessionId, playerId: player.id } },
+    create: {
+      sessionId,
+      playerId: player.id,
+      userId: player.userId || null,
+      name: player.name,
+      isBot: !!player.isBot,
+      isHost: !!player.isHost,
+      anonymousMode: !!player.anonymousMode,
+      connected: player.connected !== false,
+      socketId: player.socketId || null,
+      connectedSince: player.isBot ? null : new Date()
+    },
+    update: {}
+  });
+  return true;
+}
@@ -0,0 +1,273 @@
+import { Question, AnswerKey, QuestionType } from "../../src/types.js";
+import { MAX_TYPOS, isRegexAnswer, parseRegexAnswer } from "../../src/utils/answerMatching.js";
+import { sanitizeText } from "../middleware/inputValidation.js";
+
+// Helper to deserialize a stored question row
+export const deserializeQuestion = (q: any): Question => ({
+  ...q,
+  options: q.options ? JSON.parse(q.options) : [],
+  correctIndices: q.correctIndices ? JSON.parse(q.correctIndices) : [],
+  correctTexts: q.correctTexts ? JSON.parse(q.correctTexts) : null,
+  correctSequence: q.correctSequence ? JSON.parse(q.correctSequence) : null,
+  correctRegions: q.correctRegions ? JSON.parse(q.correctRegions) : null,
+  targetLatLng: q.targetLatLng ? JSON.parse(q.targetLatLng) : null,
+  matchSettings: q.matchSettings ? JSON.parse(q.matchSettings) : null
+});
+
+// Helper to serialize JSON fields to strings for SQLite. Shared by quiz questions and bank entries.
+export const serializeQuestionContent = (q: any) => ({
+  type: q.type,
+  pointType: q.pointType || 'NORMAL',
+  text: q.text,
+  options: JSON.stringify(q.options || []),
+  correctIndices: JSON.stringify(q.correctIndices || []),
+  correctTexts: q.correctTexts ? JSON.stringify(q.correctTexts) : null,
+  correctSequence: q.correctSequence ? JSON.stringify(q.correctSequence) : null,
+  puzzleScoring: q.puzzleScoring || null,
+  correctValue: q.correctValue,
+  minValue: q.minValue,
+  maxValue: q.maxValue,
+  stepValue: q.stepValue,
+  imageUrl: q.imageUrl,
+  audioUrl: q.audioUrl,
+  correctRegions: q.correctRegions ? JSON.stringify(q.correctRegions) : null,
+  targetLatLng: q.targetLatLng ? JSON.stringify(q.targetLatLng) : null,
+  backText: q.backText || null,
+  isCaseSensitive: q.isCaseSensitive || false,
+  matchSettings: q.matchSettings ? JSON.stringify(q.matchSettings) : null,
+  timeLimit: q.timeLimit || 20
+});
+
+// A quiz's question row, still linked to the bank entry it was inserted from
+export const serializeQuestion = (q: any, index: number) => ({
+  ...serializeQuestionContent(q),
+  bankQuestionId: q.bankQuestionId || null,
+  orderIndex: index
+});
+
+// Clean up the text of a question as it comes in. Shared by quiz questions and bank entries.
+export const sanitizeQuestion = (q: any) => ({
+  ...q,
+  text: sanitizeText(q.text),
+  options: (q.options || []).map((opt: any) => sanitizeText(opt)),
+  correctTexts: (q.correctTexts || []).map((text: any) => sanitizeText(text))
+});
+
+// Character limits for the parts of a question
+export const QUESTION_LIMITS = {
+  QUESTION_TEXT: 300,
+  ANSWER_OPTION: 150,
+  CORRECT_ANSWER: 150,
+  FLASHCARD_BACK: 300
+};
+
+// Validate a question's character limits, labelling errors with where it sits
+export function validateQuestionLimits(q: any, label: string): string | null {
+  if (q?.text && q.text.length > QUESTION_LIMITS.QUESTION_TEXT) {
+    return `${label} text exceeds ${QUESTION_LIMITS.QUESTION_TEXT} character limit (${q.text.length} characters)`;
+  }
+
+  if (Array.isArray(q?.options)) {
+    for (let j = 0; j < q.options.length; j++) {
+      const option = q.options[j];
+      if (option && String(option).length > QUESTION_LIMITS.ANSWER_OPTION) {
+        return `${label} option ${j + 1} exceeds ${QUESTION_LIMITS.ANSWER_OPTION} character limit (${String(option).length} characters)`;
+      }
+    }
+  }
+
+  if (Array.isArray(q?.correctTexts)) {
+    for (let j = 0; j < q.correctTexts.length; j++) {
+      const answer = q.correctTexts[j];
+      if (answer && String(answer).length > QUESTION_LIMITS.CORRECT_ANSWER) {
+        return `${label} correct answer ${j + 1} exceeds ${QUESTION_LIMITS.CORRECT_ANSWER} character limit (${String(answer).length} characters)`;
+      }
+    }
+  }
+
+  if (q?.backText && String(q.backText).length > QUESTION_LIMITS.FLASHCARD_BACK) {
+    return `${label} card back exceeds ${QUESTION_LIMITS.FLASHCARD_BACK} character limit (${String(q.backText).length} characters)`;
+  }
+
+  if (Array.isArray(q?.correctSequence)) {
+    for (let j = 0; j < q.correctSequence.length; j++) {
+      const step = q.correctSequence[j];
+      if (step && String(step).length > QUESTION_LIMITS.ANSWER_OPTION) {
+        return `${label} sequence step ${j + 1} exceeds ${QUESTION_LIMITS.ANSWER_OPTION} character limit (${String(step).length} characters)`;
+      }
+    }
+  }
+
+  return null;
+}
+
+const ALLOWED_TYPES = new Set(['MULTIPLE_CHOICE', 'TRUE_FALSE', 'INPUT', 'PUZZLE', 'POLL', 'WORD_CLOUD', 'AUDIO_QUIZ', 'IMAGE_QUIZ', 'SLIDER', 'SCALE', 'DROP_PIN', 'PIN_ANSWER', 'OPEN_ENDED', 'FLASHCARD']);
+
+// Basic playability validation of a single question, so unplayable questions are never saved
+export function validateQuestion(q: any, label: string): string | null {
+  const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+
+  if (!q?.text || !q.text.trim()) {
+    return `${label} is missing text`;
+  }
+
+  if (!ALLOWED_TYPES.has(q?.type)) {
+    return `${label} has an unsupported type`;
+  }
+
+  if (typeof q.timeLimit !== 'number' || q.timeLimit <= 0) {
+    return `${label} has an invalid time limit`;
+  }
+
+  if (q.type === 'MULTIPLE_CHOICE' || q.type === 'TRUE_FALSE' || q.type === 'AUDIO_QUIZ' || q.type === 'IMAGE_QUIZ') {
+    if (!Array.isArray(q.options) || q.options.length < 2) {
+      return `${label} needs at least two options`;
+    }
+    if (!Array.isArray(q.correctIndices) || q.correctIndices.length === 0) {
+      return `${label} must have at least one correct option`;
+    }
+  }
+
+  if (q.type === 'TRUE_FALSE') {
+    if (q.options.length !== 2) {
+      return `${label} must have exactly two options (True/False)`;
+    }
+  }
+
+  if (q.type === 'INPUT') {
+    if (!Array.isArray(q.correctTexts) || q.correctTexts.length === 0) {
+      return `${label} must include at least one accepted answer`;
+    }
+    const settings = q.matchSettings;
+    if (settings != null) {
+      if (typeof settings !== 'object' || !Number.isInteger(settings.maxTypos) || settings.maxTypos < 0 || settings.maxTypos > MAX_TYPOS) {
+        return `${label} has invalid answer matching settings`;
+      }
+      if (settings.allowRegex) {
+        for (const accepted of q.correctTexts) {
+          if (!isRegexAnswer(String(accepted))) continue;
+          try {
+            parseRegexAnswer(String(accepted), !!q.isCaseSensitive);
+          } catch {
+            return `${label} has an invalid answer pattern: ${accepted}`;
+          }
+        }
+      }
+    }
+  }
+
+  if (q.type === 'PUZZLE') {
+    if (!Array.isArray(q.correctSequence) || q.correctSequence.length < 2) {
+      return `${label} must include an ordered sequence with at least two steps`;
+    }
+    if (q.puzzleScoring != null && !['STRICT', 'POSITION', 'SUBSEQUENCE', 'KENDALL_TAU'].includes(q.puzzleScoring)) {
+      return `${label} has an unknown puzzle scoring mode`;
+    }
+  }
+
+  if (q.type === 'WORD_CLOUD' || q.type === 'OPEN_ENDED') {
+    // Free-text types just need the prompt; open-ended answers are marked by the host
+  }
+
+  if (q.type === 'FLASHCARD' && (!q.backText || !String(q.backText).trim())) {
+    return `${label} is missing the back of the card`;
+  }
+
+  if (q.type === 'AUDIO_QUIZ' && !q.audioUrl) {
+    return `${label} is missing an audio URL`;
+  }
+
+  if (q.type === 'IMAGE_QUIZ' && !q.imageUrl) {
+    return `${label} is missing an image URL`;
+  }
+
+  if (q.type === 'SLIDER' || q.type === 'SCALE') {
+    if (!isNumber(q.minValue) || !isNumber(q.maxValue) || q.minValue >= q.maxValue) {
+      return `${label} needs a minimum below its maximum`;
+    }
+    if (q.stepValue != null && (!isNumber(q.stepValue) || q.stepValue <= 0)) {
+      return `${label} has an invalid step`;
+    }
+    if (q.correctValue != null && (!isNumber(q.correctValue) || q.correctValue < q.minValue || q.correctValue > q.maxValue)) {
+      return `${label} has a correct value outside its range`;
+    }
+  }
+
+  if (q.type === 'SLIDER' && !isNumber(q.correctValue)) {
+    return `${label} is missing a correct value`;
+  }
+
+  if (q.type === 'DROP_PIN') {
+    const target = q.targetLatLng;
+    if (!target || !isNumber(target.lat) || !isNumber(target.lng) || Math.abs(target.lat) > 90 || Math.abs(target.lng) > 180) {
+      return `${label} is missing a valid map location`;
+    }
+  }
+
+  if (q.type === 'PIN_ANSWER') {
+    if (!q.imageUrl) {
+      return `${label} is missing an image URL`;
+    }
+    const regions = Array.isArray(q.correctRegions) ? q.correctRegions : [];
+    if (regions.length === 0 || regions.some((r: any) => !isNumber(r?.x) || !isNumber(r?.y) || !isNumber(r?.radius) || r.radius <= 0)) {
+      return `${label} must mark at least one correct area on the image`;
+    }
+  }
+
+  return null;
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// The parts of a question that give away the answer
+export function getAnswerKey(q: Question): AnswerKey {
+  return {
+    correctIndices: q.correctIndices,
+    correctTexts: q.correctTexts,
+    correctSequence: q.correctSequence,
+    correctValue: q.correctValue,
+    correctRegions: q.correctRegions,
+    targetLatLng: q.targetLatLng
+  };
+}
+
+// What a player is allowed to see while a question is being played. Only these fields are handed out:
+// stored rows also carry the quiz and bank entry they belong to, which lead back to the answer keys.
+export function toPlayerQuestion(q: Question): Question {
+  return {
+    id: q.id,
+    type: q.type,
+    pointType: q.pointType,
+    text: q.text,
+    // Puzzle items are handed out in random order so the stored order stays secret
+    options: q.type === QuestionType.PUZZLE ? shuffle(q.correctSequence || []) : q.options,
+    puzzleScoring: q.puzzleScoring,
+    minValue: q.minValue,
+    maxValue: q.maxValue,
+    stepValue: q.stepValue,
+    imageUrl: q.imageUrl,
+    audioUrl: q.audioUrl,
+    backText: q.backText,
+    isCaseSensitive: q.isCaseSensitive,
+    matchSettings: q.matchSettings,
+    multiSelect: q.type === QuestionType.MULTIPLE_CHOICE && (q.correctIndices?.length || 0) > 1,
+    timeLimit: q.timeLimit
+  };
+}
+
+// Player view of a quiz with every answer key removed. Its ID is left out too, since a public
+// quiz can be read with its answer keys through the quiz API.
+export function toPlayerQuiz<Q extends { id?: string; questions: any[] }>(quiz: Q): Omit<Q, 'id'> {
+  const { id, ...rest } = quiz;
+  return {
+    ...rest,
+    questions: quiz.questions.map(toPlayerQuestion)
+  };
+}
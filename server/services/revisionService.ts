@@ -0,0 +1,258 @@
+import { Question as QuestionRow, QuizRevision as RevisionRow } from "@prisma/client";
+import prisma, { Db } from "../prisma.js";
+import { Question, QuestionChange, QuestionDiff, QuizDiff, QuizRevision, RevisionSource } from "../../src/types.js";
+import { deserializeQuestion } from "./questionService.js";
+
+// A quiz as it is stored: settings as JSON strings and its question rows
+type StoredQuiz = {
+  id: string;
+  title: string;
+  genre: string;
+  description: string;
+  visibility: string;
+  scoringConfig: string | null;
+  shuffleSettings: string | null;
+  questions: QuestionRow[];
+};
+
+// What a revision holds, in the same shape
+export type RevisionContent = Omit<StoredQuiz, 'id' | 'questions'> & { questions: Question[] };
+
+const MAX_NOTE_LENGTH = 500;
+
+const QUIZ_FIELDS = ['title', 'genre', 'description', 'visibility', 'scoringConfig', 'shuffleSettings'] as const;
+const QUESTION_FIELDS = [
+  'type', 'pointType', 'text', 'options', 'correctIndices', 'correctTexts', 'correctSequence', 'puzzleScoring',
+  'correctValue', 'minValue', 'maxValue', 'stepValue', 'imageUrl', 'audioUrl', 'correctRegions', 'targetLatLng',
+  'backText', 'isCaseSensitive', 'matchSettings', 'timeLimit'
+] as const;
+
+// The questions in play order, keeping their IDs but not the row fields that change on every save
+const snapshotQuestions = (rows: QuestionRow[]): Question[] =>
+  [...rows].sort((a, b) => a.orderIndex - b.orderIndex).map(({ quizId, orderIndex, createdAt, ...row }) => deserializeQuestion(row));
+
+// A quiz as it is stored now, in the shape of a revision
+export const toRevisionContent = (quiz: StoredQuiz): RevisionContent => ({
+  title: quiz.title,
+  genre: quiz.genre,
+  description: quiz.description,
+  visibility: quiz.visibility,
+  scoringConfig: quiz.scoringConfig,
+  shuffleSettings: quiz.shuffleSettings,
+  questions: snapshotQuestions(quiz.questions)
+});
+
+// Lock a quiz's row until the transaction ends and load it with its questions. Saves, restores and
+// bank pushes take the lock first, so they apply one at a time and number their versions in turn.
+export async function lockQuiz(tx: Db, quizId: string) {
+  await tx.$queryRaw`SELECT id FROM quizzes WHERE id = ${quizId} FOR UPDATE`;
+  return tx.quiz.findUnique({ where: { id: quizId }, include: { questions: true } });
+}
+
+// The quiz's newest version number, 0 before its history starts
+export async function getLatestVersion(quizId: string, db: Db = prisma): Promise<number> {
+  const latest = await db.quizRevision.aggregate({ where: { quizId }, _max: { version: true } });
+  return latest._max.version ?? 0;
+}
+
+// Write a quiz as it is stored now as its next version
+export async function recordRevision(quiz: StoredQuiz, source: RevisionSource, userId: string | null, extra: { note?: string | null; restoredFrom?: number } = {}, db: Db = prisma) {
+  return db.quizRevision.create({
+    data: {
+      quizId: quiz.id,
+      userId,
+      version: await getLatestVersion(quiz.id, db) + 1,
+      source,
+      note: typeof extra.note === 'string' && extra.note.trim() ? extra.note.trim().substring(0, MAX_NOTE_LENGTH) : null,
+      restoredFrom: extra.restoredFrom ?? null,
+      title: quiz.title,
+      genre: quiz.genre,
+      description: quiz.description,
+      visibility: quiz.visibility,
+      scoringConfig: quiz.scoringConfig,
+      shuffleSettings: quiz.shuffleSettings,
+      questions: JSON.stringify(snapshotQuestions(quiz.questions))
+    }
+  });
+}
+
+// Quizzes made before version history was kept have no revisions yet.
+// Call before changing one so the version it had is not lost.
+export async function recordBaseline(quiz: StoredQuiz, db: Db = prisma) {
+  const count = await db.quizRevision.count({ where: { quizId: quiz.id } });
+  if (count === 0) {
+    await recordRevision(quiz, 'BASELINE', null, {}, db);
+  }
+}
+
+// Shape a stored revision the way the history list shows it
+export const toRevision = (row: RevisionRow & { user: { username: string } | null }): QuizRevision => ({
+  id: row.id,
+  version: row.version,
+  source: row.source as RevisionSource,
+  note: row.note,
+  restoredFrom: row.restoredFrom,
+  authorName: row.user?.username ?? null,
+  title: row.title,
+  questionCount: JSON.parse(row.questions || '[]').length,
+  createdAt: row.createdAt.toISOString()
+});
+
+export const parseRevisionContent = (row: RevisionRow): RevisionContent => ({
+  title: row.title,
+  genre: row.genre,
+  description: row.description,
+  visibility: row.visibility,
+  scoringConfig: row.scoringConfig,
+  shuffleSettings: row.shuffleSettings,
+  questions: JSON.parse(row.questions || '[]')
+});
+
+// Empty lists, blanks, false and missing values all mean "not set"
+const fieldValue = (value: any): string | null =>
+  value == null || value === '' || value === false || (Array.isArray(value) && value.length === 0) ? null : JSON.stringify(value);
+
+const contentKey = (q: any) => JSON.stringify(QUESTION_FIELDS.map(f => fieldValue(q[f])));
+
+// Whether two copies of a question say the same thing, wherever they are in the quiz
+export const sameQuestionContent = (a: Question, b: Question) => contentKey(a) === contentKey(b);
+
+const changedFields = (a: any, b: any) => QUESTION_FIELDS.filter(f => fieldValue(a[f]) !== fieldValue(b[f]));
+const sameText = (a: Question, b: Question) => a.text.trim().toLowerCase() === b.text.trim().toLowerCase();
+
+// Questions keep their ID across saves, but versions written before that have none
+const mayMatch = (a: Question, b: Question) => !a.id || !b.id || a.id === b.id;
+
+// Questions another editor has locked must come out of a write to the quiz as they are stored.
+// `written` gives the copies of a stored question the write leaves behind, none if it removes it;
+// the question is left alone if any of them says the same. Returns who is in the way, if anyone.
+export async function findLockConflict(db: Db, quiz: StoredQuiz, userId: string, written: (stored: Question) => Question[]): Promise<string | null> {
+  const locks = await db.questionLock.findMany({
+    where: { quizId: quiz.id, userId: { not: userId } },
+    include: { user: { select: { username: true } } }
+  });
+  if (locks.length === 0) return null;
+
+  const stored = snapshotQuestions(quiz.questions);
+  for (const lock of locks) {
+    const index = stored.findIndex(q => q.id === lock.questionId);
+    if (index !== -1 && !written(stored[index]).some(q => sameQuestionContent(stored[index], q))) {
+      return `${lock.user.username} is editing question ${index + 1}`;
+    }
+  }
+  return null;
+}
+
+// Question-level differences between two versions. Questions with the same ID are the same question.
+// Others are matched by content: identical ones first (in order, then moved), then edited ones
+// by their text, then by their position and type. Whatever is left was added or removed.
+export function diffRevisions(from: RevisionContent, to: RevisionContent): QuizDiff {
+  const a = from.questions;
+  const b = to.questions;
+  const keysA = a.map(contentKey);
+  const keysB = b.map(contentKey);
+  const same = (i: number, j: number) => keysA[i] === keysB[j] && mayMatch(a[i], b[j]);
+
+  // Longest common subsequence of identical questions
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, { fromIndex: number; change: QuestionChange }>(); // keyed by index in `to`
+  const unmatchedFrom = new Set(a.map((_, i) => i));
+  const match = (toIndex: number, fromIndex: number, change: QuestionChange) => {
+    matches.set(toIndex, { fromIndex, change });
+    unmatchedFrom.delete(fromIndex);
+  };
+
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (same(i, j)) {
+      match(j++, i++, 'UNCHANGED');
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const passes: [QuestionChange, (i: number, j: number) => boolean][] = [
+    ['MOVED', same],
+    ['CHANGED', (i, j) => !!a[i].id && a[i].id === b[j].id],
+    ['CHANGED', (i, j) => sameText(a[i], b[j]) && mayMatch(a[i], b[j])],
+    ['CHANGED', (i, j) => i === j && a[i].type === b[j].type && mayMatch(a[i], b[j])]
+  ];
+  for (const [change, isMatch] of passes) {
+    b.forEach((_, j) => {
+      if (matches.has(j)) return;
+      const i = [...unmatchedFrom].find(i => isMatch(i, j));
+      if (i !== undefined) match(j, i, change);
+    });
+  }
+
+  const questions: QuestionDiff[] = b.map((q, j) => {
+    const matched = matches.get(j);
+    if (!matched) {
+      return { change: 'ADDED', fromIndex: null, toIndex: j, from: null, to: q, fields: [] };
+    }
+    const previous = a[matched.fromIndex];
+    return {
+      change: matched.change,
+      fromIndex: matched.fromIndex,
+      toIndex: j,
+      from: previous,
+      to: q,
+      fields: matched.change === 'CHANGED' ? changedFields(previous, q) : []
+    };
+  });
+  for (const i of unmatchedFrom) {
+    questions.push({ change: 'REMOVED', fromIndex: i, toIndex: null, from: a[i], to: null, fields: [] });
+  }
+  // Removed questions are listed just after the question that took their place
+  const position = (d: QuestionDiff) => d.toIndex ?? d.fromIndex! + 0.5;
+  questions.sort((x, y) => position(x) - position(y));
+
+  return {
+    fields: QUIZ_FIELDS.filter(f => fieldValue(from[f]) !== fieldValue(to[f])),
+    questions
+  };
+}
+
+// Combine a save made from an older version with everything saved since. Questions are matched by ID:
+// ones the saver edited or added take their version, ones they removed go unless someone else has
+// edited them since, and all others keep the latest content and order. Quiz settings work the same.
+// Returns null when the older version was written before questions kept their IDs.
+export function mergeConcurrentSave(base: RevisionContent, latest: RevisionContent, mine: RevisionContent): RevisionContent | null {
+  if (base.questions.some(q => !q.id)) return null;
+
+  const baseById = new Map(base.questions.map(q => [q.id, q]));
+  const mineById = new Map(mine.questions.map(q => [q.id, q]));
+  const latestIds = new Set(latest.questions.map(q => q.id));
+  const changedSinceBase = (q: Question) => {
+    const before = baseById.get(q.id);
+    return !before || contentKey(before) !== contentKey(q);
+  };
+
+  const questions: Question[] = [];
+  for (const q of latest.questions) {
+    const saved = mineById.get(q.id);
+    if (saved) {
+      questions.push(changedSinceBase(saved) ? saved : q);
+    } else if (changedSinceBase(q)) {
+      questions.push(q);
+    }
+  }
+  // Questions the saver added, or edited after someone else removed them, follow the question before them in the saver's list
+  mine.questions.forEach((q, i) => {
+    if (latestIds.has(q.id) || !changedSinceBase(q)) return;
+    const previous = i > 0 ? questions.findIndex(x => x.id === mine.questions[i - 1].id) : -1;
+    questions.splice(i > 0 && previous === -1 ? questions.length : previous + 1, 0, q);
+  });
+
+  const settings = Object.fromEntries(
+    QUIZ_FIELDS.map(f => [f, fieldValue(mine[f]) !== fieldValue(base[f]) ? mine[f] : latest[f]])
+  ) as Omit<RevisionContent, 'questions'>;
+  return { ...settings, questions };
+}
@@ -0,0 +1,64 @@
+import { ScoringConfig } from "../../src/types.js";
+import { resolveScoringConfig } from "../../src/utils/scoring.js";
+
+const MAX_POINTS = 10000;
+const MAX_STREAK_TIERS = 10;
+const MAX_STREAK_LENGTH = 100;
+
+const isWholeNumber = (value: any, min: number, max: number): boolean =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+// Returns an error message, or null if the scoring rules can be used
+export function validateScoringConfig(config: any): string | null {
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    return 'Scoring rules must be an object';
+  }
+  if (!isWholeNumber(config.basePoints, 1, MAX_POINTS)) {
+    return `Base points must be a whole number between 1 and ${MAX_POINTS}`;
+  }
+  if (typeof config.speedWeight !== 'number' || config.speedWeight < 0 || config.speedWeight > 1) {
+    return 'Speed weight must be between 0 and 1';
+  }
+  if (typeof config.accuracyOnly !== 'boolean') {
+    return 'Accuracy-only mode must be true or false';
+  }
+  if (!isWholeNumber(config.wrongPenalty, 0, MAX_POINTS)) {
+    return `Wrong answer penalty must be a whole number between 0 and ${MAX_POINTS}`;
+  }
+  if (!Array.isArray(config.streakBonuses) || config.streakBonuses.length > MAX_STREAK_TIERS) {
+    return `Streak bonuses must be a list of at most ${MAX_STREAK_TIERS} tiers`;
+  }
+  const streaks = new Set<number>();
+  for (const tier of config.streakBonuses) {
+    if (!isWholeNumber(tier?.streak, 2, MAX_STREAK_LENGTH)) {
+      return `Streak bonus tiers must start at a streak between 2 and ${MAX_STREAK_LENGTH}`;
+    }
+    if (!isWholeNumber(tier.bonus, 0, MAX_POINTS)) {
+      return `Streak bonuses must be whole numbers between 0 and ${MAX_POINTS}`;
+    }
+    if (streaks.has(tier.streak)) {
+      return 'Each streak length can only have one bonus';
+    }
+    streaks.add(tier.streak);
+  }
+  return null;
+}
+
+// Only the known fields are stored, in tier order
+export const serializeScoringConfig = (config: ScoringConfig | null | undefined): string | null =>
+  config ? JSON.stringify({
+    basePoints: config.basePoints,
+    speedWeight: config.speedWeight,
+    accuracyOnly: config.accuracyOnly,
+    streakBonuses: [...config.streakBonuses]
+      .sort((a, b) => a.streak - b.streak)
+      .map(({ streak, bonus }) => ({ streak, bonus })),
+    wrongPenalty: config.wrongPenalty
+  }) : null;
+
+export const parseScoringConfig = (value: string | null | undefined): ScoringConfig | null =>
+  value ? JSON.parse(value) : null;
+
+// The rules a game is played by: the host's override, else the quiz's own, else the classic rules
+export const getGameScoringConfig = (session: { scoringConfig: string | null; quiz: { scoringConfig: string | null } }): ScoringConfig =>
+  resolveScoringConfig(parseScoringConfig(session.scoringConfig), parseScoringConfig(session.quiz.scoringConfig));
@@ -0,0 +1,47 @@
+import { Question, ShuffleSettings } from "../../src/types.js";
+import { drawQuestions, getOptionOrder, resolveShuffleSettings } from "../../src/utils/shuffle.js";
+import { deserializeQuestion } from "./questionService.js";
+
+const MAX_POOL_SIZE = 500;
+
+// Returns an error message, or null if the shuffle settings can be used
+export function validateShuffleSettings(settings: any): string | null {
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'Shuffle settings must be an object';
+  }
+  if (typeof settings.shuffleQuestions !== 'boolean' || typeof settings.shuffleOptions !== 'boolean') {
+    return 'Question and option shuffling must be true or false';
+  }
+  if (settings.poolSize !== null && !(Number.isInteger(settings.poolSize) && settings.poolSize >= 1 && settings.poolSize <= MAX_POOL_SIZE)) {
+    return `Question pool size must be a whole number between 1 and ${MAX_POOL_SIZE}`;
+  }
+  return null;
+}
+
+// Only the known fields are stored
+export const serializeShuffleSettings = (settings: ShuffleSettings | null | undefined): string | null =>
+  settings ? JSON.stringify({
+    shuffleQuestions: settings.shuffleQuestions,
+    shuffleOptions: settings.shuffleOptions,
+    poolSize: settings.poolSize
+  }) : null;
+
+export const parseShuffleSettings = (value: string | null | undefined): ShuffleSettings | null =>
+  value ? JSON.parse(value) : null;
+
+type ShuffledSession = { id: string; shuffleSettings: string | null; quiz: { shuffleSettings: string | null } };
+
+// The settings a game is played with: the host's override, else the quiz's own, else no shuffling
+export const getGameShuffleSettings = (session: ShuffledSession): ShuffleSettings =>
+  resolveShuffleSettings(parseShuffleSettings(session.shuffleSettings), parseShuffleSettings(session.quiz.shuffleSettings));
+
+// The questions a game plays, in play order. A started game keeps the copy it took when it started,
+// so edits to the quiz don't reach it. Until then they are drawn from the quiz's rows in orderIndex order.
+export const getGameQuestions = (session: ShuffledSession & { questions?: string | null; quiz: { questions: any[] } }): Question[] =>
+  session.questions
+    ? JSON.parse(session.questions)
+    : drawQuestions(session.quiz.questions.map(deserializeQuestion), getGameShuffleSettings(session), session.id);
+
+// The order one player in a game sees a question's options in, null when they stay as written
+export const getPlayerOptionOrder = (question: Pick<Question, 'id' | 'type' | 'options'>, settings: ShuffleSettings, sessionId: string, playerId: string): number[] | null =>
+  getOptionOrder(question, settings, `${sessionId}:${playerId}`);
@@ -0,0 +1,65 @@
+import prisma from "../prisma.js";
+import { TeamSettings } from "../../src/types.js";
+import { MAX_TEAMS, MIN_TEAMS, balanceTeams, countTeamMembers, smallestTeam } from "../../src/utils/teams.js";
+
+const ASSIGNMENTS = ['AUTO', 'PICK'];
+const TEAM_SCORING = ['SUM', 'AVERAGE', 'BEST'];
+
+// Returns an error message, or null if the team settings can be used
+export function validateTeamSettings(settings: any): string | null {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return 'Team settings must be an object';
+  }
+  if (!Number.isInteger(settings.count) || settings.count < MIN_TEAMS || settings.count > MAX_TEAMS) {
+    return `Team games need between ${MIN_TEAMS} and ${MAX_TEAMS} teams`;
+  }
+  if (!ASSIGNMENTS.includes(settings.assignment)) {
+    return 'Teams must be assigned automatically or picked by players';
+  }
+  if (!TEAM_SCORING.includes(settings.scoring)) {
+    return 'Team scores must be a sum, an average or the best scores';
+  }
+  if (!Number.isInteger(settings.bestOf) || settings.bestOf < 1) {
+    return 'The number of best scores counted must be at least 1';
+  }
+  return null;
+}
+
+export const serializeTeamSettings = (settings: TeamSettings | null | undefined): string | null =>
+  settings ? JSON.stringify({
+    count: settings.count,
+    assignment: settings.assignment,
+    scoring: settings.scoring,
+    bestOf: settings.bestOf
+  }) : null;
+
+export const parseTeamSettings = (value: string | null | undefined): TeamSettings | null =>
+  value ? JSON.parse(value) : null;
+
+// Deal every player in the session out to balanced teams
+export async function shuffleTeams(sessionId: string, count: number) {
+  const rows = await prisma.gamePlayer.findMany({ where: { sessionId }, select: { id: true } });
+  const teams = balanceTeams(rows, count);
+  await prisma.$transaction(rows.map((row) => prisma.gamePlayer.update({
+    where: { id: row.id },
+    data: { team: teams.get(row.id) }
+  })));
+}
+
+// Put players without a team, or in a team that no longer exists, into the smallest teams
+export async function fillTeams(sessionId: string, count: number) {
+  const rows = await prisma.gamePlayer.findMany({ where: { sessionId }, orderBy: { joinedAt: 'asc' } });
+  const sizes = countTeamMembers(rows, count);
+  const unassigned = rows.filter((row) => row.team === null || row.team < 0 || row.team >= count);
+  if (unassigned.length === 0) return;
+
+  await prisma.$transaction(unassigned.map((row) => {
+    const team = smallestTeam(sizes);
+    sizes[team]++;
+    return prisma.gamePlayer.update({ where: { id: row.id }, data: { team } });
+  }));
+}
+
+export async function clearTeams(sessionId: string) {
+  await prisma.gamePlayer.updateMany({ where: { sessionId }, data: { team: null } });
+}
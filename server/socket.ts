@@ -1,9 +1,20 @@
-// Track pending ACKs for critical events per room and player
-const pendingAcks: Map<string, Map<string, { event: string; payload: any }>> = new Map(); // pin -> playerId -> {event, payload}
-
 import { Server, Socket } from 'socket.io';
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from './prisma.js';
 import { generateQuizFromAIStream } from './services/geminiService.js';
+import { scoreAnswer, applyScore, markedScore, recordedScore, reviseScore } from '../src/utils/scoring.js';
+import { getAnswerKey, toPlayerQuiz } from './services/questionService.js';
+import { endGameSession } from './services/gameService.js';
+import { hasResponseSummary, summarizeResponses } from '../src/utils/responses.js';
+import { CommandRejection, Question, ShuffleSettings, TeamSettings } from '../src/types.js';
+import { toPlayer, scoreUpdate, getSessionPlayers, getPlayersByPin, findPlayer, addPlayer } from './services/playerService.js';
+import { getGameScoringConfig, serializeScoringConfig } from './services/scoringService.js';
+import { getGameQuestions, getGameShuffleSettings, getPlayerOptionOrder, serializeShuffleSettings } from './services/shuffleService.js';
+import { applyOptionOrder, shuffleResponseSummary, toCanonicalAnswer, toShuffledAnswer } from '../src/utils/shuffle.js';
+import { checkGuestNickname, isBanned, banFromSession } from './services/lobbyService.js';
+import { validateTeamSettings, serializeTeamSettings, parseTeamSettings, shuffleTeams, fillTeams, clearTeams } from './services/teamService.js';
+import { RealtimeStore, MemoryRealtimeStore, SERVER_ID } from './realtime/index.js';
 
 // GameState enum to convert numeric values to strings for database
 enum GameState {
@@ -37,10 +48,656 @@ interface Player {
   connected?: boolean;
   socketId?: string;
   anonymousMode?: boolean;
+  correctAnswers?: number;
+  isCoHost?: boolean;
+  connectedSince?: number;
+}
+
+// Connected players by room and pending ACKs for critical events, set up by setupSocketHandlers
+let realtime: RealtimeStore = new MemoryRealtimeStore();
+
+// Phases of a live game, driven by the server once the host starts it
+type LivePhase = 'QUESTION_INTRO' | 'QUESTION_ACTIVE' | 'ANSWER_REVEAL' | 'LEADERBOARD' | 'PODIUM';
+
+// Server-owned state of a game in progress
+interface LiveGame {
+  sessionId: string;
+  shuffle: ShuffleSettings; // answers are stored against the options as written, whatever order each player saw
+  phase: LivePhase;
+  index: number;
+  questionCount: number;
+  questionIds: string[];
+  question: Question | null; // the current question, loaded when it becomes active
+  deadline: number | null; // server time the current phase ends, null if it waits for the host
+  startedAt: number | null; // server time the current question became active
+  graded: boolean;
+  answers: Map<string, { answer: any; submittedAt: number }>; // playerId -> answer for the current question
+  streaks: Map<string, number>; // playerId -> streak going into the current question, for marking its answers
+  timer: ReturnType<typeof setTimeout> | null;
+  ticker: ReturnType<typeof setInterval> | null;
+  pausedAt: number | null; // server time the game was paused, while the host is away
+  remainingMs: number | null; // time left in the current phase when it was paused
+}
+
+// Timers and answers of a running game stay with the server process that started it, recorded as the
+// session's serverId. Commands for the game that reach another process are relayed there (see relayLive).
+const liveGames: Map<string, LiveGame> = new Map(); // pin -> live game
+const hostGraceTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // pin -> pending host migration
+
+// What sockets on any server process ask of a running game, carried out by the process running it
+type LiveCommand =
+  | { type: 'SNAPSHOT'; pin: string; socketId: string; playerId?: string }
+  | { type: 'ANSWER'; pin: string; playerId: string; answer: any; submittedAt: number }
+  | { type: 'MARK'; pin: string; playerId: string; correct: boolean }
+  | { type: 'ADVANCE'; pin: string; socketId: string; requested: string }
+  | { type: 'HOST_LEFT'; pin: string }
+  | { type: 'HOST_BACK'; pin: string }
+  | { type: 'STOP'; pin: string; sessionId: string };
+
+// Whether a session's game is being played, and so runs on the server process that started it
+const inProgress = (state: string) => state !== 'LOBBY' && state !== 'PODIUM' && state !== 'ENDED';
+
+// Phase lengths
+const QUESTION_INTRO_MS = 3000;
+const ANSWER_REVEAL_MS = 8000;
+const LEADERBOARD_MS = 10000;
+const TICK_MS = 1000;
+// Grace period for answers that were sent just before the deadline
+const ANSWER_GRACE_MS = 1000;
+// Pause between the last answer arriving and the reveal
+const ALL_ANSWERED_DELAY_MS = 800;
+// How long a disconnected host has to come back before someone else takes over
+const HOST_GRACE_MS = 30000;
+// How often a server process checks in on the games it runs, and how long before they count as orphaned
+const HEARTBEAT_MS = 15000;
+const HEARTBEAT_TIMEOUT_MS = 60000;
+// Longest a cleanup round may hold the cleanup lock
+const CLEANUP_TIMEOUT_MS = 60000;
+
+const loadQuestions = async (pin: string) => {
+  const session = await prisma.gameSession.findUnique({
+    where: { pin },
+    include: {
+      quiz: {
+        include: { questions: { orderBy: { orderIndex: 'asc' } } }
+      }
+    }
+  });
+  return session ? { session, questions: getGameQuestions(session) } : null;
+};
+
+// Answers link to their question's row while it exists. Games play their own copy of the questions,
+// so one deleted from the quiz mid-game leaves its answers unlinked instead of failing to store them.
+const linkedQuestionId = async (questionId: string | undefined) =>
+  questionId && await prisma.question.count({ where: { id: questionId } }) > 0 ? questionId : null;
+
+// The order a player sees a question's options in, null when they are as written
+const optionOrder = (game: LiveGame, playerId: string | undefined, question: Pick<Question, 'id' | 'type' | 'options'> | null) =>
+  playerId && question ? getPlayerOptionOrder(question, game.shuffle, game.sessionId, playerId) : null;
+
+// The phase that follows the current one
+const nextPhase = (game: LiveGame): LivePhase | null => {
+  switch (game.phase) {
+    case 'QUESTION_INTRO': return 'QUESTION_ACTIVE';
+    case 'QUESTION_ACTIVE': return 'ANSWER_REVEAL';
+    case 'ANSWER_REVEAL': return 'LEADERBOARD';
+    case 'LEADERBOARD': return game.index + 1 < game.questionCount ? 'QUESTION_INTRO' : 'PODIUM';
+    default: return null;
+  }
+};
+
+// Open-ended answers and flashcard ratings are listed on the reveal screen, so the room gets them once the question is over
+const revealedAnswers = (question: Pick<Question, 'type'>, game: LiveGame) =>
+  question.type === 'OPEN_ENDED' || question.type === 'FLASHCARD'
+    ? Object.fromEntries([...game.answers].map(([id, a]) => [id, a.answer]))
+    : null;
+
+const statePayload = (pin: string, game: LiveGame) => ({
+  pin,
+  state: GameState[game.phase],
+  index: game.index,
+  deadline: game.deadline,
+  paused: game.pausedAt !== null,
+  serverTime: Date.now()
+});
+
+// Everything a (re)joining client needs to pick up a running game where it is: the phase and the time
+// it has left, who has answered so far, the scores and, once the question is revealed, its answer key
+async function snapshotPayload(pin: string, game: LiveGame, sessionId: string, playerId?: string) {
+  const question = game.question;
+  const answers = [...game.answers.values()].map((a) => a.answer);
+  // The player's own answer, the tally and the answer key come back in the option order they see
+  const order = optionOrder(game, playerId, question);
+  return {
+    ...statePayload(pin, game),
+    remainingMs: game.pausedAt !== null
+      ? game.remainingMs
+      : game.deadline !== null ? Math.max(0, game.deadline - Date.now()) : null,
+    // Only the player's own answer, and everyone's once the reveal screen lists them
+    answers: {
+      ...(game.graded && question && revealedAnswers(question, game)),
+      ...(playerId && game.answers.has(playerId) && { [playerId]: toShuffledAnswer(game.answers.get(playerId)!.answer, order) })
+    },
+    answeredIds: [...game.answers.keys()],
+    hasAnswered: !!playerId && game.answers.has(playerId),
+    players: await getSessionPlayers(sessionId),
+    results: question && hasResponseSummary(question) ? shuffleResponseSummary(summarizeResponses(question, answers), order) : null,
+    reveal: game.graded && question ? { index: game.index, answer: applyOptionOrder(getAnswerKey(question), order) } : null
+  };
+}
+
+function stopLiveGame(pin: string) {
+  const game = liveGames.get(pin);
+  if (game?.timer) clearTimeout(game.timer);
+  if (game?.ticker) clearInterval(game.ticker);
+  liveGames.delete(pin);
+  const graceTimer = hostGraceTimers.get(pin);
+  if (graceTimer) clearTimeout(graceTimer);
+  hostGraceTimers.delete(pin);
+}
+
+// Advance once the current phase's deadline passes, ticking the countdown to the room meanwhile
+function scheduleAdvance(io: Server, pin: string, game: LiveGame) {
+  if (game.deadline === null) return;
+  if (game.pausedAt !== null) {
+    // Paused while entering this phase: the clock starts when the game resumes
+    game.remainingMs = Math.max(0, game.deadline - Date.now());
+    game.deadline = null;
+    return;
+  }
+  const phase = game.phase;
+  game.timer = setTimeout(() => {
+    advanceGame(io, pin, phase).catch(err => console.error('[GAME] Advance error:', err));
+  }, Math.max(0, game.deadline - Date.now()));
+  game.ticker = setInterval(() => {
+    io.to(pin).emit('GAME_TICK', statePayload(pin, game));
+  }, TICK_MS);
+}
+
+// Projector displays watch a game without a player row, in a room of their own next to the game's
+const displayRoom = (pin: string) => `display:${pin}`;
+
+// Send an event to every player in the room, tracking ACKs so it can be resent on reconnect.
+// Displays get it too, untracked, since they catch up from the live state when they reconnect.
+// With playerPayload each player gets a payload of their own, and displays the shared one.
+async function emitToPlayers(io: Server, pin: string, event: string, payload: any, playerPayload?: (playerId: string) => any) {
+  io.to(displayRoom(pin)).emit(event, payload);
+  const players = (await getPlayersByPin(pin)).filter((p) => p.id);
+  const payloads = new Map(players.map((p) => [p.id, playerPayload ? playerPayload(p.id) : payload]));
+  // Always use the tracked connections for up-to-date socketIds
+  const connections = await realtime.getConnections(pin);
+  if (playerPayload) {
+    for (const p of players) {
+      await realtime.setPendingAcks(pin, [p.id], { event, payload: payloads.get(p.id) });
+    }
+  } else {
+    await realtime.setPendingAcks(pin, players.map((p) => p.id), { event, payload });
+  }
+  players.forEach((p) => {
+    const playerSocketId = connections.get(p.id);
+    if (playerSocketId) {
+      io.to(playerSocketId).emit(event, payloads.get(p.id));
+    } else if (!p.isBot) {
+      console.warn(`[SERVER] No socketId for player ${p.id} in room ${pin} when emitting ${event}`);
+    }
+  });
+}
+
+// Send an untracked event to the whole room. With playerPayload each connected player gets a
+// payload of their own, and displays the shared one.
+async function emitToRoom(io: Server, pin: string, event: string, payload: any, playerPayload?: (playerId: string) => any) {
+  if (!playerPayload) {
+    io.to(pin).emit(event, payload);
+    return;
+  }
+  io.to(displayRoom(pin)).emit(event, payload);
+  const connections = await realtime.getConnections(pin);
+  connections.forEach((socketId, playerId) => io.to(socketId).emit(event, playerPayload(playerId)));
+}
+
+// Grade every recorded answer for the current question against the stored Question row
+async function gradeLiveQuestion(io: Server, pin: string, game: LiveGame) {
+  if (game.graded) return;
+  game.graded = true;
+
+  const loaded = await loadQuestions(pin);
+  if (!loaded) return;
+
+  const question = loaded.questions[game.index];
+  if (!question) {
+    console.warn(`[SCORING] No question at index ${game.index} for room ${pin}`);
+    return;
+  }
+  const startedAt = game.startedAt ?? Date.now();
+  const sessionId = loaded.session.id;
+  const config = getGameScoringConfig(loaded.session);
+  const questionId = await linkedQuestionId(question.id);
+
+  // Each player's row is updated on its own, so joins and disconnects during grading are not lost
+  const rows = await prisma.gamePlayer.findMany({ where: { sessionId } });
+  game.streaks = new Map(rows.map((row) => [row.playerId, row.streak]));
+  await prisma.$transaction(rows.flatMap((row) => {
+    const submission = game.answers.get(row.playerId);
+    const elapsedSeconds = submission ? (submission.submittedAt - startedAt) / 1000 : question.timeLimit;
+    const timeLeft = Math.max(0, question.timeLimit - elapsedSeconds);
+    const result = scoreAnswer(question, submission?.answer, timeLeft, config);
+    const next = applyScore(toPlayer(row), result, config);
+    // Streak bonuses and the floor at zero are settled by applyScore
+    const points = next.score - row.score;
+
+    const updates: Prisma.PrismaPromise<unknown>[] = [prisma.gamePlayer.update({
+      where: { id: row.id },
+      data: scoreUpdate(row, next)
+    })];
+    if (submission) {
+      updates.push(prisma.gameAnswer.upsert({
+        where: { gamePlayerId_questionIndex: { gamePlayerId: row.id, questionIndex: game.index } },
+        create: {
+          sessionId,
+          gamePlayerId: row.id,
+          questionId,
+          questionIndex: game.index,
+          answer: JSON.stringify(submission.answer ?? null),
+          accuracy: result.accuracy,
+          points,
+          responseMs: Math.max(0, submission.submittedAt - startedAt),
+          submittedAt: new Date(submission.submittedAt)
+        },
+        update: { accuracy: result.accuracy, points }
+      }));
+    }
+    return updates;
+  }));
+  await prisma.gameSession.update({
+    where: { pin },
+    data: { lastActiveAt: new Date() }
+  });
+
+  const players = await getSessionPlayers(sessionId);
+  console.log(`[SCORING] Graded question ${game.index} in room ${pin}:`, players.map((p) => ({ id: p.id, score: p.score })));
+  // Answer keys are only handed out once the question is over, along with the final tally of opinion questions
+  const results = summarizeResponses(question, [...game.answers.values()].map((a) => a.answer));
+  const reveal = { pin, index: game.index, answer: getAnswerKey(question), results, answers: revealedAnswers(question, game) };
+  await emitToRoom(io, pin, 'ANSWER_REVEAL', reveal, game.shuffle.shuffleOptions ? (playerId) => {
+    const order = optionOrder(game, playerId, question);
+    return { ...reveal, answer: applyOptionOrder(reveal.answer, order), results: shuffleResponseSummary(results, order) };
+  } : undefined);
+  io.to(pin).emit('SCORE_SYNC', { pin, players });
+}
+
+// Stream the running tally of a poll or word cloud to the room while it is being answered
+async function emitLiveResults(io: Server, pin: string, game: LiveGame) {
+  const question = game.question;
+  if (!question || !hasResponseSummary(question)) return;
+  const results = summarizeResponses(question, [...game.answers.values()].map((a) => a.answer));
+  await emitToRoom(io, pin, 'LIVE_RESULTS', { pin, index: game.index, results }, game.shuffle.shuffleOptions
+    ? (playerId) => ({ pin, index: game.index, results: shuffleResponseSummary(results, optionOrder(game, playerId, question)) })
+    : undefined);
+}
+
+// Move a live game into a phase: persist it, broadcast it and schedule the next transition
+async function enterPhase(io: Server, pin: string, phase: LivePhase, index: number) {
+  const game = liveGames.get(pin);
+  if (!game) return;
+  if (game.timer) clearTimeout(game.timer);
+  if (game.ticker) clearInterval(game.ticker);
+  game.timer = null;
+  game.ticker = null;
+
+  const now = Date.now();
+  game.phase = phase;
+
+  if (phase === 'QUESTION_INTRO') {
+    game.index = index;
+    game.startedAt = null;
+    game.graded = false;
+    game.answers = new Map();
+    game.deadline = now + QUESTION_INTRO_MS;
+  } else if (phase === 'QUESTION_ACTIVE') {
+    game.startedAt = now;
+    game.deadline = null;
+    const loaded = await loadQuestions(pin);
+    game.question = loaded?.questions[game.index] ?? null;
+    const timeLimit = game.question?.timeLimit || 20;
+    game.deadline = now + timeLimit * 1000;
+  } else if (phase === 'ANSWER_REVEAL') {
+    const loaded = await loadQuestions(pin);
+    // Open-ended answers stay on screen until the host has marked them and moves on
+    const awaitingMarks = loaded?.questions[game.index]?.type === 'OPEN_ENDED';
+    game.deadline = awaitingMarks ? null : now + ANSWER_REVEAL_MS;
+    await gradeLiveQuestion(io, pin, game);
+  } else if (phase === 'LEADERBOARD') {
+    game.deadline = now + LEADERBOARD_MS;
+  } else {
+    game.deadline = null;
+  }
+
+  // A finished game can no longer change state
+  const result = await prisma.gameSession.updateMany({
+    where: { pin, NOT: { state: 'ENDED' } },
+    data: {
+      state: phase,
+      currentQuestionIndex: game.index,
+      lastActiveAt: new Date()
+    }
+  });
+  if (result.count === 0) {
+    stopLiveGame(pin);
+    return;
+  }
+
+  console.log(`[GAME] Room ${pin} entered ${phase} (question ${game.index + 1}/${game.questionCount})`);
+
+  // Award rewards before telling clients, so they can refresh their profile on PODIUM
+  if (phase === 'PODIUM') {
+    stopLiveGame(pin);
+    await endGameSession(pin);
+    await emitToPlayers(io, pin, 'STATE_SYNC', statePayload(pin, game));
+    return;
+  }
+
+  await emitToPlayers(io, pin, 'STATE_SYNC', statePayload(pin, game));
+  scheduleAdvance(io, pin, game);
+}
+
+// Advance a live game past `from`, unless it has already moved on
+async function advanceGame(io: Server, pin: string, from: LivePhase) {
+  const game = liveGames.get(pin);
+  if (!game || game.phase !== from || game.pausedAt !== null) return;
+  const next = nextPhase(game);
+  if (!next) return;
+  await enterPhase(io, pin, next, next === 'QUESTION_INTRO' ? game.index + 1 : game.index);
+}
+
+// Reveal early once every connected player (and bot) has answered
+async function checkAllAnswered(io: Server, pin: string, game: LiveGame) {
+  const expected = (await getPlayersByPin(pin)).filter((p) => p.isBot || p.connected !== false);
+  if (expected.length > 0 && expected.every((p) => game.answers.has(p.id))) {
+    if (game.timer) clearTimeout(game.timer);
+    game.timer = setTimeout(() => {
+      advanceGame(io, pin, 'QUESTION_ACTIVE').catch(err => console.error('[GAME] Advance error:', err));
+    }, ALL_ANSWERED_DELAY_MS);
+  }
+}
+
+// Freeze the current phase, keeping the time it had left
+function pauseLiveGame(io: Server, pin: string) {
+  const game = liveGames.get(pin);
+  if (!game || game.pausedAt !== null) return;
+  if (game.timer) clearTimeout(game.timer);
+  if (game.ticker) clearInterval(game.ticker);
+  game.timer = null;
+  game.ticker = null;
+
+  const now = Date.now();
+  game.pausedAt = now;
+  game.remainingMs = game.deadline !== null ? Math.max(0, game.deadline - now) : null;
+  game.deadline = null;
+
+  console.log(`[GAME] Room ${pin} paused during ${game.phase}`);
+  io.to(pin).emit('STATE_SYNC', statePayload(pin, game));
+}
+
+async function resumeLiveGame(io: Server, pin: string) {
+  const game = liveGames.get(pin);
+  if (!game || game.pausedAt === null) return;
+
+  const now = Date.now();
+  // Time spent paused does not count against answer speed
+  if (game.startedAt !== null) game.startedAt += now - game.pausedAt;
+  game.deadline = game.remainingMs !== null ? now + game.remainingMs : null;
+  game.pausedAt = null;
+  game.remainingMs = null;
+
+  console.log(`[GAME] Room ${pin} resumed during ${game.phase}`);
+  io.to(pin).emit('STATE_SYNC', statePayload(pin, game));
+  scheduleAdvance(io, pin, game);
+  if (game.phase === 'QUESTION_ACTIVE') {
+    await checkAllAnswered(io, pin, game);
+  }
+}
+
+// The host dropped out of a running game: pause it and give them time to come back
+function beginHostGrace(io: Server, pin: string) {
+  if (!liveGames.has(pin) || hostGraceTimers.has(pin)) return;
+  pauseLiveGame(io, pin);
+  hostGraceTimers.set(pin, setTimeout(() => {
+    migrateHost(io, pin).catch(err => console.error('[GAME] Host migration error:', err));
+  }, HOST_GRACE_MS));
+}
+
+// The original host is back before the grace window ran out
+async function reclaimHost(io: Server, pin: string) {
+  const graceTimer = hostGraceTimers.get(pin);
+  if (!graceTimer) return;
+  clearTimeout(graceTimer);
+  hostGraceTimers.delete(pin);
+  console.log(`[GAME] Host reclaimed room ${pin}`);
+  await resumeLiveGame(io, pin);
+}
+
+// Hand the game to the chosen co-host, or else the longest-connected signed-in player
+async function migrateHost(io: Server, pin: string) {
+  hostGraceTimers.delete(pin);
+  const session = await prisma.gameSession.findUnique({ where: { pin } });
+  if (!session || !liveGames.has(pin)) return;
+
+  const players = await getSessionPlayers(session.id);
+  const connections = await realtime.getConnections(pin);
+  const candidates = players.filter((p) =>
+    !p.isBot &&
+    p.userId &&
+    p.id !== session.hostId &&
+    p.connected !== false &&
+    connections.has(p.id)
+  );
+  const newHost = candidates.find((p) => p.isCoHost) ||
+    [...candidates].sort((a, b) => (a.connectedSince ?? Infinity) - (b.connectedSince ?? Infinity))[0];
+
+  if (!newHost) {
+    // Nobody can take over; the game stays paused until cleanup removes it
+    console.warn(`[GAME] No player can take over as host in room ${pin}`);
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.gamePlayer.updateMany({
+      where: { sessionId: session.id },
+      data: { isHost: false }
+    }),
+    prisma.gamePlayer.update({
+      where: { sessionId_playerId: { sessionId: session.id, playerId: newHost.id } },
+      data: { isHost: true, isCoHost: false }
+    }),
+    prisma.gameSession.update({
+      where: { pin },
+      data: {
+        hostId: newHost.userId!,
+        lastActiveAt: new Date()
+      }
+    })
+  ]);
+
+  console.log(`[GAME] Host of room ${pin} moved from ${session.hostId} to ${newHost.userId}`);
+  io.to(pin).emit('HOST_CHANGED', { pin, hostId: newHost.userId, playerId: newHost.id, name: newHost.name });
+  io.to(pin).emit('LOBBY_UPDATE', { pin, players: await getSessionPlayers(session.id) });
+  await resumeLiveGame(io, pin);
+}
+
+// Record a player's answer to the current question, as long as it is open and they have not answered yet.
+// Picks arrive as positions in the player's shuffled options and are kept as the options were written.
+async function submitLiveAnswer(io: Server, pin: string, game: LiveGame, playerId: string, answer: any, submittedAt: number) {
+  // A paused game has no running clock, so nothing can be answered until it resumes
+  if (game.phase !== 'QUESTION_ACTIVE' || game.graded || game.pausedAt !== null) {
+    console.warn(`[SCORING] Ignoring answer from ${playerId} in room ${pin}: no active question`);
+    return;
+  }
+  if (game.deadline !== null && submittedAt > game.deadline + ANSWER_GRACE_MS) {
+    console.warn(`[SCORING] Late answer from ${playerId} in room ${pin} ignored`);
+    return;
+  }
+  if (game.answers.has(playerId)) return;
+
+  const player = await findPlayer(game.sessionId, playerId);
+  if (!player) return;
+
+  // The question may have been revealed (or answered, or the game paused) while we were waiting on the database
+  if (game.phase !== 'QUESTION_ACTIVE' || game.graded || game.pausedAt !== null || game.answers.has(playerId)) return;
+  const canonical = toCanonicalAnswer(answer, optionOrder(game, playerId, game.question));
+  game.answers.set(playerId, { answer: canonical, submittedAt });
+
+  // One answer per player per question, enforced by the database as well.
+  // Grading may already have stored it if the question closed while this was in flight.
+  await prisma.gameAnswer.upsert({
+    where: { gamePlayerId_questionIndex: { gamePlayerId: player.id, questionIndex: game.index } },
+    update: {},
+    create: {
+      sessionId: game.sessionId,
+      gamePlayerId: player.id,
+      questionId: await linkedQuestionId(game.questionIds[game.index]),
+      questionIndex: game.index,
+      answer: JSON.stringify(canonical ?? null),
+      responseMs: game.startedAt !== null ? Math.max(0, submittedAt - game.startedAt) : null,
+      submittedAt: new Date(submittedAt)
+    }
+  });
+
+  // Tell the room who has answered, not what: answers stay private until the question is revealed
+  io.to(pin).emit('ANSWER_SUBMITTED', { pin, playerId });
+  await emitLiveResults(io, pin, game);
+  await checkAllAnswered(io, pin, game);
 }
 
-// Track connected players by room
-const roomConnections: Map<string, Map<string, string>> = new Map(); // pin -> playerId -> socketId
+// Mark an open-ended answer as correct or incorrect while the answers are revealed, revising the player's score
+async function markLiveAnswer(io: Server, pin: string, game: LiveGame, playerId: string, correct: boolean) {
+  if (game.phase !== 'ANSWER_REVEAL') return;
+
+  const loaded = await loadQuestions(pin);
+  if (!loaded) return;
+  const { session, questions } = loaded;
+
+  const question = questions[game.index];
+  if (question?.type !== 'OPEN_ENDED') return;
+
+  const player = await findPlayer(session.id, playerId);
+  const answer = player ? await prisma.gameAnswer.findUnique({
+    where: { gamePlayerId_questionIndex: { gamePlayerId: player.id, questionIndex: game.index } }
+  }) : null;
+  if (!player || !answer) return;
+
+  const accuracy = correct ? 1 : 0;
+  if (answer.accuracy === accuracy) return;
+
+  const elapsedSeconds = (answer.responseMs ?? question.timeLimit * 1000) / 1000;
+  const timeLeft = Math.max(0, question.timeLimit - elapsedSeconds);
+  const config = getGameScoringConfig(session);
+  const previous = recordedScore(question, answer.accuracy, answer.points, timeLeft, config);
+  const revised = reviseScore(toPlayer(player), previous, markedScore(question, correct, timeLeft, config), game.streaks.get(playerId) ?? 0, config);
+  const points = answer.points + revised.score - player.score;
+
+  await prisma.$transaction([
+    prisma.gameAnswer.update({
+      where: { id: answer.id },
+      data: { accuracy, points }
+    }),
+    prisma.gamePlayer.update({
+      where: { id: player.id },
+      data: scoreUpdate(player, revised)
+    })
+  ]);
+
+  io.to(pin).emit('ANSWER_MARKED', { pin, playerId, correct });
+  io.to(pin).emit('SCORE_SYNC', { pin, players: await getSessionPlayers(session.id) });
+}
+
+// Carry out a command for a game this process runs. Commands for games it doesn't run are dropped.
+async function runLiveCommand(io: Server, command: LiveCommand) {
+  const { pin } = command;
+  const game = liveGames.get(pin);
+  if (!game) return;
+
+  switch (command.type) {
+    case 'SNAPSHOT':
+      // The snapshot stands in for any phase change the client missed
+      io.to(command.socketId).emit('GAME_SNAPSHOT', await snapshotPayload(pin, game, game.sessionId, command.playerId));
+      if (command.playerId) await realtime.clearPendingAck(pin, command.playerId, 'STATE_SYNC');
+      break;
+    case 'ANSWER':
+      await submitLiveAnswer(io, pin, game, command.playerId, command.answer, command.submittedAt);
+      break;
+    case 'MARK':
+      await markLiveAnswer(io, pin, game, command.playerId, command.correct);
+      break;
+    case 'ADVANCE':
+      // The server only accepts the transition that would have come next anyway
+      if (command.requested !== nextPhase(game)) {
+        console.warn(`[GAME] Rejected STATE_SYNC ${command.requested} in room ${pin} during ${game.phase}`);
+        // Put the host back in step with the server
+        io.to(command.socketId).emit('STATE_SYNC', statePayload(pin, game));
+        break;
+      }
+      await advanceGame(io, pin, game.phase);
+      break;
+    case 'HOST_LEFT':
+      beginHostGrace(io, pin);
+      break;
+    case 'HOST_BACK':
+      await reclaimHost(io, pin);
+      break;
+    case 'STOP':
+      // A new game may have taken the PIN by now
+      if (game.sessionId === command.sessionId) stopLiveGame(pin);
+      break;
+  }
+}
+
+// Hand a command to the server process running the game: this one, or another one through the adapter.
+// Every process hears relayed commands, and only the one running the game acts on them.
+async function relayLive(io: Server, serverId: string | null, command: LiveCommand) {
+  if (liveGames.has(command.pin)) {
+    await runLiveCommand(io, command);
+  } else if (serverId && serverId !== SERVER_ID) {
+    io.serverSideEmit('LIVE_COMMAND', command);
+  }
+}
+
+// The account signed in on a socket, from the session cookie it connected with
+export const socketUserId = (socket: Socket): string | undefined =>
+  (socket.request as Request).session?.userId;
+
+// Whether a socket is signed in as the host of the game
+const isHostSocket = (socket: Socket, hostId: string): boolean =>
+  socketUserId(socket) === hostId;
+
+// Host-only commands are checked against the socket's account rather than anything the client sends.
+// Refused commands are answered with COMMAND_REJECTED so the sender can tell why nothing happened.
+function authorizeHost<T extends { hostId: string }>(socket: Socket, command: string, pin: string, session: T | null | undefined): session is T {
+  let rejection: Pick<CommandRejection, 'error' | 'message'> | null = null;
+  if (!session) {
+    rejection = { error: 'ROOM_NOT_FOUND', message: 'This game room does not exist or has expired' };
+  } else if (!socketUserId(socket)) {
+    rejection = { error: 'NOT_AUTHENTICATED', message: 'Sign in as the host to do that' };
+  } else if (!isHostSocket(socket, session.hostId)) {
+    rejection = { error: 'NOT_HOST', message: 'Only the host can do that' };
+  }
+  if (!rejection) return true;
+
+  console.warn(`[GAME] Rejected ${command} from socket ${socket.id} in room ${pin}: ${rejection.error}`);
+  const payload: CommandRejection = { pin, command, ...rejection };
+  socket.emit('COMMAND_REJECTED', payload);
+  return false;
+}
+
+// Take a player out of a room: drop their row and connection, and update everyone's player list
+async function removeFromRoom(io: Server, pin: string, sessionId: string, playerId: string) {
+  const socketId = await realtime.getSocketId(pin, playerId);
+  if (socketId) io.in(socketId).socketsLeave(pin);
+  await realtime.removeConnection(pin, playerId);
+  await realtime.clearPendingAck(pin, playerId);
+
+  await prisma.gamePlayer.deleteMany({ where: { sessionId, playerId } });
+  io.to(pin).emit('LOBBY_UPDATE', { pin, players: await getSessionPlayers(sessionId) });
+}
 
 // Function to check if all players are bots
 function hasRealPlayers(players: any[]): boolean {
@@ -48,70 +705,128 @@ function hasRealPlayers(players: any[]): boolean {
 }
 
 // Cleanup inactive game sessions (no real players + inactive for 10+ minutes)
-// Also cleanup games where all real players are disconnected
-async function cleanupInactiveSessions() {
+// Also cleanup games where all real players are disconnected, or whose server process is gone.
+// One server process cleans up at a time, under a Postgres advisory lock; the others skip the round.
+async function cleanupInactiveSessions(io: Server) {
   try {
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-    const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
+    await prisma.$transaction(async (tx) => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`SELECT pg_try_advisory_xact_lock(hashtext('game_session_cleanup')) AS locked`;
+      if (locked) await removeInactiveSessions(io);
+    }, { timeout: CLEANUP_TIMEOUT_MS });
+  } catch (error) {
+    console.error('[CLEANUP] Error during cleanup:', error);
+  }
+}
+
+// Whether the server process running a game has stopped checking in
+const isOrphaned = (session: { state: string; heartbeatAt: Date | null }) =>
+  inProgress(session.state) && (!session.heartbeatAt || session.heartbeatAt.getTime() < Date.now() - HEARTBEAT_TIMEOUT_MS);
+
+async function removeInactiveSessions(io: Server) {
+  const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+  const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
+  
+  // Get all sessions
+  const allSessions = await prisma.gameSession.findMany({
+    include: { players: true }
+  });
+
+  for (const session of allSessions) {
+    let shouldDelete = false;
+    let reason = '';
+    
+    // Check if there are real (non-bot) players
+    const players = session.players;
+    const realPlayers = players.filter((p: any) => !p.isBot);
+    const connectedRealPlayers = realPlayers.filter((p: any) => p.connected !== false);
+    
+    // Condition 1: No real players at all (only bots or empty) and inactive for 10+ minutes
+    if (!hasRealPlayers(players) && session.lastActiveAt < tenMinutesAgo) {
+      shouldDelete = true;
+      reason = 'no real players, inactive for 10+ minutes';
+    }
     
-    // Get all sessions
-    const allSessions = await prisma.gameSession.findMany({});
+    // Condition 2: All real players are disconnected and session is older than 2 minutes
+    else if (realPlayers.length > 0 && connectedRealPlayers.length === 0 && session.lastActiveAt < twoMinutesAgo) {
+      shouldDelete = true;
+      reason = 'all real players disconnected for 2+ minutes';
+    }
+    
+    // Condition 3: Very old sessions (inactive for 30+ minutes) regardless of state
+    else if (session.lastActiveAt < new Date(Date.now() - 30 * 60 * 1000)) {
+      shouldDelete = true;
+      reason = 'inactive for 30+ minutes';
+    }
 
-    for (const session of allSessions) {
-      let shouldDelete = false;
-      let reason = '';
-      
-      // Parse players and check if there are real (non-bot) players
-      let players: any[] = [];
-      try {
-        players = typeof session.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session.players) ? session.players : []);
-      } catch (e) {
-        console.error(`Failed to parse players for session ${session.pin}:`, e);
-        players = [];
-      }
+    // Condition 4: The server process running the game stopped, taking its timers and answers with it
+    else if (isOrphaned(session)) {
+      shouldDelete = true;
+      reason = `server ${session.serverId ?? 'unknown'} stopped checking in`;
+    }
 
-      const realPlayers = players.filter((p: any) => !p.isBot);
-      const connectedRealPlayers = realPlayers.filter((p: any) => p.connected !== false);
-      
-      // Condition 1: No real players at all (only bots or empty) and inactive for 10+ minutes
-      if (!hasRealPlayers(players) && session.lastActiveAt < tenMinutesAgo) {
-        shouldDelete = true;
-        reason = 'no real players, inactive for 10+ minutes';
-      }
-      
-      // Condition 2: All real players are disconnected and session is older than 2 minutes
-      else if (realPlayers.length > 0 && connectedRealPlayers.length === 0 && session.lastActiveAt < twoMinutesAgo) {
-        shouldDelete = true;
-        reason = 'all real players disconnected for 2+ minutes';
-      }
+    if (shouldDelete) {
+      // Other server processes may be cleaning up the same session, and a new game may have its PIN by now
+      const deleted = await prisma.gameSession.deleteMany({
+        where: { id: session.id }
+      });
+      if (deleted.count === 0) continue;
+      console.log(`[CLEANUP] Deleted session: ${session.pin} (${reason})`);
       
-      // Condition 3: Very old sessions (inactive for 30+ minutes) regardless of state
-      else if (session.lastActiveAt < new Date(Date.now() - 30 * 60 * 1000)) {
-        shouldDelete = true;
-        reason = 'inactive for 30+ minutes';
-      }
-
-      if (shouldDelete) {
-        await prisma.gameSession.delete({
-          where: { id: session.id }
-        });
-        console.log(`[CLEANUP] Deleted session: ${session.pin} (${reason})`);
-        
-        // Clean up room connections
-        roomConnections.delete(session.pin);
-      }
+      // Clean up room connections
+      await realtime.clearRoom(session.pin);
+      await relayLive(io, session.serverId, { type: 'STOP', pin: session.pin, sessionId: session.id });
     }
-  } catch (error) {
-    console.error('[CLEANUP] Error during cleanup:', error);
   }
 }
 
-export function setupSocketHandlers(io: Server) {
-  // Start cleanup task - runs every 2 minutes to check for disconnected players
-  const cleanupInterval = setInterval(cleanupInactiveSessions, 2 * 60 * 1000);
+// On startup, clear the games this process was running before it restarted, whose timers and answers
+// were lost with it, and those of processes that stopped. Lobbies and other processes' games carry on.
+export async function clearOrphanedGames() {
+  const sessions = await prisma.gameSession.findMany({
+    where: { state: { notIn: ['LOBBY', 'PODIUM', 'ENDED'] } },
+    select: { id: true, pin: true, state: true, serverId: true, heartbeatAt: true }
+  });
+  const orphaned = sessions.filter((session) => session.serverId === SERVER_ID || isOrphaned(session));
+
+  const deleted = await prisma.gameSession.deleteMany({ where: { id: { in: orphaned.map((session) => session.id) } } });
+  for (const session of orphaned) {
+    await realtime.clearRoom(session.pin);
+  }
+  return deleted.count;
+}
+
+// A finished game keeps its PIN, so players on the podium can still reload it, until a new game is
+// started under the same PIN. Its result is archived by then, so the session and its room state go.
+export async function releaseEndedPin(pin: string) {
+  const released = await prisma.gameSession.deleteMany({ where: { pin, state: 'ENDED' } });
+  if (released.count > 0) await realtime.clearRoom(pin);
+}
+
+export function setupSocketHandlers(io: Server, store: RealtimeStore = new MemoryRealtimeStore()) {
+  realtime = store;
+  realtime.attach(io);
+
+  // Start cleanup task - runs every 2 minutes to check for disconnected players.
+  // Background timers don't keep the process alive on their own, so it can shut down.
+  const cleanupInterval = setInterval(() => cleanupInactiveSessions(io), 2 * 60 * 1000);
+  cleanupInterval.unref();
   
   // Run initial cleanup on startup
-  cleanupInactiveSessions();
+  cleanupInactiveSessions(io);
+
+  // Let the other processes know this one is still running its games
+  const heartbeatInterval = setInterval(() => {
+    prisma.gameSession.updateMany({
+      where: { serverId: SERVER_ID, state: { notIn: ['LOBBY', 'ENDED'] } },
+      data: { heartbeatAt: new Date() }
+    }).catch(err => console.error('[GAME] Heartbeat error:', err));
+  }, HEARTBEAT_MS);
+  heartbeatInterval.unref();
+
+  // Commands for the games this process runs, relayed from the other processes
+  io.on('LIVE_COMMAND', (command: LiveCommand) => {
+    runLiveCommand(io, command).catch(err => console.error('[GAME] Relayed command error:', err));
+  });
   
   io.on('connection', (socket: Socket) => {
     console.log('Client connected:', socket.id);
@@ -124,7 +839,7 @@ export function setupSocketHandlers(io: Server) {
         // Check if game session exists
         const session = await prisma.gameSession.findUnique({
           where: { pin },
-          include: { quiz: true }
+          include: { quiz: true, players: { orderBy: { joinedAt: 'asc' } } }
         });
 
         if (!session) {
@@ -136,22 +851,35 @@ export function setupSocketHandlers(io: Server) {
           return;
         }
 
+        // Signed-in players (the host above all) can only connect as themselves from their own account
+        const userId = socketUserId(socket);
+        const claimed = playerId ? session.players.find((p) => p.playerId === playerId) : undefined;
+        if ((data.userId && data.userId !== userId) ||
+            (playerId === session.hostId && playerId !== userId) ||
+            (claimed?.userId && claimed.userId !== userId)) {
+          console.warn(`[SERVER] Rejected JOIN_ROOM as ${playerId} from socket ${socket.id} signed in as ${userId ?? 'guest'}`);
+          socket.emit('ROOM_ERROR', {
+            error: 'NOT_AUTHENTICATED',
+            message: 'Sign in to the account you joined this game with'
+          });
+          return;
+        }
+
+        if (isBanned(session, playerId, data.userId)) {
+          socket.emit('ROOM_ERROR', {
+            error: 'BANNED',
+            message: 'You have been removed from this game'
+          });
+          return;
+        }
+
         // Join the socket room
         socket.join(pin);
         
         // Track connection
         if (playerId) {
-          if (!roomConnections.has(pin)) {
-            roomConnections.set(pin, new Map());
-          }
-          // Parse players array
-          let players: any[] = [];
-          try {
-            players = typeof session.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session.players) ? session.players : []);
-          } catch (e) {
-            console.error('Failed to parse players:', e);
-            players = [];
-          }
+          const connections = await realtime.getConnections(pin);
+          const players = session.players.map(toPlayer);
           // Prevent duplicate account join
           // Strict duplicate join prevention
           if (data.userId) {
@@ -161,7 +889,7 @@ export function setupSocketHandlers(io: Server) {
               p.connected !== false &&
               p.socketId !== socket.id &&
               typeof p.socketId === 'string' &&
-              roomConnections.get(pin)?.get(p.id) === p.socketId
+              connections.get(p.id) === p.socketId
             );
             if (alreadyIn) {
               socket.emit('ROOM_ERROR', {
@@ -178,7 +906,7 @@ export function setupSocketHandlers(io: Server) {
               p.connected !== false &&
               p.socketId !== socket.id &&
               typeof p.socketId === 'string' &&
-              roomConnections.get(pin)?.get(p.id) === p.socketId
+              connections.get(p.id) === p.socketId
             );
             if (alreadyIn) {
               socket.emit('ROOM_ERROR', {
@@ -190,42 +918,49 @@ export function setupSocketHandlers(io: Server) {
             }
           }
           // If player already had a connection, it means they're reconnecting
-          const oldSocketId = roomConnections.get(pin)!.get(playerId);
+          const oldSocketId = connections.get(playerId);
           if (oldSocketId && oldSocketId !== socket.id) {
             console.log(`Player ${playerId} reconnecting with new socket ${socket.id}, old socket was ${oldSocketId}`);
           }
-          // Update to new socket ID in roomConnections
-          roomConnections.get(pin)!.set(playerId, socket.id);
-          // Update player connection status and socketId in session.players array
-          const player = players.find((p: any) => p.id === playerId);
+          // Update to new socket ID in the tracked connections
+          await realtime.setConnection(pin, playerId, socket.id);
+          // Update player connection status and socketId on the player's row
+          const player = players.find((p) => p.id === playerId);
           if (player) {
-            player.connected = true;
-            player.socketId = socket.id;
-            await prisma.gameSession.update({
-              where: { pin },
-              data: { 
-                players: JSON.stringify(players),
-                lastActiveAt: new Date()
+            await prisma.gamePlayer.update({
+              where: { sessionId_playerId: { sessionId: session.id, playerId } },
+              data: {
+                connected: true,
+                socketId: socket.id,
+                ...(player.connected === false || !player.connectedSince ? { connectedSince: new Date() } : {})
               }
             });
-            // Send updated session with connected player to the reconnecting client
-            const updatedSession = await prisma.gameSession.findUnique({
+            await prisma.gameSession.update({
               where: { pin },
-              include: { quiz: true }
+              data: { lastActiveAt: new Date() }
             });
             // Notify ALL clients in the room (including this one) about the updated players
             io.to(pin).emit('LOBBY_UPDATE', { 
               pin, 
-              players: typeof updatedSession?.players === 'string' ? JSON.parse(updatedSession.players) : [] 
+              players: await getSessionPlayers(session.id)
             });
-            console.log(`[SERVER] Player ${playerId} marked as connected and socketId updated in both roomConnections and session.players array: ${socket.id}`);
+            console.log(`[SERVER] Player ${playerId} marked as connected and socketId updated in both the tracked connections and the player row: ${socket.id}`);
+          }
+
+          // The host is back in time to keep control of their game
+          if (playerId === session.hostId && inProgress(session.state)) {
+            await relayLive(io, session.serverId, { type: 'HOST_BACK', pin });
           }
-          // Extra logging to confirm both sources
-          console.log(`[SERVER] roomConnections for ${pin}:`, Array.from(roomConnections.get(pin)!.entries()));
         }
         
-        // Send success confirmation
-        socket.emit('ROOM_JOINED', { pin, session });
+        // Send success confirmation. Which quiz is played stays with the host, like its answer keys.
+        const { quiz, quizId, questions, ...joined } = session;
+        socket.emit('ROOM_JOINED', { pin, session: { ...joined, players: await getSessionPlayers(session.id) } });
+
+        // A player who refreshed mid-game picks up where they left off, answer and clock included
+        if (inProgress(session.state)) {
+          await relayLive(io, session.serverId, { type: 'SNAPSHOT', pin, socketId: socket.id, playerId });
+        }
         
         console.log(`Player ${playerId || socket.id} joined room ${pin}`);
       } catch (error) {
@@ -237,6 +972,42 @@ export function setupSocketHandlers(io: Server) {
       }
     });
 
+    // A projector display follows the room read-only. It never gets a player row, so it is not
+    // shown in the lobby or waited for when everyone has answered.
+    socket.on('JOIN_DISPLAY', async (data: { pin: string }) => {
+      try {
+        const { pin } = data;
+        const loaded = await loadQuestions(pin);
+        if (!loaded) {
+          socket.emit('ROOM_ERROR', {
+            error: 'ROOM_NOT_FOUND',
+            message: 'This game room does not exist or has expired'
+          });
+          return;
+        }
+
+        socket.join(pin);
+        socket.join(displayRoom(pin));
+
+        socket.emit('DISPLAY_JOINED', {
+          pin,
+          players: await getSessionPlayers(loaded.session.id),
+          teamSettings: parseTeamSettings(loaded.session.teamSettings)
+        });
+        // Catch up with a game in progress, including an answer that is already revealed
+        if (inProgress(loaded.session.state)) {
+          await relayLive(io, loaded.session.serverId, { type: 'SNAPSHOT', pin, socketId: socket.id });
+        }
+        console.log(`Display ${socket.id} watching room ${pin}`);
+      } catch (error) {
+        console.error('Join display error:', error);
+        socket.emit('ROOM_ERROR', {
+          error: 'JOIN_FAILED',
+          message: 'Failed to join game room'
+        });
+      }
+    });
+
     // Player joins a game lobby
     socket.on('PLAYER_JOINED', async (data: { pin: string; player: Player }) => {
       try {
@@ -252,27 +1023,63 @@ export function setupSocketHandlers(io: Server) {
         });
 
         if (session) {
-          let players: any[] = [];
-          try {
-            players = typeof session.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session.players) ? session.players : []);
-          } catch (e) {
-            console.error('Failed to parse players:', e);
-            players = [];
+          const userId = socketUserId(socket);
+          if ((player.userId && player.userId !== userId) || (player.id === session.hostId && player.id !== userId)) {
+            console.warn(`[SERVER] Rejected PLAYER_JOINED as ${player.id} from socket ${socket.id} signed in as ${userId ?? 'guest'}`);
+            socket.emit('ROOM_ERROR', { error: 'NOT_AUTHENTICATED', message: 'Sign in to the account you joined this game with' });
+            return;
           }
-          
+
+          const existing = await findPlayer(session.id, player.id);
+
+          // New players can only join while the lobby is open
+          if (!session.isActive && !existing) {
+            socket.emit('ROOM_ERROR', {
+              error: 'GAME_STARTED',
+              message: 'This game has already started'
+            });
+            return;
+          }
+
+          // Signed-in players go by their username, whatever name the client sent
+          let name = player.name;
+          if (!existing) {
+            if (isBanned(session, player.id, player.userId)) {
+              socket.emit('ROOM_ERROR', { error: 'BANNED', message: 'You have been removed from this game' });
+              return;
+            }
+            if (session.isLocked) {
+              socket.emit('ROOM_ERROR', { error: 'ROOM_LOCKED', message: 'The host has locked this game' });
+              return;
+            }
+            const account = player.userId
+              ? await prisma.user.findUnique({ where: { id: player.userId }, select: { username: true } })
+              : null;
+            if (player.userId && !account) {
+              socket.emit('ROOM_ERROR', { error: 'NOT_AUTHENTICATED', message: 'Sign in to the account you joined this game with' });
+              return;
+            }
+            if (account) name = account.username;
+            // Guests choose a nickname, which is checked here
+            const nameError = account ? null : await checkGuestNickname(session, player.id, player.name);
+            if (nameError) {
+              socket.emit('ROOM_ERROR', { error: 'NAME_REJECTED', message: nameError });
+              return;
+            }
+          }
+
           // Check if player already exists
-          if (!players.find((p: any) => p.id === player.id)) {
-            console.log('[SERVER] Adding new player to session:', player.id);
-            players.push(player);
-            
+          if (!existing && await addPlayer(session.id, { ...player, name, isHost: player.id === session.hostId, socketId: socket.id })) {
+            console.log('[SERVER] Added new player to session:', player.id);
+            // In team games newcomers start out in the smallest team
+            const teamSettings = parseTeamSettings(session.teamSettings);
+            if (teamSettings) await fillTeams(session.id, teamSettings.count);
             await prisma.gameSession.update({
               where: { pin },
-              data: { 
-                players: JSON.stringify(players),
-                lastActiveAt: new Date()
-              }
+              data: { lastActiveAt: new Date() }
             });
-            
+
+            const players = await getSessionPlayers(session.id);
             console.log('[SERVER] Broadcasting LOBBY_UPDATE to room', pin, 'with', players.length, 'players');
             // Broadcast to all clients in the room
             io.to(pin).emit('LOBBY_UPDATE', { pin, players });
@@ -285,15 +1092,14 @@ export function setupSocketHandlers(io: Server) {
       }
     });
 
-    // Host updates lobby
-    socket.on('LOBBY_UPDATE', async (data: { pin: string; players: Player[] }) => {
+    // Host refreshes the lobby. Players are stored one row each and owned by the server,
+    // so the stored list is rebroadcast rather than overwritten with the client's copy.
+    socket.on('LOBBY_UPDATE', async (data: { pin: string }) => {
       try {
-        const { pin, players } = data;
-
-        await prisma.gameSession.update({
-          where: { pin },
-          data: { players: JSON.stringify(players) }
-        });
+        const { pin } = data;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'LOBBY_UPDATE', pin, session)) return;
+        const players = await getSessionPlayers(session.id);
 
         // Broadcast to all clients except sender
         socket.to(pin).emit('LOBBY_UPDATE', { pin, players });
@@ -303,140 +1109,296 @@ export function setupSocketHandlers(io: Server) {
     });
 
     // Host starts the game
-    socket.on('START_SIGNAL', async (data: { pin: string; quiz: any }) => {
+    socket.on('START_SIGNAL', async (data: { pin: string }) => {
       try {
-        const { pin, quiz } = data;
+        const { pin } = data;
 
-        await prisma.gameSession.update({
-          where: { pin },
+        const loaded = await loadQuestions(pin);
+        if (!authorizeHost(socket, 'START_SIGNAL', pin, loaded?.session)) return;
+        const { session, questions } = loaded;
+
+        if (liveGames.has(pin) || session.state !== 'LOBBY' || questions.length === 0) {
+          console.warn(`[GAME] Ignoring START_SIGNAL for room ${pin} in state ${session.state}`);
+          return;
+        }
+
+        const teamSettings = parseTeamSettings(session.teamSettings);
+        if (teamSettings) await fillTeams(session.id, teamSettings.count);
+
+        // Once the game starts no new players can join, and it plays the quiz as it is now.
+        // Its questions, scoring and shuffling are copied onto the session, out of reach of edits to the quiz.
+        // The game runs on this process from now on, unless another one got to start it first.
+        const claimed = await prisma.gameSession.updateMany({
+          where: { pin, state: 'LOBBY', serverId: null },
           data: { 
-            state: 'QUESTION_INTRO',
-            currentQuestionIndex: 0,
+            isActive: false,
+            questions: JSON.stringify(questions),
+            scoringConfig: serializeScoringConfig(getGameScoringConfig(session)),
+            shuffleSettings: serializeShuffleSettings(getGameShuffleSettings(session)),
+            serverId: SERVER_ID,
+            heartbeatAt: new Date(),
             lastActiveAt: new Date()
           }
         });
+        if (claimed.count === 0) {
+          console.warn(`[GAME] Room ${pin} was started elsewhere`);
+          return;
+        }
 
-        // Broadcast to all clients in the room and track pending ACKs
-        const session = await prisma.gameSession.findUnique({ where: { pin } });
-        let players: any[] = [];
-        try {
-          players = typeof session?.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session?.players) ? session.players : []);
-        } catch (e) { players = []; }
-        if (!pendingAcks.has(pin)) pendingAcks.set(pin, new Map());
-        players.forEach((p: any) => {
-          if (p.id) {
-            pendingAcks.get(pin)!.set(p.id, { event: 'START_SIGNAL', payload: { pin, quiz } });
-            const playerSocketId = roomConnections.get(pin)?.get(p.id);
-            if (playerSocketId) {
-              console.log(`[SERVER] Emitting START_SIGNAL to player ${p.id} (socket ${playerSocketId}) in room ${pin}`);
-              io.to(playerSocketId).emit('START_SIGNAL', { pin, quiz });
-            } else {
-              console.warn(`[SERVER] No socketId for player ${p.id} in room ${pin} when emitting START_SIGNAL`);
-            }
-          }
-        });
+        const shuffle = getGameShuffleSettings(session);
+        const game: LiveGame = {
+          sessionId: session.id,
+          shuffle,
+          phase: 'QUESTION_INTRO',
+          index: 0,
+          questionCount: questions.length,
+          questionIds: questions.map((q) => q.id),
+          question: null,
+          deadline: null,
+          startedAt: null,
+          graded: false,
+          answers: new Map(),
+          streaks: new Map(),
+          timer: null,
+          ticker: null,
+          pausedAt: null,
+          remainingMs: null
+        };
+        liveGames.set(pin, game);
+
+        // Send the stored quiz without answer keys rather than whatever the host sent,
+        // with each player's options in their own order
+        const quiz = toPlayerQuiz({ ...session.quiz, questions });
+        await emitToPlayers(io, pin, 'START_SIGNAL', { pin, quiz }, shuffle.shuffleOptions ? (playerId) => ({
+          pin,
+          quiz: { ...quiz, questions: quiz.questions.map((q) => applyOptionOrder(q, optionOrder(game, playerId, q))) }
+        }) : undefined);
+        await enterPhase(io, pin, 'QUESTION_INTRO', 0);
       } catch (error) {
         console.error('Start signal error:', error);
       }
     });
 
-    // Remove a disconnected player
+    // Host removes a disconnected player
     socket.on('REMOVE_PLAYER', async (data: { pin: string; playerId: string }) => {
       try {
         const { pin, playerId } = data;
-        
-        const session = await prisma.gameSession.findUnique({
-          where: { pin }
-        });
-        
-        if (session) {
-          let players: any[] = [];
-          try {
-            players = typeof session.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session.players) ? session.players : []);
-          } catch (e) {
-            console.error('Failed to parse players:', e);
-            players = [];
-          }
-          
-          // Remove the player
-          const newPlayers = players.filter((p: any) => p.id !== playerId);
-          
-          await prisma.gameSession.update({
-            where: { pin },
-            data: { players: JSON.stringify(newPlayers) }
-          });
-          
-          // Broadcast updated player list
-          io.to(pin).emit('LOBBY_UPDATE', { pin, players: newPlayers });
-          console.log(`Player ${playerId} removed from room ${pin}`);
-        }
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'REMOVE_PLAYER', pin, session)) return;
+        if (playerId === session.hostId) return;
+
+        await removeFromRoom(io, pin, session.id, playerId);
+        console.log(`Player ${playerId} removed from room ${pin}`);
       } catch (error) {
         console.error('Remove player error:', error);
       }
     });
 
-    // Player submits an answer
-    socket.on('ANSWER_SUBMITTED', (data: { pin: string; playerId: string; answer: any }) => {
-      // Broadcast to all players in the room (including sender for confirmation)
-      io.to(data.pin).emit('ANSWER_SUBMITTED', data);
+    // Host kicks a player out of the lobby, optionally banning them from coming back
+    const kickPlayer = async (data: { pin: string; playerId: string }, ban: boolean) => {
+      const { pin, playerId } = data;
+      const session = await prisma.gameSession.findUnique({ where: { pin } });
+      if (!authorizeHost(socket, ban ? 'BAN_PLAYER' : 'KICK_PLAYER', pin, session)) return;
+      if (session.state !== 'LOBBY' || playerId === session.hostId) return;
+
+      const target = await findPlayer(session.id, playerId);
+      if (!target) return;
+      if (ban) {
+        await banFromSession(session, target.userId ? [playerId, target.userId] : [playerId]);
+      }
+
+      // Tell the player before they are taken out of the room
+      const targetSocketId = await realtime.getSocketId(pin, playerId);
+      if (targetSocketId) io.to(targetSocketId).emit('KICKED', { pin, banned: ban });
+      await removeFromRoom(io, pin, session.id, playerId);
+      console.log(`[GAME] Player ${playerId} ${ban ? 'banned' : 'kicked'} from room ${pin}`);
+    };
+
+    socket.on('KICK_PLAYER', async (data: { pin: string; playerId: string }) => {
+      try {
+        await kickPlayer(data, false);
+      } catch (error) {
+        console.error('Kick player error:', error);
+      }
     });
 
-    // Host syncs game state
-    socket.on('STATE_SYNC', async (data: { pin: string; state: any; index?: number }) => {
+    socket.on('BAN_PLAYER', async (data: { pin: string; playerId: string }) => {
       try {
-        const { pin, state, index } = data;
+        await kickPlayer(data, true);
+      } catch (error) {
+        console.error('Ban player error:', error);
+      }
+    });
 
-        // Convert numeric enum to string for database
-        const stateString = typeof state === 'number' ? GameState[state] : state;
+    // Host locks the lobby so no new players can join, or opens it again
+    socket.on('SET_ROOM_LOCK', async (data: { pin: string; locked: boolean }) => {
+      try {
+        const { pin, locked } = data;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'SET_ROOM_LOCK', pin, session)) return;
 
-        const updateData: any = { state: stateString };
-        if (index !== undefined) {
-          updateData.currentQuestionIndex = index;
-        }
+        await prisma.gameSession.update({
+          where: { pin },
+          data: { isLocked: !!locked, lastActiveAt: new Date() }
+        });
+        io.to(pin).emit('ROOM_LOCK', { pin, locked: !!locked });
+      } catch (error) {
+        console.error('Set room lock error:', error);
+      }
+    });
+
+    // Host picks the player who takes over if they drop out mid-game
+    socket.on('SET_CO_HOST', async (data: { pin: string; playerId: string }) => {
+      try {
+        const { pin, playerId } = data;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'SET_CO_HOST', pin, session)) return;
 
-        // When game starts (first question intro), mark as inactive so no new players can join
-        if (state === GameState.QUESTION_INTRO && index === 0) {
-          updateData.isActive = false;
+        const target = await findPlayer(session.id, playerId);
+        // Only signed-in players can host, since the host is a user account
+        if (!target || target.isBot || !target.userId || target.playerId === session.hostId) return;
+
+        await prisma.$transaction([
+          prisma.gamePlayer.updateMany({
+            where: { sessionId: session.id },
+            data: { isCoHost: false }
+          }),
+          prisma.gamePlayer.update({
+            where: { id: target.id },
+            data: { isCoHost: !target.isCoHost }
+          })
+        ]);
+
+        io.to(pin).emit('LOBBY_UPDATE', { pin, players: await getSessionPlayers(session.id) });
+      } catch (error) {
+        console.error('Set co-host error:', error);
+      }
+    });
+
+    // Host turns team play on (settings) or off (null) in the lobby. Automatic teams are dealt out
+    // again when the number of teams or the assignment changes, or when the host asks for a shuffle.
+    socket.on('SET_TEAM_SETTINGS', async (data: { pin: string; settings: TeamSettings | null; shuffle?: boolean }) => {
+      try {
+        const { pin, settings, shuffle } = data;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'SET_TEAM_SETTINGS', pin, session)) return;
+        if (session.state !== 'LOBBY') return;
+
+        const validationError = settings ? validateTeamSettings(settings) : null;
+        if (validationError) {
+          console.warn(`[GAME] Rejected team settings in room ${pin}: ${validationError}`);
+          return;
         }
 
+        const previous = parseTeamSettings(session.teamSettings);
         await prisma.gameSession.update({
           where: { pin },
-          data: updateData
+          data: { teamSettings: serializeTeamSettings(settings), lastActiveAt: new Date() }
         });
 
-        // Broadcast to all clients except sender and track pending ACKs
+        if (!settings) {
+          await clearTeams(session.id);
+        } else if (settings.assignment === 'AUTO' && (shuffle || previous?.assignment !== 'AUTO' || previous.count !== settings.count)) {
+          await shuffleTeams(session.id, settings.count);
+        } else {
+          await fillTeams(session.id, settings.count);
+        }
+
+        io.to(pin).emit('TEAM_SETTINGS', { pin, settings });
+        io.to(pin).emit('LOBBY_UPDATE', { pin, players: await getSessionPlayers(session.id) });
+      } catch (error) {
+        console.error('Set team settings error:', error);
+      }
+    });
+
+    // A player picks their team, when the host lets them. The host can move anyone.
+    socket.on('PICK_TEAM', async (data: { pin: string; playerId: string; team: number }) => {
+      try {
+        const { pin, playerId, team } = data;
         const session = await prisma.gameSession.findUnique({ where: { pin } });
-        let players: any[] = [];
-        try {
-          players = typeof session?.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session?.players) ? session.players : []);
-        } catch (e) { players = []; }
-        if (!pendingAcks.has(pin)) pendingAcks.set(pin, new Map());
-        players.forEach((p: any) => {
-          if (p.id && p.id !== undefined && p.id !== null) {
-            // Always use roomConnections for up-to-date socketId
-            const playerSocketId = roomConnections.get(pin)?.get(p.id);
-            if (playerSocketId && playerSocketId !== socket.id) {
-              pendingAcks.get(pin)!.set(p.id, { event: 'STATE_SYNC', payload: data });
-              console.log(`[SERVER] Emitting STATE_SYNC to player ${p.id} (socket ${playerSocketId}) in room ${pin} with state`, data);
-              io.to(playerSocketId).emit('STATE_SYNC', data);
-            } else if (!playerSocketId) {
-              console.warn(`[SERVER] No socketId for player ${p.id} in room ${pin} when emitting STATE_SYNC`);
-            }
-          }
+        const settings = parseTeamSettings(session?.teamSettings);
+        if (!session || !settings || session.state !== 'LOBBY') return;
+        if (!Number.isInteger(team) || team < 0 || team >= settings.count) return;
+
+        const isHost = isHostSocket(socket, session.hostId);
+        const isSelf = await realtime.getSocketId(pin, playerId) === socket.id;
+        if (!isHost && !(isSelf && settings.assignment === 'PICK')) {
+          console.warn(`[GAME] Rejected PICK_TEAM for ${playerId} from socket ${socket.id} in room ${pin}`);
+          return;
+        }
+
+        await prisma.gamePlayer.updateMany({
+          where: { sessionId: session.id, playerId },
+          data: { team }
         });
+        io.to(pin).emit('LOBBY_UPDATE', { pin, players: await getSessionPlayers(session.id) });
+      } catch (error) {
+        console.error('Pick team error:', error);
+      }
+    });
+
+    // Player submits an answer
+    socket.on('ANSWER_SUBMITTED', async (data: { pin: string; playerId: string; answer: any }) => {
+      try {
+        const { pin, playerId, answer } = data;
+        const submittedAt = Date.now();
+
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        const player = session ? await findPlayer(session.id, playerId) : null;
+        if (!session || !player) return;
+
+        // Only the player's own socket may answer for them; the host answers for bots
+        if (await realtime.getSocketId(pin, playerId) !== socket.id) {
+          if (!player.isBot || !isHostSocket(socket, session.hostId)) {
+            console.warn(`[SCORING] Rejected answer for ${playerId} from socket ${socket.id} in room ${pin}`);
+            return;
+          }
+        }
+
+        await relayLive(io, session.serverId, { type: 'ANSWER', pin, playerId, answer, submittedAt });
+      } catch (error) {
+        console.error('Answer submitted error:', error);
+      }
+    });
+
+    // Host marks an open-ended answer as correct or incorrect while the answers are revealed
+    socket.on('MARK_ANSWER', async (data: { pin: string; playerId: string; correct: boolean }) => {
+      try {
+        const { pin, playerId, correct } = data;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'MARK_ANSWER', pin, session)) return;
+
+        await relayLive(io, session.serverId, { type: 'MARK', pin, playerId, correct: !!correct });
+      } catch (error) {
+        console.error('Mark answer error:', error);
+      }
+    });
+
+    // Host asks the server to move the game on (skip the timer, continue past the reveal or leaderboard).
+    // The server only accepts the transition that would have come next anyway.
+    socket.on('STATE_SYNC', async (data: { pin: string; state: any }) => {
+      try {
+        const { pin, state } = data;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'STATE_SYNC', pin, session)) return;
+        if (!inProgress(session.state)) return;
+
+        // Convert numeric enum to string
+        const requested = typeof state === 'number' ? GameState[state] : state;
+        await relayLive(io, session.serverId, { type: 'ADVANCE', pin, socketId: socket.id, requested });
       } catch (error) {
         console.error('State sync error:', error);
       }
     });
+
     // Handle ACKs from clients for critical events
-    socket.on('EVENT_ACK', (data: { pin: string; playerId: string; event: string }) => {
-      const { pin, playerId, event } = data;
-      console.log(`[SERVER] Received EVENT_ACK for ${event} from player ${playerId} in room ${pin}`);
-      if (pendingAcks.has(pin)) {
-        const playerMap = pendingAcks.get(pin)!;
-        if (playerMap.has(playerId) && playerMap.get(playerId)!.event === event) {
-          playerMap.delete(playerId);
-        }
+    socket.on('EVENT_ACK', async (data: { pin: string; playerId: string; event: string }) => {
+      try {
+        const { pin, playerId, event } = data;
+        console.log(`[SERVER] Received EVENT_ACK for ${event} from player ${playerId} in room ${pin}`);
+        await realtime.clearPendingAck(pin, playerId, event);
+      } catch (error) {
+        console.error('Event ACK error:', error);
       }
     });
 
@@ -493,30 +1455,28 @@ export function setupSocketHandlers(io: Server) {
       }
 
       // After join logic, check for pending ACKs
-      if (data.playerId && pendingAcks.has(data.pin)) {
-        const playerMap = pendingAcks.get(data.pin)!;
-        if (playerMap.has(data.playerId)) {
-          const pending = playerMap.get(data.playerId)!;
+      try {
+        const pending = data.playerId ? await realtime.getPendingAck(data.pin, data.playerId) : undefined;
+        const session = pending?.event === 'STATE_SYNC'
+          ? await prisma.gameSession.findUnique({ where: { pin: data.pin }, select: { state: true } })
+          : null;
+        // A stale STATE_SYNC is replaced by the GAME_SNAPSHOT sent on join
+        if (pending && !(session && inProgress(session.state))) {
           socket.emit(pending.event, pending.payload);
         }
+      } catch (error) {
+        console.error('Resend pending ACK error:', error);
       }
     });
 
-    // Host syncs scores
-    socket.on('SCORE_SYNC', async (data: { pin: string; players: Player[] }) => {
+    // Scores are computed by the server when answers are revealed; client score pushes are ignored,
+    // and refused outright when they don't come from the host
+    socket.on('SCORE_SYNC', async (data: { pin: string }) => {
       try {
-        const { pin, players } = data;
-
-        await prisma.gameSession.update({
-          where: { pin },
-          data: { 
-            players: JSON.stringify(players),
-            lastActiveAt: new Date()
-          }
-        });
-
-        // Broadcast to all clients except sender
-        socket.to(pin).emit('SCORE_SYNC', data);
+        const pin = data?.pin;
+        const session = await prisma.gameSession.findUnique({ where: { pin } });
+        if (!authorizeHost(socket, 'SCORE_SYNC', pin, session)) return;
+        console.warn(`[SCORING] Ignoring client SCORE_SYNC from socket ${socket.id} in room ${pin}`);
       } catch (error) {
         console.error('Score sync error:', error);
       }
@@ -526,61 +1486,44 @@ export function setupSocketHandlers(io: Server) {
       console.log('Client disconnected:', socket.id);
       
       // Find which room and player this socket belonged to
-      for (const [pin, connections] of roomConnections.entries()) {
-        for (const [playerId, socketId] of connections.entries()) {
-          if (socketId === socket.id) {
-            // Mark player as disconnected
-            try {
-              const session = await prisma.gameSession.findUnique({
-                where: { pin }
-              });
-              
-              if (session) {
-                let players: any[] = [];
-                try {
-                  players = typeof session.players === 'string' ? JSON.parse(session.players) : (Array.isArray(session.players) ? session.players : []);
-                } catch (e) {
-                  console.error('Failed to parse players:', e);
-                  players = [];
-                }
-                const player = players.find((p: any) => p.id === playerId);
-                
-                // Only mark as disconnected if their current socketId matches this disconnecting socket
-                // (prevents marking as disconnected if they already reconnected with a new socket)
-                if (player && player.socketId === socket.id) {
-                  // Mark player as disconnected and clear socketId
-                  player.connected = false;
-                  player.socketId = null;
-                  await prisma.gameSession.update({
-                    where: { pin },
-                    data: { players: JSON.stringify(players) }
-                  });
-                  // Notify all clients in the room with the updated player list
-                  io.to(pin).emit('LOBBY_UPDATE', { pin, players });
-                  // Also emit PLAYER_DISCONNECTED for legacy UI
-                  io.to(pin).emit('PLAYER_DISCONNECTED', { pin, playerId, connected: false });
-                  console.log(`Player ${playerId} marked as disconnected in room ${pin} on disconnect`);
-                } else if (player) {
-                  if (typeof player.socketId === 'string' && player.socketId !== socket.id) {
-                    console.log(`Socket ${socket.id} disconnected but player ${playerId} already reconnected with socket ${player.socketId}`);
-                  }
-                }
-              }
-              
-              // Remove from tracking only if this socket is still the current one
-              if (connections.get(playerId) === socket.id) {
-                connections.delete(playerId);
+      try {
+        for (const { pin, playerId } of await realtime.findConnections(socket.id)) {
+          // Mark player as disconnected
+          const session = await prisma.gameSession.findUnique({
+            where: { pin }
+          });
+          
+          if (session) {
+            // Only mark as disconnected if their current socketId matches this disconnecting socket
+            // (prevents marking as disconnected if they already reconnected with a new socket)
+            const disconnected = await prisma.gamePlayer.updateMany({
+              where: { sessionId: session.id, playerId, socketId: socket.id },
+              data: {
+                connected: false,
+                socketId: null,
+                connectedSince: null
               }
-              if (connections.size === 0) {
-                roomConnections.delete(pin);
+            });
+            if (disconnected.count > 0) {
+              // Notify all clients in the room with the updated player list
+              io.to(pin).emit('LOBBY_UPDATE', { pin, players: await getSessionPlayers(session.id) });
+              // Also emit PLAYER_DISCONNECTED for legacy UI
+              io.to(pin).emit('PLAYER_DISCONNECTED', { pin, playerId, connected: false });
+              console.log(`Player ${playerId} marked as disconnected in room ${pin} on disconnect`);
+
+              if (playerId === session.hostId && inProgress(session.state)) {
+                await relayLive(io, session.serverId, { type: 'HOST_LEFT', pin });
               }
-            } catch (error) {
-              console.error('Error handling disconnect:', error);
+            } else {
+              console.log(`Socket ${socket.id} disconnected but player ${playerId} already reconnected with another socket`);
             }
-            
-            return;
           }
+          
+          // Remove from tracking only if this socket is still the current one
+          await realtime.removeConnection(pin, playerId, socket.id);
         }
+      } catch (error) {
+        console.error('Error handling disconnect:', error);
       }
     });
   });
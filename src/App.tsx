@@ -15,7 +15,10 @@ import CreateAIPage from './pages/CreateAIPage';
 import EditorPage from './pages/EditorPage';
 import LobbyPage from './pages/LobbyPage';
 import GamePage from './pages/GamePage';
+import DisplayPage from './pages/DisplayPage';
 import QuizDetailPage from './pages/QuizDetailPage';
+import QuizAnalyticsPage from './pages/QuizAnalyticsPage';
+import AssignmentPage from './pages/AssignmentPage';
 import UserProfilePage from './pages/UserProfilePage';
 import AdminPage from './pages/AdminPage';
 import ErrorPage from './pages/ErrorPage';
@@ -136,6 +139,16 @@ const App: React.FC = () => {
               <Layout><EditorPage /></Layout>
             </ProtectedRoute>
           } />
+          <Route path="/quiz/:id/analytics" element={
+            <ProtectedRoute>
+              <Layout><QuizAnalyticsPage /></Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/assignment/:id" element={
+            <ProtectedRoute>
+              <Layout><AssignmentPage /></Layout>
+            </ProtectedRoute>
+          } />
           
           {/* Error page */}
           <Route path="/error" element={<ErrorPage />} />
@@ -143,6 +156,7 @@ const App: React.FC = () => {
           {/* Game routes with no header */}
           <Route path="/lobby/:pin" element={<Layout hideHeader><LobbyPage /></Layout>} />
           <Route path="/game/:pin" element={<Layout hideHeader><GamePage /></Layout>} />
+          <Route path="/display/:pin" element={<DisplayPage />} />
           
           {/* Catch-all 404 */}
           <Route path="*" element={<NotFoundPage />} />
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { CollaboratorRole, Question, ScoringConfig, ShuffleSettings } from './types';
 
 // Use relative URLs in production, or environment variable if provided
 const getApiBaseUrl = () => {
@@ -119,6 +120,28 @@ export const quizAPI = {
     api.delete(`/quiz/${id}`),
   incrementPlayCount: (id: string) => 
     api.post(`/quiz/${id}/play`),
+  getAnalytics: (id: string) =>
+    api.get(`/quiz/${id}/analytics`),
+  // Version history
+  getRevisions: (id: string) =>
+    api.get(`/quiz/${id}/revisions`),
+  diffRevisions: (id: string, from: number, to: number) =>
+    api.get(`/quiz/${id}/revisions/diff`, { params: { from, to } }),
+  restoreRevision: (id: string, version: number) =>
+    api.post(`/quiz/${id}/revisions/${version}/restore`),
+  // Sharing with other teachers
+  getShared: () =>
+    api.get('/quiz/shared'),
+  getCollaborators: (id: string) =>
+    api.get(`/quiz/${id}/collaborators`),
+  inviteCollaborator: (id: string, username: string, role: CollaboratorRole) =>
+    api.post(`/quiz/${id}/collaborators`, { username, role }),
+  updateCollaborator: (id: string, userId: string, role: CollaboratorRole) =>
+    api.put(`/quiz/${id}/collaborators/${userId}`, { role }),
+  removeCollaborator: (id: string, userId: string) =>
+    api.delete(`/quiz/${id}/collaborators/${userId}`),
+  acceptInvitation: (id: string) =>
+    api.post(`/quiz/${id}/collaborators/accept`),
   // AI generation endpoints
   generateFromAI: (topic: string, count: number, userId?: string) => 
     api.post('/quiz/ai/generate', { topic, count, userId }),
@@ -131,20 +154,67 @@ export const quizAPI = {
 
 // Game endpoints
 export const gameAPI = {
-  create: (quizId: string, solo?: boolean) => 
-    api.post('/game/create', { quizId, solo }),
+  create: (quizId: string, solo?: boolean, scoringConfig?: ScoringConfig, pin?: string, shuffleSettings?: ShuffleSettings) => 
+    api.post('/game/create', { quizId, solo, scoringConfig, pin, shuffleSettings }),
+
+  getReservedPins: () =>
+    api.get('/game/reserved-pins'),
   
   join: (pin: string, playerName: string, userId?: string) => 
     api.post('/game/join', { pin, playerName, userId }),
   
-  getByPin: (pin: string) => 
-    api.get(`/game/${pin}`),
-  
-  update: (pin: string, data: any) => 
-    api.put(`/game/${pin}`, data),
+  // Players pass their ID to get the options in the order they see them
+  getByPin: (pin: string, playerId?: string) => 
+    api.get(`/game/${pin}`, { params: { playerId } }),
   
-  end: (pin: string, players: any[]) => 
-    api.post(`/game/${pin}/end`, { players })
+  end: (pin: string) => 
+    api.post(`/game/${pin}/end`)
+};
+
+// Assignment endpoints
+export const assignmentAPI = {
+  create: (data: { quizId: string; title?: string; opensAt: string; closesAt: string; maxAttempts?: number | null; scoringConfig?: ScoringConfig }) =>
+    api.post('/assignments', data),
+
+  getMine: () =>
+    api.get('/assignments'),
+
+  getById: (id: string) =>
+    api.get(`/assignments/${id}`),
+
+  delete: (id: string) =>
+    api.delete(`/assignments/${id}`),
+
+  getResults: (id: string) =>
+    api.get(`/assignments/${id}/results`),
+
+  startAttempt: (id: string) =>
+    api.post(`/assignments/${id}/attempts`),
+
+  getQuestion: (id: string, attemptId: string) =>
+    api.post(`/assignments/${id}/attempts/${attemptId}/question`),
+
+  submitAnswer: (id: string, attemptId: string, index: number, answer: any) =>
+    api.post(`/assignments/${id}/attempts/${attemptId}/answer`, { index, answer })
+};
+
+// Question bank endpoints
+export const bankAPI = {
+  getAll: (params?: { search?: string; tag?: string }) =>
+    api.get('/bank', { params }),
+
+  create: (question: Question, tags: string[]) =>
+    api.post('/bank', { question, tags }),
+
+  update: (id: string, data: { question?: Question; tags?: string[] }) =>
+    api.put(`/bank/${id}`, data),
+
+  delete: (id: string) =>
+    api.delete(`/bank/${id}`),
+
+  // Copy the bank entry over every quiz question linked to it
+  push: (id: string) =>
+    api.post(`/bank/${id}/push`)
 };
 
 // User endpoints
@@ -160,6 +230,8 @@ export const userAPI = {
     api.delete('/user/account'),
   getQuizzes: (id: string) => 
     api.get(`/user/${id}/quizzes`),
+  getHistory: (id: string, params?: { limit?: number; offset?: number }) =>
+    api.get(`/user/${id}/history`, { params }),
   getGlobalLeaderboard: (params?: { limit?: number; offset?: number; type?: 'xp' | 'coins' | 'points' }) => 
     api.get('/user/leaderboard/global', { params }),
   acceptLegalUpdates: (tosVersion: string, privacyVersion: string) =>
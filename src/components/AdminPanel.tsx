@@ -9,6 +9,7 @@ import { Trash2, Edit2, Lock, Unlock, Shield, ShieldOff, Search, ChevronLeft, Ch
 import Modal from './ui/Modal';
 import { LIMITS } from './QuizCreator';
 import ReportsTab from './ReportsTab';
+import ReservedPinsTab from './ReservedPinsTab';
 import { AdminRole } from '../types';
 import type { User as UserType } from '../types';
 
@@ -29,7 +30,7 @@ const ITEMS_PER_PAGE = 10;
 
 export default function AdminPanel() {
   const { user } = useUser();
-  const [activeTab, setActiveTab] = useState<'quizzes' | 'users' | 'reports'>('quizzes');
+  const [activeTab, setActiveTab] = useState<'quizzes' | 'users' | 'reports' | 'pins'>('quizzes');
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
@@ -277,6 +278,16 @@ export default function AdminPanel() {
         >
           Reports
         </button>
+        <button
+          onClick={() => setActiveTab('pins')}
+          className={`px-4 py-2 font-semibold border-b-2 ${
+            activeTab === 'pins'
+              ? 'border-blue-500 text-blue-600'
+              : 'border-transparent text-gray-600 hover:text-gray-800'
+          }`}
+        >
+          Reserved PINs
+        </button>
       </div>
 
       {/* Quizzes Tab */}
@@ -613,6 +624,9 @@ export default function AdminPanel() {
 
       {/* Reports Tab */}
       {activeTab === 'reports' && <ReportsTab isActive={true} />}
+
+      {/* Reserved PINs Tab */}
+      {activeTab === 'pins' && <ReservedPinsTab isActive={true} />}
     </div>
   );
 }
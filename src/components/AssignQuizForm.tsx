@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+
+export interface AssignmentSettings {
+  title: string;
+  opensAt: string; // ISO dates
+  closesAt: string;
+  maxAttempts: number | null;
+}
+
+interface AssignQuizFormProps {
+  defaultTitle: string;
+  onAssign: (settings: AssignmentSettings) => void;
+}
+
+// Assignments are open for a week from now unless the teacher picks other dates
+const DEFAULT_OPEN_DAYS = 7;
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const AssignQuizForm: React.FC<AssignQuizFormProps> = ({ defaultTitle, onAssign }) => {
+  const [title, setTitle] = useState(defaultTitle);
+  const [opensAt, setOpensAt] = useState(() => toLocalInput(new Date()));
+  const [closesAt, setClosesAt] = useState(() => toLocalInput(new Date(Date.now() + DEFAULT_OPEN_DAYS * 24 * 60 * 60 * 1000)));
+  const [maxAttempts, setMaxAttempts] = useState(''); // empty for unlimited
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500/50';
+  const labelClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1 block';
+  const isValid = title.trim() && opensAt && closesAt && new Date(closesAt) > new Date(opensAt);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Title</label>
+        <input type="text" value={title} maxLength={100} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Opens</label>
+          <input type="datetime-local" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Closes</label>
+          <input type="datetime-local" value={closesAt} onChange={(e) => setClosesAt(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Attempts per student</label>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            placeholder="Unlimited"
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(e.target.value.replace(/[^0-9]/g, ''))}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <button
+        onClick={() => onAssign({
+          title: title.trim(),
+          opensAt: new Date(opensAt).toISOString(),
+          closesAt: new Date(closesAt).toISOString(),
+          maxAttempts: maxAttempts ? parseInt(maxAttempts, 10) : null
+        })}
+        disabled={!isValid}
+        className="w-full bg-blue-500 text-white py-3 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-blue-600 transition-all disabled:opacity-30"
+      >
+        Create Assignment
+      </button>
+    </div>
+  );
+};
+
+export default AssignQuizForm;
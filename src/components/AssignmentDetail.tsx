@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Assignment, AssignmentAttempt, AssignmentResultRow } from '../types';
+import { assignmentAPI } from '../api';
+import { useErrorHandler } from '../hooks/useErrorHandler';
+import AssignmentPlay from './AssignmentPlay';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// An assignment's page: teachers see its share link and ranked results, students start or resume attempts
+const AssignmentDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { handleError } = useErrorHandler();
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [attempts, setAttempts] = useState<AssignmentAttempt[]>([]);
+  const [results, setResults] = useState<AssignmentResultRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [playing, setPlaying] = useState<AssignmentAttempt | null>(null);
+  const [finished, setFinished] = useState<AssignmentAttempt | null>(null);
+
+  const loadAssignment = async () => {
+    if (!id) return;
+    try {
+      const response = await assignmentAPI.getById(id);
+      setAssignment(response.data.assignment);
+      setAttempts(response.data.attempts || []);
+      if (response.data.assignment.isOwner) {
+        const resultsResponse = await assignmentAPI.getResults(id);
+        setResults(resultsResponse.data.results || []);
+      }
+    } catch (error: any) {
+      console.error('Failed to load assignment:', error);
+      handleError(error.response?.status || 500, error.response?.data?.error || 'Failed to load assignment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAssignment();
+  }, [id]);
+
+  const handleStart = async () => {
+    if (!id) return;
+    try {
+      const response = await assignmentAPI.startAttempt(id);
+      setFinished(null);
+      setPlaying(response.data.attempt);
+    } catch (error: any) {
+      console.error('Failed to start attempt:', error);
+      toast.error(error.response?.data?.error || 'Failed to start attempt');
+    }
+  };
+
+  const handleFinish = (attempt: AssignmentAttempt) => {
+    setPlaying(null);
+    setFinished(attempt);
+    loadAssignment();
+  };
+
+  const handleDelete = async () => {
+    if (!id || !window.confirm('Delete this assignment and all of its attempts?')) return;
+    try {
+      await assignmentAPI.delete(id);
+      toast.success('Assignment deleted');
+      navigate('/dashboard');
+    } catch (error: any) {
+      console.error('Failed to delete assignment:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete assignment');
+    }
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/assignment/${id}`);
+    toast.success('Link copied');
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-12 space-y-4">
+        {[1, 2].map(i => <div key={i} className="glass h-32 rounded-[2rem] animate-pulse"></div>)}
+      </div>
+    );
+  }
+
+  if (!assignment || !id) return null;
+
+  if (playing) {
+    return <AssignmentPlay assignmentId={id} attempt={playing} onFinish={handleFinish} />;
+  }
+
+  const now = new Date();
+  const isOpen = now >= new Date(assignment.opensAt) && now < new Date(assignment.closesAt);
+  const unfinished = attempts.find(a => !a.completedAt);
+  const attemptsLeft = assignment.maxAttempts === null ? null : Math.max(0, assignment.maxAttempts - attempts.length);
+  // Answers are only taken while the assignment is open, unfinished attempts included
+  const canStart = isOpen && (!!unfinished || attemptsLeft !== 0);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 md:px-8 py-8 sm:py-12 animate-in fade-in duration-500 space-y-6">
+      <div>
+        <h1 className="text-3xl sm:text-4xl font-black text-white mb-2">{assignment.title}</h1>
+        <p className="text-slate-500 text-xs font-black uppercase tracking-widest">
+          {assignment.quizTitle} • {assignment.questionCount} questions
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="glass p-4 rounded-2xl border-white/5">
+          <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Opens</div>
+          <div className="font-black text-white">{formatDate(assignment.opensAt)}</div>
+        </div>
+        <div className="glass p-4 rounded-2xl border-white/5">
+          <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Closes</div>
+          <div className="font-black text-white">{formatDate(assignment.closesAt)}</div>
+        </div>
+        <div className="glass p-4 rounded-2xl border-white/5">
+          <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Attempts</div>
+          <div className="font-black text-white">
+            {assignment.maxAttempts === null ? 'Unlimited' : `${attempts.length} of ${assignment.maxAttempts} used`}
+          </div>
+        </div>
+      </div>
+
+      {finished && (
+        <div className="glass p-6 rounded-[2rem] border-emerald-500/20 text-center">
+          <div className="text-[10px] font-black text-emerald-400 uppercase tracking-widest mb-2">Attempt Finished</div>
+          <div className="text-5xl font-black text-white">{finished.score.toLocaleString()}</div>
+          <div className="text-xs font-black text-slate-500 uppercase tracking-widest mt-2">
+            {finished.correctAnswers}/{finished.questionCount} correct
+          </div>
+        </div>
+      )}
+
+      <div className="glass p-6 rounded-[2rem] border-white/5 space-y-4">
+        <h3 className="text-lg font-black text-white uppercase tracking-tight">Your Attempts</h3>
+        {attempts.length === 0 ? (
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">No attempts yet</p>
+        ) : (
+          <div className="space-y-2">
+            {attempts.map((a, i) => (
+              <div key={a.id} className="bg-white/5 rounded-2xl border border-white/5 p-4 flex items-center justify-between gap-3">
+                <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                  Attempt {i + 1} • {a.completedAt ? formatDate(a.completedAt) : `Question ${a.currentIndex + 1} of ${a.questionCount}`}
+                </div>
+                <div className="text-right">
+                  <div className="font-black text-blue-400">{a.score.toLocaleString()}</div>
+                  <div className="text-[10px] font-black text-slate-500 uppercase">{a.correctAnswers}/{a.questionCount} correct</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={handleStart}
+          disabled={!canStart}
+          className="w-full bg-blue-500 text-white py-4 rounded-2xl font-black text-sm uppercase tracking-widest hover:bg-blue-600 transition-all disabled:opacity-30"
+        >
+          {!isOpen ? (now < new Date(assignment.opensAt) ? 'Not Open Yet' : 'Closed')
+            : unfinished ? 'Resume Attempt'
+            : attemptsLeft === 0 ? 'No Attempts Left'
+            : 'Start Attempt'}
+        </button>
+      </div>
+
+      {assignment.isOwner && (
+        <div className="glass p-6 rounded-[2rem] border-white/5 space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <h3 className="text-lg font-black text-white uppercase tracking-tight">Results</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCopyLink}
+                className="bg-white/5 border border-white/10 text-white px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-white/10 transition-all"
+              >
+                <i className="bi bi-link-45deg"></i> Copy Link
+              </button>
+              <button
+                onClick={handleDelete}
+                className="bg-rose-500/10 border border-rose-500/20 text-rose-400 px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-rose-500/20 transition-all"
+              >
+                <i className="bi bi-trash"></i> Delete
+              </button>
+            </div>
+          </div>
+          {results.length === 0 ? (
+            <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">No finished attempts yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                    <th className="py-2 pr-4">#</th>
+                    <th className="py-2 pr-4">Student</th>
+                    <th className="py-2 pr-4 text-right">Score</th>
+                    <th className="py-2 pr-4 text-right">Correct</th>
+                    <th className="py-2 pr-4 text-right">Attempts</th>
+                    <th className="py-2 text-right">Finished</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(row => (
+                    <tr key={row.userId} className="border-t border-white/5 text-white">
+                      <td className="py-3 pr-4 font-black text-slate-500">{row.rank}</td>
+                      <td className="py-3 pr-4 font-black">{row.name}</td>
+                      <td className="py-3 pr-4 font-black font-mono text-right text-blue-400">{row.score.toLocaleString()}</td>
+                      <td className="py-3 pr-4 font-bold text-right">{row.correctAnswers}/{assignment.questionCount}</td>
+                      <td className="py-3 pr-4 font-bold text-right">{row.attempts}</td>
+                      <td className="py-3 text-right text-slate-400 text-xs">{formatDate(row.completedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentDetail;
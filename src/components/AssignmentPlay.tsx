@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useRef } from 'react';
+import toast from 'react-hot-toast';
+import QuestionScreen from './QuestionScreen';
+import { assignmentAPI } from '../api';
+import { AnswerKey, AssignmentAttempt, GameState, Question, QuestionType } from '../types';
+import { describeCorrectAnswer } from '../utils/scoring';
+
+interface AssignmentPlayProps {
+  assignmentId: string;
+  attempt: AssignmentAttempt;
+  onFinish: (attempt: AssignmentAttempt) => void;
+}
+
+interface AnswerResult {
+  accuracy: number;
+  points: number;
+  inTime: boolean;
+}
+
+// Questions that have no right answer to reveal, or that a teacher would have to mark
+const UNGRADED_TYPES = [QuestionType.POLL, QuestionType.WORD_CLOUD, QuestionType.OPEN_ENDED, QuestionType.FLASHCARD];
+
+// Plays one attempt at an assignment, a question at a time. The server owns the timer: each
+// question opens at startedAt and answers are graded against its clock, not this one.
+const AssignmentPlay: React.FC<AssignmentPlayProps> = ({ assignmentId, attempt: initialAttempt, onFinish }) => {
+  const [attempt, setAttempt] = useState(initialAttempt);
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [index, setIndex] = useState(initialAttempt.currentIndex);
+  const [gameState, setGameState] = useState<GameState>(GameState.QUESTION_INTRO);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [humanAnswer, setHumanAnswer] = useState<any>(undefined);
+  const [result, setResult] = useState<AnswerResult | null>(null);
+  const startedAtRef = useRef<number | null>(null);
+  const serverOffsetRef = useRef(0);
+  const submittingRef = useRef(false);
+
+  const loadQuestion = async () => {
+    try {
+      const response = await assignmentAPI.getQuestion(assignmentId, attempt.id);
+      const data: { index: number; question: Question; startedAt: number; serverTime: number } = response.data;
+      serverOffsetRef.current = data.serverTime - Date.now();
+      startedAtRef.current = data.startedAt;
+      submittingRef.current = false;
+      setQuestion(data.question);
+      setIndex(data.index);
+      setHumanAnswer(undefined);
+      setResult(null);
+      if (data.serverTime < data.startedAt) {
+        setTimeLeft(Math.ceil((data.startedAt - data.serverTime) / 1000));
+        setGameState(GameState.QUESTION_INTRO);
+      } else {
+        const deadline = data.startedAt + (data.question.timeLimit || 20) * 1000;
+        setTimeLeft(Math.max(0, Math.ceil((deadline - data.serverTime) / 1000)));
+        setGameState(GameState.QUESTION_ACTIVE);
+      }
+    } catch (error: any) {
+      console.error('Failed to load question:', error);
+      toast.error(error.response?.data?.error || 'Failed to load question');
+    }
+  };
+
+  useEffect(() => {
+    loadQuestion();
+  }, []);
+
+  // Count down to the question opening, then to its time limit
+  useEffect(() => {
+    if (!question || gameState === GameState.ANSWER_REVEAL) return;
+    const timer = setInterval(() => {
+      const startedAt = startedAtRef.current;
+      if (startedAt === null) return;
+      const serverNow = Date.now() + serverOffsetRef.current;
+      if (serverNow < startedAt) {
+        setTimeLeft(Math.ceil((startedAt - serverNow) / 1000));
+        return;
+      }
+      setGameState(GameState.QUESTION_ACTIVE);
+      const deadline = startedAt + (question.timeLimit || 20) * 1000;
+      setTimeLeft(Math.max(0, Math.ceil((deadline - serverNow) / 1000)));
+    }, 250);
+    return () => clearInterval(timer);
+  }, [question, gameState]);
+
+  const submitAnswer = async (answer: any) => {
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    setHumanAnswer(answer);
+    try {
+      const response = await assignmentAPI.submitAnswer(assignmentId, attempt.id, index, answer);
+      const data: AnswerResult & { answer: AnswerKey; attempt: AssignmentAttempt } = response.data;
+      setQuestion(prev => prev ? { ...prev, ...data.answer } : prev);
+      setAttempt(data.attempt);
+      setResult({ accuracy: data.accuracy, points: data.points, inTime: data.inTime });
+      setGameState(GameState.ANSWER_REVEAL);
+    } catch (error: any) {
+      console.error('Failed to submit answer:', error);
+      toast.error(error.response?.data?.error || 'Failed to submit answer');
+      // The question may have been answered in another tab; pick up wherever the attempt is now
+      loadQuestion();
+    }
+  };
+
+  // Time ran out without an answer
+  useEffect(() => {
+    if (gameState === GameState.QUESTION_ACTIVE && timeLeft === 0 && humanAnswer === undefined && startedAtRef.current !== null &&
+        Date.now() + serverOffsetRef.current >= startedAtRef.current) {
+      submitAnswer(undefined);
+    }
+  }, [gameState, timeLeft, humanAnswer]);
+
+  if (!question) {
+    return <div className="min-h-screen flex items-center justify-center">
+      <div className="text-white">Loading question...</div>
+    </div>;
+  }
+
+  if (gameState !== GameState.ANSWER_REVEAL || !result) {
+    return (
+      <QuestionScreen
+        question={question}
+        index={index + 1}
+        total={attempt.questionCount}
+        timeLeft={timeLeft}
+        gameState={gameState}
+        totalSubmissions={humanAnswer === undefined ? 0 : 1}
+        totalPlayers={1}
+        onAnswer={submitAnswer}
+        humanAnswer={humanAnswer}
+      />
+    );
+  }
+
+  const isGraded = !UNGRADED_TYPES.includes(question.type);
+  const correctAnswer = isGraded && result.accuracy <= 0 ? describeCorrectAnswer(question) : '';
+  const isLast = !!attempt.completedAt;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950/40 p-8 text-center animate-in fade-in duration-500">
+      <div className="mb-12 w-full max-w-4xl mx-auto">
+        {!isGraded ? (
+          <div className="text-blue-400">
+            <i className="bi bi-check2-all text-[10rem] drop-shadow-[0_0_50px_rgba(59,130,246,0.3)]"></i>
+            <div className="text-5xl font-black uppercase tracking-widest mt-6">Answer Saved</div>
+          </div>
+        ) : result.accuracy > 0 ? (
+          <div className="text-emerald-400">
+            <i className="bi bi-check-circle-fill text-[12rem] drop-shadow-[0_0_50px_rgba(16,185,129,0.3)]"></i>
+            <div className="text-5xl font-black uppercase tracking-widest mt-6">Correct!</div>
+          </div>
+        ) : (
+          <div className="text-rose-500">
+            <i className="bi bi-x-circle-fill text-[10rem] drop-shadow-[0_0_50px_rgba(244,63,94,0.3)]"></i>
+            <div className="text-5xl font-black uppercase tracking-widest mt-6">{result.inTime ? 'Incorrect' : 'Out of Time'}</div>
+            {correctAnswer && (
+              <div className="mt-8 bg-rose-500/10 border border-rose-500/20 p-6 rounded-3xl max-w-xl mx-auto">
+                <span className="text-[10px] font-black uppercase tracking-[0.4em] text-rose-500/60 block mb-2">
+                  Correct Answer
+                </span>
+                <span className="text-2xl font-black text-white uppercase">{correctAnswer}</span>
+              </div>
+            )}
+          </div>
+        )}
+        <div className="mt-8 flex items-center justify-center gap-6 text-slate-400 font-black uppercase tracking-widest text-sm">
+          <span className="text-blue-400">+{result.points.toLocaleString()}</span>
+          <span>Score {attempt.score.toLocaleString()}</span>
+          {attempt.streak > 1 && <span className="text-orange-500"><i className="bi bi-fire"></i> {attempt.streak}</span>}
+        </div>
+      </div>
+      <button
+        onClick={() => isLast ? onFinish(attempt) : loadQuestion()}
+        className="bg-white text-slate-900 px-16 py-5 rounded-full text-2xl font-black transition-all hover:scale-105 active:scale-95 shadow-2xl mt-8"
+      >
+        {isLast ? 'See Results' : 'Next Question'}
+      </button>
+    </div>
+  );
+};
+
+export default AssignmentPlay;
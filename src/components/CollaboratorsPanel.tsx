@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CollaboratorRole, QuizCollaborator, QuizRole } from '../types';
+import { quizAPI } from '../api';
+import { useUser } from '../context/UserContext';
+import { generateAvatarUrl } from '../utils/avatar';
+
+interface CollaboratorsPanelProps {
+  quizId: string;
+  role: QuizRole;
+  onLeave: () => void;
+}
+
+const ROLE_HINTS: Record<CollaboratorRole, string> = {
+  EDITOR: 'Can edit questions, host and view analytics',
+  VIEWER: 'Can view, host and see analytics'
+};
+
+// The people a quiz is shared with. The author invites and manages them, collaborators can leave.
+const CollaboratorsPanel: React.FC<CollaboratorsPanelProps> = ({ quizId, role, onLeave }) => {
+  const { user } = useUser();
+  const [collaborators, setCollaborators] = useState<QuizCollaborator[]>([]);
+  const [username, setUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<CollaboratorRole>('EDITOR');
+  const [inviting, setInviting] = useState(false);
+  const isOwner = role === 'OWNER';
+
+  const loadCollaborators = async () => {
+    try {
+      const response = await quizAPI.getCollaborators(quizId);
+      setCollaborators(response.data.collaborators || []);
+    } catch (error: any) {
+      console.error('Failed to load collaborators:', error);
+      toast.error(error.response?.data?.error || 'Failed to load collaborators');
+    }
+  };
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [quizId]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    setInviting(true);
+    try {
+      const response = await quizAPI.inviteCollaborator(quizId, username.trim(), inviteRole);
+      setCollaborators([...collaborators, response.data.collaborator]);
+      setUsername('');
+      toast.success(`Invited ${response.data.collaborator.username}`);
+    } catch (error: any) {
+      console.error('Failed to invite collaborator:', error);
+      toast.error(error.response?.data?.error || 'Failed to invite collaborator');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (c: QuizCollaborator, newRole: CollaboratorRole) => {
+    try {
+      const response = await quizAPI.updateCollaborator(quizId, c.userId, newRole);
+      setCollaborators(collaborators.map(x => x.userId === c.userId ? response.data.collaborator : x));
+    } catch (error: any) {
+      console.error('Failed to change role:', error);
+      toast.error(error.response?.data?.error || 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (c: QuizCollaborator) => {
+    const leaving = c.userId === user?.id;
+    const message = leaving ? 'Leave this quiz? You will no longer be able to open it.' : `Remove ${c.username} from this quiz?`;
+    if (!window.confirm(message)) return;
+    try {
+      await quizAPI.removeCollaborator(quizId, c.userId);
+      if (leaving) {
+        toast.success('You left the quiz');
+        onLeave();
+        return;
+      }
+      setCollaborators(collaborators.filter(x => x.userId !== c.userId));
+    } catch (error: any) {
+      console.error('Failed to remove collaborator:', error);
+      toast.error(error.response?.data?.error || 'Failed to remove collaborator');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isOwner && (
+        <form onSubmit={handleInvite} className="space-y-2">
+          <input
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            placeholder="Invite by username..."
+            maxLength={30}
+            className="bg-white/5 border border-white/10 w-full px-4 py-3 rounded-xl text-xs text-white outline-none focus:border-sky-500/50 transition-all"
+          />
+          <div className="flex gap-2">
+            <select
+              value={inviteRole}
+              onChange={e => setInviteRole(e.target.value as CollaboratorRole)}
+              title={ROLE_HINTS[inviteRole]}
+              className="flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-white outline-none focus:border-sky-500/50 cursor-pointer"
+            >
+              <option value="EDITOR" className="bg-slate-900">Editor</option>
+              <option value="VIEWER" className="bg-slate-900">Viewer</option>
+            </select>
+            <button
+              type="submit"
+              disabled={inviting || !username.trim()}
+              className="bg-sky-500/10 border border-sky-500/20 text-sky-300 px-4 py-2 rounded-xl font-black text-[9px] uppercase tracking-widest hover:bg-sky-500/20 transition-all disabled:opacity-30"
+            >
+              <i className="bi bi-send"></i> Invite
+            </button>
+          </div>
+          <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{ROLE_HINTS[inviteRole]}</p>
+        </form>
+      )}
+
+      {collaborators.length === 0 ? (
+        <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest leading-relaxed">
+          Invite other teachers to write this quiz with you.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {collaborators.map(c => (
+            <div key={c.userId} className="bg-white/5 border border-white/5 rounded-2xl p-3 flex items-center gap-3">
+              <img
+                src={c.profilePicture || generateAvatarUrl(c.username)}
+                alt={c.username}
+                className="w-8 h-8 rounded-full object-cover shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="text-xs font-bold text-white truncate">{c.username}</div>
+                <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                  {c.accepted ? c.role : 'Invited'}
+                </div>
+              </div>
+              {isOwner && (
+                <select
+                  value={c.role}
+                  onChange={e => handleRoleChange(c, e.target.value as CollaboratorRole)}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[9px] font-black uppercase tracking-widest text-white outline-none cursor-pointer"
+                >
+                  <option value="EDITOR" className="bg-slate-900">Editor</option>
+                  <option value="VIEWER" className="bg-slate-900">Viewer</option>
+                </select>
+              )}
+              {(isOwner || c.userId === user?.id) && (
+                <button
+                  onClick={() => handleRemove(c)}
+                  title={c.userId === user?.id ? 'Leave Quiz' : 'Remove'}
+                  className="text-rose-500/50 hover:text-rose-400 transition-colors text-xs"
+                >
+                  <i className={`bi ${c.userId === user?.id ? 'bi-box-arrow-right' : 'bi-x-lg'}`}></i>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollaboratorsPanel;
@@ -2,8 +2,8 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate } from 'react-router-dom';
-import { User, Quiz } from '../types';
-import { quizAPI } from '../api';
+import { User, Quiz, GameHistoryEntry, Assignment } from '../types';
+import { quizAPI, userAPI, assignmentAPI } from '../api';
 import { getGenreIcon } from '../utils/genre';
 import { generateAvatarUrl } from '../utils/avatar';
 import { downloadQuiz } from '../utils/quizImportExport';
@@ -31,11 +31,69 @@ const Dashboard: React.FC<DashboardProps> = ({ user, quizzes = [], setQuizzes, o
   const dropdownButtonRef = useRef<HTMLButtonElement | null>(null);
   const [renamingQuiz, setRenamingQuiz] = useState<Quiz | null>(null);
   const [newTitle, setNewTitle] = useState('');
+  const [history, setHistory] = useState<GameHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [expandedResultId, setExpandedResultId] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [sharedQuizzes, setSharedQuizzes] = useState<Quiz[]>([]);
+  const [invitations, setInvitations] = useState<Quiz[]>([]);
 
   useEffect(() => {
     // quizzes are loaded in DashboardPage and paginated
+    if (!user?.id) return;
+    setHistoryLoading(true);
+    userAPI.getHistory(user.id, { limit: 10 })
+      .then(response => setHistory(response.data.history || []))
+      .catch(error => console.error('Failed to load play history:', error))
+      .finally(() => setHistoryLoading(false));
   }, [user?.id]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+    assignmentAPI.getMine()
+      .then(response => setAssignments(response.data.assignments || []))
+      .catch(error => console.error('Failed to load assignments:', error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    quizAPI.getShared()
+      .then(response => {
+        setSharedQuizzes(response.data.quizzes || []);
+        setInvitations(response.data.invitations || []);
+      })
+      .catch(error => console.error('Failed to load shared quizzes:', error));
+  }, [user?.id]);
+
+  const handleAcceptInvitation = async (quiz: Quiz) => {
+    try {
+      await quizAPI.acceptInvitation(quiz.id);
+      setInvitations(prev => prev.filter(q => q.id !== quiz.id));
+      setSharedQuizzes(prev => [quiz, ...prev]);
+      toast.success(`You can now ${quiz.role === 'EDITOR' ? 'edit' : 'use'} "${quiz.title}"`);
+    } catch (error: any) {
+      console.error('Failed to accept invitation:', error);
+      toast.error(error.response?.data?.error || 'Failed to accept invitation');
+    }
+  };
+
+  const handleDeclineInvitation = async (quiz: Quiz) => {
+    try {
+      await quizAPI.removeCollaborator(quiz.id, user.id);
+      setInvitations(prev => prev.filter(q => q.id !== quiz.id));
+    } catch (error: any) {
+      console.error('Failed to decline invitation:', error);
+      toast.error(error.response?.data?.error || 'Failed to decline invitation');
+    }
+  };
+
+  const formatAnswer = (answer: any): string => {
+    if (answer === null || answer === undefined) return '—';
+    if (Array.isArray(answer)) return answer.join(', ');
+    if (typeof answer === 'object') return JSON.stringify(answer);
+    return String(answer);
+  };
+
   // Handle click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -220,6 +278,145 @@ const Dashboard: React.FC<DashboardProps> = ({ user, quizzes = [], setQuizzes, o
               </button>
             </div>
           </div>
+
+          {/* Play History */}
+          <div className="glass p-6 sm:p-8 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-white/10">
+            <h3 className="text-lg font-black text-white uppercase tracking-tight mb-4">Recent Games</h3>
+            {historyLoading ? (
+              <div className="space-y-3">
+                {[1, 2].map(i => <div key={i} className="h-16 bg-white/5 rounded-2xl animate-pulse"></div>)}
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">No live games played yet</p>
+            ) : (
+              <div className="space-y-3">
+                {history.map(entry => (
+                  <div key={entry.id} className="bg-white/5 rounded-2xl border border-white/5">
+                    <button
+                      onClick={() => setExpandedResultId(expandedResultId === entry.id ? null : entry.id)}
+                      className="w-full p-4 flex items-center justify-between gap-3 text-left"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-black text-white truncate">{entry.quizTitle}</div>
+                        <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-1">
+                          {new Date(entry.playedAt).toLocaleDateString()} • #{entry.rank} of {entry.playerCount}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="font-black text-blue-400">{entry.score.toLocaleString()}</div>
+                        <div className="text-[10px] font-black text-slate-500 uppercase">{entry.correctAnswers}/{entry.questionCount} correct</div>
+                      </div>
+                    </button>
+                    {expandedResultId === entry.id && (
+                      <div className="px-4 pb-4 space-y-2">
+                        {entry.answers.length === 0 ? (
+                          <p className="text-slate-500 text-xs">No answers recorded</p>
+                        ) : entry.answers.map(a => (
+                          <div key={a.questionIndex} className="flex items-start justify-between gap-3 text-xs border-t border-white/5 pt-2">
+                            <div className="min-w-0">
+                              <div className="text-slate-300 font-bold truncate">{a.questionIndex + 1}. {a.questionText}</div>
+                              <div className="text-slate-500 truncate">{formatAnswer(a.answer)}</div>
+                            </div>
+                            <div className={`font-black shrink-0 ${a.accuracy > 0.9 ? 'text-emerald-400' : a.accuracy > 0 ? 'text-amber-400' : 'text-rose-400'}`}>
+                              +{a.points}
+                            </div>
+                          </div>
+                        ))}
+                        {entry.quizId && (
+                          <button
+                            onClick={() => navigate(`/quiz/${entry.quizId}`)}
+                            className="text-[10px] font-black text-blue-400 uppercase tracking-widest pt-2"
+                          >
+                            View Quiz <i className="bi bi-arrow-right"></i>
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Assignments set by this user */}
+          {assignments.length > 0 && (
+            <div className="glass p-6 sm:p-8 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-white/10">
+              <h3 className="text-lg font-black text-white uppercase tracking-tight mb-4">Assignments</h3>
+              <div className="space-y-3">
+                {assignments.map(a => (
+                  <button
+                    key={a.id}
+                    onClick={() => navigate(`/assignment/${a.id}`)}
+                    className="w-full bg-white/5 rounded-2xl border border-white/5 p-4 flex items-center justify-between gap-3 text-left hover:bg-white/10 transition-all"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-black text-white truncate">{a.title}</div>
+                      <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-1">
+                        {new Date(a.closesAt) > new Date() ? `Closes ${new Date(a.closesAt).toLocaleDateString()}` : 'Closed'}
+                      </div>
+                    </div>
+                    <div className="text-[10px] font-black text-slate-500 uppercase shrink-0">{a.attemptCount ?? 0} attempts</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Quizzes other authors shared with this user */}
+          {(invitations.length > 0 || sharedQuizzes.length > 0) && (
+            <div className="glass p-6 sm:p-8 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-white/10">
+              <h3 className="text-lg font-black text-white uppercase tracking-tight mb-4">Shared With You</h3>
+              <div className="space-y-3">
+                {invitations.map(q => (
+                  <div key={q.id} className="bg-sky-500/5 rounded-2xl border border-sky-500/20 p-4 space-y-3">
+                    <div className="min-w-0">
+                      <div className="font-black text-white truncate">{q.title}</div>
+                      <div className="text-[10px] font-black text-sky-400 uppercase tracking-widest mt-1">
+                        {q.authorName} invited you as {q.role === 'EDITOR' ? 'an editor' : 'a viewer'}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleAcceptInvitation(q)}
+                        className="flex-1 bg-sky-500 text-slate-900 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-sky-400 transition-all"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => handleDeclineInvitation(q)}
+                        className="flex-1 bg-white/5 border border-white/10 text-slate-400 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:text-white hover:bg-white/10 transition-all"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {sharedQuizzes.map(q => (
+                  <div
+                    key={q.id}
+                    onClick={() => navigate(`/quiz/${q.id}`)}
+                    className="w-full bg-white/5 rounded-2xl border border-white/5 p-4 flex items-center justify-between gap-3 cursor-pointer hover:bg-white/10 transition-all"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-black text-white truncate">{q.title}</div>
+                      <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-1">
+                        By {q.authorName} • {q.role}
+                      </div>
+                    </div>
+                    {q.role === 'EDITOR' && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); navigate(`/editor/${q.id}`); }}
+                        title="Edit Quiz"
+                        className="text-slate-400 hover:text-white transition-colors shrink-0"
+                      >
+                        <i className="bi bi-pencil-fill"></i>
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Right: Quiz Management */}
@@ -334,6 +531,13 @@ const Dashboard: React.FC<DashboardProps> = ({ user, quizzes = [], setQuizzes, o
                               <i className="bi bi-files"></i>
                               Clone
                             </button>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); setOpenDropdownId(null); navigate(`/quiz/${q.id}/analytics`); }}
+                              className="w-full px-4 py-3 text-left text-sm font-bold text-slate-300 hover:bg-white/10 hover:text-white transition-all flex items-center gap-3"
+                            >
+                              <i className="bi bi-graph-up"></i>
+                              Analytics
+                            </button>
                             <button
                               onClick={(e) => { e.stopPropagation(); setOpenDropdownId(null); setConfirmingQuiz(q); }}
                               className="w-full px-4 py-3 text-left text-sm font-bold text-rose-400 hover:bg-rose-500/20 hover:text-rose-300 transition-all flex items-center gap-3 rounded-b-xl"
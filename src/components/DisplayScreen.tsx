@@ -0,0 +1,216 @@
+import React from 'react';
+import { Player, Quiz, GameState, QuestionType, TeamSettings } from '../types';
+import { decodeHtmlEntities } from '../utils/cn';
+import { describeCorrectAnswer } from '../utils/scoring';
+import { ResponseSummary } from '../utils/responses';
+import { CHOICE_STYLES } from './QuestionScreen';
+import ResponseResults from './ResponseResults';
+import TeamStandings from './TeamStandings';
+
+interface DisplayScreenProps {
+  pin: string;
+  quiz: Quiz;
+  players: Player[];
+  gameState: GameState;
+  questionIndex: number;
+  timeLeft: number;
+  answeredCount: number;
+  liveResults: ResponseSummary | null; // running tally while a poll or word cloud is open, the final one once revealed
+  revealed: boolean; // the current question's answer key has arrived
+  paused: boolean;
+  teamSettings: TeamSettings | null;
+}
+
+// Questions whose answers are picked from the options, which the display shows as tiles
+const CHOICE_TYPES = [QuestionType.MULTIPLE_CHOICE, QuestionType.TRUE_FALSE, QuestionType.POLL, QuestionType.AUDIO_QUIZ, QuestionType.IMAGE_QUIZ];
+
+// Read-only, large-format view of a live game for a projector. It takes no answers and has no controls.
+const DisplayScreen: React.FC<DisplayScreenProps> = ({
+  pin, quiz, players, gameState, questionIndex, timeLeft, answeredCount, liveResults, revealed, paused, teamSettings
+}) => {
+  const question = quiz.questions[questionIndex];
+  const ranked = [...players].sort((a, b) => b.score - a.score);
+
+  const header = (
+    <div className="flex items-center justify-between px-12 py-6 text-slate-500 font-black uppercase tracking-[0.3em] text-xl">
+      <span>{quiz.title}</span>
+      {paused && (
+        <span className="text-amber-400 animate-pulse"><i className="bi bi-pause-circle-fill mr-3"></i>Paused</span>
+      )}
+      <span>PIN <span className="text-blue-400 tracking-widest">{pin}</span></span>
+    </div>
+  );
+
+  if (gameState === GameState.LOBBY || !question) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-12 bg-[#020617] text-white p-12 text-center">
+        <div className="text-3xl font-black uppercase tracking-[0.4em] text-slate-500">
+          Join at <span className="text-white normal-case tracking-normal">{window.location.host}/join</span>
+        </div>
+        <div className="text-[12rem] leading-none font-black tracking-tighter text-blue-400">{pin}</div>
+        <h1 className="text-5xl font-black">{quiz.title}</h1>
+        <div className="flex flex-wrap justify-center gap-4 max-w-6xl">
+          {players.map(p => (
+            <span key={p.id} className="glass border-white/10 px-6 py-3 rounded-2xl text-2xl font-black">{p.name}</span>
+          ))}
+        </div>
+        <div className="text-2xl font-black uppercase tracking-widest text-slate-500">
+          <i className="bi bi-people-fill text-emerald-400 mr-3"></i>{players.length} Players
+        </div>
+      </div>
+    );
+  }
+
+  const options = question.options?.length
+    ? question.options
+    : question.type === QuestionType.TRUE_FALSE ? ['True', 'False'] : [];
+  const isChoice = CHOICE_TYPES.includes(question.type) && options.length > 0;
+  const isOpinion = question.type === QuestionType.POLL || question.type === QuestionType.WORD_CLOUD;
+  const correct = revealed ? question.correctIndices || [] : [];
+
+  if (gameState === GameState.QUESTION_INTRO) {
+    return (
+      <div className="min-h-screen flex flex-col bg-[#020617] text-white">
+        {header}
+        <div className="flex-1 flex flex-col items-center justify-center gap-10 p-12 text-center">
+          <div className="text-3xl font-black uppercase tracking-[0.4em] text-blue-400">
+            Question {questionIndex + 1} of {quiz.questions.length}
+          </div>
+          <h2 className="text-7xl font-black leading-tight max-w-6xl">{decodeHtmlEntities(question.text)}</h2>
+          <div className="text-9xl font-black text-white/20">{timeLeft}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState === GameState.QUESTION_ACTIVE || gameState === GameState.ANSWER_REVEAL) {
+    const isReveal = gameState === GameState.ANSWER_REVEAL;
+    const correctText = isReveal && revealed && !isOpinion && !isChoice ? describeCorrectAnswer(question) : '';
+
+    return (
+      <div className="min-h-screen flex flex-col bg-[#020617] text-white">
+        {header}
+        <div className="flex-1 flex flex-col gap-10 px-12 pb-12">
+          <div className="flex items-start gap-10">
+            <h2 className="flex-1 text-6xl font-black leading-tight">{decodeHtmlEntities(question.text)}</h2>
+            {!isReveal && (
+              <div className="flex flex-col items-center gap-4 shrink-0">
+                <div className={`w-40 h-40 rounded-full border-8 flex items-center justify-center text-7xl font-black ${timeLeft <= 5 ? 'border-rose-500 text-rose-400' : 'border-blue-500 text-white'}`}>
+                  {timeLeft}
+                </div>
+                <div className="text-2xl font-black uppercase tracking-widest text-slate-400">
+                  {answeredCount} / {players.length} answered
+                </div>
+              </div>
+            )}
+          </div>
+
+          {question.imageUrl && question.type !== QuestionType.DROP_PIN && question.type !== QuestionType.PIN_ANSWER && (
+            <img src={question.imageUrl} alt="" className="max-h-[35vh] w-auto mx-auto rounded-3xl border-2 border-white/10" />
+          )}
+
+          {isOpinion && liveResults ? (
+            <ResponseResults summary={liveResults} options={options} compact={!isReveal} />
+          ) : isChoice ? (
+            <div className="grid grid-cols-2 gap-6">
+              {options.map((opt, i) => {
+                const style = CHOICE_STYLES[i] || CHOICE_STYLES[0];
+                const dimmed = isReveal && revealed && !isOpinion && !correct.includes(i);
+                return (
+                  <div
+                    key={i}
+                    className={`glass ${style.border} p-8 rounded-[2.5rem] flex items-center gap-6 transition-opacity ${dimmed ? 'opacity-25' : ''}`}
+                  >
+                    <div className={`w-20 h-20 flex items-center justify-center rounded-2xl ${style.bg} ${style.text} shrink-0`}>
+                      <i className={`bi ${isReveal && correct.includes(i) ? 'bi-check-lg' : style.icon} text-4xl`}></i>
+                    </div>
+                    <span className="text-4xl font-bold leading-tight break-words">{decodeHtmlEntities(opt)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : null}
+
+          {correctText && (
+            <div className="mx-auto bg-emerald-500/10 border-2 border-emerald-500/30 px-12 py-8 rounded-[2.5rem] text-center">
+              <div className="text-xl font-black uppercase tracking-[0.4em] text-emerald-500/70 mb-3">Correct Answer</div>
+              <div className="text-6xl font-black text-emerald-300">{correctText}</div>
+            </div>
+          )}
+          {isReveal && question.type === QuestionType.FLASHCARD && question.backText && (
+            <div className="mx-auto bg-emerald-500/10 border-2 border-emerald-500/30 px-12 py-8 rounded-[2.5rem] text-5xl font-black text-emerald-300 text-center">
+              {question.backText}
+            </div>
+          )}
+          {isReveal && question.type === QuestionType.OPEN_ENDED && (
+            <div className="text-center text-3xl font-black uppercase tracking-widest text-slate-500 animate-pulse">
+              The host is marking answers
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState === GameState.LEADERBOARD) {
+    return (
+      <div className="min-h-screen flex flex-col bg-[#020617] text-white">
+        {header}
+        <div className="flex-1 flex flex-col items-center gap-10 px-12 pb-12">
+          <h2 className="text-7xl font-black uppercase tracking-tighter">Leaderboard</h2>
+          <div className={`w-full ${teamSettings ? 'max-w-7xl grid grid-cols-2 gap-10 items-start' : 'max-w-4xl'}`}>
+            {teamSettings && <TeamStandings players={players} settings={teamSettings} humanId="" />}
+            <div className="space-y-4">
+              {ranked.slice(0, 10).map((p, i) => (
+                <div key={p.id} className="glass border-white/5 flex items-center justify-between px-8 py-5 rounded-3xl">
+                  <div className="flex items-center gap-6">
+                    <span className="text-4xl font-black opacity-30 w-12">{i + 1}</span>
+                    <span className="text-4xl font-black">{p.name}</span>
+                    {p.streak > 1 && (
+                      <span className="text-2xl font-black text-orange-500"><i className="bi bi-fire"></i> {p.streak}</span>
+                    )}
+                  </div>
+                  <span className="text-4xl font-black font-mono">{p.score.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameState === GameState.PODIUM) {
+    // Second place on the left, the winner in the middle, third on the right
+    const podium = [ranked[1], ranked[0], ranked[2]];
+    const heights = ['h-64', 'h-96', 'h-48'];
+    const medals = ['text-slate-300', 'text-amber-400', 'text-orange-600'];
+
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-end gap-12 bg-[#020617] text-white p-12">
+        <h2 className="text-8xl font-black uppercase tracking-tighter">Final Results</h2>
+        {teamSettings && (
+          <div className="w-full max-w-4xl">
+            <TeamStandings players={players} settings={teamSettings} humanId="" />
+          </div>
+        )}
+        <div className="flex items-end gap-8">
+          {podium.map((p, i) => p && (
+            <div key={p.id} className="flex flex-col items-center gap-4 w-80">
+              <i className={`bi bi-trophy-fill text-6xl ${medals[i]}`}></i>
+              <div className="text-4xl font-black text-center break-words">{p.name}</div>
+              <div className="text-3xl font-black font-mono text-slate-400">{p.score.toLocaleString()}</div>
+              <div className={`w-full ${heights[i]} glass border-white/10 rounded-t-[2rem] flex items-start justify-center pt-6 text-7xl font-black text-white/30`}>
+                {i === 1 ? 1 : i === 0 ? 2 : 3}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default DisplayScreen;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { decodeHtmlEntities } from '../utils/cn';
+import { FlashcardRating } from '../utils/scoring';
+
+interface FlashcardProps {
+  front: string;
+  back: string;
+  imageUrl?: string;
+  // Without a rating handler the card is only flipped, as in the editor preview
+  onRate?: (rating: FlashcardRating) => void;
+}
+
+const RATINGS: { rating: FlashcardRating; label: string; icon: string; className: string }[] = [
+  { rating: 'MISSED', label: 'Missed It', icon: 'bi-x-circle-fill', className: 'border-rose-500/40 text-rose-400 hover:bg-rose-500/10' },
+  { rating: 'UNSURE', label: 'Not Sure', icon: 'bi-question-circle-fill', className: 'border-amber-500/40 text-amber-400 hover:bg-amber-500/10' },
+  { rating: 'KNEW', label: 'Knew It', icon: 'bi-check-circle-fill', className: 'border-emerald-500/40 text-emerald-400 hover:bg-emerald-500/10' }
+];
+
+const Flashcard: React.FC<FlashcardProps> = ({ front, back, imageUrl, onRate }) => {
+  const [flipped, setFlipped] = useState(false);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-6">
+      <button
+        type="button"
+        onClick={() => setFlipped(prev => !prev)}
+        className="relative w-full h-64 sm:h-72 [perspective:1200px]"
+        aria-label={flipped ? 'Show front of card' : 'Show back of card'}
+      >
+        <div className={`relative w-full h-full transition-transform duration-500 [transform-style:preserve-3d] ${flipped ? '[transform:rotateY(180deg)]' : ''}`}>
+          <div className="absolute inset-0 glass rounded-[2rem] border-2 border-indigo-500/30 flex flex-col items-center justify-center gap-4 p-8 [backface-visibility:hidden]">
+            {imageUrl && <img src={imageUrl} alt="" className="max-h-28 rounded-xl object-contain" />}
+            <span className="text-xl sm:text-2xl font-black text-white">{decodeHtmlEntities(front)}</span>
+            <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">Tap to flip</span>
+          </div>
+          <div className="absolute inset-0 glass rounded-[2rem] border-2 border-emerald-500/30 bg-emerald-500/5 flex flex-col items-center justify-center gap-4 p-8 [backface-visibility:hidden] [transform:rotateY(180deg)]">
+            <span className="text-xl sm:text-2xl font-black text-emerald-300">{back ? decodeHtmlEntities(back) : '—'}</span>
+            <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">Tap to flip back</span>
+          </div>
+        </div>
+      </button>
+
+      {onRate && flipped && (
+        <div className="grid grid-cols-3 gap-3 w-full animate-in slide-in-from-bottom-4 duration-300">
+          {RATINGS.map(r => (
+            <button
+              key={r.rating}
+              onClick={() => onRate(r.rating)}
+              className={`glass border-2 rounded-2xl py-4 flex flex-col items-center gap-2 font-black text-xs uppercase tracking-widest transition-all active:scale-95 ${r.className}`}
+            >
+              <i className={`bi ${r.icon} text-2xl`}></i>
+              {r.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Flashcard;
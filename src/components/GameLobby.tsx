@@ -1,7 +1,8 @@
 
 import React from 'react';
 import toast from 'react-hot-toast';
-import { Player } from '../types';
+import { Player, TeamSettings } from '../types';
+import { DEFAULT_TEAM_SETTINGS, MAX_TEAMS, MIN_TEAMS, describeTeamScoring, getTeamColor, getTeamName } from '../utils/teams';
 
 interface GameLobbyProps {
   pin: string;
@@ -11,9 +12,23 @@ interface GameLobbyProps {
   isHost: boolean;
   createdAt: Date;
   onExit: () => void;
+  onToggleCoHost?: (playerId: string) => void;
+  myPlayerId?: string;
+  teamSettings?: TeamSettings | null;
+  onChangeTeams?: (settings: TeamSettings | null, shuffle?: boolean) => void;
+  onPickTeam?: (playerId: string, team: number) => void;
+  isLocked?: boolean;
+  onToggleLock?: () => void;
+  onKick?: (playerId: string) => void;
+  onBan?: (playerId: string) => void;
 }
 
-const GameLobby: React.FC<GameLobbyProps> = ({ pin, players, onStart, quizTitle, isHost, createdAt, onExit }) => {
+const teamCountOptions = Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, i) => MIN_TEAMS + i);
+
+const GameLobby: React.FC<GameLobbyProps> = ({
+  pin, players, onStart, quizTitle, isHost, createdAt, onExit, onToggleCoHost,
+  myPlayerId, teamSettings, onChangeTeams, onPickTeam, isLocked = false, onToggleLock, onKick, onBan
+}) => {
   console.log('[GAMELOBBY] Rendering with:', { pin, playersCount: players.length, players, isHost });
   const [timeRemaining, setTimeRemaining] = React.useState<string>('');
 
@@ -103,6 +118,29 @@ const GameLobby: React.FC<GameLobbyProps> = ({ pin, players, onStart, quizTitle,
     }
   };
 
+  const updateTeams = (updates: Partial<TeamSettings>) => {
+    if (teamSettings && onChangeTeams) onChangeTeams({ ...teamSettings, ...updates });
+  };
+
+  const myTeam = players.find(p => p.id === myPlayerId)?.team;
+  const canModerate = (p: Player) => isHost && !p.isHost;
+
+  const moderationButtons = (p: Player) => canModerate(p) && (
+    <div className="flex items-center gap-2">
+      {onKick && (
+        <button onClick={() => onKick(p.id)} className="text-slate-500 hover:text-rose-400 transition-colors" title="Kick">
+          <i className="bi bi-box-arrow-right"></i>
+        </button>
+      )}
+      {onBan && !p.isBot && (
+        <button onClick={() => onBan(p.id)} className="text-slate-500 hover:text-rose-500 transition-colors" title="Ban from this game">
+          <i className="bi bi-slash-circle"></i>
+        </button>
+      )}
+    </div>
+  );
+  const selectClass = 'glass px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-white border border-white/10 focus:outline-none focus:border-blue-500/50 cursor-pointer';
+
   return (
     <div className="flex flex-col min-h-screen bg-[#020617] animate-in fade-in duration-500">
       <div className="glass text-white p-6 md:p-8 border-b border-white/10">
@@ -148,6 +186,32 @@ const GameLobby: React.FC<GameLobbyProps> = ({ pin, players, onStart, quizTitle,
               >
                 <i className="bi bi-share-fill"></i> Share Link
               </button>
+              {isHost && (
+                <a
+                  href={`/display/${pin}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="glass border-white/10 text-white font-black px-4 sm:px-6 py-2 sm:py-3 rounded-xl sm:rounded-2xl text-xs sm:text-sm uppercase tracking-widest hover:bg-white/10 transition-all duration-300 ease-out hover:scale-105 flex items-center justify-center gap-2"
+                  title="Open a read-only view of the game for a projector"
+                >
+                  <i className="bi bi-projector-fill"></i> Projector
+                </a>
+              )}
+              {isHost && onToggleLock ? (
+                <button
+                  onClick={onToggleLock}
+                  className={`glass font-black px-4 sm:px-6 py-2 sm:py-3 rounded-xl sm:rounded-2xl text-xs sm:text-sm uppercase tracking-widest transition-all duration-300 ease-out hover:scale-105 flex items-center justify-center gap-2 ${
+                    isLocked ? 'border-amber-500/40 text-amber-400 hover:bg-amber-500/10' : 'border-white/10 text-white hover:bg-white/10'
+                  }`}
+                  title={isLocked ? 'Let new players join again' : 'Stop new players from joining'}
+                >
+                  <i className={`bi ${isLocked ? 'bi-lock-fill' : 'bi-unlock-fill'}`}></i> {isLocked ? 'Locked' : 'Lock Room'}
+                </button>
+              ) : isLocked && (
+                <div className="text-amber-400 font-black text-xs uppercase tracking-widest text-center flex items-center justify-center gap-2">
+                  <i className="bi bi-lock-fill"></i> Room Locked
+                </div>
+              )}
               {isHost ? (
                 <button 
                     onClick={onStart}
@@ -168,19 +232,132 @@ const GameLobby: React.FC<GameLobbyProps> = ({ pin, players, onStart, quizTitle,
 
       <div className="flex-1 p-4 sm:p-6 md:p-12 overflow-y-auto">
         <div className="max-w-7xl mx-auto">
-            <div className="mb-6 sm:mb-8 md:mb-12 flex justify-center">
+            <div className="mb-6 sm:mb-8 md:mb-12 flex flex-col items-center gap-4">
               <div className="glass border-white/5 px-4 sm:px-6 md:px-8 py-2 sm:py-3 rounded-full flex items-center gap-2 sm:gap-3">
                   <i className="bi bi-people-fill text-emerald-400 text-sm sm:text-base"></i>
                   <span className="font-black text-xs sm:text-sm uppercase tracking-widest text-slate-400">{players.length} Players</span>
               </div>
+
+              {isHost && onChangeTeams ? (
+                <div className="glass border-white/5 px-4 py-3 rounded-2xl flex flex-wrap items-center justify-center gap-2 sm:gap-3">
+                  <div className="flex bg-white/5 rounded-xl p-1">
+                    <button
+                      onClick={() => onChangeTeams(null)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${!teamSettings ? 'bg-white text-slate-900' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      Individual
+                    </button>
+                    <button
+                      onClick={() => !teamSettings && onChangeTeams(DEFAULT_TEAM_SETTINGS)}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${teamSettings ? 'bg-white text-slate-900' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      Teams
+                    </button>
+                  </div>
+                  {teamSettings && (
+                    <>
+                      <select value={teamSettings.count} onChange={e => updateTeams({ count: parseInt(e.target.value) })} className={selectClass}>
+                        {teamCountOptions.map(n => <option key={n} value={n} className="bg-slate-900">{n} Teams</option>)}
+                      </select>
+                      <select value={teamSettings.assignment} onChange={e => updateTeams({ assignment: e.target.value as TeamSettings['assignment'] })} className={selectClass}>
+                        <option value="AUTO" className="bg-slate-900">Auto-Balance</option>
+                        <option value="PICK" className="bg-slate-900">Players Pick</option>
+                      </select>
+                      <select value={teamSettings.scoring} onChange={e => updateTeams({ scoring: e.target.value as TeamSettings['scoring'] })} className={selectClass}>
+                        <option value="SUM" className="bg-slate-900">Total Score</option>
+                        <option value="AVERAGE" className="bg-slate-900">Average Score</option>
+                        <option value="BEST" className="bg-slate-900">Best Scores</option>
+                      </select>
+                      {teamSettings.scoring === 'BEST' && (
+                        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                          Top
+                          <input
+                            type="number"
+                            min="1"
+                            value={teamSettings.bestOf}
+                            onChange={e => updateTeams({ bestOf: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="bg-white/5 border border-white/10 w-14 px-2 py-1.5 rounded-xl text-white outline-none focus:border-blue-500/50"
+                          />
+                        </label>
+                      )}
+                      {teamSettings.assignment === 'AUTO' && (
+                        <button
+                          onClick={() => onChangeTeams(teamSettings, true)}
+                          className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white hover:bg-white/10 transition-all flex items-center gap-1.5"
+                        >
+                          <i className="bi bi-shuffle"></i> Shuffle
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              ) : teamSettings && (
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 text-center">
+                  Team game • {teamSettings.count} teams • {describeTeamScoring(teamSettings)}
+                  {teamSettings.assignment === 'PICK' && ' • Pick your team'}
+                </div>
+              )}
             </div>
 
+            {teamSettings ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6">
+                {Array.from({ length: teamSettings.count }, (_, team) => {
+                  const members = players.filter(p => p.team === team);
+                  const color = getTeamColor(team);
+                  const canJoin = !isHost && teamSettings.assignment === 'PICK' && !!myPlayerId && myTeam !== team;
+                  return (
+                    <div key={team} className="glass rounded-3xl border-t-4 p-4 sm:p-5 space-y-3 animate-in zoom-in duration-300" style={{ borderTopColor: color }}>
+                      <div className="flex items-center justify-between">
+                        <span className="font-black uppercase tracking-widest text-sm" style={{ color }}>{getTeamName(team)}</span>
+                        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{members.length}</span>
+                      </div>
+                      <div className="space-y-2">
+                        {members.map(p => (
+                          <div key={p.id} className={`flex items-center gap-2 p-2 rounded-xl ${p.id === myPlayerId ? 'bg-white/10' : 'bg-white/5'}`}>
+                            {!p.isBot && (
+                              <div className={`w-2 h-2 rounded-full shrink-0 ${p.connected !== false ? 'bg-emerald-500' : 'bg-red-500'}`}></div>
+                            )}
+                            <span className="flex-1 truncate text-xs font-black uppercase tracking-widest text-white">{p.name}</span>
+                            {p.isHost && <i className="bi bi-shield-fill text-blue-400 text-xs" title="Host"></i>}
+                            {p.isCoHost && <i className="bi bi-shield-half text-amber-400 text-xs" title="Co-host"></i>}
+                            {moderationButtons(p)}
+                            {isHost && onPickTeam && (
+                              <select
+                                value={team}
+                                onChange={e => onPickTeam(p.id, parseInt(e.target.value))}
+                                className="bg-transparent text-[9px] font-black uppercase text-slate-500 focus:outline-none cursor-pointer"
+                                title="Move to another team"
+                              >
+                                {Array.from({ length: teamSettings.count }, (_, t) => (
+                                  <option key={t} value={t} className="bg-slate-900">{getTeamName(t)}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      {canJoin && onPickTeam && (
+                        <button
+                          onClick={() => onPickTeam(myPlayerId!, team)}
+                          className="w-full py-2 rounded-xl border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white hover:bg-white/10 transition-all"
+                        >
+                          Join {getTeamName(team)}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4 md:gap-6 lg:gap-8\">
                 {players.map((p) => (
                     <div 
                         key={p.id} 
                         className="glass border-white/5 p-6 rounded-3xl flex flex-col items-center animate-in zoom-in duration-300 transition-all hover:bg-white/5 relative"
                     >
+                        {canModerate(p) && (
+                          <div className="absolute top-3 left-3 text-sm">{moderationButtons(p)}</div>
+                        )}
                         {/* Connection status indicator */}
                         {!p.isBot && (
                           <div className="absolute top-3 right-3">
@@ -197,9 +374,20 @@ const GameLobby: React.FC<GameLobbyProps> = ({ pin, players, onStart, quizTitle,
                         </div>
                         <div className="font-black text-center truncate w-full text-sm uppercase tracking-widest text-white">{p.name}</div>
                         {p.isHost && <span className="text-[8px] font-black text-blue-400 uppercase mt-1 tracking-widest">Host</span>}
+                        {p.isCoHost && <span className="text-[8px] font-black text-amber-400 uppercase mt-1 tracking-widest">Co-host</span>}
+                        {isHost && onToggleCoHost && !p.isHost && !p.isBot && p.userId && (
+                          <button
+                            onClick={() => onToggleCoHost(p.id)}
+                            className="mt-3 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-400 transition-colors"
+                            title="Takes over the game if you disconnect"
+                          >
+                            {p.isCoHost ? 'Remove co-host' : 'Make co-host'}
+                          </button>
+                        )}
                     </div>
                 ))}
             </div>
+            )}
         </div>
       </div>
     </div>
@@ -13,7 +13,7 @@ const Join: React.FC<JoinProps> = ({ onJoin, onBack }) => {
 
   const handleSubmit = async () => {
     if (pin.length < 6) {
-      toast.error('Enter the 6-digit PIN to join.');
+      toast.error('Enter the 6 to 8 digit PIN to join.');
       return;
     }
     setLoading(true);
@@ -46,7 +46,7 @@ const Join: React.FC<JoinProps> = ({ onJoin, onBack }) => {
             inputMode="numeric"
             pattern="[0-9]*"
             placeholder="000000" 
-            maxLength={6}
+            maxLength={8}
             value={pin}
             onChange={(e) => {
               setPin(e.target.value.replace(/[^0-9]/g, ''));
@@ -1,7 +1,10 @@
 
 import React from 'react';
-import { Player } from '../types';
+import { Player, TeamSettings } from '../types';
 import { getRankFromAccuracy } from '../utils/leveling';
+import ScoreBreakdown from './ScoreBreakdown';
+import TeamStandings from './TeamStandings';
+import { getTeamColor } from '../utils/teams';
 
 interface LeaderboardProps {
   players: Player[];
@@ -10,9 +13,10 @@ interface LeaderboardProps {
   isHost?: boolean;
   onNext: () => void;
   questionsAnswered?: number;
+  teamSettings?: TeamSettings | null;
 }
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ players, humanId, isSolo, isHost = false, onNext, questionsAnswered = 1 }) => {
+const Leaderboard: React.FC<LeaderboardProps> = ({ players, humanId, isSolo, isHost = false, onNext, questionsAnswered = 1, teamSettings }) => {
   const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
   console.log('Leaderboard - Original players:', players.map(p => ({ name: p.name, score: p.score })));
   console.log('Leaderboard - Sorted players:', sortedPlayers.map(p => ({ name: p.name, score: p.score })));
@@ -32,14 +36,16 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ players, humanId, isSolo, isH
         {isSolo ? "Level Analysis" : "Leaderboard"}
       </h2>
       
-      <div className="w-full max-w-3xl z-10 px-3 sm:px-4">
+      <div className={`w-full z-10 px-3 sm:px-4 ${teamSettings && !isSolo ? 'max-w-6xl grid lg:grid-cols-2 gap-4 sm:gap-6 items-start' : 'max-w-3xl'}`}>
+        {teamSettings && !isSolo && <TeamStandings players={players} settings={teamSettings} humanId={humanId} />}
         {isSolo ? (
           <div className="glass p-4 sm:p-6 md:p-10 lg:p-16 rounded-2xl sm:rounded-3xl md:rounded-[4rem] border-white/5 shadow-2xl relative overflow-hidden">
               <div className="absolute -top-4 -right-4 opacity-5">
                   <i className="bi bi-stack text-[80px] sm:text-[120px] md:text-[200px] text-white"></i>
               </div>
               <div className="text-[9px] sm:text-[10px] font-black text-indigo-400 uppercase tracking-[0.3em] sm:tracking-[0.4em] mb-2 sm:mb-3 md:mb-4">Score</div>
-              <div className="text-4xl sm:text-6xl md:text-8xl lg:text-9xl font-black mb-4 sm:mb-6 md:mb-8 lg:mb-12 text-white drop-shadow-2xl">{player?.score.toLocaleString()}</div>
+              <div className="text-4xl sm:text-6xl md:text-8xl lg:text-9xl font-black mb-3 sm:mb-4 md:mb-6 text-white drop-shadow-2xl">{player?.score.toLocaleString()}</div>
+              <ScoreBreakdown breakdown={player?.scoreBreakdown} className="justify-center mb-4 sm:mb-6 md:mb-8 lg:mb-12" />
               
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 md:gap-6 lg:gap-8 border-t border-white/10 pt-4 sm:pt-6 md:pt-8 lg:pt-12">
                   <div className="glass p-3 sm:p-4 md:p-6 lg:p-8 rounded-xl sm:rounded-2xl lg:rounded-3xl border-white/5 flex flex-col items-center gap-2 sm:gap-3">
@@ -67,6 +73,9 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ players, humanId, isSolo, isH
                   <span className="text-2xl sm:text-3xl font-black opacity-10 w-6 sm:w-8">{index + 1}</span>
                   <div>
                     <div className="text-base sm:text-lg md:text-xl font-black text-white uppercase tracking-wider flex items-center gap-2 sm:gap-3">
+                      {teamSettings && typeof p.team === 'number' && (
+                        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: getTeamColor(p.team) }}></span>
+                      )}
                       {p.name}
                       {/* Connection indicator */}
                       {!p.isBot && (
@@ -75,6 +84,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ players, humanId, isSolo, isH
                         }`} title={p.connected !== false ? 'Connected' : 'Disconnected'}></div>
                       )}
                     </div>
+                    <ScoreBreakdown breakdown={p.scoreBreakdown} className="mt-1" />
                     {p.streak >= 3 && (
                         <div className="flex items-center gap-1.5 text-[10px] text-orange-400 font-black tracking-widest mt-1">
                           <i className="bi bi-fire"></i> CHAIN x{p.streak}
@@ -1,7 +1,10 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { Player, User } from '../types';
+import { Player, TeamSettings, User } from '../types';
 import { getLevelProgress } from '../utils/leveling';
+import ScoreBreakdown from './ScoreBreakdown';
+import TeamStandings from './TeamStandings';
+import { getTeamStandings } from '../utils/teams';
 
 interface PodiumProps {
   players: Player[];
@@ -9,12 +12,14 @@ interface PodiumProps {
   user: User | null;
   onRestart: () => void;
   onUpdateUser: (user: User) => void;
+  teamSettings?: TeamSettings | null;
 }
 
-const Podium: React.FC<PodiumProps> = ({ players, humanId, user, onRestart, onUpdateUser }) => {
+const Podium: React.FC<PodiumProps> = ({ players, humanId, user, onRestart, onUpdateUser, teamSettings }) => {
   const sorted = [...players].sort((a, b) => b.score - a.score);
   const human = players.find(p => p.id === humanId);
   const rank = human ? sorted.findIndex(p => p.id === human.id) + 1 : 0;
+  const winningTeam = teamSettings ? getTeamStandings(players, teamSettings)[0] : null;
   
   const [xpEarned, setXpEarned] = useState(0);
   const [coinsEarned, setCoinsEarned] = useState(0);
@@ -57,6 +62,15 @@ const Podium: React.FC<PodiumProps> = ({ players, humanId, user, onRestart, onUp
         Game Over
       </h1>
 
+      {teamSettings && winningTeam && (
+        <div className="w-full max-w-3xl z-10 mb-6 sm:mb-8 md:mb-12 px-3 sm:px-4 space-y-4 animate-in slide-in-from-bottom-6 duration-700">
+          <div className="text-xl sm:text-2xl md:text-3xl font-black uppercase tracking-widest" style={{ color: winningTeam.color }}>
+            <i className="bi bi-trophy-fill"></i> {winningTeam.name} Team Wins
+          </div>
+          <TeamStandings players={players} settings={teamSettings} humanId={humanId} />
+        </div>
+      )}
+
       {/* Leaderboard Reveal - Best to Worst */}
       <div className="w-full max-w-3xl z-10 mb-6 sm:mb-8 md:mb-12 lg:mb-16 px-3 sm:px-4">
         <div className="space-y-2 sm:space-y-3">
@@ -95,6 +109,7 @@ const Podium: React.FC<PodiumProps> = ({ players, humanId, user, onRestart, onUp
                     <div className="text-[10px] sm:text-xs text-slate-500 uppercase tracking-widest">
                       {player.correctAnswers || 0} correct
                     </div>
+                    <ScoreBreakdown breakdown={player.scoreBreakdown} className="mt-1" />
                   </div>
                 </div>
                 <div className="text-right">
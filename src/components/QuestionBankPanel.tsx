@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { BankQuestion } from '../types';
+import { bankAPI } from '../api';
+
+interface QuestionBankPanelProps {
+  version: number; // bumped by the editor whenever it saves to the bank, to reload the list
+  onInsert: (question: BankQuestion) => void;
+}
+
+const typeLabel = (type: string) => type.replace(/_/g, ' ');
+
+export const parseTags = (value: string): string[] =>
+  value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+// The author's question bank beside the editor: search, filter by tag and insert into the quiz
+const QuestionBankPanel: React.FC<QuestionBankPanelProps> = ({ version, onInsert }) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadBank = async () => {
+    try {
+      const response = await bankAPI.getAll({ search: search.trim() || undefined, tag: tag || undefined });
+      setQuestions(response.data.questions || []);
+      setTags(response.data.tags || []);
+    } catch (error: any) {
+      console.error('Failed to load question bank:', error);
+      toast.error(error.response?.data?.error || 'Failed to load question bank');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = window.setTimeout(loadBank, 300);
+    return () => clearTimeout(timer);
+  }, [search, tag, version]);
+
+  const handleEditTags = async (q: BankQuestion) => {
+    const value = window.prompt('Tags, separated by commas', q.tags.join(', '));
+    if (value === null) return;
+    try {
+      await bankAPI.update(q.id, { tags: parseTags(value) });
+      loadBank();
+    } catch (error: any) {
+      console.error('Failed to update tags:', error);
+      toast.error(error.response?.data?.error || 'Failed to update tags');
+    }
+  };
+
+  const handleDelete = async (q: BankQuestion) => {
+    const note = q.usageCount > 0 ? ' Quizzes that use it keep their copy.' : '';
+    if (!window.confirm(`Remove this question from your bank?${note}`)) return;
+    try {
+      await bankAPI.delete(q.id);
+      toast.success('Removed from bank');
+      loadBank();
+    } catch (error: any) {
+      console.error('Failed to delete bank question:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete bank question');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        placeholder="Search questions or tags..."
+        maxLength={100}
+        className="bg-white/5 border border-white/10 w-full px-4 py-3 rounded-xl text-xs text-white outline-none focus:border-teal-500/50 transition-all"
+      />
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map(t => (
+            <button
+              key={t}
+              onClick={() => setTag(tag === t ? null : t)}
+              className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${tag === t ? 'bg-teal-500 text-slate-900' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`}
+            >
+              #{t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2].map(i => <div key={i} className="bg-white/5 h-16 rounded-2xl animate-pulse"></div>)}
+        </div>
+      ) : questions.length === 0 ? (
+        <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest leading-relaxed">
+          {search || tag ? 'No saved questions match.' : 'Save questions from any quiz with the bookmark button to reuse them here.'}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {questions.map(q => (
+            <div key={q.id} className="bg-white/5 border border-white/5 rounded-2xl p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-teal-400">{typeLabel(q.type)}</span>
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                  {q.usageCount > 0 ? `Used ${q.usageCount}×` : 'Unused'}
+                </span>
+              </div>
+              <div className="text-xs font-bold text-white leading-snug">{q.text}</div>
+              {q.tags.length > 0 && (
+                <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                  {q.tags.map(t => `#${t}`).join(' ')}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onInsert(q)}
+                  className="flex-1 bg-teal-500/10 border border-teal-500/20 text-teal-300 py-2 rounded-xl font-black text-[9px] uppercase tracking-widest hover:bg-teal-500/20 transition-all"
+                >
+                  <i className="bi bi-plus-lg"></i> Insert
+                </button>
+                <button
+                  onClick={() => handleEditTags(q)}
+                  title="Edit Tags"
+                  className="bg-white/5 border border-white/10 text-slate-400 hover:text-white px-3 py-2 rounded-xl text-xs transition-all"
+                >
+                  <i className="bi bi-tags"></i>
+                </button>
+                <button
+                  onClick={() => handleDelete(q)}
+                  title="Remove from Bank"
+                  className="bg-rose-500/10 border border-rose-500/20 text-rose-400 hover:bg-rose-500/20 px-3 py-2 rounded-xl text-xs transition-all"
+                >
+                  <i className="bi bi-trash"></i>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankPanel;
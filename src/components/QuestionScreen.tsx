@@ -1,7 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Question, GameState, QuestionType, PointType } from '../types';
+import { Question, GameState, QuestionType, PointType, PuzzleScoring } from '../types';
 import { decodeHtmlEntities } from '../utils/cn';
+import Flashcard from './Flashcard';
+import ResponseResults from './ResponseResults';
+import { ResponseSummary } from '../utils/responses';
+import { DEFAULT_WORLD_MAP_URL, ImagePoint, getImagePoint, pointToLatLng } from '../utils/mapPins';
 
 interface QuestionScreenProps {
   question: Question;
@@ -13,9 +17,10 @@ interface QuestionScreenProps {
   totalPlayers: number;
   onAnswer: (answer: any) => void;
   humanAnswer?: any;
+  liveResults?: ResponseSummary | null; // running tally shown once a poll or word cloud is answered
 }
 
-const CHOICE_STYLES = [
+export const CHOICE_STYLES = [
     { border: 'neon-border-blue', text: 'text-sky-400', bg: 'bg-sky-500/10', icon: 'bi-triangle-fill' },
     { border: 'neon-border-purple', text: 'text-purple-400', bg: 'bg-purple-500/10', icon: 'bi-square-fill' },
     { border: 'neon-border-pink', text: 'text-pink-400', bg: 'bg-pink-500/10', icon: 'bi-circle-fill' },
@@ -27,33 +32,48 @@ const CHOICE_STYLES = [
 ];
 
 const QuestionScreen: React.FC<QuestionScreenProps> = ({ 
-  question, index, total, timeLeft, gameState, totalSubmissions, totalPlayers, onAnswer, humanAnswer
+  question, index, total, timeLeft, gameState, totalSubmissions, totalPlayers, onAnswer, humanAnswer, liveResults
 }) => {
   const [introCountdown, setIntroCountdown] = useState(3);
   const [currentSequence, setCurrentSequence] = useState<string[]>([]);
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
   const [inputValue, setInputValue] = useState("");
   const [multiSelections, setMultiSelections] = useState<number[]>([]);
+  const [sliderValue, setSliderValue] = useState(0);
+  const [pin, setPin] = useState<ImagePoint | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
-  const isSelectAll = question.type === QuestionType.MULTIPLE_CHOICE && (question.correctIndices?.length || 0) > 1;
+  const isSelectAll = question.type === QuestionType.MULTIPLE_CHOICE && (question.multiSelect ?? (question.correctIndices?.length || 0) > 1);
   const isPoll = question.type === QuestionType.POLL;
   const isWordCloud = question.type === QuestionType.WORD_CLOUD;
   const isAudioQuiz = question.type === QuestionType.AUDIO_QUIZ;
   const isImageQuiz = question.type === QuestionType.IMAGE_QUIZ;
+  const isOpenEnded = question.type === QuestionType.OPEN_ENDED;
+  const isFlashcard = question.type === QuestionType.FLASHCARD;
+  const isRange = question.type === QuestionType.SLIDER || question.type === QuestionType.SCALE;
+  const isPinQuestion = question.type === QuestionType.DROP_PIN || question.type === QuestionType.PIN_ANSWER;
+  const rangeMin = question.minValue ?? (question.type === QuestionType.SCALE ? 1 : 0);
+  const rangeMax = question.maxValue ?? (question.type === QuestionType.SCALE ? 5 : 100);
+  const rangeStep = question.stepValue || 1;
+
+  // Fresh inputs for every question, also when a player rejoins while it is already open
+  useEffect(() => {
+    setInputValue("");
+    setMultiSelections([]);
+    setPin(null);
+    // Start sliders in the middle of their range, on a step
+    setSliderValue(rangeMin + Math.round((rangeMax - rangeMin) / 2 / rangeStep) * rangeStep);
+    if (question.type === QuestionType.PUZZLE) {
+      // Player views carry the puzzle items in options, with correctSequence withheld
+      const items = [...(question.correctSequence || question.options || [])].sort(() => Math.random() - 0.5);
+      setCurrentSequence(items);
+    }
+  }, [index, question.id]);
 
   useEffect(() => {
     if (gameState === GameState.QUESTION_INTRO) {
       setIntroCountdown(3);
-      setInputValue("");
-      setMultiSelections([]);
       const timer = setInterval(() => setIntroCountdown(prev => Math.max(0, prev - 1)), 1000);
-      
-      if (question.type === QuestionType.PUZZLE) {
-        const items = [...(question.correctSequence || [])].sort(() => Math.random() - 0.5);
-        setCurrentSequence(items);
-      }
-
       return () => clearInterval(timer);
     }
   }, [gameState, question]);
@@ -133,6 +153,11 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
     );
   };
 
+  const handlePinSubmit = () => {
+    if (!pin) return;
+    onAnswer(question.type === QuestionType.DROP_PIN ? pointToLatLng(pin) : pin);
+  };
+
   const handleMultiSubmit = () => {
     if (multiSelections.length > 0) {
       onAnswer(multiSelections);
@@ -221,12 +246,17 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
             <i className="bi bi-cpu text-3xl sm:text-5xl md:text-6xl text-emerald-400 animate-pulse mb-3 sm:mb-4 block"></i>
             <div className="text-lg sm:text-xl md:text-2xl font-black text-white uppercase mb-1">Waiting for Players</div>
             <div className="text-xs sm:text-sm text-slate-500 font-bold tracking-widest uppercase">Waiting for Results...</div>
+            {liveResults && (
+              <div className="mt-6 w-full max-w-xl">
+                <ResponseResults summary={liveResults} options={question.options || []} myAnswer={humanAnswer} compact />
+              </div>
+            )}
           </div>
         ) : (
           <>
             <div className={`${
               question.type === QuestionType.INPUT || question.type === QuestionType.PUZZLE || question.type === QuestionType.WORD_CLOUD ? 'flex flex-col items-center gap-6 w-full max-w-6xl px-4 sm:px-6 md:px-8' :
-              isAudioQuiz || isImageQuiz ? 'flex flex-col items-center gap-6 w-full max-w-6xl px-4 sm:px-6 md:px-8' :
+              isAudioQuiz || isImageQuiz || isRange || isPinQuestion || isOpenEnded || isFlashcard ? 'flex flex-col items-center gap-6 w-full max-w-6xl px-4 sm:px-6 md:px-8' :
               (question.options?.length || 0) > 6 ? 'grid gap-3 sm:gap-4 md:gap-6 w-full max-w-6xl px-4 sm:px-6 md:px-8 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4' : 
               (question.options?.length || 0) > 4 ? 'grid gap-3 sm:gap-4 md:gap-6 w-full max-w-6xl px-4 sm:px-6 md:px-8 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3' : 
               'grid gap-3 sm:gap-4 md:gap-6 w-full max-w-6xl px-4 sm:px-6 md:px-8 grid-cols-1 md:grid-cols-2'
@@ -236,6 +266,9 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
                   <div className="text-center">
                     <span className="text-[10px] font-black uppercase text-indigo-400 tracking-[0.4em] block mb-4">Tactile Sequence Rearrangement</span>
                     <p className="text-slate-500 text-sm font-medium">Drag items or click arrows to swap into correct protocol order.</p>
+                    {question.puzzleScoring && question.puzzleScoring !== PuzzleScoring.STRICT && (
+                      <p className="text-indigo-400 text-[10px] font-black uppercase tracking-[0.3em] mt-2">Partial credit for a partly correct order</p>
+                    )}
                   </div>
 
                   <div className={`flex flex-col gap-4 w-full ${(currentSequence || []).length > 5 ? 'max-w-3xl' : 'max-w-2xl'}`}>
@@ -433,6 +466,111 @@ const QuestionScreen: React.FC<QuestionScreenProps> = ({
                     })}
                   </div>
                 </div>
+              ) : isOpenEnded ? (
+                <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-8 animate-in fade-in duration-500">
+                  <div className="text-center">
+                    <span className="text-[10px] font-black uppercase text-blue-400 tracking-[0.4em] block mb-4">Open Answer</span>
+                    <p className="text-slate-500 text-sm font-medium">Write your answer. The host will mark it.</p>
+                  </div>
+
+                  <textarea
+                    value={inputValue}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    maxLength={500}
+                    rows={4}
+                    className="w-full bg-white/5 border-2 border-white/10 p-6 rounded-[2rem] text-xl font-bold text-white focus:outline-none focus:border-blue-500/50 transition-all placeholder:opacity-20 resize-none"
+                    placeholder="Your answer..."
+                    autoFocus
+                  />
+
+                  <button 
+                    onClick={() => inputValue.trim() && onAnswer(inputValue.trim())}
+                    disabled={!inputValue.trim()}
+                    className="group relative bg-white text-slate-900 px-16 py-6 rounded-3xl font-black text-2xl uppercase tracking-tighter shadow-2xl transition-all hover:scale-105 active:scale-95 flex items-center gap-4 overflow-hidden disabled:opacity-30"
+                  >
+                    <i className="bi bi-send-fill text-blue-600"></i>
+                    Submit
+                  </button>
+                </div>
+              ) : isFlashcard ? (
+                <div className="w-full animate-in fade-in duration-500">
+                  <Flashcard key={question.id} front={question.text} back={question.backText || ''} imageUrl={question.imageUrl} onRate={onAnswer} />
+                </div>
+              ) : isRange ? (
+                <div className="w-full max-w-2xl mx-auto flex flex-col items-center gap-8 animate-in fade-in duration-500">
+                  <div className="text-center">
+                    <span className="text-[10px] font-black uppercase text-teal-400 tracking-[0.4em] block mb-4">
+                      {question.type === QuestionType.SCALE ? 'Rating Scale' : 'Slider'}
+                    </span>
+                    <p className="text-slate-500 text-sm font-medium">
+                      {question.type === QuestionType.SCALE ? 'Pick a point on the scale.' : 'Slide to your best guess. Close answers earn partial points.'}
+                    </p>
+                  </div>
+
+                  <div className="text-7xl font-black text-white font-mono">{sliderValue}</div>
+
+                  <div className="w-full space-y-2">
+                    <input
+                      type="range"
+                      min={rangeMin}
+                      max={rangeMax}
+                      step={rangeStep}
+                      value={sliderValue}
+                      onChange={(e) => setSliderValue(parseFloat(e.target.value))}
+                      className="w-full accent-teal-400 cursor-pointer"
+                    />
+                    <div className="flex justify-between text-xs font-black text-slate-500 uppercase tracking-widest">
+                      <span>{rangeMin}</span>
+                      <span>{rangeMax}</span>
+                    </div>
+                  </div>
+
+                  <button 
+                    onClick={() => onAnswer(sliderValue)}
+                    className="group relative bg-white text-slate-900 px-16 py-6 rounded-3xl font-black text-2xl uppercase tracking-tighter shadow-2xl transition-all hover:scale-105 active:scale-95 flex items-center gap-4 overflow-hidden"
+                  >
+                    <i className="bi bi-send-fill text-teal-600"></i>
+                    Submit
+                  </button>
+                </div>
+              ) : isPinQuestion ? (
+                <div className="w-full max-w-4xl mx-auto flex flex-col items-center gap-6 animate-in fade-in duration-500">
+                  <div className="text-center">
+                    <span className="text-[10px] font-black uppercase text-rose-400 tracking-[0.4em] block mb-4">
+                      {question.type === QuestionType.DROP_PIN ? 'Drop a Pin' : 'Pin the Answer'}
+                    </span>
+                    <p className="text-slate-500 text-sm font-medium">
+                      {question.type === QuestionType.DROP_PIN ? 'Click the map where you think it is. Closer pins earn more points.' : 'Click the right spot on the image.'}
+                    </p>
+                  </div>
+
+                  <div
+                    onClick={(e) => setPin(getImagePoint(e))}
+                    className="relative w-full rounded-2xl overflow-hidden border-2 border-white/10 cursor-crosshair select-none"
+                  >
+                    <img
+                      src={question.type === QuestionType.DROP_PIN ? (question.imageUrl || DEFAULT_WORLD_MAP_URL) : question.imageUrl}
+                      alt={question.type === QuestionType.DROP_PIN ? 'World map' : 'Question'}
+                      className="w-full h-auto block pointer-events-none"
+                      draggable={false}
+                    />
+                    {pin && (
+                      <i
+                        className="bi bi-geo-alt-fill absolute text-4xl text-rose-500 drop-shadow-[0_0_10px_rgba(244,63,94,0.6)] -translate-x-1/2 -translate-y-full pointer-events-none"
+                        style={{ left: `${pin.x}%`, top: `${pin.y}%` }}
+                      ></i>
+                    )}
+                  </div>
+
+                  <button 
+                    onClick={handlePinSubmit}
+                    disabled={!pin}
+                    className="group relative bg-white text-slate-900 px-16 py-6 rounded-3xl font-black text-2xl uppercase tracking-tighter shadow-2xl transition-all hover:scale-105 active:scale-95 flex items-center gap-4 overflow-hidden disabled:opacity-30"
+                  >
+                    <i className="bi bi-pin-map-fill text-rose-600"></i>
+                    Lock Pin
+                  </button>
+                </div>
               ) : (
                 (question.options || []).map((opt, i) => {
                   const style = CHOICE_STYLES[i] || CHOICE_STYLES[0];
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { QuizAnalytics as QuizAnalyticsData, QuestionAnalytics } from '../types';
+import { quizAPI } from '../api';
+import { useErrorHandler } from '../hooks/useErrorHandler';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatSeconds = (ms: number | null) => ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+
+// Flag questions that look confusing or too easy
+const getQuestionFlag = (q: QuestionAnalytics): { label: string; className: string } | null => {
+  if (q.answered < 5 || q.type === 'POLL' || q.type === 'WORD_CLOUD') return null;
+  if (q.correctRate < 0.3) return { label: 'Hard or confusing', className: 'bg-rose-500/20 text-rose-300' };
+  if (q.correctRate > 0.9) return { label: 'Very easy', className: 'bg-emerald-500/20 text-emerald-300' };
+  return null;
+};
+
+const QuizAnalytics: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { handleError } = useErrorHandler();
+  const [title, setTitle] = useState('');
+  const [analytics, setAnalytics] = useState<QuizAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      if (!id) return;
+      try {
+        const response = await quizAPI.getAnalytics(id);
+        setTitle(response.data.quiz.title);
+        setAnalytics(response.data.analytics);
+      } catch (error: any) {
+        console.error('Failed to load analytics:', error);
+        handleError(error.response?.status || 500, error.response?.data?.error || 'Failed to load analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadAnalytics();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-12 space-y-4">
+        {[1, 2, 3].map(i => <div key={i} className="glass h-32 rounded-[2rem] animate-pulse"></div>)}
+      </div>
+    );
+  }
+
+  if (!analytics) return null;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 md:px-8 py-8 sm:py-12 animate-in fade-in duration-500">
+      <button
+        onClick={() => navigate(`/quiz/${analytics.quizId}`)}
+        className="text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest mb-6 transition-colors"
+      >
+        <i className="bi bi-arrow-left"></i> Back to Quiz
+      </button>
+
+      <h1 className="text-3xl sm:text-4xl font-black text-white mb-2">{title}</h1>
+      <p className="text-slate-500 text-xs font-black uppercase tracking-widest mb-8">
+        {analytics.gamesPlayed} live games • {analytics.playersTracked} players
+      </p>
+
+      {analytics.gamesPlayed === 0 ? (
+        <div className="glass p-16 rounded-[3rem] border-dashed border-white/10 text-center space-y-4 opacity-50">
+          <i className="bi bi-graph-up text-6xl block"></i>
+          <p className="font-bold text-xl uppercase tracking-widest">No Games Yet</p>
+          <p className="text-sm max-w-xs mx-auto">Host this quiz live to start collecting answers.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {analytics.questions.map(q => {
+            const flag = getQuestionFlag(q);
+            const totalPicks = q.optionCounts.reduce((sum, c) => sum + c, 0);
+            return (
+              <div key={q.questionId} className="glass p-6 rounded-[2rem] border-white/5">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">
+                      Question {q.index + 1} • {q.type.replace(/_/g, ' ')}
+                    </div>
+                    <h3 className="text-lg font-black text-white">{q.text}</h3>
+                  </div>
+                  {flag && (
+                    <span className={`text-[10px] px-2 py-1 rounded-full font-black uppercase tracking-widest shrink-0 ${flag.className}`}>
+                      {flag.label}
+                    </span>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+                  <div className="bg-white/5 p-3 rounded-xl border border-white/5">
+                    <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Correct</div>
+                    <div className="text-xl font-black text-emerald-400">{formatPercent(q.correctRate)}</div>
+                  </div>
+                  <div className="bg-white/5 p-3 rounded-xl border border-white/5">
+                    <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Avg. Time</div>
+                    <div className="text-xl font-black text-white">{formatSeconds(q.averageResponseMs)}</div>
+                  </div>
+                  <div className="bg-white/5 p-3 rounded-xl border border-white/5">
+                    <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Answered</div>
+                    <div className="text-xl font-black text-white">{q.answered}/{q.reached}</div>
+                  </div>
+                  <div className="bg-white/5 p-3 rounded-xl border border-white/5">
+                    <div className="text-[10px] font-black text-slate-500 uppercase mb-1">Quit Here</div>
+                    <div className="text-xl font-black text-rose-400">{formatPercent(q.quitRate)}</div>
+                  </div>
+                </div>
+
+                {q.optionCounts.length > 0 && (
+                  <div className="space-y-2">
+                    {q.options.map((option, idx) => {
+                      const share = totalPicks ? q.optionCounts[idx] / totalPicks : 0;
+                      return (
+                        <div key={idx}>
+                          <div className="flex justify-between text-xs font-bold text-slate-300 mb-1">
+                            <span className="truncate">{option}</span>
+                            <span>{q.optionCounts[idx]} ({formatPercent(share)})</span>
+                          </div>
+                          <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+                            <div className="h-full bg-blue-500 rounded-full" style={{ width: `${share * 100}%` }}></div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {q.topAnswers.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {q.topAnswers.map(a => (
+                      <span key={a.answer} className="text-xs px-3 py-1 rounded-full bg-white/5 text-slate-300 border border-white/5">
+                        {a.answer} <span className="text-slate-500">×{a.count}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizAnalytics;
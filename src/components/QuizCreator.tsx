@@ -12,7 +12,8 @@ export const LIMITS = {
   QUIZ_DESCRIPTION: 500,
   QUESTION_TEXT: 300,
   ANSWER_OPTION: 150,
-  CORRECT_ANSWER: 150
+  CORRECT_ANSWER: 150,
+  FLASHCARD_BACK: 300
 };
 
 interface QuizCreatorProps {
@@ -1,11 +1,16 @@
 import React, { useEffect, useState } from 'react';
 import axios from 'axios';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Quiz, User, QuestionType } from '../types';
-import { quizAPI } from '../api';
+import { Quiz, User, QuestionType, ScoringConfig, ShuffleSettings } from '../types';
+import { quizAPI, gameAPI } from '../api';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { getGenreIcon } from '../utils/genre';
 import ReportModal from './ReportModal';
+import ScoringConfigEditor from './ScoringConfigEditor';
+import ShuffleSettingsEditor from './ShuffleSettingsEditor';
+import AssignQuizForm, { AssignmentSettings } from './AssignQuizForm';
+import { resolveScoringConfig } from '../utils/scoring';
+import { resolveShuffleSettings } from '../utils/shuffle';
 
 // Format question type for display
 const formatQuestionType = (type: QuestionType): string => {
@@ -32,11 +37,12 @@ const formatQuestionType = (type: QuestionType): string => {
 };
 
 interface QuizDetailProps {
-  onStartQuiz: (quiz: Quiz, solo?: boolean) => void;
+  onStartQuiz: (quiz: Quiz, solo?: boolean, scoringConfig?: ScoringConfig, pin?: string, shuffleSettings?: ShuffleSettings) => void;
+  onAssignQuiz: (quiz: Quiz, settings: AssignmentSettings, scoringConfig?: ScoringConfig) => void;
   user: User | null;
 }
 
-const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, user }) => {
+const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, onAssignQuiz, user }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { handleError } = useErrorHandler();
@@ -44,6 +50,11 @@ const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, user }) => {
   const [loading, setLoading] = useState(true);
   const [expandedQuestions, setExpandedQuestions] = useState<Set<number>>(new Set());
   const [reportModalOpen, setReportModalOpen] = useState(false);
+  const [scoringOverride, setScoringOverride] = useState<ScoringConfig | null>(null); // host's rules for the next live game
+  const [shuffleOverride, setShuffleOverride] = useState<ShuffleSettings | null>(null); // host's shuffling for the next live game
+  const [reservedPins, setReservedPins] = useState<{ pin: string; label: string }[]>([]);
+  const [reservedPin, setReservedPin] = useState(''); // empty for a random PIN
+  const [assigning, setAssigning] = useState(false);
 
   const toggleQuestion = (index: number) => {
     const newExpanded = new Set(expandedQuestions);
@@ -76,6 +87,14 @@ const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, user }) => {
     loadQuiz();
   }, [id]);
 
+  // PINs an admin has reserved for this host's recurring events
+  useEffect(() => {
+    if (!user) return;
+    gameAPI.getReservedPins()
+      .then(response => setReservedPins(response.data.pins))
+      .catch(error => console.error('Failed to load reserved PINs:', error));
+  }, [user?.id]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center px-3 sm:px-4">
@@ -147,7 +166,7 @@ const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, user }) => {
 
         <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
           <button
-            onClick={() => onStartQuiz(quiz, false)}
+            onClick={() => onStartQuiz(quiz, false, scoringOverride || undefined, reservedPin || undefined, shuffleOverride || undefined)}
             className="flex-1 bg-white text-slate-950 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black text-sm sm:text-xl uppercase tracking-widest hover:scale-105 active:scale-95 transition-all shadow-2xl flex items-center justify-center gap-2 sm:gap-4"
           >
             <i className="bi bi-play-fill\"></i> Start Multiplayer
@@ -160,7 +179,95 @@ const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, user }) => {
           </button>
         </div>
 
-        {user?.id === quiz.userId && (
+        {user && (
+          <div className="glass p-4 sm:p-6 rounded-xl sm:rounded-2xl border-white/10 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="text-amber-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                <i className="bi bi-trophy-fill"></i> {scoringOverride ? 'Custom Scoring for This Game' : quiz.scoringConfig ? "Quiz's Own Scoring" : 'Classic Scoring'}
+              </div>
+              <button
+                onClick={() => setScoringOverride(scoringOverride ? null : resolveScoringConfig(quiz.scoringConfig))}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+              >
+                {scoringOverride ? 'Reset' : 'Change'}
+              </button>
+            </div>
+            {scoringOverride && (
+              <>
+                <p className="text-[9px] text-slate-400">Applies to the next multiplayer game you host or assignment you set. Solo play keeps the quiz's rules.</p>
+                <ScoringConfigEditor config={scoringOverride} onChange={setScoringOverride} />
+              </>
+            )}
+          </div>
+        )}
+
+        {user && (
+          <div className="glass p-4 sm:p-6 rounded-xl sm:rounded-2xl border-white/10 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="text-violet-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                <i className="bi bi-shuffle"></i> {shuffleOverride ? 'Custom Shuffle for This Game' : quiz.shuffleSettings ? "Quiz's Own Shuffle" : 'Questions in Order'}
+              </div>
+              <button
+                onClick={() => setShuffleOverride(shuffleOverride ? null : resolveShuffleSettings(quiz.shuffleSettings))}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+              >
+                {shuffleOverride ? 'Reset' : 'Change'}
+              </button>
+            </div>
+            {shuffleOverride && (
+              <>
+                <p className="text-[9px] text-slate-400">Applies to the next multiplayer game you host. Solo play and assignments keep the quiz's settings.</p>
+                <ShuffleSettingsEditor settings={shuffleOverride} questionCount={quiz.questions.length} onChange={setShuffleOverride} />
+              </>
+            )}
+          </div>
+        )}
+
+        {reservedPins.length > 0 && (
+          <div className="glass p-4 sm:p-6 rounded-xl sm:rounded-2xl border-white/10 flex items-center justify-between gap-4">
+            <div className="text-blue-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+              <i className="bi bi-hash"></i> Game PIN
+            </div>
+            <select
+              value={reservedPin}
+              onChange={e => setReservedPin(e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs font-bold text-white focus:outline-none focus:border-blue-500/50"
+            >
+              <option value="" className="bg-slate-900">Random PIN</option>
+              {reservedPins.map(reserved => (
+                <option key={reserved.pin} value={reserved.pin} className="bg-slate-900">
+                  {reserved.pin} · {reserved.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {user && quiz.visibility !== 'DRAFT' && (quiz.visibility !== 'PRIVATE' || quiz.role) && (
+          <div className="glass p-4 sm:p-6 rounded-xl sm:rounded-2xl border-white/10 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="text-emerald-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                <i className="bi bi-calendar-check-fill"></i> Assignment
+              </div>
+              <button
+                onClick={() => setAssigning(!assigning)}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+              >
+                {assigning ? 'Cancel' : 'Assign'}
+              </button>
+            </div>
+            {assigning ? (
+              <AssignQuizForm
+                defaultTitle={quiz.title}
+                onAssign={(settings) => onAssignQuiz(quiz, settings, scoringOverride || undefined)}
+              />
+            ) : (
+              <p className="text-[9px] text-slate-400">Let students play this quiz at their own pace between two dates, with results ranked for you.</p>
+            )}
+          </div>
+        )}
+
+        {(quiz.role === 'OWNER' || quiz.role === 'EDITOR') && (
           <button
             onClick={() => navigate(`/editor/${quiz.id}`)}
             className="w-full glass border-white/10 text-slate-400 hover:text-white py-3 sm:py-4 rounded-xl sm:rounded-2xl font-black text-xs sm:text-sm uppercase tracking-widest hover:bg-white/10 transition-all flex items-center justify-center gap-2 sm:gap-3"
@@ -169,7 +276,16 @@ const QuizDetail: React.FC<QuizDetailProps> = ({ onStartQuiz, user }) => {
           </button>
         )}
 
-        {user?.id !== quiz.userId && (
+        {quiz.role && (
+          <button
+            onClick={() => navigate(`/quiz/${quiz.id}/analytics`)}
+            className="w-full glass border-white/10 text-slate-400 hover:text-white py-3 sm:py-4 rounded-xl sm:rounded-2xl font-black text-xs sm:text-sm uppercase tracking-widest hover:bg-white/10 transition-all flex items-center justify-center gap-2 sm:gap-3"
+          >
+            <i className="bi bi-graph-up"></i> View Analytics
+          </button>
+        )}
+
+        {!quiz.role && (
           <button
             onClick={() => setReportModalOpen(true)}
             className="w-full glass border-white/10 text-slate-400 hover:text-amber-400 py-3 sm:py-4 rounded-xl sm:rounded-2xl font-black text-xs sm:text-sm uppercase tracking-widest hover:bg-white/5 transition-all flex items-center justify-center gap-2 sm:gap-3"
@@ -1,9 +1,22 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Quiz, Question, QuestionType, PointType, QuizGenre } from '../types';
-import { quizAPI } from '../api';
+import toast from 'react-hot-toast';
+import { Quiz, Question, QuestionType, PointType, QuizGenre, InputMatchSettings, PuzzleScoring, BankQuestion } from '../types';
+import { bankAPI, quizAPI } from '../api';
 import ProgressBar from './ProgressBar';
+import Flashcard from './Flashcard';
+import ScoringConfigEditor from './ScoringConfigEditor';
+import ShuffleSettingsEditor from './ShuffleSettingsEditor';
+import QuestionBankPanel, { parseTags } from './QuestionBankPanel';
+import QuizHistoryModal from './QuizHistoryModal';
+import CollaboratorsPanel from './CollaboratorsPanel';
+import { useEditorPresence } from '../hooks/useEditorPresence';
+import { generateAvatarUrl } from '../utils/avatar';
 import { LIMITS } from './QuizCreator';
+import { DEFAULT_MATCH_SETTINGS, MAX_TYPOS, matchesAnyAnswer } from '../utils/answerMatching';
+import { DEFAULT_WORLD_MAP_URL, getImagePoint, latLngToPoint, pointToLatLng } from '../utils/mapPins';
+import { DEFAULT_SCORING_CONFIG, resolveScoringConfig } from '../utils/scoring';
+import { DEFAULT_SHUFFLE_SETTINGS, resolveShuffleSettings } from '../utils/shuffle';
 
 const allGenres: QuizGenre[] = [
   'General', 'Science', 'History', 'Technology', 'Pop Culture', 
@@ -23,7 +36,14 @@ const statusMessages = [
 
 type AIAction = 'add' | 'modify' | 'remove';
 
-const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q: Quiz) => void; onBack: () => void; }> = ({ quiz, onSave, onStart, onBack }) => {
+const puzzleScoringModes: { mode: PuzzleScoring; label: string; hint: string }[] = [
+  { mode: PuzzleScoring.STRICT, label: 'All or Nothing', hint: 'Points only for the exact order.' },
+  { mode: PuzzleScoring.POSITION, label: 'Per Position', hint: 'Partial points for each step in its correct position.' },
+  { mode: PuzzleScoring.SUBSEQUENCE, label: 'Longest Run', hint: 'Partial points for the longest run of steps in the right relative order.' },
+  { mode: PuzzleScoring.KENDALL_TAU, label: 'Pairwise', hint: 'Partial points for each pair of steps in the right relative order.' }
+];
+
+const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz, revisionNote?: string) => void; onStart: (q: Quiz) => void; onBack: () => void; }> = ({ quiz, onSave, onStart, onBack }) => {
   const [editedQuiz, setEditedQuiz] = useState<Quiz>({
     ...quiz,
     visibility: quiz.visibility || 'DRAFT'
@@ -34,6 +54,10 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [status, setStatus] = useState("");
+  const [aiNotes, setAiNotes] = useState<string[]>([]); // AI instructions applied since the last save, kept with the next version
+  const [showHistory, setShowHistory] = useState(false);
+  const { editors, lockQuestion, unlockQuestion, lockedBy } = useEditorPresence(editedQuiz.id || undefined);
+  const isOwner = !editedQuiz.role || editedQuiz.role === 'OWNER'; // new quizzes belong to whoever is writing them
   
   const progressInterval = useRef<number | null>(null);
   const progressStart = useRef<number>(0);
@@ -102,6 +126,7 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
         baseQ.correctIndices = [];
         baseQ.correctSequence = [];
         baseQ.correctTexts = baseQ.correctTexts?.length ? baseQ.correctTexts : [""];
+        baseQ.matchSettings = baseQ.matchSettings || { ...DEFAULT_MATCH_SETTINGS };
       } else if (updates.type === QuestionType.POLL) {
         baseQ.options = (baseQ.options && baseQ.options.length >= 2) ? baseQ.options : ["Option 1", "Option 2", "Option 3"];
         baseQ.correctIndices = [];
@@ -128,6 +153,48 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
         baseQ.correctTexts = [];
         baseQ.imageUrl = baseQ.imageUrl || '';
         baseQ.pointType = PointType.NORMAL;
+      } else if (updates.type === QuestionType.OPEN_ENDED) {
+        baseQ.options = [];
+        baseQ.correctIndices = [];
+        baseQ.correctSequence = [];
+        baseQ.correctTexts = [];
+        baseQ.pointType = PointType.NORMAL;
+      } else if (updates.type === QuestionType.FLASHCARD) {
+        baseQ.options = [];
+        baseQ.correctIndices = [];
+        baseQ.correctSequence = [];
+        baseQ.correctTexts = [];
+        baseQ.backText = baseQ.backText || '';
+        // Self-rated cards are for studying, so they score nothing unless the author opts in
+        baseQ.pointType = PointType.NONE;
+      } else if (updates.type === QuestionType.SLIDER || updates.type === QuestionType.SCALE) {
+        const isScale = updates.type === QuestionType.SCALE;
+        baseQ.options = [];
+        baseQ.correctIndices = [];
+        baseQ.correctSequence = [];
+        baseQ.correctTexts = [];
+        baseQ.minValue = isScale ? 1 : 0;
+        baseQ.maxValue = isScale ? 5 : 100;
+        baseQ.stepValue = 1;
+        // Scales start as opinion questions; sliders always need a target
+        baseQ.correctValue = isScale ? undefined : 50;
+        baseQ.pointType = isScale ? PointType.NONE : PointType.NORMAL;
+      } else if (updates.type === QuestionType.DROP_PIN) {
+        baseQ.options = [];
+        baseQ.correctIndices = [];
+        baseQ.correctSequence = [];
+        baseQ.correctTexts = [];
+        baseQ.imageUrl = '';
+        baseQ.targetLatLng = baseQ.targetLatLng || { lat: 0, lng: 0 };
+        baseQ.pointType = PointType.NORMAL;
+      } else if (updates.type === QuestionType.PIN_ANSWER) {
+        baseQ.options = [];
+        baseQ.correctIndices = [];
+        baseQ.correctSequence = [];
+        baseQ.correctTexts = [];
+        baseQ.imageUrl = baseQ.imageUrl || '';
+        baseQ.correctRegions = baseQ.correctRegions || [];
+        baseQ.pointType = PointType.NORMAL;
       } else {
         // DEFAULT: MULTIPLE CHOICE
         baseQ.options = (baseQ.options && baseQ.options.length >= 2) ? baseQ.options : ["Option 1", "Option 2"];
@@ -180,6 +247,72 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
     updateQ(qIdx, { correctSequence: seq });
   };
 
+  const [answerTests, setAnswerTests] = useState<Record<string, string>>({}); // question id -> sample answer typed in the matching tester
+
+  const updateMatchSettings = (qIdx: number, updates: Partial<InputMatchSettings>) => {
+    const q = editedQuiz.questions[qIdx];
+    updateQ(qIdx, { matchSettings: { ...DEFAULT_MATCH_SETTINGS, ...q.matchSettings, ...updates } });
+  };
+
+  const addPinRegion = (qIdx: number, e: React.MouseEvent<HTMLDivElement>) => {
+    const q = editedQuiz.questions[qIdx];
+    const regions = q.correctRegions || [];
+    if (regions.length >= 8) return;
+    const point = getImagePoint(e);
+    updateQ(qIdx, { correctRegions: [...regions, { x: Math.round(point.x * 10) / 10, y: Math.round(point.y * 10) / 10, radius: 8 }] });
+  };
+
+  const updatePinRegion = (qIdx: number, rIdx: number, radius: number) => {
+    const q = editedQuiz.questions[qIdx];
+    updateQ(qIdx, { correctRegions: (q.correctRegions || []).map((r, i) => i === rIdx ? { ...r, radius } : r) });
+  };
+
+  const removePinRegion = (qIdx: number, rIdx: number) => {
+    const q = editedQuiz.questions[qIdx];
+    updateQ(qIdx, { correctRegions: (q.correctRegions || []).filter((_, i) => i !== rIdx) });
+  };
+
+  const [bankVersion, setBankVersion] = useState(0);
+
+  const saveToBank = async (idx: number) => {
+    const value = window.prompt('Tags for this question, separated by commas (optional)', '');
+    if (value === null) return;
+    try {
+      const response = await bankAPI.create(editedQuiz.questions[idx], parseTags(value));
+      updateQ(idx, { bankQuestionId: response.data.question.id });
+      setBankVersion(v => v + 1);
+      toast.success('Saved to your question bank');
+    } catch (e: any) {
+      console.error('Failed to save to bank:', e);
+      toast.error(e?.response?.data?.error || 'Failed to save to bank');
+    }
+  };
+
+  // Overwrite the bank entry with this question, then push it to every saved quiz that uses it
+  const pushToBank = async (idx: number) => {
+    const q = editedQuiz.questions[idx];
+    if (!q.bankQuestionId || !window.confirm('Update the bank copy of this question and every saved quiz that uses it?')) return;
+    try {
+      await bankAPI.update(q.bankQuestionId, { question: q });
+      const response = await bankAPI.push(q.bankQuestionId);
+      setBankVersion(v => v + 1);
+      const { quizCount, skipped } = response.data;
+      toast.success(`Updated in ${quizCount} saved ${quizCount === 1 ? 'quiz' : 'quizzes'}`);
+      // Quizzes where someone else is editing the question keep their copy
+      if (skipped?.length) toast.error(`Not updated while being edited: ${skipped.join('; ')}`);
+    } catch (e: any) {
+      console.error('Failed to update bank question:', e);
+      toast.error(e?.response?.data?.error || 'Failed to update bank question');
+    }
+  };
+
+  const insertFromBank = (b: BankQuestion) => {
+    const { id, tags, usageCount, updatedAt, ...question } = b;
+    const newQ: Question = { ...question, id: Math.random().toString(36).substr(2, 9), bankQuestionId: id };
+    setEditedQuiz({ ...editedQuiz, questions: [...(editedQuiz.questions || []), newQ] });
+    toast.success('Question inserted');
+  };
+
   const handleAiModify = async () => {
     if (!aiPrompt.trim()) return;
     setLoading(true);
@@ -226,6 +359,7 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
         
         if (response.data?.quiz && response.data.quiz.questions && response.data.quiz.questions.length > 0) {
           setEditedQuiz(response.data.quiz);
+          setAiNotes(notes => [...notes, `AI: ${fullPrompt}`]);
           setAiPrompt("");
         } else {
           console.error('[AI][client] No quiz in response or empty questions:', response.data);
@@ -277,6 +411,17 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
 
   return (
     <div className="min-h-screen bg-slate-950 relative overflow-hidden">
+      {editedQuiz.id && (
+        <QuizHistoryModal
+          quizId={editedQuiz.id}
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestore={restored => {
+            setEditedQuiz({ ...restored, visibility: restored.visibility || 'DRAFT' });
+            setAiNotes([]);
+          }}
+        />
+      )}
       {/* Background */}
       <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_50%_120%,#1e1b4b_0%,#020617_60%)]"></div>
       
@@ -285,7 +430,17 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <button onClick={onBack} className="glass border-white/10 px-4 sm:px-6 md:px-8 py-2 sm:py-3 rounded-full text-[10px] sm:text-xs font-black uppercase text-slate-400 hover:text-white transition-all duration-300 ease-out hover:scale-105 hover:bg-white/5">Back</button>
         <div className="flex gap-2 sm:gap-4 w-full sm:w-auto">
-          <button onClick={() => onSave(editedQuiz)} className="flex-1 sm:flex-none bg-emerald-500 text-white px-4 sm:px-8 md:px-10 py-2 sm:py-3 rounded-xl sm:rounded-2xl font-black uppercase text-[10px] sm:text-xs shadow-lg shadow-emerald-500/20 active:scale-95 transition-all duration-300 ease-out hover:bg-emerald-400 hover:shadow-emerald-500/40">Save</button>
+          {editors.length > 0 && (
+            <div className="flex items-center -space-x-2" title={`Also editing: ${[...new Set(editors.map(e => e.username))].join(', ')}`}>
+              {editors.filter((e, i) => editors.findIndex(x => x.userId === e.userId) === i).map(e => (
+                <img key={e.userId} src={e.profilePicture || generateAvatarUrl(e.username)} alt={e.username} className="w-8 h-8 sm:w-10 sm:h-10 rounded-full object-cover border-2 border-sky-500/60" />
+              ))}
+            </div>
+          )}
+          {editedQuiz.id && (
+            <button onClick={() => setShowHistory(true)} className="flex-1 sm:flex-none glass border-white/10 text-slate-300 px-4 sm:px-6 py-2 sm:py-3 rounded-xl sm:rounded-2xl font-black uppercase text-[10px] sm:text-xs hover:text-white hover:bg-white/10 transition-all duration-300 ease-out"><i className="bi bi-clock-history"></i> History</button>
+          )}
+          <button onClick={() => onSave(editedQuiz, aiNotes.join('; ') || undefined)} className="flex-1 sm:flex-none bg-emerald-500 text-white px-4 sm:px-8 md:px-10 py-2 sm:py-3 rounded-xl sm:rounded-2xl font-black uppercase text-[10px] sm:text-xs shadow-lg shadow-emerald-500/20 active:scale-95 transition-all duration-300 ease-out hover:bg-emerald-400 hover:shadow-emerald-500/40">Save</button>
           <button onClick={() => onStart(editedQuiz)} className="flex-1 sm:flex-none bg-white text-slate-900 px-4 sm:px-8 md:px-10 py-2 sm:py-3 rounded-xl sm:rounded-2xl font-black uppercase text-[10px] sm:text-xs shadow-xl active:scale-95 transition-all duration-300 ease-out hover:bg-slate-100 hover:shadow-2xl">Test Solo</button>
         </div>
       </div>
@@ -329,7 +484,9 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
                         <button
                           key={v}
                           onClick={() => setEditedQuiz({...editedQuiz, visibility: v})}
-                          className={`px-2 sm:px-3 py-1 rounded-lg flex-1 sm:flex-none transition-all duration-300 ease-out ${editedQuiz.visibility === v ? (v === 'PUBLIC' ? 'bg-emerald-500 text-slate-900 shadow-lg shadow-emerald-500/30 scale-105' : v === 'PRIVATE' ? 'bg-slate-700 text-white shadow-lg shadow-slate-700/30 scale-105' : 'bg-amber-500 text-slate-900 shadow-lg shadow-amber-500/30 scale-105') : 'bg-transparent text-slate-400 hover:text-white hover:bg-white/10'}`}
+                          disabled={!isOwner}
+                          title={isOwner ? undefined : 'Only the author can change who sees this quiz'}
+                          className={`disabled:cursor-not-allowed px-2 sm:px-3 py-1 rounded-lg flex-1 sm:flex-none transition-all duration-300 ease-out ${editedQuiz.visibility === v ? (v === 'PUBLIC' ? 'bg-emerald-500 text-slate-900 shadow-lg shadow-emerald-500/30 scale-105' : v === 'PRIVATE' ? 'bg-slate-700 text-white shadow-lg shadow-slate-700/30 scale-105' : 'bg-amber-500 text-slate-900 shadow-lg shadow-amber-500/30 scale-105') : 'bg-transparent text-slate-400 hover:text-white hover:bg-white/10'}`}
                         >{v}</button>
                       ))}
                     </div>
@@ -340,10 +497,27 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
 
           <div className="space-y-6 sm:space-y-8 md:space-y-12">
             {(editedQuiz.questions || []).map((q, idx) => (
-              <div key={q.id || idx} className="glass p-4 sm:p-6 md:p-8 lg:p-12 rounded-2xl sm:rounded-3xl md:rounded-[4rem] border-white/5 space-y-4 sm:space-y-6 md:space-y-8 animate-in slide-in-from-bottom-4">
+              // Working in a question locks it for everyone else until focus moves elsewhere
+              <fieldset
+                key={q.id || idx}
+                disabled={!!lockedBy(q.id)}
+                onFocus={() => lockQuestion(q.id)}
+                onBlur={e => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) unlockQuestion(); }}
+                className={`glass min-w-0 p-4 sm:p-6 md:p-8 lg:p-12 rounded-2xl sm:rounded-3xl md:rounded-[4rem] space-y-4 sm:space-y-6 md:space-y-8 animate-in slide-in-from-bottom-4 transition-opacity ${lockedBy(q.id) ? 'border-sky-500/40 opacity-60' : 'border-white/5'}`}
+              >
                 <div className="flex justify-between items-start sm:items-center gap-2">
                   <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4 flex-1">
                     <span className="text-indigo-400 font-black text-[10px] uppercase tracking-widest">Question {idx+1}</span>
+                    {lockedBy(q.id) && (
+                      <span className="bg-sky-500/10 border border-sky-500/20 text-sky-300 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest flex items-center gap-1">
+                        <i className="bi bi-lock-fill"></i> {lockedBy(q.id)!.username} is editing
+                      </span>
+                    )}
+                    {q.bankQuestionId && (
+                      <span className="bg-teal-500/10 border border-teal-500/20 text-teal-300 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest flex items-center gap-1" title="Inserted from your question bank">
+                        <i className="bi bi-bookmark-check-fill"></i> Bank
+                      </span>
+                    )}
                     <select 
                       value={q.type} 
                       onChange={e => updateQ(idx, { type: e.target.value as QuestionType })} 
@@ -357,9 +531,25 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
                       <option value={QuestionType.WORD_CLOUD} className="bg-slate-900">WORD CLOUD</option>
                       <option value={QuestionType.AUDIO_QUIZ} className="bg-slate-900">AUDIO QUIZ</option>
                       <option value={QuestionType.IMAGE_QUIZ} className="bg-slate-900">IMAGE QUIZ</option>
+                      <option value={QuestionType.OPEN_ENDED} className="bg-slate-900">OPEN ENDED</option>
+                      <option value={QuestionType.FLASHCARD} className="bg-slate-900">FLASHCARD</option>
+                      <option value={QuestionType.SLIDER} className="bg-slate-900">SLIDER</option>
+                      <option value={QuestionType.SCALE} className="bg-slate-900">SCALE</option>
+                      <option value={QuestionType.DROP_PIN} className="bg-slate-900">DROP PIN (MAP)</option>
+                      <option value={QuestionType.PIN_ANSWER} className="bg-slate-900">PIN ON IMAGE</option>
                     </select>
                   </div>
-                  <button onClick={() => setEditedQuiz({...editedQuiz, questions: (editedQuiz.questions || []).filter((_, i) => i !== idx)})} className="text-rose-500/30 hover:text-rose-500 transition-colors"><i className="bi bi-trash3-fill"></i></button>
+                  <div className="flex items-center gap-3">
+                    {q.bankQuestionId ? (
+                      <>
+                        <button onClick={() => pushToBank(idx)} title="Update Bank & Linked Quizzes" className="text-teal-500/50 hover:text-teal-400 transition-colors"><i className="bi bi-cloud-arrow-up-fill"></i></button>
+                        <button onClick={() => updateQ(idx, { bankQuestionId: null })} title="Unlink from Bank" className="text-slate-500/50 hover:text-white transition-colors"><i className="bi bi-link-45deg"></i></button>
+                      </>
+                    ) : (
+                      <button onClick={() => saveToBank(idx)} title="Save to Question Bank" className="text-teal-500/50 hover:text-teal-400 transition-colors"><i className="bi bi-bookmark-plus-fill"></i></button>
+                    )}
+                    <button onClick={() => setEditedQuiz({...editedQuiz, questions: (editedQuiz.questions || []).filter((_, i) => i !== idx)})} className="text-rose-500/30 hover:text-rose-500 transition-colors"><i className="bi bi-trash3-fill"></i></button>
+                  </div>
                 </div>
 
                 <input value={q.text || ""} onChange={e => updateQ(idx, { text: e.target.value })} className="bg-transparent border-none text-lg sm:text-xl md:text-2xl lg:text-3xl font-black text-white w-full focus:outline-none placeholder:opacity-10" placeholder="Question Text..." maxLength={LIMITS.QUESTION_TEXT} />
@@ -439,13 +629,43 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
                              </div>
                           ))}
                        </div>
+                       <div className="space-y-3">
+                          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Scoring</label>
+                          <div className="flex flex-wrap gap-2 bg-white/5 p-2 rounded-2xl border border-white/5">
+                             {puzzleScoringModes.map(m => (
+                               <button
+                                 key={m.mode}
+                                 onClick={() => updateQ(idx, { puzzleScoring: m.mode })}
+                                 className={`flex-1 py-3 px-2 rounded-xl text-[9px] font-black uppercase transition-all whitespace-nowrap ${(q.puzzleScoring || PuzzleScoring.STRICT) === m.mode ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+                               >
+                                 {m.label}
+                               </button>
+                             ))}
+                          </div>
+                          <p className="text-[9px] text-slate-400">{puzzleScoringModes.find(m => m.mode === (q.puzzleScoring || PuzzleScoring.STRICT))?.hint}</p>
+                       </div>
                     </div>
-                  ) : q.type === QuestionType.INPUT ? (
+                  ) : q.type === QuestionType.INPUT ? ((() => {
+                    const settings = { ...DEFAULT_MATCH_SETTINGS, ...q.matchSettings };
+                    const sample = answerTests[q.id] || '';
+                    const toggles: { key: keyof InputMatchSettings; label: string }[] = [
+                      { key: 'foldAccents', label: 'Ignore accents' },
+                      { key: 'stripPunctuation', label: 'Ignore punctuation' },
+                      { key: 'ignoreArticles', label: 'Ignore a / an / the' },
+                      { key: 'numberWords', label: '"7" = "seven"' },
+                      { key: 'allowRegex', label: 'Regex answers' }
+                    ];
+                    return (
                     <div className="space-y-4">
-                       <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Accepted Text Responses</label>
+                       <div className="flex justify-between items-center">
+                          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Accepted Text Responses</label>
+                          {(q.correctTexts || []).length < 8 && (
+                            <button onClick={() => updateQ(idx, { correctTexts: [...(q.correctTexts || [""]), ""] })} className="text-[9px] font-black text-indigo-400 hover:text-indigo-300 uppercase">+ Add Answer</button>
+                          )}
+                       </div>
                        <div className="space-y-3">
                           {(q.correctTexts || [""]).map((txt, tIdx) => (
-                             <div key={tIdx} className="flex gap-3">
+                             <div key={tIdx} className="flex gap-3 items-center">
                                 <input 
                                   value={txt} 
                                   onChange={e => {
@@ -454,14 +674,71 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
                                     updateQ(idx, { correctTexts: newTxts });
                                   }}
                                   className="flex-1 bg-white/5 border border-white/5 p-4 rounded-2xl text-white text-sm font-bold focus:border-indigo-500 outline-none" 
-                                  placeholder="Correct answer text..."
+                                  placeholder={settings.allowRegex ? "Answer text or /pattern/" : "Correct answer text..."}
                                   maxLength={LIMITS.CORRECT_ANSWER}
                                 />
                                 <span className="text-xs text-slate-400 whitespace-nowrap">{txt.length}/{LIMITS.CORRECT_ANSWER}</span>
+                                {(q.correctTexts || []).length > 1 && (
+                                  <button onClick={() => updateQ(idx, { correctTexts: (q.correctTexts || []).filter((_, i) => i !== tIdx) })} className="text-rose-500/30 hover:text-rose-500 transition-colors"><i className="bi bi-x-lg"></i></button>
+                                )}
                              </div>
                           ))}
                        </div>
+
+                       <div className="bg-white/5 border border-white/5 rounded-2xl p-4 space-y-4">
+                          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest block">Answer Matching</label>
+                          <div className="flex flex-wrap gap-2">
+                             <button
+                               onClick={() => updateQ(idx, { isCaseSensitive: !q.isCaseSensitive })}
+                               className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${q.isCaseSensitive ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-500 hover:text-slate-300'}`}
+                             >
+                               Case sensitive
+                             </button>
+                             {toggles.map(t => (
+                               <button
+                                 key={t.key}
+                                 onClick={() => updateMatchSettings(idx, { [t.key]: !settings[t.key] })}
+                                 className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${settings[t.key] ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-500 hover:text-slate-300'}`}
+                               >
+                                 {t.label}
+                               </button>
+                             ))}
+                          </div>
+                          <div className="flex items-center gap-3">
+                             <span className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Typos allowed</span>
+                             <div className="flex gap-1">
+                               {Array.from({ length: MAX_TYPOS + 1 }, (_, n) => (
+                                 <button
+                                   key={n}
+                                   onClick={() => updateMatchSettings(idx, { maxTypos: n })}
+                                   className={`w-8 h-8 rounded-lg text-xs font-black transition-all ${settings.maxTypos === n ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-500 hover:text-slate-300'}`}
+                                 >
+                                   {n}
+                                 </button>
+                               ))}
+                             </div>
+                             {q.isCaseSensitive && <span className="text-[9px] text-slate-500">Off while case sensitive</span>}
+                          </div>
+                          {settings.allowRegex && (
+                            <p className="text-[9px] text-slate-400">Answers written as /pattern/ are matched as regular expressions against the whole typed answer, e.g. /^(19|nineteen)45$/.</p>
+                          )}
+                          <div className="flex gap-3 items-center">
+                             <input
+                               value={sample}
+                               onChange={e => setAnswerTests({ ...answerTests, [q.id]: e.target.value })}
+                               className="flex-1 bg-white/5 border border-white/5 p-3 rounded-xl text-white text-sm font-bold focus:border-indigo-500 outline-none placeholder:text-slate-600"
+                               placeholder="Try an answer..."
+                             />
+                             {sample.trim() && (
+                               matchesAnyAnswer(sample, q.correctTexts || [], settings, !!q.isCaseSensitive)
+                                 ? <span className="text-emerald-400 text-[10px] font-black uppercase tracking-widest whitespace-nowrap"><i className="bi bi-check-circle-fill"></i> Accepted</span>
+                                 : <span className="text-rose-400 text-[10px] font-black uppercase tracking-widest whitespace-nowrap"><i className="bi bi-x-circle-fill"></i> Rejected</span>
+                             )}
+                          </div>
+                       </div>
                     </div>
+                    );
+                  })()
                   ) : q.type === QuestionType.WORD_CLOUD ? (
                     <div className="space-y-4">
                       <div className="bg-purple-500/10 border border-purple-500/30 rounded-2xl p-4">
@@ -575,6 +852,145 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
                           </div>
                        </div>
                     </div>
+                  ) : q.type === QuestionType.OPEN_ENDED ? (
+                    <div className="space-y-4">
+                      <div className="bg-blue-500/10 border border-blue-500/30 rounded-2xl p-4">
+                        <p className="text-[9px] font-black uppercase text-blue-400 tracking-widest mb-2 flex items-center gap-2"><i className="bi bi-info-circle"></i> Open Ended Settings</p>
+                        <p className="text-[9px] text-slate-400">Players write a free-text answer. The host marks each answer right or wrong when answers are revealed.</p>
+                      </div>
+                    </div>
+                  ) : q.type === QuestionType.FLASHCARD ? (
+                    <div className="space-y-4">
+                       <div className="space-y-3">
+                          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Back of Card</label>
+                          <textarea
+                            value={q.backText || ""}
+                            onChange={e => updateQ(idx, { backText: e.target.value })}
+                            className="w-full bg-white/5 border border-white/5 p-4 rounded-2xl text-white text-sm font-bold focus:border-emerald-500 outline-none resize-none placeholder:text-slate-600"
+                            placeholder="What players see when they flip the card..."
+                            rows={3}
+                            maxLength={LIMITS.FLASHCARD_BACK}
+                          />
+                          <div className="text-xs text-slate-400">
+                            {(q.backText || '').length}/{LIMITS.FLASHCARD_BACK} characters
+                          </div>
+                       </div>
+                       <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest block">Preview</label>
+                       <Flashcard front={q.text || ''} back={q.backText || ''} />
+                    </div>
+                  ) : q.type === QuestionType.SLIDER || q.type === QuestionType.SCALE ? (
+                    <div className="space-y-4">
+                       <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                          {([
+                            ['minValue', 'Minimum'],
+                            ['maxValue', 'Maximum'],
+                            ['stepValue', 'Step'],
+                            ['correctValue', q.type === QuestionType.SCALE ? 'Correct (Optional)' : 'Correct Value']
+                          ] as const).map(([field, label]) => (
+                            <div key={field} className="space-y-3">
+                               <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">{label}</label>
+                               <input
+                                 type="number"
+                                 value={q[field] ?? ''}
+                                 onChange={e => updateQ(idx, { [field]: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                                 className="bg-white/5 border border-white/10 w-full p-3 rounded-2xl text-white font-black outline-none focus:border-teal-500"
+                               />
+                            </div>
+                          ))}
+                       </div>
+                       <p className="text-[9px] text-slate-400">
+                         {q.type === QuestionType.SCALE
+                           ? 'Leave the correct value empty to use the scale as an opinion question.'
+                           : 'Answers close to the correct value earn partial points.'}
+                       </p>
+                    </div>
+                  ) : q.type === QuestionType.DROP_PIN ? (
+                    <div className="space-y-4">
+                       <div className="space-y-3">
+                          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Custom Map URL (Optional)</label>
+                          <input 
+                            value={q.imageUrl || ""} 
+                            onChange={e => updateQ(idx, { imageUrl: e.target.value })}
+                            className="w-full bg-white/5 border border-white/5 p-4 rounded-2xl text-white text-sm font-bold focus:border-rose-500 outline-none placeholder:text-slate-600" 
+                            placeholder="Equirectangular world map image"
+                          />
+                       </div>
+                       <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest block">Click the map to set the target</label>
+                       <div
+                         onClick={e => updateQ(idx, { targetLatLng: pointToLatLng(getImagePoint(e)) })}
+                         className="relative w-full rounded-2xl overflow-hidden border border-white/10 cursor-crosshair select-none"
+                       >
+                          <img src={q.imageUrl || DEFAULT_WORLD_MAP_URL} alt="World map" className="w-full h-auto block pointer-events-none" draggable={false} />
+                          {q.targetLatLng && (
+                            <i
+                              className="bi bi-geo-alt-fill absolute text-3xl text-rose-500 -translate-x-1/2 -translate-y-full pointer-events-none"
+                              style={{ left: `${latLngToPoint(q.targetLatLng).x}%`, top: `${latLngToPoint(q.targetLatLng).y}%` }}
+                            ></i>
+                          )}
+                       </div>
+                       <div className="grid grid-cols-2 gap-4">
+                          {(['lat', 'lng'] as const).map(axis => (
+                            <div key={axis} className="space-y-3">
+                               <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">{axis === 'lat' ? 'Latitude' : 'Longitude'}</label>
+                               <input
+                                 type="number"
+                                 value={q.targetLatLng?.[axis] ?? 0}
+                                 onChange={e => updateQ(idx, { targetLatLng: { lat: 0, lng: 0, ...q.targetLatLng, [axis]: parseFloat(e.target.value) || 0 } })}
+                                 className="bg-white/5 border border-white/10 w-full p-3 rounded-2xl text-white font-black outline-none focus:border-rose-500"
+                               />
+                            </div>
+                          ))}
+                       </div>
+                    </div>
+                  ) : q.type === QuestionType.PIN_ANSWER ? (
+                    <div className="space-y-4">
+                       <div className="space-y-3">
+                          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Image URL</label>
+                          <input 
+                            value={q.imageUrl || ""} 
+                            onChange={e => updateQ(idx, { imageUrl: e.target.value })}
+                            className="w-full bg-white/5 border border-white/5 p-4 rounded-2xl text-white text-sm font-bold focus:border-rose-500 outline-none placeholder:text-slate-600" 
+                            placeholder="https://example.com/image.jpg"
+                          />
+                       </div>
+                       {q.imageUrl && (
+                         <>
+                           <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest block">Click the image to mark correct areas</label>
+                           <div
+                             onClick={e => addPinRegion(idx, e)}
+                             className="relative w-full rounded-2xl overflow-hidden border border-white/10 cursor-crosshair select-none"
+                           >
+                              <img src={q.imageUrl} alt="Question" className="w-full h-auto block pointer-events-none" draggable={false} />
+                              {(q.correctRegions || []).map((region, rIdx) => (
+                                <div
+                                  key={rIdx}
+                                  className="absolute rounded-full border-2 border-emerald-400 bg-emerald-400/20 -translate-x-1/2 -translate-y-1/2 pointer-events-none flex items-center justify-center text-[10px] font-black text-white"
+                                  style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.radius * 2}%`, aspectRatio: '1 / 1' }}
+                                >
+                                  {rIdx + 1}
+                                </div>
+                              ))}
+                           </div>
+                         </>
+                       )}
+                       <div className="space-y-3">
+                          {(q.correctRegions || []).map((region, rIdx) => (
+                            <div key={rIdx} className="flex gap-3 items-center">
+                               <span className="w-8 h-8 rounded-lg bg-emerald-500/10 text-emerald-400 flex items-center justify-center font-black text-xs border border-emerald-500/20 shrink-0">{rIdx + 1}</span>
+                               <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest shrink-0">Radius</label>
+                               <input
+                                 type="range"
+                                 min={1}
+                                 max={30}
+                                 value={region.radius}
+                                 onChange={e => updatePinRegion(idx, rIdx, parseInt(e.target.value))}
+                                 className="flex-1 accent-emerald-400"
+                               />
+                               <button onClick={() => removePinRegion(idx, rIdx)} className="text-rose-500/30 hover:text-rose-500 transition-colors"><i className="bi bi-x-lg"></i></button>
+                            </div>
+                          ))}
+                       </div>
+                    </div>
                   ) : (
                     <div className="space-y-4">
                        <div className="flex justify-between items-center">
@@ -631,7 +1047,7 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
                     </div>
                   )}
                 </div>
-              </div>
+              </fieldset>
             ))}
             
             <button 
@@ -656,6 +1072,87 @@ const QuizEditor: React.FC<{ quiz: Quiz; onSave: (q: Quiz) => void; onStart: (q:
         </div>
         
         <div className="space-y-6 sm:space-y-8 lg:sticky lg:top-24 h-fit">
+           <div className="glass p-4 sm:p-6 md:p-8 lg:p-10 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-amber-500/20 space-y-4 sm:space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="text-amber-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                  <i className="bi bi-trophy-fill"></i> Scoring Rules
+                </div>
+                {editedQuiz.scoringConfig && (
+                  <button
+                    onClick={() => setEditedQuiz({ ...editedQuiz, scoringConfig: null })}
+                    className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+                  >
+                    Use Classic
+                  </button>
+                )}
+              </div>
+              {editedQuiz.scoringConfig ? (
+                <ScoringConfigEditor
+                  config={resolveScoringConfig(editedQuiz.scoringConfig)}
+                  onChange={scoringConfig => setEditedQuiz({ ...editedQuiz, scoringConfig })}
+                />
+              ) : (
+                <>
+                  <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest leading-relaxed">Classic scoring: up to 1,000 points per question, 30% of them for speed.</p>
+                  <button
+                    onClick={() => setEditedQuiz({ ...editedQuiz, scoringConfig: { ...DEFAULT_SCORING_CONFIG } })}
+                    className="w-full glass border-white/10 text-slate-300 hover:text-white py-3 rounded-xl sm:rounded-2xl font-black uppercase text-[10px] sm:text-xs hover:bg-white/10 transition-all"
+                  >
+                    Customise
+                  </button>
+                </>
+              )}
+           </div>
+
+           <div className="glass p-4 sm:p-6 md:p-8 lg:p-10 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-violet-500/20 space-y-4 sm:space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="text-violet-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                  <i className="bi bi-shuffle"></i> Shuffle & Pools
+                </div>
+                {editedQuiz.shuffleSettings && (
+                  <button
+                    onClick={() => setEditedQuiz({ ...editedQuiz, shuffleSettings: null })}
+                    className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+                  >
+                    Play in Order
+                  </button>
+                )}
+              </div>
+              {editedQuiz.shuffleSettings ? (
+                <ShuffleSettingsEditor
+                  settings={resolveShuffleSettings(editedQuiz.shuffleSettings)}
+                  questionCount={(editedQuiz.questions || []).length}
+                  onChange={shuffleSettings => setEditedQuiz({ ...editedQuiz, shuffleSettings })}
+                />
+              ) : (
+                <>
+                  <p className="text-slate-500 text-[10px] font-bold uppercase tracking-widest leading-relaxed">Every game plays all questions and options in the order written here.</p>
+                  <button
+                    onClick={() => setEditedQuiz({ ...editedQuiz, shuffleSettings: { ...DEFAULT_SHUFFLE_SETTINGS, shuffleQuestions: true } })}
+                    className="w-full glass border-white/10 text-slate-300 hover:text-white py-3 rounded-xl sm:rounded-2xl font-black uppercase text-[10px] sm:text-xs hover:bg-white/10 transition-all"
+                  >
+                    Customise
+                  </button>
+                </>
+              )}
+           </div>
+
+           {editedQuiz.id && editedQuiz.role && (
+             <div className="glass p-4 sm:p-6 md:p-8 lg:p-10 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-sky-500/20 space-y-4 sm:space-y-6">
+                <div className="text-sky-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                  <i className="bi bi-people-fill"></i> Collaborators
+                </div>
+                <CollaboratorsPanel quizId={editedQuiz.id} role={editedQuiz.role} onLeave={onBack} />
+             </div>
+           )}
+
+           <div className="glass p-4 sm:p-6 md:p-8 lg:p-10 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-teal-500/20 space-y-4 sm:space-y-6">
+              <div className="text-teal-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
+                <i className="bi bi-collection-fill"></i> Question Bank
+              </div>
+              <QuestionBankPanel version={bankVersion} onInsert={insertFromBank} />
+           </div>
+
            <div className="glass p-4 sm:p-6 md:p-8 lg:p-10 rounded-2xl sm:rounded-3xl md:rounded-[3rem] border-blue-500/20 space-y-4 sm:space-y-6">
               <div className="text-blue-400 font-black uppercase text-xs tracking-widest flex items-center gap-2">
                 <i className="bi bi-stars"></i> Create with AI
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { QuestionChange, QuestionDiff, Quiz, QuizDiff, QuizRevision, RevisionSource } from '../types';
+import { quizAPI } from '../api';
+
+interface QuizHistoryModalProps {
+  quizId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (quiz: Quiz) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  BASELINE: 'Before History',
+  CREATE: 'Created',
+  SAVE: 'Saved',
+  RESTORE: 'Restored',
+  BANK_PUSH: 'Bank Update'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  genre: 'Category',
+  description: 'Description',
+  visibility: 'Visibility',
+  scoringConfig: 'Scoring rules',
+  shuffleSettings: 'Shuffle & pools',
+  type: 'Type',
+  pointType: 'Points',
+  text: 'Text',
+  options: 'Options',
+  correctIndices: 'Correct answer',
+  correctTexts: 'Accepted answers',
+  correctSequence: 'Correct order',
+  puzzleScoring: 'Puzzle scoring',
+  correctValue: 'Correct value',
+  minValue: 'Minimum',
+  maxValue: 'Maximum',
+  stepValue: 'Step',
+  imageUrl: 'Image',
+  audioUrl: 'Audio',
+  correctRegions: 'Correct areas',
+  targetLatLng: 'Map location',
+  backText: 'Card back',
+  isCaseSensitive: 'Case sensitivity',
+  matchSettings: 'Answer matching',
+  timeLimit: 'Time limit'
+};
+
+const CHANGE_STYLES: Record<QuestionChange, string> = {
+  ADDED: 'border-emerald-500/30 bg-emerald-500/5 text-emerald-400',
+  REMOVED: 'border-rose-500/30 bg-rose-500/5 text-rose-400',
+  CHANGED: 'border-amber-500/30 bg-amber-500/5 text-amber-400',
+  MOVED: 'border-blue-500/30 bg-blue-500/5 text-blue-400',
+  UNCHANGED: 'border-white/5 bg-white/5 text-slate-500'
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+const fieldList = (fields: string[]) => fields.map(f => FIELD_LABELS[f] || f).join(', ');
+
+const positionLabel = (d: QuestionDiff) => {
+  if (d.fromIndex === null) return `New Q${d.toIndex! + 1}`;
+  if (d.toIndex === null) return `Was Q${d.fromIndex + 1}`;
+  return d.fromIndex === d.toIndex ? `Q${d.toIndex + 1}` : `Q${d.fromIndex + 1} → Q${d.toIndex + 1}`;
+};
+
+// A quiz's saved versions: compare any two question by question, or bring an old one back
+const QuizHistoryModal: React.FC<QuizHistoryModalProps> = ({ quizId, isOpen, onClose, onRestore }) => {
+  const [revisions, setRevisions] = useState<QuizRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<QuizDiff | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    try {
+      const response = await quizAPI.getRevisions(quizId);
+      const list: QuizRevision[] = response.data.revisions || [];
+      setRevisions(list);
+      // Start by comparing the latest version with the one before it
+      setTo(list[0]?.version ?? null);
+      setFrom(list[1]?.version ?? list[0]?.version ?? null);
+    } catch (error: any) {
+      console.error('Failed to load quiz history:', error);
+      toast.error(error.response?.data?.error || 'Failed to load quiz history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setLoading(true);
+      loadRevisions();
+    }
+  }, [isOpen, quizId]);
+
+  useEffect(() => {
+    if (!isOpen || from === null || to === null) return;
+    quizAPI.diffRevisions(quizId, from, to)
+      .then(response => setDiff(response.data.diff))
+      .catch((error: any) => {
+        console.error('Failed to compare versions:', error);
+        toast.error(error.response?.data?.error || 'Failed to compare versions');
+      });
+  }, [isOpen, quizId, from, to]);
+
+  const handleRestore = async (revision: QuizRevision) => {
+    if (!window.confirm(`Restore version ${revision.version}? Unsaved changes in the editor will be lost. The restored quiz is saved as a new version.`)) return;
+    setRestoring(true);
+    try {
+      const response = await quizAPI.restoreRevision(quizId, revision.version);
+      onRestore(response.data.quiz);
+      toast.success(`Version ${revision.version} restored`);
+      loadRevisions();
+    } catch (error: any) {
+      console.error('Failed to restore version:', error);
+      toast.error(error.response?.data?.error || 'Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const unchangedCount = diff ? diff.questions.filter(d => d.change === 'UNCHANGED').length : 0;
+  const shownDiffs = diff ? diff.questions.filter(d => showUnchanged || d.change !== 'UNCHANGED') : [];
+
+  const versionSelect = (value: number | null, onChange: (v: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={e => onChange(parseInt(e.target.value))}
+      className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-white outline-none focus:border-indigo-500/50 cursor-pointer"
+    >
+      {revisions.map(r => (
+        <option key={r.version} value={r.version} className="bg-slate-900">v{r.version} • {SOURCE_LABELS[r.source]}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+      <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-xl animate-in fade-in duration-300" onClick={onClose}></div>
+      <div className="glass p-6 sm:p-8 rounded-[2.5rem] border-indigo-500/20 w-full max-w-5xl max-h-[90vh] relative z-10 animate-in zoom-in duration-300 flex flex-col gap-6">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-2xl font-black text-white uppercase tracking-tighter flex items-center gap-3">
+            <i className="bi bi-clock-history text-indigo-400"></i> Version History
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors text-xl"><i className="bi bi-x-lg"></i></button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <div key={i} className="bg-white/5 h-14 rounded-2xl animate-pulse"></div>)}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">No versions yet. One is kept every time the quiz is saved.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-6 min-h-0 overflow-hidden">
+            <div className="md:col-span-2 space-y-2 overflow-y-auto pr-1 max-h-[30vh] md:max-h-[65vh]">
+              {revisions.map((r, i) => (
+                <div key={r.id} className={`rounded-2xl border p-3 space-y-1 ${r.version === from || r.version === to ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-white/5 bg-white/5'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-black text-white text-sm">v{r.version}</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-indigo-400">
+                      {SOURCE_LABELS[r.source]}{r.restoredFrom !== null && ` v${r.restoredFrom}`}
+                    </span>
+                  </div>
+                  <div className="text-[10px] font-bold text-slate-400">
+                    {formatDate(r.createdAt)}{r.authorName && ` • ${r.authorName}`} • {r.questionCount} questions
+                  </div>
+                  {r.note && <div className="text-[10px] text-slate-500 italic break-words">{r.note}</div>}
+                  <div className="flex gap-2 pt-1">
+                    <button
+                      onClick={() => { setFrom(r.version); setTo(revisions[0].version); }}
+                      className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-colors"
+                    >
+                      Compare to Latest
+                    </button>
+                    {i > 0 && (
+                      <button
+                        onClick={() => handleRestore(r)}
+                        disabled={restoring}
+                        className="ml-auto text-[9px] font-black uppercase tracking-widest text-amber-400 hover:text-amber-300 transition-colors disabled:opacity-30"
+                      >
+                        <i className="bi bi-arrow-counterclockwise"></i> Restore
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="md:col-span-3 space-y-4 overflow-y-auto pr-1 max-h-[45vh] md:max-h-[65vh]">
+              <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                <span>Compare</span>
+                {versionSelect(from, setFrom)}
+                <span>with</span>
+                {versionSelect(to, setTo)}
+              </div>
+
+              {diff && (
+                <>
+                  {diff.fields.length > 0 && (
+                    <div className="rounded-2xl border border-amber-500/30 bg-amber-500/5 p-3 text-[10px] font-black uppercase tracking-widest text-amber-400">
+                      Quiz settings changed: {fieldList(diff.fields)}
+                    </div>
+                  )}
+                  {shownDiffs.length === 0 && diff.fields.length === 0 && (
+                    <p className="text-slate-500 text-xs font-bold uppercase tracking-widest">These versions are identical</p>
+                  )}
+                  {shownDiffs.map((d, i) => {
+                    const question = d.to || d.from!;
+                    return (
+                      <div key={i} className={`rounded-2xl border p-3 space-y-1 ${CHANGE_STYLES[d.change]}`}>
+                        <div className="flex items-center justify-between gap-2 text-[9px] font-black uppercase tracking-widest">
+                          <span>{d.change}</span>
+                          <span className="text-slate-500">{positionLabel(d)}</span>
+                        </div>
+                        {d.fields.includes('text') && d.from && (
+                          <div className="text-xs font-bold text-slate-500 line-through">{d.from.text}</div>
+                        )}
+                        <div className={`text-sm font-bold ${d.change === 'REMOVED' ? 'text-slate-400 line-through' : 'text-white'}`}>{question.text}</div>
+                        {d.fields.length > 0 && (
+                          <div className="text-[10px] font-bold text-slate-400">Changed: {fieldList(d.fields)}</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {unchangedCount > 0 && (
+                    <button
+                      onClick={() => setShowUnchanged(!showUnchanged)}
+                      className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+                    >
+                      {showUnchanged ? 'Hide' : 'Show'} {unchangedCount} unchanged {unchangedCount === 1 ? 'question' : 'questions'}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizHistoryModal;
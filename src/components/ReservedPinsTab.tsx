@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import api from '../api';
+import { Hash, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ReservedPin {
+  pin: string;
+  label: string;
+  createdAt: string;
+  user: {
+    id: string;
+    username: string;
+  } | null;
+}
+
+interface ReservedPinsTabProps {
+  isActive: boolean;
+}
+
+// Vanity PINs for recurring events. A PIN reserved for a user can only be used by them; others by any admin.
+const ReservedPinsTab: React.FC<ReservedPinsTabProps> = ({ isActive }) => {
+  const [pins, setPins] = useState<ReservedPin[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [pinInput, setPinInput] = useState('');
+  const [labelInput, setLabelInput] = useState('');
+  const [usernameInput, setUsernameInput] = useState('');
+
+  useEffect(() => {
+    if (isActive) fetchPins();
+    // eslint-disable-next-line
+  }, [isActive]);
+
+  async function fetchPins() {
+    setLoading(true);
+    try {
+      const res = await api.get('/admin/pins');
+      setPins(res.data.pins);
+      setError('');
+    } catch (err) {
+      setError('Failed to fetch reserved PINs');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleReserve = async () => {
+    try {
+      await api.post('/admin/pins', {
+        pin: pinInput,
+        label: labelInput,
+        username: usernameInput.trim() || undefined
+      });
+      toast.success(`PIN ${pinInput} reserved`);
+      setPinInput('');
+      setLabelInput('');
+      setUsernameInput('');
+      fetchPins();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to reserve PIN');
+      console.error(err);
+    }
+  };
+
+  const handleRelease = async (pin: string) => {
+    if (!window.confirm(`Release PIN ${pin}?`)) return;
+    try {
+      await api.delete(`/admin/pins/${pin}`);
+      toast.success(`PIN ${pin} released`);
+      fetchPins();
+    } catch (err) {
+      toast.error('Failed to release PIN');
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {/* Reserve Form */}
+      <div className="mb-6 flex gap-2 flex-wrap">
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="PIN (6-8 digits)"
+          value={pinInput}
+          onChange={(e) => setPinInput(e.target.value.replace(/[^0-9]/g, ''))}
+          maxLength={8}
+          className="w-40 px-4 py-2 border border-gray-700 bg-gray-900 text-white rounded-lg font-mono focus:outline-none focus:border-blue-500"
+        />
+        <input
+          type="text"
+          placeholder="Event name"
+          value={labelInput}
+          onChange={(e) => setLabelInput(e.target.value)}
+          maxLength={60}
+          className="flex-1 min-w-[12rem] px-4 py-2 border border-gray-700 bg-gray-900 text-white rounded-lg focus:outline-none focus:border-blue-500"
+        />
+        <input
+          type="text"
+          placeholder="Host username (optional)"
+          value={usernameInput}
+          onChange={(e) => setUsernameInput(e.target.value)}
+          maxLength={30}
+          className="w-56 px-4 py-2 border border-gray-700 bg-gray-900 text-white rounded-lg focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleReserve}
+          disabled={pinInput.length < 6 || !labelInput.trim()}
+          className="px-6 py-2 bg-blue-500 text-white rounded-lg font-semibold hover:bg-blue-600 transition disabled:opacity-50"
+        >
+          Reserve
+        </button>
+      </div>
+
+      {/* Reserved PINs List */}
+      <div className="space-y-4">
+        {loading ? (
+          <div className="text-center text-gray-400">Loading...</div>
+        ) : error ? (
+          <div className="text-center text-red-500">{error}</div>
+        ) : pins.length === 0 ? (
+          <div className="text-center text-gray-400">No reserved PINs.</div>
+        ) : (
+          pins.map((reserved) => (
+            <div
+              key={reserved.pin}
+              className="bg-gray-800 border border-gray-700 rounded-xl p-6 flex items-center justify-between gap-4 shadow-lg"
+            >
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Hash className="text-blue-400" size={20} />
+                  <span className="font-black font-mono text-lg text-white tracking-widest">{reserved.pin}</span>
+                  <span className="text-sm font-bold text-gray-300">{reserved.label}</span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  {reserved.user
+                    ? <>For <span className="font-bold text-blue-400">{reserved.user.username}</span></>
+                    : 'For any admin'}
+                  {' · '}{new Date(reserved.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRelease(reserved.pin)}
+                className="p-2 rounded-lg text-red-400 hover:bg-red-500/10 transition"
+                title="Release PIN"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReservedPinsTab;
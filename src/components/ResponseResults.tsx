@@ -0,0 +1,78 @@
+import React from 'react';
+import { QuestionType } from '../types';
+import { ResponseSummary, normalizeCloudWord } from '../utils/responses';
+
+interface ResponseResultsProps {
+  summary: ResponseSummary;
+  options: string[];
+  myAnswer?: any; // highlighted in the results
+  compact?: boolean; // smaller version shown while the question is still open
+}
+
+const ResponseResults: React.FC<ResponseResultsProps> = ({ summary, options, myAnswer, compact }) => {
+  if (summary.type === QuestionType.POLL) {
+    return (
+      <div className={`bg-white/5 border border-white/10 rounded-2xl sm:rounded-3xl text-left ${compact ? 'p-4 space-y-2' : 'p-4 sm:p-6 md:p-8 space-y-2.5 sm:space-y-3 md:space-y-4'}`}>
+        {options.map((option, idx) => {
+          const count = summary.optionCounts[idx] || 0;
+          const percentage = summary.total > 0 ? Math.round((count / summary.total) * 100) : 0;
+          const isMine = myAnswer === idx;
+
+          return (
+            <div key={idx} className={`relative rounded-2xl ${compact ? 'p-2' : 'p-4'} ${isMine ? 'bg-blue-500/10 border-2 border-blue-500/50' : 'bg-white/5 border border-white/10'}`}>
+              <div className="flex items-center justify-between mb-2 relative z-10">
+                <div className="flex items-center gap-3">
+                  {isMine && <i className="bi bi-check-circle-fill text-blue-400"></i>}
+                  <span className={`text-white font-bold ${compact ? 'text-sm' : ''}`}>{option}</span>
+                </div>
+                <span className={`${compact ? 'text-base' : 'text-2xl'} font-black text-white`}>{percentage}%</span>
+              </div>
+              <div className={`${compact ? 'h-2' : 'h-3'} bg-white/5 rounded-full overflow-hidden`}>
+                <div
+                  className="h-full bg-gradient-to-r from-blue-600 to-indigo-500 rounded-full transition-all duration-1000"
+                  style={{ width: `${percentage}%` }}
+                ></div>
+              </div>
+              {!compact && <div className="text-xs text-slate-500 mt-1">{count} {count === 1 ? 'vote' : 'votes'}</div>}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const counts = summary.words.map(w => w.count);
+  const maxCount = Math.max(...counts, 1);
+  const minCount = Math.min(...counts, 1);
+  const myWord = typeof myAnswer === 'string' ? normalizeCloudWord(myAnswer) : null;
+
+  return (
+    <div className={`bg-white/5 border border-white/10 rounded-2xl sm:rounded-3xl flex items-center justify-center ${compact ? 'p-4 min-h-32' : 'p-3 sm:p-6 md:p-8 min-h-48 sm:min-h-64 md:min-h-96'}`}>
+      <div className={`flex flex-wrap justify-center items-center max-w-3xl ${compact ? 'gap-3' : 'gap-3 sm:gap-4 md:gap-6'}`}>
+        {summary.words.length > 0 ? (
+          summary.words.map(({ word, count }) => {
+            // Font size follows frequency (20px to 60px, or 14px to 32px when compact)
+            const ratio = (count - minCount) / (maxCount - minCount || 1);
+            const fontSize = compact ? 14 + ratio * 18 : 20 + ratio * 40;
+
+            return (
+              <div
+                key={word}
+                className={`transition-all text-center ${word === myWord ? 'text-blue-400' : 'text-slate-300'}`}
+              >
+                <div style={{ fontSize: `${fontSize}px` }} className="font-black leading-none">
+                  {word}
+                </div>
+                <div className="text-xs text-slate-500 mt-1">({count})</div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-slate-500 text-xl">No responses yet...</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResponseResults;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ScoreBreakdown as Breakdown } from '../types';
+
+interface ScoreBreakdownProps {
+  breakdown?: Breakdown;
+  className?: string;
+}
+
+// Accuracy, speed and streak points earned, and points lost to penalties. Parts that are zero are left out.
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ breakdown, className = '' }) => {
+  if (!breakdown) return null;
+
+  const parts = [
+    { label: 'Accuracy', value: breakdown.base, icon: 'bi-bullseye', color: 'text-slate-300' },
+    { label: 'Speed', value: breakdown.speed, icon: 'bi-lightning-charge-fill', color: 'text-blue-400' },
+    { label: 'Streak', value: breakdown.streak, icon: 'bi-fire', color: 'text-orange-400' },
+    { label: 'Penalty', value: -breakdown.penalty, icon: 'bi-dash-circle-fill', color: 'text-rose-400' }
+  ].filter(part => part.value !== 0);
+
+  if (parts.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] font-black uppercase tracking-widest ${className}`}>
+      {parts.map(part => (
+        <span key={part.label} className={`flex items-center gap-1 ${part.color}`} title={part.label}>
+          <i className={`bi ${part.icon}`}></i>
+          {part.value > 0 && part.label !== 'Accuracy' ? '+' : ''}{part.value.toLocaleString()}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
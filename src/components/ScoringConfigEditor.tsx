@@ -0,0 +1,128 @@
+import React from 'react';
+import { ScoringConfig, StreakBonus } from '../types';
+
+interface ScoringConfigEditorProps {
+  config: ScoringConfig;
+  onChange: (config: ScoringConfig) => void;
+}
+
+const toWholeNumber = (value: string) => Math.max(0, parseInt(value) || 0);
+
+const ScoringConfigEditor: React.FC<ScoringConfigEditorProps> = ({ config, onChange }) => {
+  const update = (updates: Partial<ScoringConfig>) => onChange({ ...config, ...updates });
+
+  const updateTier = (tierIdx: number, updates: Partial<StreakBonus>) => update({
+    streakBonuses: config.streakBonuses.map((tier, i) => i === tierIdx ? { ...tier, ...updates } : tier)
+  });
+
+  const addTier = () => {
+    const last = config.streakBonuses[config.streakBonuses.length - 1];
+    update({ streakBonuses: [...config.streakBonuses, { streak: last ? last.streak + 2 : 3, bonus: last ? last.bonus * 2 : 100 }] });
+  };
+
+  const speedPercent = Math.round(config.speedWeight * 100);
+  const guaranteed = Math.floor(config.basePoints * (config.accuracyOnly ? 1 : 1 - config.speedWeight));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Base Points</label>
+          <input
+            type="number"
+            min="1"
+            value={config.basePoints}
+            onChange={e => update({ basePoints: Math.max(1, toWholeNumber(e.target.value)) })}
+            className="bg-white/5 border border-white/10 w-full p-3 rounded-2xl text-white font-black outline-none focus:border-amber-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Wrong Penalty</label>
+          <input
+            type="number"
+            min="0"
+            value={config.wrongPenalty}
+            onChange={e => update({ wrongPenalty: toWholeNumber(e.target.value) })}
+            className="bg-white/5 border border-white/10 w-full p-3 rounded-2xl text-white font-black outline-none focus:border-amber-500"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.accuracyOnly}
+          onChange={e => update({ accuracyOnly: e.target.checked })}
+          className="w-4 h-4 accent-amber-500"
+        />
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">Accuracy only (no speed bonus)</span>
+      </label>
+
+      {!config.accuracyOnly && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-[9px] font-black uppercase text-slate-500 tracking-widest">
+            <span>Speed Weight</span>
+            <span className="text-amber-400">{speedPercent}%</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={speedPercent}
+            onChange={e => update({ speedWeight: parseInt(e.target.value) / 100 })}
+            className="w-full accent-amber-500"
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Streak Bonuses</label>
+        {config.streakBonuses.map((tier, tierIdx) => (
+          <div key={tierIdx} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <span>Streak</span>
+            <input
+              type="number"
+              min="2"
+              value={tier.streak}
+              onChange={e => updateTier(tierIdx, { streak: Math.max(2, toWholeNumber(e.target.value)) })}
+              className="bg-white/5 border border-white/10 w-16 p-2 rounded-xl text-white outline-none focus:border-amber-500"
+            />
+            <span>+</span>
+            <input
+              type="number"
+              min="0"
+              value={tier.bonus}
+              onChange={e => updateTier(tierIdx, { bonus: toWholeNumber(e.target.value) })}
+              className="bg-white/5 border border-white/10 w-20 p-2 rounded-xl text-white outline-none focus:border-amber-500"
+            />
+            <button
+              type="button"
+              onClick={() => update({ streakBonuses: config.streakBonuses.filter((_, i) => i !== tierIdx) })}
+              className="ml-auto text-slate-500 hover:text-rose-400 transition-colors"
+              aria-label="Remove streak bonus"
+            >
+              <i className="bi bi-x-lg"></i>
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={addTier}
+          className="text-[10px] font-black uppercase tracking-widest text-amber-400 hover:text-amber-300 transition-colors"
+        >
+          <i className="bi bi-plus"></i> Add Tier
+        </button>
+      </div>
+
+      <p className="text-[9px] text-slate-400 leading-relaxed">
+        A correct answer to a normal question earns {guaranteed.toLocaleString()}
+        {config.accuracyOnly || guaranteed === config.basePoints ? '' : ` to ${config.basePoints.toLocaleString()}`} points.
+        {config.wrongPenalty > 0 && ` Wrong answers cost ${config.wrongPenalty.toLocaleString()}.`}
+        {' '}Streak bonuses use the highest tier reached.
+      </p>
+    </div>
+  );
+};
+
+export default ScoringConfigEditor;
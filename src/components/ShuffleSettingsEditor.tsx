@@ -0,0 +1,71 @@
+import React from 'react';
+import { ShuffleSettings } from '../types';
+
+interface ShuffleSettingsEditorProps {
+  settings: ShuffleSettings;
+  questionCount: number;
+  onChange: (settings: ShuffleSettings) => void;
+}
+
+const ShuffleSettingsEditor: React.FC<ShuffleSettingsEditorProps> = ({ settings, questionCount, onChange }) => {
+  const update = (updates: Partial<ShuffleSettings>) => onChange({ ...settings, ...updates });
+  const drawn = settings.poolSize ? Math.min(settings.poolSize, questionCount) : questionCount;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.shuffleQuestions}
+          onChange={e => update({ shuffleQuestions: e.target.checked })}
+          className="w-4 h-4 accent-violet-500"
+        />
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">Shuffle question order</span>
+      </label>
+
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.shuffleOptions}
+          onChange={e => update({ shuffleOptions: e.target.checked })}
+          className="w-4 h-4 accent-violet-500"
+        />
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">Shuffle answer options for each player</span>
+      </label>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.poolSize !== null}
+            onChange={e => update({ poolSize: e.target.checked ? Math.max(1, Math.min(10, questionCount)) : null })}
+            className="w-4 h-4 accent-violet-500"
+          />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">Draw from a question pool</span>
+        </label>
+        {settings.poolSize !== null && (
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 pl-7">
+            <span>Play</span>
+            <input
+              type="number"
+              min="1"
+              max={questionCount || undefined}
+              value={settings.poolSize}
+              onChange={e => update({ poolSize: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="bg-white/5 border border-white/10 w-16 p-2 rounded-xl text-white outline-none focus:border-violet-500"
+            />
+            <span>of {questionCount}</span>
+          </div>
+        )}
+      </div>
+
+      <p className="text-[9px] text-slate-400 leading-relaxed">
+        Each game plays {drawn === questionCount ? 'every question' : `${drawn} random questions`}
+        {settings.shuffleQuestions ? ' in a random order' : ' in quiz order'}.
+        {settings.shuffleOptions && ' Multiple choice, poll, audio and image options appear in a different order for every player.'}
+      </p>
+    </div>
+  );
+};
+
+export default ShuffleSettingsEditor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Player, TeamSettings } from '../types';
+import { describeTeamScoring, getTeamStandings } from '../utils/teams';
+
+interface TeamStandingsProps {
+  players: Player[];
+  settings: TeamSettings;
+  humanId: string; // the viewer's team is highlighted
+}
+
+const TeamStandings: React.FC<TeamStandingsProps> = ({ players, settings, humanId }) => {
+  const standings = getTeamStandings(players, settings);
+  const myTeam = players.find(p => p.id === humanId)?.team;
+
+  return (
+    <div className="glass p-3 sm:p-4 md:p-6 rounded-2xl sm:rounded-3xl border-white/5 shadow-2xl space-y-2 sm:space-y-3">
+      <div className="flex items-center justify-between text-[9px] sm:text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 px-1">
+        <span>Teams</span>
+        <span>{describeTeamScoring(settings)}</span>
+      </div>
+      {standings.map((standing, index) => (
+        <div
+          key={standing.team}
+          className={`flex items-center justify-between p-2.5 sm:p-3 md:p-4 rounded-xl sm:rounded-2xl border-l-4 ${
+            standing.team === myTeam ? 'bg-white/10' : 'bg-white/5'
+          }`}
+          style={{ borderLeftColor: standing.color }}
+        >
+          <div className="flex items-center gap-3 sm:gap-4 text-left">
+            <span className="text-xl sm:text-2xl font-black opacity-20 w-6">{index + 1}</span>
+            <div>
+              <div className="text-sm sm:text-base md:text-lg font-black uppercase tracking-wider" style={{ color: standing.color }}>
+                {standing.name}
+                {standing.team === myTeam && <span className="text-white/60 ml-2 text-xs">(You)</span>}
+              </div>
+              <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest truncate max-w-[14rem]">
+                {standing.members.map(m => m.name).join(', ')}
+              </div>
+            </div>
+          </div>
+          <div className="text-xl sm:text-2xl md:text-3xl font-black text-white font-mono">{standing.score.toLocaleString()}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TeamStandings;
@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import realtimeSocket from '../services/realtimeSocket';
+import { EditorPresence } from '../types';
+
+// Who else has the quiz open in the editor, and the one question this editor holds the lock on.
+// Quizzes that have not been saved yet have no ID and nobody to share them with.
+export const useEditorPresence = (quizId: string | undefined) => {
+  const [editors, setEditors] = useState<EditorPresence[]>([]);
+  const lockedId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!quizId) return;
+
+    const join = () => realtimeSocket.emit('EDITOR_JOIN', { quizId });
+    const onPresence = (data: { quizId: string; editors: EditorPresence[] }) => {
+      if (data.quizId !== quizId) return;
+      setEditors(data.editors);
+      // Locks are lost when the connection drops, so take ours back once we are in again
+      const me = data.editors.find(e => e.socketId === realtimeSocket.id);
+      if (me && lockedId.current && me.questionId !== lockedId.current) {
+        realtimeSocket.emit('QUESTION_LOCK', { questionId: lockedId.current });
+      }
+    };
+    const onLockDenied = (data: { questionId: string; username: string }) => {
+      if (lockedId.current === data.questionId) lockedId.current = null;
+      toast.error(`${data.username} is editing this question`);
+    };
+    // Sent when this editor is not allowed in, or is removed from the quiz while it is open
+    const onEditorError = (data: { quizId: string; message: string }) => {
+      if (data.quizId !== quizId) return;
+      lockedId.current = null;
+      setEditors([]);
+      toast.error(data.message);
+    };
+
+    realtimeSocket.on('connect', join);
+    realtimeSocket.on('EDITOR_PRESENCE', onPresence);
+    realtimeSocket.on('QUESTION_LOCK_DENIED', onLockDenied);
+    realtimeSocket.on('EDITOR_ERROR', onEditorError);
+    if (realtimeSocket.connected) join();
+
+    return () => {
+      realtimeSocket.emit('EDITOR_LEAVE');
+      realtimeSocket.off('connect', join);
+      realtimeSocket.off('EDITOR_PRESENCE', onPresence);
+      realtimeSocket.off('QUESTION_LOCK_DENIED', onLockDenied);
+      realtimeSocket.off('EDITOR_ERROR', onEditorError);
+      lockedId.current = null;
+      setEditors([]);
+    };
+  }, [quizId]);
+
+  const lockQuestion = (questionId: string) => {
+    if (!quizId || lockedId.current === questionId) return;
+    lockedId.current = questionId;
+    realtimeSocket.emit('QUESTION_LOCK', { questionId });
+  };
+
+  const unlockQuestion = () => {
+    if (!quizId || !lockedId.current) return;
+    lockedId.current = null;
+    realtimeSocket.emit('QUESTION_UNLOCK');
+  };
+
+  const others = editors.filter(e => e.socketId !== realtimeSocket.id);
+  const lockedBy = (questionId: string) => others.find(e => e.questionId === questionId) || null;
+
+  return { editors: others, lockQuestion, unlockQuestion, lockedBy };
+};
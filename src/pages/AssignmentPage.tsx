@@ -0,0 +1,8 @@
+import React from 'react';
+import AssignmentDetail from '../components/AssignmentDetail';
+
+const AssignmentPage: React.FC = () => {
+  return <AssignmentDetail />;
+};
+
+export default AssignmentPage;
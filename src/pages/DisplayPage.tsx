@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { io, Socket } from 'socket.io-client';
+import DisplayScreen from '../components/DisplayScreen';
+import { gameAPI } from '../api';
+import { useErrorHandler } from '../hooks/useErrorHandler';
+import { Player, Quiz, GameState, AnswerKey, TeamSettings, LiveGameState, GameSnapshot } from '../types';
+import { ResponseSummary } from '../utils/responses';
+
+// Projector view of a live game. It joins the room as a spectator: it has no player row, sends no
+// answers or ACKs, and is not waited for when the server checks that everyone has answered.
+const DisplayPage: React.FC = () => {
+  const { pin } = useParams<{ pin: string }>();
+  const { handleError } = useErrorHandler();
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [gameState, setGameState] = useState<GameState>(GameState.LOBBY);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [answered, setAnswered] = useState<Set<string>>(new Set());
+  const [liveResults, setLiveResults] = useState<ResponseSummary | null>(null);
+  const [revealedIndex, setRevealedIndex] = useState<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [teamSettings, setTeamSettings] = useState<TeamSettings | null>(null);
+  // Same server clock as GamePage: the current phase deadline and the server/client clock offset
+  const deadlineRef = useRef<number | null>(null);
+  const serverOffsetRef = useRef(0);
+
+  useEffect(() => {
+    if (!pin) return;
+    let socket: Socket | null = null;
+    // Set once the page has moved on, so a load that finishes afterwards doesn't open a socket nobody closes
+    let cancelled = false;
+
+    const connect = async () => {
+      try {
+        const response = await gameAPI.getByPin(pin);
+        if (cancelled) return;
+        const session = response.data.session;
+        setQuiz(session.quiz);
+        setPlayers((session.players as Player[]) || []);
+        setTeamSettings(session.teamSettings || null);
+        setQuestionIndex(session.currentQuestionIndex || 0);
+      } catch (error: any) {
+        if (cancelled) return;
+        console.error('Failed to load game:', error);
+        if (error.response?.status === 404 || error.response?.status === 410) {
+          handleError(410, 'This game session has ended or does not exist');
+        } else {
+          handleError(error.response?.status || 500, error.response?.data?.error || 'Failed to load game session');
+        }
+        return;
+      }
+
+      socket = io('/', {
+        withCredentials: true,
+        transports: ['websocket', 'polling'],
+        reconnection: true,
+        reconnectionDelay: 1000
+      });
+      setupSocketListeners(socket);
+      // Joined again on every reconnect; the server answers with the current state
+      socket.on('connect', () => socket?.emit('JOIN_DISPLAY', { pin }));
+    };
+
+    connect();
+    return () => {
+      cancelled = true;
+      socket?.disconnect();
+    };
+  }, [pin]);
+
+  // Count down to the server's deadline
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const deadline = deadlineRef.current;
+      if (deadline === null) return;
+      const serverNow = Date.now() + serverOffsetRef.current;
+      setTimeLeft(Math.max(0, Math.ceil((deadline - serverNow) / 1000)));
+    }, 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const syncClock = (deadline: number | null, serverTime: number) => {
+    serverOffsetRef.current = serverTime - Date.now();
+    deadlineRef.current = deadline;
+    if (deadline !== null) {
+      setTimeLeft(Math.max(0, Math.ceil((deadline - serverTime) / 1000)));
+    }
+  };
+
+  const applyLiveGameState = (data: LiveGameState) => {
+    syncClock(data.deadline, data.serverTime);
+    setPaused(!!data.paused);
+    setQuestionIndex(data.index);
+    if (Number(data.state) === GameState.QUESTION_INTRO) {
+      setAnswered(new Set());
+      setLiveResults(null);
+    }
+    setGameState(Number(data.state) as GameState);
+  };
+
+  // Answer keys only arrive once a question is revealed
+  const revealAnswerKey = (index: number, answer: AnswerKey) => {
+    setRevealedIndex(index);
+    setQuiz(prev => prev ? {
+      ...prev,
+      questions: prev.questions.map((q, i) => i === index ? { ...q, ...answer } : q)
+    } : prev);
+  };
+
+  const setupSocketListeners = (socket: Socket) => {
+    socket.on('ROOM_ERROR', (data: { error: string; message: string }) => {
+      console.error('Room error:', data);
+      if (data.error === 'ROOM_NOT_FOUND') {
+        handleError(410, 'This game session has ended or does not exist');
+      }
+    });
+
+    socket.on('DISPLAY_JOINED', (data: { pin: string; players: Player[]; teamSettings: TeamSettings | null }) => {
+      if (data.pin === pin) {
+        setPlayers(data.players);
+        setTeamSettings(data.teamSettings);
+      }
+    });
+
+    // Sent after joining a game that is already running
+    socket.on('GAME_SNAPSHOT', (data: GameSnapshot) => {
+      if (data.pin === pin) {
+        applyLiveGameState(data);
+        if (data.remainingMs !== null) setTimeLeft(Math.ceil(data.remainingMs / 1000));
+        setAnswered(new Set(data.answeredIds));
+        setPlayers(data.players);
+        setLiveResults(data.results);
+        if (data.reveal) revealAnswerKey(data.reveal.index, data.reveal.answer);
+      }
+    });
+
+    socket.on('LOBBY_UPDATE', (data: { pin: string; players: Player[] }) => {
+      if (data.pin === pin) setPlayers(data.players);
+    });
+
+    socket.on('TEAM_SETTINGS', (data: { pin: string; settings: TeamSettings | null }) => {
+      if (data.pin === pin) setTeamSettings(data.settings);
+    });
+
+    socket.on('START_SIGNAL', (data: { pin: string; quiz: Quiz }) => {
+      if (data.pin === pin) setQuiz(data.quiz);
+    });
+
+    socket.on('STATE_SYNC', (data: LiveGameState) => {
+      if (data.pin === pin) applyLiveGameState(data);
+    });
+
+    socket.on('GAME_TICK', (data: { pin: string; deadline: number | null; serverTime: number }) => {
+      if (data.pin === pin) syncClock(data.deadline, data.serverTime);
+    });
+
+    socket.on('ANSWER_SUBMITTED', (data: { pin: string; playerId: string }) => {
+      if (data.pin === pin) setAnswered(prev => new Set(prev).add(data.playerId));
+    });
+
+    socket.on('LIVE_RESULTS', (data: { pin: string; index: number; results: ResponseSummary }) => {
+      if (data.pin === pin) setLiveResults(data.results);
+    });
+
+    socket.on('ANSWER_REVEAL', (data: { pin: string; index: number; answer: AnswerKey; results: ResponseSummary | null }) => {
+      if (data.pin === pin) {
+        setLiveResults(data.results);
+        revealAnswerKey(data.index, data.answer);
+      }
+    });
+
+    socket.on('SCORE_SYNC', (data: { pin: string; players: Player[] }) => {
+      if (data.pin === pin) setPlayers(data.players);
+    });
+  };
+
+  if (!quiz || !pin) {
+    return <div className="min-h-screen flex items-center justify-center bg-slate-950">
+      <div className="text-white">Loading game...</div>
+    </div>;
+  }
+
+  return (
+    <DisplayScreen
+      pin={pin}
+      quiz={quiz}
+      players={players}
+      gameState={gameState}
+      questionIndex={questionIndex}
+      timeLeft={timeLeft}
+      answeredCount={answered.size}
+      liveResults={liveResults}
+      revealed={revealedIndex === questionIndex}
+      paused={paused}
+      teamSettings={teamSettings}
+    />
+  );
+};
+
+export default DisplayPage;
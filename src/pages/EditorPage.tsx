@@ -33,6 +33,12 @@ const EditorPage: React.FC = () => {
       try {
         const response = await quizAPI.getById(id);
         const loaded = response.data.quiz;
+        // Viewers and visitors can look at the quiz but not change it
+        if (loaded.role !== 'OWNER' && loaded.role !== 'EDITOR') {
+          toast.error('You do not have permission to edit this quiz.');
+          navigate(`/quiz/${id}`);
+          return;
+        }
         setQuiz({ ...loaded, visibility: loaded.visibility || 'PUBLIC' });
       } catch (error) {
         console.error('Failed to load quiz:', error);
@@ -65,7 +71,7 @@ const EditorPage: React.FC = () => {
     setLoading(false);
   };
 
-  const handleSave = async (updatedQuiz: Quiz) => {
+  const handleSave = async (updatedQuiz: Quiz, revisionNote?: string) => {
     if (!user) {
       toast.error('You must be signed in to save quizzes.');
       return;
@@ -85,10 +91,11 @@ const EditorPage: React.FC = () => {
 
     try {
       if (normalized.id) {
-        await quizAPI.update(normalized.id, normalized);
-        toast.success('Quiz updated.');
+        // The version the editor started from lets the server keep edits others saved meanwhile
+        const response = await quizAPI.update(normalized.id, { ...normalized, revisionNote, baseVersion: normalized.version });
+        toast.success(response.data.merged ? 'Quiz updated. Changes others saved while you were editing were kept.' : 'Quiz updated.');
       } else {
-        const response = await quizAPI.create(normalized);
+        const response = await quizAPI.create({ ...normalized, revisionNote });
         const saved = response.data.quiz || normalized;
         toast.success('Quiz saved.');
         // keep quiz available for follow-up edits
@@ -1,18 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { io, Socket } from 'socket.io-client';
+import toast from 'react-hot-toast';
 import QuestionScreen from '../components/QuestionScreen';
 import Leaderboard from '../components/Leaderboard';
 import Podium from '../components/Podium';
+import ResponseResults from '../components/ResponseResults';
 import { gameAPI, quizAPI } from '../api';
 import { useUser } from '../context/UserContext';
 import { useErrorHandler } from '../hooks/useErrorHandler';
-import { Player, Quiz, GameState, QuestionType, PointType } from '../types';
+import { Player, Quiz, GameState, QuestionType, AnswerKey, TeamSettings, CommandRejection, LiveGameState, GameSnapshot } from '../types';
+import { scoreAnswer, applyScore, markedScore, recordedScore, reviseScore, resolveScoringConfig, ScoredAnswer, haversineKm, puzzleItemsInPlace, describeCorrectAnswer } from '../utils/scoring';
+import { DEFAULT_WORLD_MAP_URL, latLngToPoint } from '../utils/mapPins';
+import { ResponseSummary, summarizeResponses } from '../utils/responses';
+import { applyOptionOrder, drawQuestions, getOptionOrder, resolveShuffleSettings } from '../utils/shuffle';
 
 const GamePage: React.FC = () => {
   const navigate = useNavigate();
   const { pin } = useParams<{ pin: string }>();
-  const { user, updateUser, loading: userLoading } = useUser();
+  const { user, updateUser, refreshUser, loading: userLoading } = useUser();
   const { handleError } = useErrorHandler();
   
   const [socket, setSocket] = useState<Socket | null>(null);
@@ -22,8 +28,13 @@ const GamePage: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.QUESTION_INTRO);
   const [timeLeft, setTimeLeft] = useState(20);
   const [answersSubmitted, setAnswersSubmitted] = useState<Record<string, any>>({});
+  const [liveResults, setLiveResults] = useState<ResponseSummary | null>(null); // server tally of the current poll or word cloud
+  const [answerMarks, setAnswerMarks] = useState<Record<string, boolean>>({}); // playerId -> host's mark on an open-ended answer
+  const markedScores = useRef<Record<string, ScoredAnswer>>({}); // what each marked answer was awarded in solo games
+  const streaksBefore = useRef<Record<string, number>>({}); // each player's streak going into the revealed question, in solo games
   const [isHost, setIsHost] = useState(false);
   const [isSolo, setIsSolo] = useState(false);
+  const [teamSettings, setTeamSettings] = useState<TeamSettings | null>(null);
   const [gameInitialized, setGameInitialized] = useState(false);
   
   // Use consistent player ID logic
@@ -50,6 +61,10 @@ const GamePage: React.FC = () => {
   
   const humanId = useRef<string>('');
   const botTimerRefs = useRef<number[]>([]);
+  // Live games run on the server clock: the current phase deadline and the server/client clock offset
+  const deadlineRef = useRef<number | null>(null);
+  const serverOffsetRef = useRef(0);
+  const pausedRef = useRef(false); // the server has paused the game while the host is away
 
   useEffect(() => {
     // Wait for user context to load
@@ -93,7 +108,14 @@ const GamePage: React.FC = () => {
       if (soloQuizId) {
         try {
           const response = await quizAPI.getById(soloQuizId);
-          const parsedQuiz = response.data.quiz;
+          const loaded: Quiz = response.data.quiz;
+          // Solo games draw and shuffle the quiz here, afresh for every play
+          const shuffle = resolveShuffleSettings(loaded.shuffleSettings);
+          const seed = `${Date.now()}:${Math.random()}`;
+          const parsedQuiz: Quiz = {
+            ...loaded,
+            questions: drawQuestions(loaded.questions, shuffle, seed).map(q => applyOptionOrder(q, getOptionOrder(q, shuffle, seed)))
+          };
           setIsSolo(true);
           
           // Setup solo player (just the human, no bots)
@@ -122,11 +144,12 @@ const GamePage: React.FC = () => {
     } else if (pin) {
       // Multiplayer mode
       try {
-        const response = await gameAPI.getByPin(pin);
+        const response = await gameAPI.getByPin(pin, humanId.current);
         const session = response.data.session;
         setQuiz(session.quiz);
         setPlayers((session.players as Player[]) || []);
         setIsHost(user?.id === session.hostId);
+        setTeamSettings(session.teamSettings || null);
         setCurrentQuestionIndex(session.currentQuestionIndex || 0);
         
         // Connect socket with mobile-optimized settings
@@ -144,13 +167,8 @@ const GamePage: React.FC = () => {
         setupSocketListeners(newSocket);
         
         // Join room with player ID
-        newSocket.emit('JOIN_ROOM', { pin, playerId: humanId.current });
-          newSocket.emit('JOIN_ROOM', { pin, playerId: humanId.current, userId: user?.id });
-        
-        // Start if already in progress - use the quiz from the response
-        if (session.state !== 'LOBBY') {
-          beginQuestionSequenceWithQuiz(session.quiz, session.currentQuestionIndex || 0);
-        }
+        // The server answers with the current STATE_SYNC if the game is already running
+        newSocket.emit('JOIN_ROOM', { pin, playerId: humanId.current, userId: user?.id });
       } catch (error: any) {
         console.error('Failed to load game:', error);
         // Check error status codes in priority order
@@ -176,6 +194,8 @@ const GamePage: React.FC = () => {
       if (data.error === 'ROOM_NOT_FOUND') {
         // Redirect to error page for non-existent room
         navigate(`/error?code=410&message=${encodeURIComponent('This game session has ended or does not exist')}`);
+      } else if (data.error === 'NOT_AUTHENTICATED') {
+        navigate(`/error?code=401&message=${encodeURIComponent(data.message)}`);
       } else {
         // Ignore ALREADY_JOINED error and allow user to proceed
         // Optionally log or show a non-blocking message
@@ -215,43 +235,124 @@ const GamePage: React.FC = () => {
       // Optionally, trigger any UI or state update if needed
     });
 
-    socket.on('STATE_SYNC', (data: { pin: string; state: any; index?: number; timeLeft?: number }) => {
-      if (!isHost && data.pin === pin) {
+    // The server owns the game loop; everyone (host included) follows its state and deadlines
+    socket.on('STATE_SYNC', (data: LiveGameState) => {
+      if (data.pin === pin) {
         console.log('[CLIENT] Received STATE_SYNC', data);
         // Send ACK for STATE_SYNC
         socket.emit('EVENT_ACK', { pin, playerId: humanId.current, event: 'STATE_SYNC' });
-        // Always update question index and game state
-        if (data.index !== undefined) {
-          setCurrentQuestionIndex(data.index);
-        }
-        if (data.timeLeft !== undefined) {
-          setTimeLeft(data.timeLeft);
-        } else if (data.state === GameState.QUESTION_ACTIVE || Number(data.state) === GameState.QUESTION_ACTIVE) {
-          setTimeLeft(() => {
-            const idx = data.index !== undefined ? data.index : currentQuestionIndex;
-            const limit = quiz?.questions?.[idx]?.timeLimit || 20;
-            return limit;
-          });
+        applyLiveGameState(data);
+        if (Number(data.state) === GameState.PODIUM) {
+          // Rewards were awarded by the server when the game ended
+          refreshUser().catch(() => {});
         }
-        if (data.state === GameState.QUESTION_INTRO || Number(data.state) === GameState.QUESTION_INTRO) {
-          setAnswersSubmitted({});
-        }
-        setGameState(data.state as GameState);
       }
     });
 
+    // Sent on (re)joining a running game, so a refresh doesn't lose the player's answer or the clock
+    socket.on('GAME_SNAPSHOT', (data: GameSnapshot) => {
+      if (data.pin === pin) {
+        console.log('[CLIENT] Received GAME_SNAPSHOT', data);
+        applyLiveGameState(data);
+        if (data.remainingMs !== null) setTimeLeft(Math.ceil(data.remainingMs / 1000));
+        setAnswersSubmitted({ ...Object.fromEntries(data.answeredIds.map(id => [id, null])), ...data.answers });
+        setPlayers(data.players);
+        setLiveResults(data.results);
+        if (data.reveal) revealAnswerKey(data.reveal.index, data.reveal.answer);
+      }
+    });
+
+    socket.on('HOST_CHANGED', (data: { pin: string; hostId: string; playerId: string; name: string }) => {
+      if (data.pin === pin) {
+        console.log('[CLIENT] Host changed', data);
+        const becameHost = data.playerId === humanId.current;
+        setIsHost(becameHost);
+        setPlayers(prevPlayers => prevPlayers.map(p => ({ ...p, isHost: p.id === data.playerId })));
+        toast.success(becameHost ? 'You are now the host' : `${data.name} is now the host`);
+      }
+    });
+
+    // The server refused a host command, e.g. after signing out in another tab
+    socket.on('COMMAND_REJECTED', (data: CommandRejection) => {
+      if (data.pin === pin) {
+        toast.error(data.message);
+      }
+    });
+
+    socket.on('GAME_TICK', (data: { pin: string; deadline: number | null; serverTime: number }) => {
+      if (data.pin === pin) {
+        syncClock(data.deadline, data.serverTime);
+      }
+    });
+
+    // Scores are graded on the server and pushed to everyone, including the host
     socket.on('SCORE_SYNC', (data: { pin: string; players: Player[] }) => {
-      if (!isHost && data.pin === pin) {
+      if (data.pin === pin) {
         setPlayers(data.players);
       }
     });
 
-    socket.on('ANSWER_SUBMITTED', (data: { pin: string; playerId: string; answer: any }) => {
+    socket.on('ANSWER_REVEAL', (data: { pin: string; index: number; answer: AnswerKey; results: ResponseSummary | null; answers: Record<string, any> | null }) => {
+      if (data.pin === pin) {
+        setLiveResults(data.results);
+        // Open-ended answers and flashcard ratings are shown to everyone once the question is over
+        if (data.answers) setAnswersSubmitted(prev => ({ ...prev, ...data.answers }));
+        revealAnswerKey(data.index, data.answer);
+      }
+    });
+
+    socket.on('LIVE_RESULTS', (data: { pin: string; index: number; results: ResponseSummary }) => {
+      if (data.pin === pin) {
+        setLiveResults(data.results);
+      }
+    });
+
+    socket.on('ANSWER_MARKED', (data: { pin: string; playerId: string; correct: boolean }) => {
       if (data.pin === pin) {
-        // All players (including host) update their local state when anyone submits
-        setAnswersSubmitted(prev => ({ ...prev, [data.playerId]: data.answer }));
+        setAnswerMarks(prev => ({ ...prev, [data.playerId]: data.correct }));
       }
     });
+
+    socket.on('ANSWER_SUBMITTED', (data: { pin: string; playerId: string }) => {
+      if (data.pin === pin) {
+        // Everyone learns who has answered; what they answered stays hidden until the reveal
+        setAnswersSubmitted(prev => data.playerId in prev ? prev : ({ ...prev, [data.playerId]: null }));
+      }
+    });
+  };
+
+  const applyLiveGameState = (data: LiveGameState) => {
+    syncClock(data.deadline, data.serverTime);
+    // The server pauses the game while the host is disconnected
+    pausedRef.current = !!data.paused;
+    if (data.paused) {
+      toast.loading('Host disconnected - waiting for them to return...', { id: 'host-paused' });
+    } else {
+      toast.dismiss('host-paused');
+    }
+    setCurrentQuestionIndex(data.index);
+    if (Number(data.state) === GameState.QUESTION_INTRO) {
+      setAnswersSubmitted({});
+      setAnswerMarks({});
+      setLiveResults(null);
+    }
+    setGameState(Number(data.state) as GameState);
+  };
+
+  // Players receive each question's answer key only once it is revealed
+  const revealAnswerKey = (index: number, answer: AnswerKey) => {
+    setQuiz(prev => prev ? {
+      ...prev,
+      questions: prev.questions.map((q, i) => i === index ? { ...q, ...answer } : q)
+    } : prev);
+  };
+
+  const syncClock = (deadline: number | null, serverTime: number) => {
+    serverOffsetRef.current = serverTime - Date.now();
+    deadlineRef.current = deadline;
+    if (deadline !== null) {
+      setTimeLeft(Math.max(0, Math.ceil((deadline - serverTime) / 1000)));
+    }
   };
 
   // New version that accepts quiz parameter to avoid async state issues
@@ -266,13 +367,11 @@ const GamePage: React.FC = () => {
     setCurrentQuestionIndex(index);
     setGameState(GameState.QUESTION_INTRO);
     setAnswersSubmitted({});
+    setAnswerMarks({});
+    markedScores.current = {};
     botTimerRefs.current.forEach(t => clearTimeout(t));
     botTimerRefs.current = [];
     
-    if (isHost && socket && pin) {
-      socket.emit('STATE_SYNC', { pin, state: GameState.QUESTION_INTRO, index });
-    }
-
     const limit = quizData.questions[index].timeLimit || 20;
     const gameMode = sessionStorage.getItem('gameMode');
     
@@ -282,10 +381,6 @@ const GamePage: React.FC = () => {
       console.log('Timeout fired, setting QUESTION_ACTIVE state');
       setGameState(GameState.QUESTION_ACTIVE);
       setTimeLeft(limit);
-      
-      if (isHost && socket && pin) {
-        socket.emit('STATE_SYNC', { pin, state: GameState.QUESTION_ACTIVE, timeLeft: limit });
-      }
 
       // Bot logic for solo mode
       if (gameMode === 'SOLO') {
@@ -312,6 +407,22 @@ const GamePage: React.FC = () => {
                   botAns = q.correctSequence || [];
                 } else if (q.type === QuestionType.INPUT) {
                   botAns = isCorrect ? (q.correctTexts?.[0] || 'ans') : 'wrong';
+                } else if (q.type === QuestionType.OPEN_ENDED) {
+                  const phrases = ['Not sure, but I think so', 'It depends', 'Probably the first one', 'I would guess yes'];
+                  botAns = isCorrect ? (q.correctTexts?.[0] || phrases[0]) : phrases[Math.floor(Math.random() * phrases.length)];
+                } else if (q.type === QuestionType.FLASHCARD) {
+                  botAns = isCorrect ? 'KNEW' : (Math.random() > 0.5 ? 'UNSURE' : 'MISSED');
+                } else if (q.type === QuestionType.SLIDER || q.type === QuestionType.SCALE) {
+                  const min = q.minValue ?? 0;
+                  const max = q.maxValue ?? 100;
+                  botAns = isCorrect && typeof q.correctValue === 'number' ? q.correctValue : Math.round(min + Math.random() * (max - min));
+                } else if (q.type === QuestionType.DROP_PIN) {
+                  botAns = isCorrect && q.targetLatLng
+                    ? { lat: q.targetLatLng.lat + (Math.random() - 0.5) * 4, lng: q.targetLatLng.lng + (Math.random() - 0.5) * 4 }
+                    : { lat: Math.random() * 140 - 70, lng: Math.random() * 360 - 180 };
+                } else if (q.type === QuestionType.PIN_ANSWER) {
+                  const region = q.correctRegions?.[0];
+                  botAns = isCorrect && region ? { x: region.x, y: region.y } : { x: Math.random() * 100, y: Math.random() * 100 };
                 } else if (q.type === QuestionType.MULTIPLE_CHOICE && q.correctIndices && q.correctIndices.length > 1) {
                   botAns = isCorrect ? q.correctIndices : [0];
                 } else {
@@ -340,6 +451,11 @@ const GamePage: React.FC = () => {
 
   const submitAnswer = (playerId: string, answer: any) => {
     console.log('Answer submitted:', { playerId, answer, isHost, isSolo });
+    // The server takes no answers while the game is paused
+    if (!isSolo && pausedRef.current) {
+      toast.error('The game is paused until the host returns');
+      return;
+    }
     
     // Immediately update local state
     setAnswersSubmitted(prev => ({ ...prev, [playerId]: answer }));
@@ -351,126 +467,105 @@ const GamePage: React.FC = () => {
   };
 
   useEffect(() => {
-    if (gameState === GameState.QUESTION_ACTIVE && Object.keys(answersSubmitted).length === players.length) {
+    if (isSolo && gameState === GameState.QUESTION_ACTIVE && Object.keys(answersSubmitted).length === players.length) {
       console.log('All players answered, revealing answers in 800ms');
-      if (isHost || isSolo) {
-        setTimeout(revealAnswers, 800);
-      }
+      setTimeout(revealAnswers, 800);
     }
-  }, [answersSubmitted, gameState, isHost, isSolo, players.length]);
+  }, [answersSubmitted, gameState, isSolo, players.length]);
 
   useEffect(() => {
+    if (!isSolo) return;
     let timer: any;
     if (gameState === GameState.QUESTION_ACTIVE && timeLeft > 0) {
       timer = setInterval(() => setTimeLeft(prev => Math.max(prev - 1, 0)), 1000);
     } else if (gameState === GameState.QUESTION_ACTIVE && timeLeft === 0) {
       console.log('Time expired, revealing answers');
-      // Fallback: allow any client to reveal to avoid getting stuck if host disconnects
       revealAnswers();
     }
     return () => clearInterval(timer);
-  }, [gameState, timeLeft]);
+  }, [isSolo, gameState, timeLeft]);
+
+  // Live games count down to the server's deadline; the server decides when time is up
+  useEffect(() => {
+    if (isSolo || !pin) return;
+    const timer = setInterval(() => {
+      const deadline = deadlineRef.current;
+      if (deadline === null) return;
+      const serverNow = Date.now() + serverOffsetRef.current;
+      setTimeLeft(Math.max(0, Math.ceil((deadline - serverNow) / 1000)));
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isSolo, pin]);
 
   const revealAnswers = () => {
     if (!quiz || gameState !== GameState.QUESTION_ACTIVE) return;
     
     console.log('Revealing answers for question', currentQuestionIndex);
-    const q = quiz.questions[currentQuestionIndex];
-    const updatedPlayers = players.map(p => {
-      const ans = answersSubmitted[p.id];
-      let accuracy = 0;
-
-      if (q.pointType === PointType.NONE) {
-        accuracy = 0;
-      } else if (q.type === QuestionType.PUZZLE) {
-        // Normalize both arrays to ensure consistent comparison
-        const userAnswer = Array.isArray(ans) ? ans : [];
-        const correctAnswer = Array.isArray(q.correctSequence) ? q.correctSequence : [];
-        
-        // Check if arrays have same length and same elements in same order
-        if (userAnswer.length !== correctAnswer.length) {
-          accuracy = 0;
-        } else {
-          accuracy = userAnswer.every((item, idx) => String(item).trim() === String(correctAnswer[idx]).trim()) ? 1 : 0;
-        }
-      } else if (q.type === QuestionType.INPUT) {
-        const userAns = (ans || '').toString().toLowerCase().trim();
-        accuracy = (q.correctTexts || []).some(t => t.toLowerCase().trim() === userAns) ? 1 : 0;
-      } else if (q.type === QuestionType.MULTIPLE_CHOICE && q.correctIndices && q.correctIndices.length > 1) {
-        const userIndices = Array.isArray(ans) ? ans : [ans];
-        const correctOnes = q.correctIndices;
-        const correctCount = userIndices.filter(i => correctOnes.includes(i)).length;
-        const wrongSelected = userIndices.some(i => !correctOnes.includes(i));
-        accuracy = wrongSelected ? 0 : correctCount / correctOnes.length;
-      } else {
-        accuracy = (q.correctIndices || []).includes(ans) ? 1 : 0;
-      }
-
-      let max = 1000;
-      if (q.pointType === PointType.HALF) max = 500;
-      if (q.pointType === PointType.DOUBLE) max = 2000;
-
-      const points = Math.floor(accuracy * (max * 0.7 + max * 0.3 * (timeLeft / (q.timeLimit || 20))));
-      return {
-        ...p,
-        score: p.score + points,
-        streak: accuracy > 0.9 ? p.streak + 1 : (accuracy > 0 ? p.streak : 0),
-        lastAnswerCorrect: accuracy > 0
-      };
-    });
 
+    // Only solo games reveal locally; live games are graded and revealed by the server
+    const q = quiz.questions[currentQuestionIndex];
+    const config = resolveScoringConfig(quiz.scoringConfig);
+    streaksBefore.current = Object.fromEntries(players.map(p => [p.id, p.streak]));
+    const updatedPlayers = players.map(p => applyScore(p, scoreAnswer(q, answersSubmitted[p.id], timeLeft, config), config));
     console.log('Updated player scores:', updatedPlayers.map(p => ({ name: p.name, score: p.score })));
     setPlayers(updatedPlayers);
+
     console.log('Setting game state to ANSWER_REVEAL');
     setGameState(GameState.ANSWER_REVEAL);
-    
-    if (isHost && socket && pin) {
-      socket.emit('SCORE_SYNC', { pin, players: updatedPlayers });
-      socket.emit('STATE_SYNC', { pin, state: GameState.ANSWER_REVEAL });
+  };
+
+  // Mark an open-ended answer. Solo games score it locally; in live games the server does.
+  const markAnswer = (playerId: string, correct: boolean) => {
+    if (!quiz) return;
+    if (!isSolo) {
+      if (isHost && socket && pin) socket.emit('MARK_ANSWER', { pin, playerId, correct });
+      return;
+    }
+    const q = quiz.questions[currentQuestionIndex];
+    const config = resolveScoringConfig(quiz.scoringConfig);
+    const wasCorrect = !!answerMarks[playerId];
+    if (wasCorrect === correct) return;
+    const player = players.find(p => p.id === playerId);
+    if (!player) return;
+    const previous = markedScores.current[playerId] || markedScore(q, false, timeLeft, config);
+    const revised = reviseScore(player, previous, markedScore(q, correct, timeLeft, config), streaksBefore.current[playerId] ?? 0, config);
+    // Remember what was actually awarded, streak bonus included, so a change of mind takes back the right amount
+    markedScores.current[playerId] = recordedScore(q, correct ? 1 : 0, revised.score - player.score + previous.points, timeLeft, config);
+    setPlayers(prev => prev.map(p => p.id === playerId ? revised : p));
+    setAnswerMarks(prev => ({ ...prev, [playerId]: correct }));
+  };
+
+  // Solo games move on locally; in live games the host asks the server to move on
+  const requestState = (state: GameState) => {
+    if (isSolo) {
+      setGameState(state);
+    } else if (isHost && socket && pin) {
+      socket.emit('STATE_SYNC', { pin, state });
     }
   };
 
   const handleNext = () => {
     if (!quiz) return;
+
+    const hasNext = currentQuestionIndex + 1 < quiz.questions.length;
+    if (!isSolo) {
+      requestState(hasNext ? GameState.QUESTION_INTRO : GameState.PODIUM);
+      return;
+    }
     
-    if (currentQuestionIndex + 1 < quiz.questions.length) {
+    if (hasNext) {
       beginQuestionSequence(currentQuestionIndex + 1);
     } else {
       console.log('Setting game state to PODIUM');
       setGameState(GameState.PODIUM);
       
-      if (isHost && socket && pin) {
-        socket.emit('STATE_SYNC', { pin, state: GameState.PODIUM });
-      }
-      
-      // End game and award points
-      if (isSolo || isHost) {
-        endGame();
-      }
+      // Award points
+      endGame();
     }
   };
 
   const endGame = async () => {
-    if (pin && !isSolo) {
-      try {
-        await gameAPI.end(pin, players);
-        
-        // Reload user to get updated stats
-        if (user) {
-          const humanPlayer = players.find(p => p.id === humanId.current);
-          if (humanPlayer && humanPlayer.userId === user.id) {
-            await updateUser({
-              ...user,
-              totalPoints: user.totalPoints + humanPlayer.score,
-              xp: user.xp + Math.floor(humanPlayer.score / 10),
-              coins: user.coins + Math.floor(humanPlayer.score / 100)
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Failed to end game:', error);
-      }
-    } else if (isSolo && user) {
+    if (isSolo && user) {
       // Solo mode - manually update user
       const humanPlayer = players.find(p => p.id === humanId.current);
       if (humanPlayer) {
@@ -517,6 +612,7 @@ const GamePage: React.FC = () => {
         totalPlayers={players.length}
         onAnswer={(ans) => submitAnswer(humanId.current, ans)}
         humanAnswer={answersSubmitted[humanId.current]}
+        liveResults={isSolo ? summarizeResponses(currentQuestion, Object.values(answersSubmitted)) : liveResults}
       />
     );
   }
@@ -525,16 +621,12 @@ const GamePage: React.FC = () => {
     const isPoll = currentQuestion.type === QuestionType.POLL;
     const isWordCloud = currentQuestion.type === QuestionType.WORD_CLOUD;
     
+    // Solo games tally locally; live games use the server's tally
+    const responseSummary = isSolo
+      ? summarizeResponses(currentQuestion, Object.values(answersSubmitted))
+      : liveResults;
+
     if (isPoll) {
-      // For polls, show distribution of responses
-      const responseCounts: { [key: number]: number } = {};
-      const totalResponses = Object.keys(answersSubmitted).length;
-      
-      Object.values(answersSubmitted).forEach((answer) => {
-        const optionIndex = typeof answer === 'number' ? answer : 0;
-        responseCounts[optionIndex] = (responseCounts[optionIndex] || 0) + 1;
-      });
-      
       return (
         <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950/40 p-3 sm:p-4 md:p-8 text-center animate-in fade-in duration-500">
           <div className="mb-6 sm:mb-8 md:mb-12 w-full max-w-4xl mx-auto">
@@ -544,42 +636,16 @@ const GamePage: React.FC = () => {
               <p className="text-slate-500 text-xs sm:text-sm font-medium mt-2 sm:mt-3 md:mt-4 uppercase tracking-widest">Everyone's opinion counts!</p>
             </div>
             
-            <div className="bg-white/5 border border-white/10 rounded-2xl sm:rounded-3xl p-4 sm:p-6 md:p-8 space-y-2.5 sm:space-y-3 md:space-y-4">
-              {(currentQuestion.options || []).map((option, idx) => {
-                const count = responseCounts[idx] || 0;
-                const percentage = totalResponses > 0 ? Math.round((count / totalResponses) * 100) : 0;
-                const isHumanChoice = answersSubmitted[humanId.current] === idx;
-                
-                return (
-                  <div key={idx} className={`relative p-4 rounded-2xl ${isHumanChoice ? 'bg-blue-500/10 border-2 border-blue-500/50' : 'bg-white/5 border border-white/10'}`}>
-                    <div className="flex items-center justify-between mb-2 relative z-10">
-                      <div className="flex items-center gap-3">
-                        {isHumanChoice && <i className="bi bi-check-circle-fill text-blue-400"></i>}
-                        <span className="text-white font-bold">{option}</span>
-                      </div>
-                      <span className="text-2xl font-black text-white">{percentage}%</span>
-                    </div>
-                    <div className="h-3 bg-white/5 rounded-full overflow-hidden">
-                      <div 
-                        className="h-full bg-gradient-to-r from-blue-600 to-indigo-500 rounded-full transition-all duration-1000"
-                        style={{ width: `${percentage}%` }}
-                      ></div>
-                    </div>
-                    <div className="text-xs text-slate-500 mt-1">{count} {count === 1 ? 'vote' : 'votes'}</div>
-                  </div>
-                );
-              })}
-            </div>
+            {responseSummary && (
+              <ResponseResults summary={responseSummary} options={currentQuestion.options || []} myAnswer={answersSubmitted[humanId.current]} />
+            )}
           </div>
           
           {(isHost || isSolo) ? (
             <button
               onClick={() => {
                 console.log('Transitioning from ANSWER_REVEAL (POLL) to LEADERBOARD');
-                setGameState(GameState.LEADERBOARD);
-                if (isHost && socket && pin) {
-                  socket.emit('STATE_SYNC', { pin, state: GameState.LEADERBOARD });
-                }
+                requestState(GameState.LEADERBOARD);
               }}
               className="bg-white text-slate-900 px-16 py-5 rounded-full text-2xl font-black transition-all hover:scale-105 active:scale-95 shadow-2xl mt-8"
             >
@@ -595,26 +661,6 @@ const GamePage: React.FC = () => {
     }
 
     if (isWordCloud) {
-      // For word clouds, aggregate responses and show word frequency cloud
-      const wordCounts: { [word: string]: number } = {};
-      const humanAnswer = answersSubmitted[humanId.current];
-      
-      Object.values(answersSubmitted).forEach((answer) => {
-        if (typeof answer === 'string' && answer.trim()) {
-          const word = answer.trim().toLowerCase();
-          wordCounts[word] = (wordCounts[word] || 0) + 1;
-        }
-      });
-      
-      // Get max count for sizing
-      const maxCount = Math.max(...Object.values(wordCounts), 1);
-      const minCount = Math.min(...Object.values(wordCounts), 1);
-      
-      // Sort by frequency
-      const sortedWords = Object.entries(wordCounts)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 30); // Show top 30 words
-      
       return (
         <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950/40 p-3 sm:p-4 md:p-8 text-center animate-in fade-in duration-500">
           <div className="mb-6 sm:mb-8 md:mb-12 w-full max-w-4xl mx-auto">
@@ -624,42 +670,16 @@ const GamePage: React.FC = () => {
               <p className="text-slate-500 text-xs sm:text-sm font-medium mt-2 sm:mt-3 md:mt-4 uppercase tracking-widest">See what everyone thought!</p>
             </div>
             
-            <div className="bg-white/5 border border-white/10 rounded-2xl sm:rounded-3xl p-3 sm:p-6 md:p-8 min-h-48 sm:min-h-64 md:min-h-96 flex items-center justify-center">
-              <div className="flex flex-wrap gap-3 sm:gap-4 md:gap-6 justify-center items-center max-w-3xl">
-                {sortedWords.length > 0 ? (
-                  sortedWords.map(([word, count]) => {
-                    // Calculate font size based on frequency (20px to 60px)
-                    const ratio = (count - minCount) / (maxCount - minCount || 1);
-                    const fontSize = 20 + ratio * 40;
-                    const isHumanAnswer = word === humanAnswer?.trim().toLowerCase();
-                    
-                    return (
-                      <div
-                        key={word}
-                        className={`transition-all text-center ${isHumanAnswer ? 'text-blue-400' : 'text-slate-300'}`}
-                      >
-                        <div style={{ fontSize: `${fontSize}px` }} className="font-black leading-none">
-                          {word}
-                        </div>
-                        <div className="text-xs text-slate-500 mt-1">({count})</div>
-                      </div>
-                    );
-                  })
-                ) : (
-                  <div className="text-slate-500 text-xl">No responses yet...</div>
-                )}
-              </div>
-            </div>
+            {responseSummary && (
+              <ResponseResults summary={responseSummary} options={[]} myAnswer={answersSubmitted[humanId.current]} />
+            )}
           </div>
           
           {(isHost || isSolo) ? (
             <button
               onClick={() => {
                 console.log('Transitioning from ANSWER_REVEAL (WORD_CLOUD) to LEADERBOARD');
-                setGameState(GameState.LEADERBOARD);
-                if (isHost && socket && pin) {
-                  socket.emit('STATE_SYNC', { pin, state: GameState.LEADERBOARD });
-                }
+                requestState(GameState.LEADERBOARD);
               }}
               className="bg-white text-slate-900 px-16 py-5 rounded-full text-2xl font-black transition-all hover:scale-105 active:scale-95 shadow-2xl mt-8"
             >
@@ -674,13 +694,187 @@ const GamePage: React.FC = () => {
       );
     }
 
-    const correctAnswerDisplay = currentQuestion.type === QuestionType.INPUT
-      ? (currentQuestion.correctTexts || []).join(' | ')
-      : currentQuestion.type === QuestionType.TRUE_FALSE
-      ? ((currentQuestion.correctIndices?.[0] ?? 0) === 0 ? 'True' : 'False')
-      : currentQuestion.type === QuestionType.PUZZLE
-      ? (currentQuestion.correctSequence || []).join(' → ')
-      : (currentQuestion.correctIndices || []).map(idx => (currentQuestion.options || [])[idx]).join(' | ');
+    if (currentQuestion.type === QuestionType.OPEN_ENDED) {
+      const canMark = isHost || isSolo;
+      const answered = players.filter(p => typeof answersSubmitted[p.id] === 'string');
+
+      return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950/40 p-3 sm:p-4 md:p-8 text-center animate-in fade-in duration-500">
+          <div className="mb-6 sm:mb-8 md:mb-12 w-full max-w-4xl mx-auto">
+            <div className="text-blue-400 mb-4 sm:mb-6 md:mb-8">
+              <i className="bi bi-chat-quote-fill text-[4rem] sm:text-[6rem] md:text-[8rem] drop-shadow-[0_0_50px_rgba(59,130,246,0.3)]"></i>
+              <div className="text-2xl sm:text-3xl md:text-5xl font-black uppercase tracking-widest mt-3 sm:mt-4 md:mt-6">Answers</div>
+              <p className="text-slate-500 text-xs sm:text-sm font-medium mt-2 sm:mt-3 md:mt-4 uppercase tracking-widest">
+                {canMark ? 'Mark each answer right or wrong' : 'The host is marking answers'}
+              </p>
+            </div>
+
+            <div className="space-y-3 text-left">
+              {answered.length === 0 && (
+                <div className="text-slate-500 text-xl text-center">No answers this time...</div>
+              )}
+              {answered.map(p => {
+                const mark = answerMarks[p.id];
+                const isMine = p.id === humanId.current;
+                return (
+                  <div key={p.id} className={`p-4 rounded-2xl flex items-center gap-4 ${mark ? 'bg-emerald-500/10 border-2 border-emerald-500/40' : isMine ? 'bg-blue-500/10 border-2 border-blue-500/40' : 'bg-white/5 border border-white/10'}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">{p.name}{isMine ? ' (You)' : ''}</div>
+                      <div className="text-white font-bold break-words">{answersSubmitted[p.id]}</div>
+                    </div>
+                    {canMark ? (
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={() => markAnswer(p.id, true)}
+                          className={`w-10 h-10 rounded-xl border-2 flex items-center justify-center transition-all ${mark ? 'bg-emerald-500 border-emerald-400 text-white' : 'border-white/10 text-slate-500 hover:text-emerald-400'}`}
+                          title="Mark correct"
+                        >
+                          <i className="bi bi-check-lg"></i>
+                        </button>
+                        <button
+                          onClick={() => markAnswer(p.id, false)}
+                          className={`w-10 h-10 rounded-xl border-2 flex items-center justify-center transition-all ${mark === false || mark === undefined ? 'border-rose-500/40 text-rose-400' : 'border-white/10 text-slate-500 hover:text-rose-400'}`}
+                          title="Mark incorrect"
+                        >
+                          <i className="bi bi-x-lg"></i>
+                        </button>
+                      </div>
+                    ) : mark && (
+                      <i className="bi bi-check-circle-fill text-2xl text-emerald-400 shrink-0"></i>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {canMark ? (
+            <button
+              onClick={() => requestState(GameState.LEADERBOARD)}
+              className="bg-white text-slate-900 px-16 py-5 rounded-full text-2xl font-black transition-all hover:scale-105 active:scale-95 shadow-2xl mt-8"
+            >
+              Continue
+            </button>
+          ) : (
+            <p className="text-slate-500 font-bold uppercase tracking-[0.4em] animate-pulse">
+              Waiting for host...
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    if (currentQuestion.type === QuestionType.FLASHCARD) {
+      const ratings = Object.values(answersSubmitted);
+      const countOf = (rating: string) => ratings.filter(r => r === rating).length;
+
+      return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950/40 p-3 sm:p-4 md:p-8 text-center animate-in fade-in duration-500">
+          <div className="mb-6 sm:mb-8 md:mb-12 w-full max-w-2xl mx-auto space-y-6">
+            <div className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500">Back of the Card</div>
+            <div className="glass p-8 rounded-[2rem] border-2 border-emerald-500/30 text-2xl sm:text-3xl font-black text-emerald-300">
+              {currentQuestion.backText || '—'}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {[
+                { rating: 'KNEW', label: 'Knew It', className: 'text-emerald-400' },
+                { rating: 'UNSURE', label: 'Not Sure', className: 'text-amber-400' },
+                { rating: 'MISSED', label: 'Missed It', className: 'text-rose-400' }
+              ].map(r => (
+                <div key={r.rating} className={`bg-white/5 border rounded-2xl p-4 ${answersSubmitted[humanId.current] === r.rating ? 'border-blue-500/50' : 'border-white/10'}`}>
+                  <div className={`text-3xl font-black ${r.className}`}>{countOf(r.rating)}</div>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mt-1">{r.label}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {(isHost || isSolo) ? (
+            <button
+              onClick={() => requestState(GameState.LEADERBOARD)}
+              className="bg-white text-slate-900 px-16 py-5 rounded-full text-2xl font-black transition-all hover:scale-105 active:scale-95 shadow-2xl mt-8"
+            >
+              Continue
+            </button>
+          ) : (
+            <p className="text-slate-500 font-bold uppercase tracking-[0.4em] animate-pulse">
+              Waiting for host...
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    const correctAnswerDisplay = describeCorrectAnswer(currentQuestion);
+
+    // Pin questions reveal the target on the image next to the player's own pin
+    const humanAnswer = answersSubmitted[humanId.current];
+    const isDropPin = currentQuestion.type === QuestionType.DROP_PIN;
+    const pinReveal = isDropPin || currentQuestion.type === QuestionType.PIN_ANSWER ? (
+      <div className="mt-8 w-full max-w-3xl mx-auto space-y-3">
+        <div className="relative w-full rounded-2xl overflow-hidden border-2 border-white/10">
+          <img
+            src={isDropPin ? (currentQuestion.imageUrl || DEFAULT_WORLD_MAP_URL) : currentQuestion.imageUrl}
+            alt="Answer"
+            className="w-full h-auto block"
+          />
+          {isDropPin && currentQuestion.targetLatLng && (() => {
+            const target = latLngToPoint(currentQuestion.targetLatLng);
+            return (
+              <i
+                className="bi bi-star-fill absolute text-3xl text-emerald-400 drop-shadow-[0_0_10px_rgba(16,185,129,0.8)] -translate-x-1/2 -translate-y-1/2"
+                style={{ left: `${target.x}%`, top: `${target.y}%` }}
+              ></i>
+            );
+          })()}
+          {!isDropPin && (currentQuestion.correctRegions || []).map((region, i) => (
+            <div
+              key={i}
+              className="absolute rounded-full border-4 border-emerald-400 bg-emerald-400/20 -translate-x-1/2 -translate-y-1/2"
+              style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.radius * 2}%`, aspectRatio: '1 / 1' }}
+            ></div>
+          ))}
+          {humanAnswer && (() => {
+            const point = isDropPin ? latLngToPoint(humanAnswer) : humanAnswer;
+            return (
+              <i
+                className="bi bi-geo-alt-fill absolute text-3xl text-rose-500 -translate-x-1/2 -translate-y-full"
+                style={{ left: `${point.x}%`, top: `${point.y}%` }}
+              ></i>
+            );
+          })()}
+        </div>
+        {isDropPin && humanAnswer && currentQuestion.targetLatLng && (
+          <p className="text-slate-400 text-sm font-black uppercase tracking-widest">
+            Your pin was {Math.round(haversineKm(humanAnswer, currentQuestion.targetLatLng)).toLocaleString()} km away
+          </p>
+        )}
+      </div>
+    ) : null;
+
+    // Puzzles show the player's order with each misplaced step marked
+    const puzzleReveal = currentQuestion.type === QuestionType.PUZZLE && Array.isArray(humanAnswer) && currentQuestion.correctSequence ? (() => {
+      const correctSequence = currentQuestion.correctSequence;
+      const inPlace = puzzleItemsInPlace(correctSequence, humanAnswer);
+      return (
+        <div className="mt-8 w-full max-w-xl mx-auto space-y-2 text-left">
+          <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500 block mb-2 text-center">Your Order</span>
+          {humanAnswer.map((item: string, i: number) => (
+            <div key={i} className={`p-3 rounded-2xl flex items-center gap-3 border ${inPlace[i] ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-rose-500/10 border-rose-500/30'}`}>
+              <span className="w-7 h-7 rounded-lg bg-white/5 flex items-center justify-center text-xs font-black text-slate-300 shrink-0">{i + 1}</span>
+              <span className="flex-1 text-white font-bold">{item}</span>
+              {inPlace[i] ? (
+                <i className="bi bi-check-circle-fill text-emerald-400"></i>
+              ) : (
+                <span className="text-[10px] font-black uppercase tracking-widest text-rose-400 whitespace-nowrap">
+                  Belongs at {correctSequence.findIndex(c => c.trim() === String(item).trim()) + 1}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      );
+    })() : null;
 
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950/40 p-8 text-center animate-in fade-in duration-500">
@@ -704,15 +898,14 @@ const GamePage: React.FC = () => {
               )}
             </div>
           )}
+          {pinReveal}
+          {puzzleReveal}
         </div>
         {(isHost || isSolo) ? (
           <button
             onClick={() => {
               console.log('Transitioning from ANSWER_REVEAL to LEADERBOARD');
-              setGameState(GameState.LEADERBOARD);
-              if (isHost && socket && pin) {
-                socket.emit('STATE_SYNC', { pin, state: GameState.LEADERBOARD });
-              }
+              requestState(GameState.LEADERBOARD);
             }}
             className="bg-white text-slate-900 px-16 py-5 rounded-full text-2xl font-black transition-all hover:scale-105 active:scale-95 shadow-2xl mt-8"
           >
@@ -736,6 +929,7 @@ const GamePage: React.FC = () => {
         isHost={isHost}
         onNext={handleNext}
         questionsAnswered={currentQuestionIndex + 1}
+        teamSettings={teamSettings}
       />
     );
   }
@@ -749,6 +943,7 @@ const GamePage: React.FC = () => {
         user={user}
         onRestart={handleRestart}
         onUpdateUser={updateUser}
+        teamSettings={teamSettings}
       />
     );
   }
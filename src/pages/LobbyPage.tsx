@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { io, Socket } from 'socket.io-client';
+import toast from 'react-hot-toast';
 import GameLobby from '../components/GameLobby';
 import { gameAPI } from '../api';
 import { useUser } from '../context/UserContext';
 import { useErrorHandler } from '../hooks/useErrorHandler';
-import { Player, Quiz } from '../types';
+import { CommandRejection, Player, Quiz, TeamSettings } from '../types';
+import { MAX_NICKNAME_LENGTH, checkNickname } from '../utils/nicknames';
 
 const LobbyPage: React.FC = () => {
   const navigate = useNavigate();
@@ -16,10 +18,14 @@ const LobbyPage: React.FC = () => {
   const [players, setPlayers] = useState<Player[]>([]);
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [isHost, setIsHost] = useState(false);
+  const [myPlayerId, setMyPlayerId] = useState('');
+  const [teamSettings, setTeamSettings] = useState<TeamSettings | null>(null);
   const [sessionLoaded, setSessionLoaded] = useState(false);
   const [sessionCreatedAt, setSessionCreatedAt] = useState<Date>(new Date());
   const [needsGuestName, setNeedsGuestName] = useState(false);
   const [guestNameInput, setGuestNameInput] = useState('');
+  const [guestNameError, setGuestNameError] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
 
   useEffect(() => {
     if (!pin) {
@@ -90,6 +96,19 @@ const LobbyPage: React.FC = () => {
       console.error('[LOBBY] ROOM_ERROR received:', data);
       if (data.error === 'ROOM_NOT_FOUND') {
         navigate(`/error?code=410&message=${encodeURIComponent('This game session has ended or does not exist')}`);
+      } else if (data.error === 'GAME_STARTED') {
+        navigate(`/error?code=410&message=${encodeURIComponent('This game has already started')}`);
+      } else if (data.error === 'BANNED' || data.error === 'ROOM_LOCKED') {
+        navigate(`/error?code=403&message=${encodeURIComponent(data.message)}`);
+      } else if (data.error === 'NOT_AUTHENTICATED') {
+        navigate(`/error?code=401&message=${encodeURIComponent(data.message)}`);
+      } else if (data.error === 'NAME_REJECTED') {
+        // Ask for another nickname and join again with it
+        sessionStorage.removeItem('guestName');
+        setGuestNameError(data.message);
+        setGuestNameInput('');
+        setSessionLoaded(false);
+        setNeedsGuestName(true);
       } else {
         // Ignore ALREADY_JOINED error and allow user to proceed
         // Optionally log or show a non-blocking message
@@ -122,6 +141,32 @@ const LobbyPage: React.FC = () => {
       }
     });
 
+    socket.on('TEAM_SETTINGS', (data: { pin: string; settings: TeamSettings | null }) => {
+      if (data.pin === pin) {
+        setTeamSettings(data.settings);
+      }
+    });
+
+    socket.on('KICKED', (data: { pin: string; banned: boolean }) => {
+      if (data.pin === pin) {
+        const message = data.banned ? 'The host has banned you from this game' : 'The host has removed you from this game';
+        navigate(`/error?code=403&message=${encodeURIComponent(message)}`);
+      }
+    });
+
+    // The server refused a host command, e.g. after signing out in another tab
+    socket.on('COMMAND_REJECTED', (data: CommandRejection) => {
+      if (data.pin === pin) {
+        toast.error(data.message);
+      }
+    });
+
+    socket.on('ROOM_LOCK', (data: { pin: string; locked: boolean }) => {
+      if (data.pin === pin) {
+        setIsLocked(data.locked);
+      }
+    });
+
     socket.on('START_SIGNAL', (data: { pin: string; quiz: Quiz }) => {
       if (data.pin === pin) {
         navigate(`/game/${pin}`);
@@ -146,6 +191,8 @@ const LobbyPage: React.FC = () => {
       setQuiz(session.quiz);
       setSessionCreatedAt(new Date(session.createdAt));
       setIsHost(user?.id === session.hostId);
+      setTeamSettings(session.teamSettings || null);
+      setIsLocked(!!session.isLocked);
 
       // Get player info - use persistent ID from sessionStorage (per-tab)
       const guestName = sessionStorage.getItem('guestName');
@@ -172,6 +219,18 @@ const LobbyPage: React.FC = () => {
         }
       }
 
+      setMyPlayerId(playerId);
+
+      // A game that is already running can only be rejoined by its players
+      if (session.state !== 'LOBBY') {
+        if ((session.players as any[])?.some((p: any) => p.id === playerId)) {
+          navigate(`/game/${pin}`);
+        } else {
+          navigate(`/error?code=410&message=${encodeURIComponent('This game has already started')}`);
+        }
+        return;
+      }
+
       // Join room with validation - wait for room joined confirmation
       // Set up the listener BEFORE emitting JOIN_ROOM
       socket.once('ROOM_JOINED', () => {
@@ -223,9 +282,45 @@ const LobbyPage: React.FC = () => {
 
   const handleStart = () => {
     if (socket && pin && quiz && isHost) {
-      socket.emit('START_SIGNAL', { pin, quiz });
-      socket.disconnect();
-      navigate(`/game/${pin}`);
+      // The server answers with START_SIGNAL, which takes everyone (host included) to the game
+      socket.emit('START_SIGNAL', { pin });
+    }
+  };
+
+  const handleToggleCoHost = (playerId: string) => {
+    if (socket && pin && isHost) {
+      socket.emit('SET_CO_HOST', { pin, playerId });
+    }
+  };
+
+  const handleChangeTeams = (settings: TeamSettings | null, shuffle?: boolean) => {
+    if (socket && pin && isHost) {
+      socket.emit('SET_TEAM_SETTINGS', { pin, settings, shuffle });
+    }
+  };
+
+  const handlePickTeam = (playerId: string, team: number) => {
+    if (socket && pin) {
+      socket.emit('PICK_TEAM', { pin, playerId, team });
+    }
+  };
+
+  const handleKick = (playerId: string) => {
+    if (socket && pin && isHost) {
+      socket.emit('KICK_PLAYER', { pin, playerId });
+    }
+  };
+
+  const handleBan = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!socket || !pin || !isHost) return;
+    if (!confirm(`Ban ${player?.name || 'this player'} from this game? They will not be able to rejoin.`)) return;
+    socket.emit('BAN_PLAYER', { pin, playerId });
+  };
+
+  const handleToggleLock = () => {
+    if (socket && pin && isHost) {
+      socket.emit('SET_ROOM_LOCK', { pin, locked: !isLocked });
     }
   };
 
@@ -237,10 +332,16 @@ const LobbyPage: React.FC = () => {
   };
 
   const handleGuestNameSubmit = () => {
-    if (guestNameInput.trim()) {
-      sessionStorage.setItem('guestName', guestNameInput.trim());
-      setNeedsGuestName(false);
+    if (!guestNameInput.trim()) return;
+    // The server checks again when the player joins, against the names already in the game
+    const nameError = checkNickname(guestNameInput);
+    if (nameError) {
+      setGuestNameError(nameError);
+      return;
     }
+    sessionStorage.setItem('guestName', guestNameInput.trim());
+    setGuestNameError(null);
+    setNeedsGuestName(false);
   };
 
   // Show guest name prompt if needed
@@ -260,12 +361,18 @@ const LobbyPage: React.FC = () => {
             type="text" 
             placeholder="Your Nickname" 
             value={guestNameInput}
-            onChange={(e) => setGuestNameInput(e.target.value)}
-            maxLength={30}
+            onChange={(e) => {
+              setGuestNameInput(e.target.value);
+              setGuestNameError(null);
+            }}
+            maxLength={MAX_NICKNAME_LENGTH}
             className="w-full bg-white/5 border border-white/10 p-5 rounded-2xl text-white font-bold text-xl focus:outline-none focus:border-blue-500 transition-colors"
             autoFocus
             onKeyDown={(e) => e.key === 'Enter' && handleGuestNameSubmit()}
           />
+          {guestNameError && (
+            <p className="text-rose-400 text-sm font-bold text-center">{guestNameError}</p>
+          )}
           <button 
             onClick={handleGuestNameSubmit}
             className="w-full bg-blue-500 hover:bg-blue-400 text-white font-black py-5 rounded-2xl text-xl transition-all shadow-lg shadow-blue-500/20 active:scale-95 disabled:opacity-30"
@@ -293,6 +400,15 @@ const LobbyPage: React.FC = () => {
       isHost={isHost}
       createdAt={sessionCreatedAt}
       onExit={handleExit}
+      onToggleCoHost={handleToggleCoHost}
+      myPlayerId={myPlayerId}
+      teamSettings={teamSettings}
+      onChangeTeams={handleChangeTeams}
+      onPickTeam={handlePickTeam}
+      isLocked={isLocked}
+      onToggleLock={handleToggleLock}
+      onKick={handleKick}
+      onBan={handleBan}
     />
   );
 };
@@ -0,0 +1,8 @@
+import React from 'react';
+import QuizAnalytics from '../components/QuizAnalytics';
+
+const QuizAnalyticsPage: React.FC = () => {
+  return <QuizAnalytics />;
+};
+
+export default QuizAnalyticsPage;
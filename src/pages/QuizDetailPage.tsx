@@ -3,14 +3,15 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import QuizDetail from '../components/QuizDetail';
 import { useUser } from '../context/UserContext';
-import { Quiz } from '../types';
-import { quizAPI, gameAPI } from '../api';
+import { Quiz, ScoringConfig, ShuffleSettings } from '../types';
+import { quizAPI, gameAPI, assignmentAPI } from '../api';
+import { AssignmentSettings } from '../components/AssignQuizForm';
 
 const QuizDetailPage: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useUser();
 
-  const handleStartQuiz = async (quiz: Quiz, solo?: boolean) => {
+  const handleStartQuiz = async (quiz: Quiz, solo?: boolean, scoringConfig?: ScoringConfig, pin?: string, shuffleSettings?: ShuffleSettings) => {
     try {
       if (solo) {
         // Increment play count
@@ -27,18 +28,32 @@ const QuizDetailPage: React.FC = () => {
           return;
         }
         await quizAPI.incrementPlayCount(quiz.id);
-        const response = await gameAPI.create(quiz.id);
+        const response = await gameAPI.create(quiz.id, false, scoringConfig, pin, shuffleSettings);
         navigate(`/lobby/${response.data.session.pin}`);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to start quiz:', error);
+      // e.g. a game is already running under the chosen reserved PIN
+      if (error.response?.status === 409) {
+        alert(error.response.data.error);
+      }
+    }
+  };
+
+  const handleAssignQuiz = async (quiz: Quiz, settings: AssignmentSettings, scoringConfig?: ScoringConfig) => {
+    try {
+      const response = await assignmentAPI.create({ quizId: quiz.id, ...settings, scoringConfig });
+      navigate(`/assignment/${response.data.assignment.id}`);
+    } catch (error: any) {
+      console.error('Failed to create assignment:', error);
+      alert(error.response?.data?.error || 'Failed to create assignment');
     }
   };
 
   // For SEO, ideally fetch quiz title/desc here, but fallback to generic
   return (
     <>
-      <QuizDetail onStartQuiz={handleStartQuiz} user={user} />
+      <QuizDetail onStartQuiz={handleStartQuiz} onAssignQuiz={handleAssignQuiz} user={user} />
     </>
   );
 }
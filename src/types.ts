@@ -1,3 +1,4 @@
+import type { ResponseSummary } from './utils/responses.js';
 
 export enum QuestionType {
   MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
@@ -23,6 +24,14 @@ export enum PointType {
   NONE = 'NONE'
 }
 
+// How a PUZZLE answer that is partly in order is scored
+export enum PuzzleScoring {
+  STRICT = 'STRICT',           // all or nothing
+  POSITION = 'POSITION',       // share of items in their correct position
+  SUBSEQUENCE = 'SUBSEQUENCE', // longest run of items in the correct relative order
+  KENDALL_TAU = 'KENDALL_TAU'  // share of item pairs in the correct relative order
+}
+
 export type QuizGenre = 
   | 'All' 
   | 'Science' 
@@ -53,6 +62,7 @@ export interface Question {
   correctTexts?: string[];
   // Specialized fields
   correctSequence?: string[]; // For PUZZLE
+  puzzleScoring?: PuzzleScoring; // For PUZZLE, strict if unset
   correctValue?: number;     // For SLIDER
   minValue?: number;         // For SLIDER/SCALE
   maxValue?: number;         // For SLIDER/SCALE
@@ -61,10 +71,73 @@ export interface Question {
   audioUrl?: string;         // For AUDIO_QUIZ
   correctRegions?: { x: number, y: number, radius: number }[]; // For PIN_ANSWER
   targetLatLng?: { lat: number, lng: number }; // For DROP_PIN
+  backText?: string;         // For FLASHCARD
   isCaseSensitive?: boolean;
+  matchSettings?: InputMatchSettings; // For INPUT
+  multiSelect?: boolean;     // Set on player views, where correctIndices is hidden
+  bankQuestionId?: string | null; // The question bank entry it was inserted from
   timeLimit: number;
 }
 
+// A question in its author's bank. Quiz questions inserted from it stay linked, so edits can be pushed out.
+export interface BankQuestion extends Omit<Question, 'bankQuestionId'> {
+  tags: string[];
+  usageCount: number;        // quiz questions linked to it
+  updatedAt: string;
+}
+
+// How typed answers are compared with the accepted ones. Case sensitivity is the question's isCaseSensitive flag.
+export interface InputMatchSettings {
+  foldAccents: boolean;      // "café" matches "cafe"
+  stripPunctuation: boolean;
+  ignoreArticles: boolean;   // a leading "a", "an" or "the" is ignored
+  maxTypos: number;          // Levenshtein distance still accepted
+  numberWords: boolean;      // "7" matches "seven"
+  allowRegex: boolean;       // accepted answers written as /pattern/flags are regular expressions
+}
+
+// How answers turn into points. Stored on the quiz; the host can override it for a single game.
+export interface ScoringConfig {
+  basePoints: number;        // points for a fully correct answer to a NORMAL question
+  speedWeight: number;       // share of those points (0-1) that depends on how fast the answer came
+  accuracyOnly: boolean;     // no speed bonus at all, only accuracy counts
+  streakBonuses: StreakBonus[];
+  wrongPenalty: number;      // points taken away for a wrong answer
+}
+
+// Bonus points for each correct answer once a streak reaches the given length
+export interface StreakBonus {
+  streak: number;
+  bonus: number;
+}
+
+// Where a player's points came from
+export interface ScoreBreakdown {
+  base: number;
+  speed: number;
+  streak: number;
+  penalty: number;
+}
+
+// Team play in a live game. Without it every player plays for themselves.
+export interface TeamSettings {
+  count: number;             // number of teams, 2 to 8
+  assignment: 'AUTO' | 'PICK'; // the server balances the teams, or players choose their own
+  scoring: 'SUM' | 'AVERAGE' | 'BEST';
+  bestOf: number;            // with BEST scoring, how many top scores count towards the team
+}
+
+// How a quiz's questions are picked and ordered for each game. Stored on the quiz; the host can
+// override it for a single game. Options are shuffled separately for every player.
+export interface ShuffleSettings {
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  poolSize: number | null;   // questions drawn at random for each game, every question when null
+}
+
+// Answer fields that are withheld from players until the question is revealed
+export type AnswerKey = Pick<Question, 'correctIndices' | 'correctTexts' | 'correctSequence' | 'correctValue' | 'correctRegions' | 'targetLatLng'>;
+
 export interface Quiz {
   id: string;
   userId: string;
@@ -75,8 +148,67 @@ export interface Quiz {
   description: string;
   questions: Question[];
   visibility?: 'DRAFT' | 'PRIVATE' | 'PUBLIC';
+  scoringConfig?: ScoringConfig | null;
+  shuffleSettings?: ShuffleSettings | null;
   createdAt: number;
   playCount: number;
+  role?: QuizRole;  // what the signed-in user may do with it, when they own it or collaborate on it
+  version?: number; // latest version in its history when loaded, sent back on save to merge concurrent edits
+}
+
+// Collaborators are invited as EDITOR (edit questions, host, view analytics) or VIEWER (host and view analytics)
+export type CollaboratorRole = 'EDITOR' | 'VIEWER';
+export type QuizRole = 'OWNER' | CollaboratorRole;
+
+export interface QuizCollaborator {
+  userId: string;
+  username: string;
+  profilePicture?: string | null;
+  role: CollaboratorRole;
+  accepted: boolean;
+  createdAt: string;
+}
+
+// Someone with the quiz open in the editor, and the question they hold the lock on
+export interface EditorPresence {
+  socketId: string;
+  userId: string;
+  username: string;
+  profilePicture?: string | null;
+  questionId: string | null;
+}
+
+// Why a revision was written: BASELINE keeps a quiz as it was before its history started
+export type RevisionSource = 'BASELINE' | 'CREATE' | 'SAVE' | 'RESTORE' | 'BANK_PUSH';
+
+// One saved version of a quiz in its history
+export interface QuizRevision {
+  id: string;
+  version: number;
+  source: RevisionSource;
+  note: string | null;
+  restoredFrom: number | null;
+  authorName: string | null;
+  title: string;
+  questionCount: number;
+  createdAt: string;
+}
+
+export type QuestionChange = 'ADDED' | 'REMOVED' | 'CHANGED' | 'MOVED' | 'UNCHANGED';
+
+// How one question differs between two revisions. Indices are its positions in each, null where it is missing.
+export interface QuestionDiff {
+  change: QuestionChange;
+  fromIndex: number | null;
+  toIndex: number | null;
+  from: Question | null;
+  to: Question | null;
+  fields: string[];          // the question fields that differ, for CHANGED questions
+}
+
+export interface QuizDiff {
+  fields: string[];          // quiz settings that differ: title, genre, description, visibility, scoringConfig, shuffleSettings
+  questions: QuestionDiff[];
 }
 
 export type AdminRole = 'USER' | 'MODERATOR' | 'ADMIN';
@@ -114,6 +246,93 @@ export interface Player {
   connected?: boolean;
   socketId?: string;
   anonymousMode?: boolean;
+  correctAnswers?: number;
+  isCoHost?: boolean; // Takes over if the host drops out mid-game
+  connectedSince?: number | null;
+  scoreBreakdown?: ScoreBreakdown;
+  team?: number | null; // index of the player's team, in team games
+}
+
+// Per-question statistics from recorded games, for quiz authors
+export interface QuestionAnalytics {
+  questionId: string;
+  index: number;
+  text: string;
+  type: string;
+  options: string[];
+  reached: number;
+  answered: number;
+  correctRate: number;
+  averageAccuracy: number;
+  averageResponseMs: number | null;
+  optionCounts: number[];
+  topAnswers: { answer: string; count: number }[];
+  quitRate: number;
+}
+
+export interface QuizAnalytics {
+  quizId: string;
+  gamesPlayed: number;
+  playersTracked: number;
+  questions: QuestionAnalytics[];
+}
+
+// One archived live game, from the point of view of a single player
+export interface GameHistoryEntry {
+  id: string;
+  quizId: string | null;
+  quizTitle: string;
+  playedAt: string;
+  rank: number;
+  playerCount: number;
+  score: number;
+  correctAnswers: number;
+  questionCount: number;
+  answers: {
+    questionIndex: number;
+    questionText: string;
+    answer: any;
+    accuracy: number;
+    points: number;
+  }[];
+}
+
+// A quiz set as self-paced homework, which students play on their own while it is open
+export interface Assignment {
+  id: string;
+  quizId?: string; // for the teacher only
+  quizTitle: string;
+  title: string;
+  questionCount: number;
+  opensAt: string;
+  closesAt: string;
+  maxAttempts: number | null; // attempts each student may start, unlimited when null
+  isOwner: boolean;
+  attemptCount?: number; // attempts by all students, for the teacher
+}
+
+// A student's run through an assignment
+export interface AssignmentAttempt {
+  id: string;
+  currentIndex: number; // the question being answered, questionCount once finished
+  questionCount: number;
+  score: number;
+  streak: number;
+  correctAnswers: number;
+  scoreBreakdown: ScoreBreakdown;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+// A student's best finished attempt in an assignment's results table
+export interface AssignmentResultRow {
+  userId: string;
+  name: string;
+  rank: number;
+  score: number;
+  correctAnswers: number;
+  attempts: number; // finished attempts
+  completedAt: string;
 }
 
 export enum GameState {
@@ -134,3 +353,34 @@ export enum GameState {
 }
 
 export type NetworkRole = 'HOST' | 'CLIENT' | 'SOLO';
+
+// Why the server refused a host-only command sent over the game socket
+export type CommandErrorCode = 'NOT_AUTHENTICATED' | 'NOT_HOST' | 'ROOM_NOT_FOUND';
+
+export interface CommandRejection {
+  pin: string;
+  command: string; // the socket event that was refused
+  error: CommandErrorCode;
+  message: string;
+}
+
+// A live game's phase and clock, as broadcast by the server in STATE_SYNC
+export interface LiveGameState {
+  pin: string;
+  state: GameState;
+  index: number;
+  deadline: number | null; // server time the phase ends, null if it waits for the host
+  paused?: boolean;
+  serverTime: number;
+}
+
+// The full state of a running game, sent to a client when it (re)joins
+export interface GameSnapshot extends LiveGameState {
+  remainingMs: number | null; // time left in the phase, also while paused
+  answers: Record<string, any>; // playerId -> answer for the current question: the player's own, and everyone's once revealed if they are shown
+  answeredIds: string[]; // players who have answered the current question
+  hasAnswered: boolean; // whether the joining player has answered the current question
+  players: Player[];
+  results: ResponseSummary | null;
+  reveal: { index: number; answer: AnswerKey } | null; // the answer key, once the question is revealed
+}
@@ -0,0 +1,154 @@
+/**
+ * Answer Matching
+ * Compares typed INPUT answers with a question's accepted answers using its match settings.
+ * Shared by the server (live grading) and the client (solo play and the editor).
+ */
+
+import { InputMatchSettings } from '../types.js';
+
+// Used for questions saved before match settings existed
+export const DEFAULT_MATCH_SETTINGS: InputMatchSettings = {
+  foldAccents: true,
+  stripPunctuation: true,
+  ignoreArticles: true,
+  maxTypos: 1,
+  numberWords: true,
+  allowRegex: false
+};
+
+export const MAX_TYPOS = 3;
+// Answers shorter than this must match exactly, so "cat" does not accept "car"
+const MIN_LENGTH_FOR_TYPOS = 4;
+// Typed answers are capped before matching so author regexes run on bounded input
+const MAX_INPUT_LENGTH = 150;
+
+const REGEX_ANSWER = /^\/(.+)\/([a-z]*)$/s;
+
+const UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000 };
+
+const numberWordValue = (word: string): number | null => {
+  const unit = UNITS.indexOf(word);
+  if (unit >= 0) return unit;
+  const ten = TENS.indexOf(word);
+  return ten >= 2 ? ten * 10 : null;
+};
+
+const isNumberWord = (word: string) => numberWordValue(word) !== null || word in SCALES;
+
+// Replace each run of number words ("twenty one", "two hundred and five") with its digits
+const numberWordsToDigits = (text: string): string => {
+  const words = text.split(' ');
+  const out: string[] = [];
+  let i = 0;
+  while (i < words.length) {
+    if (!isNumberWord(words[i].toLowerCase())) {
+      out.push(words[i++]);
+      continue;
+    }
+    let total = 0;
+    let current = 0;
+    while (i < words.length) {
+      const word = words[i].toLowerCase();
+      // "and" only joins number words ("one hundred and five")
+      if (word === 'and' && current > 0 && i + 1 < words.length && numberWordValue(words[i + 1].toLowerCase()) !== null) {
+        i++;
+        continue;
+      }
+      const value = numberWordValue(word);
+      if (value !== null) {
+        current += value;
+      } else if (word in SCALES) {
+        const scale = SCALES[word];
+        if (scale === 100) {
+          current = (current || 1) * 100;
+        } else {
+          total += (current || 1) * scale;
+          current = 0;
+        }
+      } else {
+        break;
+      }
+      i++;
+    }
+    out.push(String(total + current));
+  }
+  return out.join(' ');
+};
+
+export const normalizeAnswer = (text: string, settings: InputMatchSettings, caseSensitive: boolean): string => {
+  let result = text.normalize('NFKC').trim().replace(/\s+/g, ' ');
+  if (!caseSensitive) result = result.toLowerCase();
+  if (settings.foldAccents) result = result.normalize('NFD').replace(/\p{M}/gu, '');
+  if (settings.stripPunctuation) result = result.replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+  if (settings.numberWords) result = numberWordsToDigits(result);
+  if (settings.ignoreArticles) result = result.replace(/^(a|an|the)\s+/i, '');
+  return result;
+};
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The pattern of an accepted answer written as /pattern/flags, if regex answers are allowed
+export const parseRegexAnswer = (accepted: string, caseSensitive: boolean): RegExp | null => {
+  const match = REGEX_ANSWER.exec(accepted.trim());
+  if (!match) return null;
+  const flags = new Set(match[2].replace(/[gy]/g, ''));
+  if (!caseSensitive) flags.add('i');
+  return new RegExp(match[1], [...flags].join(''));
+};
+
+export const isRegexAnswer = (accepted: string): boolean => REGEX_ANSWER.test(accepted.trim());
+
+export const matchesAcceptedAnswer = (
+  input: string,
+  accepted: string,
+  settings: InputMatchSettings,
+  caseSensitive: boolean
+): boolean => {
+  const typed = input.slice(0, MAX_INPUT_LENGTH);
+
+  if (settings.allowRegex && isRegexAnswer(accepted)) {
+    try {
+      return parseRegexAnswer(accepted, caseSensitive)!.test(typed.trim());
+    } catch {
+      return false;
+    }
+  }
+
+  const expected = normalizeAnswer(accepted, settings, caseSensitive);
+  const actual = normalizeAnswer(typed, settings, caseSensitive);
+  if (!expected) return false;
+  if (expected === actual) return true;
+  // A wrong case would otherwise pass as a typo, so case-sensitive answers allow none
+  if (caseSensitive || settings.maxTypos <= 0 || expected.length < MIN_LENGTH_FOR_TYPOS) return false;
+  // Cheap length check before the full distance
+  if (Math.abs(expected.length - actual.length) > settings.maxTypos) return false;
+  return levenshtein(expected, actual) <= settings.maxTypos;
+};
+
+export const matchesAnyAnswer = (
+  input: string,
+  acceptedAnswers: string[],
+  settings: InputMatchSettings | null | undefined,
+  caseSensitive: boolean
+): boolean => {
+  const resolved = { ...DEFAULT_MATCH_SETTINGS, ...(settings || {}) };
+  return acceptedAnswers.some(accepted => matchesAcceptedAnswer(input, accepted, resolved, caseSensitive));
+};
@@ -0,0 +1,39 @@
+/**
+ * Map and image pin helpers
+ * DROP_PIN questions are played on an equirectangular world map, so a point on the
+ * image maps linearly to latitude and longitude. Image positions are percentages.
+ */
+
+import type { MouseEvent } from 'react';
+
+export const DEFAULT_WORLD_MAP_URL = 'https://upload.wikimedia.org/wikipedia/commons/8/83/Equirectangular_projection_SW.jpg';
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Where a click landed on an element, as percentages of its width and height
+export const getImagePoint = (e: MouseEvent<HTMLElement>): ImagePoint => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const clamp = (v: number) => Math.min(100, Math.max(0, v));
+  return {
+    x: clamp(((e.clientX - rect.left) / rect.width) * 100),
+    y: clamp(((e.clientY - rect.top) / rect.height) * 100)
+  };
+};
+
+export const pointToLatLng = (point: ImagePoint): LatLng => ({
+  lat: Math.round((90 - point.y * 1.8) * 1000) / 1000,
+  lng: Math.round((point.x * 3.6 - 180) * 1000) / 1000
+});
+
+export const latLngToPoint = (latLng: LatLng): ImagePoint => ({
+  x: (latLng.lng + 180) / 3.6,
+  y: (90 - latLng.lat) / 1.8
+});
@@ -0,0 +1,71 @@
+/**
+ * Nickname Filter
+ * Checks guest nicknames for profanity and impersonation. The server enforces it when players join,
+ * with its configured word list; the client runs the default checks to give feedback early.
+ */
+
+export interface NicknameFilterOptions {
+  profanity: boolean;
+  impersonation: boolean;
+  blockedWords: string[];  // extra words, on top of the built-in ones
+  takenNames: string[];    // the host's and other players' names, which guests cannot copy
+}
+
+export const DEFAULT_NICKNAME_FILTER: NicknameFilterOptions = {
+  profanity: true,
+  impersonation: true,
+  blockedWords: [],
+  takenNames: []
+};
+
+export const MAX_NICKNAME_LENGTH = 30;
+
+// Blocked anywhere in a name, even inside other words
+const BLOCKED_FRAGMENTS = ['fuck', 'shit', 'cunt', 'nigg', 'fag', 'wank', 'twat'];
+// Blocked as whole words only, since they also appear inside ordinary names ("Dickens", "Cockburn")
+const BLOCKED_WORDS = ['ass', 'asshole', 'bitch', 'bastard', 'cock', 'dick', 'dildo', 'penis', 'piss', 'porn', 'pussy', 'retard', 'slut', 'tits', 'whore'];
+// Names that pass for the host or the site's staff
+const RESERVED_NAMES = ['host', 'admin', 'administrator', 'moderator', 'mod', 'staff', 'system', 'server', 'quizly', 'teacher'];
+const RESERVED_FRAGMENTS = ['admin', 'moderator', 'official'];
+
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+// Lowercase, undo common letter substitutions and drop accents, so "H0$T" and "Hóst" read as "host"
+const foldName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[0-9@$!]/g, c => LOOKALIKES[c] ?? c);
+
+const wordsOf = (name: string): string[] => foldName(name).split(/[^a-z]+/).filter(Boolean);
+
+const squash = (name: string): string => foldName(name).replace(/[^a-z]/g, '');
+
+// Returns why a nickname is not allowed, or null if it can be used
+export const checkNickname = (name: string, options: NicknameFilterOptions = DEFAULT_NICKNAME_FILTER): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Please enter a nickname';
+  if (trimmed.length > MAX_NICKNAME_LENGTH) return `Nicknames can be at most ${MAX_NICKNAME_LENGTH} characters`;
+
+  const words = wordsOf(trimmed);
+  const squashed = squash(trimmed);
+
+  if (options.profanity) {
+    const blockedWords = [...BLOCKED_WORDS, ...options.blockedWords.map(squash).filter(Boolean)];
+    if (BLOCKED_FRAGMENTS.some(f => squashed.includes(f)) || words.some(w => blockedWords.includes(w)) || blockedWords.includes(squashed)) {
+      return 'That nickname is not allowed';
+    }
+  }
+
+  if (options.impersonation) {
+    if (RESERVED_NAMES.includes(squashed) || RESERVED_FRAGMENTS.some(f => squashed.includes(f))) {
+      return 'That nickname is reserved';
+    }
+    if (options.takenNames.some(taken => squash(taken) === squashed)) {
+      return 'Someone in this game already has that nickname';
+    }
+  }
+
+  return null;
+};
@@ -7,6 +7,7 @@ export const downloadQuiz = (quiz: Quiz): void => {
     genre: quiz.genre,
     description: quiz.description,
     visibility: quiz.visibility,
+    scoringConfig: quiz.scoringConfig,
     questions: quiz.questions
   };
   const jsonString = JSON.stringify(quizToExport, null, 2);
@@ -161,7 +162,7 @@ export const validateQuizJSON = (data: any): { valid: boolean; quiz?: Quiz; erro
       }
 
       // Validate question type
-      const allValidTypes = ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'PUZZLE', 'POLL', 'INPUT', 'WORD_CLOUD', 'OPEN_ENDED', 'AUDIO_QUIZ', 'IMAGE_QUIZ', 'SLIDER', 'SCALE', 'FLASHCARD', 'MATCHING'];
+      const allValidTypes = ['MULTIPLE_CHOICE', 'TRUE_FALSE', 'PUZZLE', 'POLL', 'INPUT', 'WORD_CLOUD', 'OPEN_ENDED', 'AUDIO_QUIZ', 'IMAGE_QUIZ', 'SLIDER', 'SCALE', 'DROP_PIN', 'PIN_ANSWER', 'FLASHCARD', 'MATCHING'];
       if (q.type && !allValidTypes.includes(q.type)) {
         return { valid: false, error: `Question ${i + 1}: Invalid question type: ${q.type}` };
       }
@@ -191,6 +192,7 @@ const normalizeQuiz = (quiz: any): Quiz => {
     genre: quiz.genre,
     description: quiz.description || '',
     visibility: quiz.visibility || 'DRAFT',
+    scoringConfig: quiz.scoringConfig || null,
     // Runtime fields will be generated by server
     id: '',
     userId: '',
@@ -206,6 +208,7 @@ const normalizeQuiz = (quiz: any): Quiz => {
       correctIndices: q.correctIndices || (q.correctAnswer !== undefined ? [q.correctAnswer] : []),
       correctTexts: q.correctTexts,
       correctSequence: q.correctSequence,
+      puzzleScoring: q.puzzleScoring,
       correctValue: q.correctValue,
       minValue: q.minValue,
       maxValue: q.maxValue,
@@ -214,7 +217,9 @@ const normalizeQuiz = (quiz: any): Quiz => {
       audioUrl: q.audioUrl,
       correctRegions: q.correctRegions,
       targetLatLng: q.targetLatLng,
+      backText: q.backText,
       isCaseSensitive: q.isCaseSensitive || false,
+      matchSettings: q.matchSettings,
       timeLimit: q.timeLimit || 30,
     }))
   };
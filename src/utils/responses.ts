@@ -0,0 +1,63 @@
+/**
+ * Response Summaries
+ * Aggregated answers for opinion questions (polls and word clouds), shared by the server
+ * (streamed live and archived with the game result) and the client (solo play).
+ */
+
+import { Question, QuestionType } from '../types.js';
+
+export interface ResponseSummary {
+  type: QuestionType.POLL | QuestionType.WORD_CLOUD;
+  total: number;
+  optionCounts: number[]; // votes per option, for polls
+  words: { word: string; count: number }[]; // most common first, for word clouds
+}
+
+// How many distinct words a word cloud keeps
+const MAX_CLOUD_WORDS = 30;
+
+export const hasResponseSummary = (q: Pick<Question, 'type'>): boolean =>
+  q.type === QuestionType.POLL || q.type === QuestionType.WORD_CLOUD;
+
+// Word cloud entries count as the same word regardless of case, spacing and surrounding punctuation
+export const normalizeCloudWord = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const summarizeResponses = (q: Pick<Question, 'type' | 'options'>, answers: any[]): ResponseSummary | null => {
+  if (q.type === QuestionType.POLL) {
+    const optionCounts = new Array((q.options || []).length).fill(0) as number[];
+    answers.forEach(a => {
+      if (typeof a === 'number' && a >= 0 && a < optionCounts.length) optionCounts[a]++;
+    });
+    return {
+      type: QuestionType.POLL,
+      total: optionCounts.reduce((sum, c) => sum + c, 0),
+      optionCounts,
+      words: []
+    };
+  }
+
+  if (q.type === QuestionType.WORD_CLOUD) {
+    const counts = new Map<string, number>();
+    answers.forEach(a => {
+      const word = typeof a === 'string' ? normalizeCloudWord(a) : '';
+      if (word) counts.set(word, (counts.get(word) || 0) + 1);
+    });
+    return {
+      type: QuestionType.WORD_CLOUD,
+      total: [...counts.values()].reduce((sum, c) => sum + c, 0),
+      optionCounts: [],
+      words: [...counts.entries()]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .slice(0, MAX_CLOUD_WORDS)
+        .map(([word, count]) => ({ word, count }))
+    };
+  }
+
+  return null;
+};
@@ -0,0 +1,348 @@
+/**
+ * Scoring Utilities
+ * Shared by the server (authoritative grading of live games) and the client (solo play).
+ * Formula: points = accuracy * (max * (1 - speedWeight) + max * speedWeight * timeLeft / timeLimit),
+ * plus any streak bonus, or minus the wrong-answer penalty
+ */
+
+import { Question, QuestionType, PointType, PuzzleScoring, ScoringConfig, ScoreBreakdown } from '../types.js';
+import { matchesAnyAnswer } from './answerMatching.js';
+
+// The classic rules: 1000 points, 30% of them for speed, no streak bonus or penalty
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  basePoints: 1000,
+  speedWeight: 0.3,
+  accuracyOnly: false,
+  streakBonuses: [],
+  wrongPenalty: 0
+};
+
+// Fill in whatever a stored or partial config leaves out. The first config given wins,
+// so a game's override can be passed ahead of the quiz's own rules.
+export const resolveScoringConfig = (...configs: (Partial<ScoringConfig> | null | undefined)[]): ScoringConfig => {
+  const config = configs.find(c => c) || {};
+  return {
+    ...DEFAULT_SCORING_CONFIG,
+    ...config,
+    streakBonuses: [...(config.streakBonuses || [])].sort((a, b) => a.streak - b.streak)
+  };
+};
+
+export const getMaxPoints = (pointType: PointType | string, basePoints = DEFAULT_SCORING_CONFIG.basePoints): number => {
+  if (pointType === PointType.HALF) return basePoints / 2;
+  if (pointType === PointType.DOUBLE) return basePoints * 2;
+  if (pointType === PointType.NONE) return 0;
+  return basePoints;
+};
+
+// Bonus for a correct answer that brings the streak to the given length: the highest tier reached
+export const getStreakBonus = (streak: number, config: ScoringConfig): number =>
+  config.streakBonuses.reduce((bonus, tier) => (streak >= tier.streak ? tier.bonus : bonus), 0);
+
+export const emptyBreakdown = (): ScoreBreakdown => ({ base: 0, speed: 0, streak: 0, penalty: 0 });
+
+// Flashcards are rated by the player after flipping the card
+export type FlashcardRating = 'KNEW' | 'UNSURE' | 'MISSED';
+const FLASHCARD_RATINGS: Record<FlashcardRating, number> = { KNEW: 1, UNSURE: 0.5, MISSED: 0 };
+
+// Where each submitted puzzle item belongs in the correct sequence, or null if the answer
+// is not a reordering of exactly the puzzle's items
+const puzzlePositions = (correctSequence: string[], ans: any): number[] | null => {
+  if (!Array.isArray(ans) || ans.length !== correctSequence.length) return null;
+  const remaining: (string | null)[] = correctSequence.map(item => String(item).trim());
+  const positions: number[] = [];
+  for (const item of ans) {
+    // Repeated items are matched to their earliest unused position
+    const position = remaining.indexOf(String(item).trim());
+    if (position < 0) return null;
+    remaining[position] = null;
+    positions.push(position);
+  }
+  return positions;
+};
+
+// Length of the longest run of items that are in the right relative order
+const longestIncreasingRun = (positions: number[]): number => {
+  const tails: number[] = [];
+  for (const p of positions) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tails[mid] < p) lo = mid + 1; else hi = mid;
+    }
+    tails[lo] = p;
+  }
+  return tails.length;
+};
+
+const gradePuzzle = (q: Question, ans: any): number => {
+  const positions = puzzlePositions(q.correctSequence || [], ans);
+  if (!positions || positions.length === 0) return 0;
+  const n = positions.length;
+  const inPlace = positions.filter((p, i) => p === i).length;
+
+  switch (q.puzzleScoring) {
+    case PuzzleScoring.POSITION:
+      return inPlace / n;
+    case PuzzleScoring.SUBSEQUENCE:
+      return longestIncreasingRun(positions) / n;
+    case PuzzleScoring.KENDALL_TAU: {
+      if (n < 2) return inPlace / n;
+      let ordered = 0;
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (positions[i] < positions[j]) ordered++;
+        }
+      }
+      return ordered / (n * (n - 1) / 2);
+    }
+    default:
+      return inPlace === n ? 1 : 0;
+  }
+};
+
+// For each submitted puzzle item, whether it sits in its correct position
+export const puzzleItemsInPlace = (correctSequence: string[], ans: any): boolean[] => {
+  const positions = puzzlePositions(correctSequence, ans);
+  if (positions) return positions.map((p, i) => p === i);
+  return Array.isArray(ans) ? ans.map((item, i) => String(item).trim() === String(correctSequence[i] ?? '').trim()) : [];
+};
+
+// Slider answers lose all credit once they are this share of the slider's range away from the target
+const SLIDER_FALLOFF = 0.2;
+// Map pins within the first distance score full credit, and nothing beyond the second
+const PIN_FULL_CREDIT_KM = 50;
+const PIN_ZERO_CREDIT_KM = 2000;
+const EARTH_RADIUS_KM = 6371;
+
+const toNumber = (value: any): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+// Great-circle distance between two points in kilometres
+export const haversineKm = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Full credit within half a step of the target, then linear falloff
+const gradeSlider = (q: Question, ans: any): number => {
+  const value = toNumber(ans);
+  if (value === null || typeof q.correctValue !== 'number') return 0;
+  const min = q.minValue ?? 0;
+  const max = q.maxValue ?? 100;
+  const range = Math.max(max - min, Number.EPSILON);
+  const diff = Math.abs(value - q.correctValue);
+  if (diff <= (q.stepValue || 0) / 2) return 1;
+  return Math.max(0, 1 - diff / (range * SLIDER_FALLOFF));
+};
+
+// Scales are opinion questions unless the author sets a correct value, graded over the whole range
+const gradeScale = (q: Question, ans: any): number => {
+  const value = toNumber(ans);
+  if (value === null || typeof q.correctValue !== 'number') return 0;
+  const range = Math.max((q.maxValue ?? 5) - (q.minValue ?? 1), Number.EPSILON);
+  return Math.max(0, 1 - Math.abs(value - q.correctValue) / range);
+};
+
+const gradeDropPin = (q: Question, ans: any): number => {
+  const lat = toNumber(ans?.lat);
+  const lng = toNumber(ans?.lng);
+  if (lat === null || lng === null || !q.targetLatLng) return 0;
+  const km = haversineKm({ lat, lng }, q.targetLatLng);
+  if (km <= PIN_FULL_CREDIT_KM) return 1;
+  return Math.max(0, 1 - (km - PIN_FULL_CREDIT_KM) / (PIN_ZERO_CREDIT_KM - PIN_FULL_CREDIT_KM));
+};
+
+// Image pins are percentages of the image size. A pin inside any region is fully correct;
+// a near miss keeps partial credit until it is a full radius outside the closest region.
+const gradePinAnswer = (q: Question, ans: any): number => {
+  const x = toNumber(ans?.x);
+  const y = toNumber(ans?.y);
+  if (x === null || y === null) return 0;
+  return (q.correctRegions || []).reduce((best, region) => {
+    const distance = Math.hypot(x - region.x, y - region.y);
+    if (distance <= region.radius) return 1;
+    return Math.max(best, region.radius > 0 ? 1 - (distance - region.radius) / region.radius : 0);
+  }, 0);
+};
+
+// Accuracy of a single answer, from 0 (wrong) to 1 (fully correct)
+export const gradeAnswer = (q: Question, ans: any): number => {
+  if (ans === undefined || ans === null) return 0;
+  if (q.pointType === PointType.NONE) return 0;
+
+  if (q.type === QuestionType.PUZZLE) return gradePuzzle(q, ans);
+
+  if (q.type === QuestionType.INPUT) {
+    return matchesAnyAnswer(String(ans), q.correctTexts || [], q.matchSettings, !!q.isCaseSensitive) ? 1 : 0;
+  }
+
+  // Open-ended answers score nothing until the host marks them
+  if (q.type === QuestionType.OPEN_ENDED) return 0;
+  if (q.type === QuestionType.FLASHCARD) return FLASHCARD_RATINGS[ans as FlashcardRating] ?? 0;
+
+  if (q.type === QuestionType.SLIDER) return gradeSlider(q, ans);
+  if (q.type === QuestionType.SCALE) return gradeScale(q, ans);
+  if (q.type === QuestionType.DROP_PIN) return gradeDropPin(q, ans);
+  if (q.type === QuestionType.PIN_ANSWER) return gradePinAnswer(q, ans);
+
+  if (q.type === QuestionType.MULTIPLE_CHOICE && q.correctIndices && q.correctIndices.length > 1) {
+    const userIndices: any[] = Array.isArray(ans) ? ans : [ans];
+    const correctOnes = q.correctIndices;
+    const correctCount = userIndices.filter(i => correctOnes.includes(i)).length;
+    const wrongSelected = userIndices.some(i => !correctOnes.includes(i));
+    return wrongSelected ? 0 : correctCount / correctOnes.length;
+  }
+
+  return (q.correctIndices || []).includes(ans) ? 1 : 0;
+};
+
+// Opinion questions, unmarked open-ended answers and questions worth no points are never right or wrong:
+// they keep the streak as it is and are not penalised
+export const isGradedQuestion = (q: Question): boolean => {
+  if (q.pointType === PointType.NONE) return false;
+  if (q.type === QuestionType.POLL || q.type === QuestionType.WORD_CLOUD || q.type === QuestionType.OPEN_ENDED) return false;
+  if (q.type === QuestionType.SCALE) return typeof q.correctValue === 'number';
+  return true;
+};
+
+// The correct answer as text for the reveal screen, or '' when it is shown some other way (pins on an image)
+export const describeCorrectAnswer = (q: Question): string => {
+  switch (q.type) {
+    case QuestionType.INPUT: return (q.correctTexts || []).join(' | ');
+    case QuestionType.TRUE_FALSE: return (q.correctIndices?.[0] ?? 0) === 0 ? 'True' : 'False';
+    case QuestionType.PUZZLE: return (q.correctSequence || []).join(' → ');
+    case QuestionType.SLIDER:
+    case QuestionType.SCALE: return typeof q.correctValue === 'number' ? String(q.correctValue) : '';
+    case QuestionType.DROP_PIN:
+    case QuestionType.PIN_ANSWER: return '';
+    default: return (q.correctIndices || []).map(idx => (q.options || [])[idx]).join(' | ');
+  }
+};
+
+// Accuracy and speed points for an answer, before any streak bonus or penalty
+const splitPoints = (q: Question, accuracy: number, timeLeft: number, config: ScoringConfig) => {
+  const max = getMaxPoints(q.pointType, config.basePoints);
+  const weight = config.accuracyOnly ? 0 : Math.min(1, Math.max(0, config.speedWeight));
+  const limit = q.timeLimit || 20;
+  const speed = Math.min(1, Math.max(0, timeLeft / limit));
+  const base = Math.floor(accuracy * max * (1 - weight));
+  const total = Math.floor(accuracy * (max * (1 - weight) + max * weight * speed));
+  return { base, speed: total - base };
+};
+
+// Points for an answer given its accuracy and the seconds left on the clock when it was submitted
+export const calculatePoints = (q: Question, accuracy: number, timeLeft: number, config = DEFAULT_SCORING_CONFIG): number => {
+  const { base, speed } = splitPoints(q, accuracy, timeLeft, config);
+  return base + speed;
+};
+
+export interface ScoredAnswer {
+  accuracy: number;
+  points: number;
+  graded: boolean; // false when the answer can be neither right nor wrong
+  breakdown: ScoreBreakdown;
+}
+
+// Score an answer on its own. Streak bonuses depend on the player and are added by applyScore.
+export const scoreAnswer = (q: Question, ans: any, timeLeft: number, config = DEFAULT_SCORING_CONFIG): ScoredAnswer => {
+  const accuracy = gradeAnswer(q, ans);
+  const graded = isGradedQuestion(q);
+  const { base, speed } = splitPoints(q, accuracy, timeLeft, config);
+  // Only answers that were given and are completely wrong are penalised. Flashcards are rated by
+  // the players themselves, so owning up to a miss costs nothing.
+  const answered = ans !== undefined && ans !== null;
+  const penalty = graded && answered && accuracy === 0 && q.type !== QuestionType.FLASHCARD ? config.wrongPenalty : 0;
+  return { accuracy, graded, points: base + speed - penalty, breakdown: { base, speed, streak: 0, penalty } };
+};
+
+// Result of an open-ended answer once the host has marked it, with the speed bonus it would have had if graded automatically.
+// A marked answer is right or wrong, so it counts towards the streak like any other.
+export const markedScore = (q: Question, correct: boolean, timeLeft: number, config = DEFAULT_SCORING_CONFIG): ScoredAnswer => {
+  const accuracy = correct ? 1 : 0;
+  const { base, speed } = splitPoints(q, accuracy, timeLeft, config);
+  return { accuracy, graded: true, points: base + speed, breakdown: { base, speed, streak: 0, penalty: 0 } };
+};
+
+// Rebuild the result of an answer that was recorded with only its accuracy and points.
+// Whatever the accuracy does not account for came from a streak bonus or a penalty.
+export const recordedScore = (q: Question, accuracy: number, points: number, timeLeft: number, config = DEFAULT_SCORING_CONFIG): ScoredAnswer => {
+  const { base, speed } = splitPoints(q, accuracy, timeLeft, config);
+  const rest = points - base - speed;
+  return {
+    accuracy,
+    points,
+    graded: isGradedQuestion(q),
+    breakdown: { base, speed, streak: Math.max(0, rest), penalty: Math.max(0, -rest) }
+  };
+};
+
+type ScoredPlayer = { score: number; streak: number; lastAnswerCorrect: boolean; correctAnswers?: number; scoreBreakdown?: ScoreBreakdown };
+
+const addBreakdown = (total: ScoreBreakdown | undefined, delta: ScoreBreakdown, sign = 1): ScoreBreakdown => {
+  const current = total || emptyBreakdown();
+  return {
+    base: current.base + sign * delta.base,
+    speed: current.speed + sign * delta.speed,
+    streak: current.streak + sign * delta.streak,
+    penalty: current.penalty + sign * delta.penalty
+  };
+};
+
+// Add the streak bonus a correct answer earns and keep a penalty from taking the score below zero
+const settleScore = (score: number, streak: number, result: ScoredAnswer, config: ScoringConfig): ScoredAnswer => {
+  const bonus = result.accuracy > 0.9 ? getStreakBonus(streak, config) : 0;
+  const penalty = Math.min(result.breakdown.penalty, Math.max(0, score + result.points + result.breakdown.penalty));
+  const breakdown = { ...result.breakdown, streak: result.breakdown.streak + bonus, penalty };
+  return { ...result, breakdown, points: breakdown.base + breakdown.speed + breakdown.streak - breakdown.penalty };
+};
+
+const nextStreak = (streak: number, result: ScoredAnswer): number => {
+  if (!result.graded) return streak;
+  if (result.accuracy > 0.9) return streak + 1;
+  return result.accuracy > 0 ? streak : 0;
+};
+
+// Apply a scored answer to a player's running totals. The points actually awarded, streak bonus
+// included, are the difference between the returned score and the player's old one.
+export const applyScore = <P extends ScoredPlayer>(player: P, result: ScoredAnswer, config = DEFAULT_SCORING_CONFIG): P => {
+  const streak = nextStreak(player.streak, result);
+  const settled = settleScore(player.score, streak, result, config);
+  return {
+    ...player,
+    score: player.score + settled.points,
+    streak,
+    lastAnswerCorrect: result.accuracy > 0,
+    correctAnswers: (player.correctAnswers || 0) + (result.accuracy > 0.9 ? 1 : 0),
+    scoreBreakdown: addBreakdown(player.scoreBreakdown, settled.breakdown)
+  };
+};
+
+// Swap an answer's earlier result for a new one, e.g. when the host marks an open-ended answer.
+// previous is the result as it was awarded; next is scored afresh and earns any streak bonus now due.
+// The streak is worked out again from the one the player had going into the answer, as applyScore does.
+export const reviseScore = <P extends ScoredPlayer>(
+  player: P,
+  previous: ScoredAnswer,
+  next: ScoredAnswer,
+  streakBefore: number,
+  config = DEFAULT_SCORING_CONFIG
+): P => {
+  const correctDelta = (next.accuracy > 0.9 ? 1 : 0) - (previous.accuracy > 0.9 ? 1 : 0);
+  const streak = nextStreak(streakBefore, next);
+  const settled = settleScore(player.score - previous.points, streak, next, config);
+  return {
+    ...player,
+    score: player.score - previous.points + settled.points,
+    streak,
+    lastAnswerCorrect: next.accuracy > 0,
+    correctAnswers: Math.max(0, (player.correctAnswers || 0) + correctDelta),
+    scoreBreakdown: addBreakdown(addBreakdown(player.scoreBreakdown, previous.breakdown, -1), settled.breakdown)
+  };
+};
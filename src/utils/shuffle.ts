@@ -0,0 +1,102 @@
+/**
+ * Shuffle Utilities
+ * Question pools, question order and per-player option order, shared by the server (live games and
+ * assignments) and the client (solo play). Every shuffle is seeded, so the same game or player always
+ * gets the same order back without it being stored.
+ */
+
+import { Question, QuestionType, ShuffleSettings } from '../types.js';
+import { ResponseSummary } from './responses.js';
+
+export const DEFAULT_SHUFFLE_SETTINGS: ShuffleSettings = {
+  shuffleQuestions: false,
+  shuffleOptions: false,
+  poolSize: null
+};
+
+// Questions answered by picking options, the only ones whose options are shuffled.
+// True/false keeps its order, and puzzles are always handed out shuffled.
+const SHUFFLED_OPTION_TYPES: string[] = [QuestionType.MULTIPLE_CHOICE, QuestionType.POLL, QuestionType.AUDIO_QUIZ, QuestionType.IMAGE_QUIZ];
+
+// The first settings given win, so a game's override can be passed ahead of the quiz's own
+export const resolveShuffleSettings = (...settings: (Partial<ShuffleSettings> | null | undefined)[]): ShuffleSettings => ({
+  ...DEFAULT_SHUFFLE_SETTINGS,
+  ...(settings.find(s => s) || {})
+});
+
+// Deterministic random numbers in [0, 1) for a seed string (FNV-1a hash feeding mulberry32)
+const seededRandom = (seed: string): (() => number) => {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const seededShuffle = <T>(items: T[], seed: string): T[] => {
+  const random = seededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// How many questions a game of a quiz with this many questions plays
+export const getDrawnCount = (total: number, settings: ShuffleSettings): number =>
+  settings.poolSize ? Math.min(settings.poolSize, total) : total;
+
+// The questions a game plays, in the order it plays them. A pool keeps the quiz's order
+// for the questions it draws unless the questions are shuffled as well.
+export function drawQuestions<Q>(questions: Q[], settings: ShuffleSettings, seed: string): Q[] {
+  let drawn = questions;
+  if (getDrawnCount(questions.length, settings) < questions.length) {
+    const picked = new Set(seededShuffle(questions.map((_, i) => i), `${seed}:pool`).slice(0, settings.poolSize!));
+    drawn = questions.filter((_, i) => picked.has(i));
+  }
+  return settings.shuffleQuestions ? seededShuffle(drawn, `${seed}:order`) : drawn;
+}
+
+// The order one player sees a question's options in: position i shows option order[i].
+// Null when the options stay as written.
+export const getOptionOrder = (q: Pick<Question, 'id' | 'type' | 'options'>, settings: ShuffleSettings, seed: string): number[] | null => {
+  if (!settings.shuffleOptions || !SHUFFLED_OPTION_TYPES.includes(q.type) || (q.options?.length || 0) < 2) return null;
+  return seededShuffle(q.options!.map((_, i) => i), `${seed}:${q.id}`);
+};
+
+// An answer given as positions in a player's shuffled options, as indices into the options as written
+export const toCanonicalAnswer = (answer: any, order: number[] | null): any => {
+  if (!order) return answer;
+  const unshuffle = (a: any) => typeof a === 'number' ? order[a] ?? a : a;
+  return Array.isArray(answer) ? answer.map(unshuffle) : unshuffle(answer);
+};
+
+// The reverse: indices into the options as written, as positions in a player's shuffled options
+export const toShuffledAnswer = (answer: any, order: number[] | null): any => {
+  if (!order) return answer;
+  const shuffle = (a: any) => typeof a === 'number' && order.includes(a) ? order.indexOf(a) : a;
+  return Array.isArray(answer) ? answer.map(shuffle) : shuffle(answer);
+};
+
+// A question, player view or answer key with its options put in a player's order
+// and its correct indices moved along with them
+export function applyOptionOrder<T extends { options?: string[]; correctIndices?: number[] }>(value: T, order: number[] | null): T {
+  if (!order) return value;
+  return {
+    ...value,
+    ...(value.options && { options: order.map(i => value.options![i]) }),
+    ...(value.correctIndices && { correctIndices: toShuffledAnswer(value.correctIndices, order) })
+  };
+}
+
+// A poll tally with its counts put in a player's order
+export const shuffleResponseSummary = (summary: ResponseSummary | null, order: number[] | null): ResponseSummary | null =>
+  summary && order && summary.optionCounts.length
+    ? { ...summary, optionCounts: order.map(i => summary.optionCounts[i] ?? 0) }
+    : summary;
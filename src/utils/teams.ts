@@ -0,0 +1,85 @@
+/**
+ * Team Utilities
+ * Team assignment and standings for team games, shared by the server (assigning players in the
+ * lobby) and the client (team leaderboards).
+ */
+
+import { Player, TeamSettings } from '../types.js';
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+
+export const TEAMS = [
+  { name: 'Red', color: '#ef4444' },
+  { name: 'Blue', color: '#3b82f6' },
+  { name: 'Green', color: '#22c55e' },
+  { name: 'Yellow', color: '#eab308' },
+  { name: 'Purple', color: '#a855f7' },
+  { name: 'Orange', color: '#f97316' },
+  { name: 'Pink', color: '#ec4899' },
+  { name: 'Teal', color: '#14b8a6' }
+];
+
+export const DEFAULT_TEAM_SETTINGS: TeamSettings = {
+  count: 2,
+  assignment: 'AUTO',
+  scoring: 'SUM',
+  bestOf: 3
+};
+
+export interface TeamStanding {
+  team: number;
+  name: string;
+  color: string;
+  score: number;
+  members: Player[]; // highest score first
+}
+
+export const getTeamName = (team: number): string => TEAMS[team]?.name ?? `Team ${team + 1}`;
+
+export const getTeamColor = (team: number): string => TEAMS[team]?.color ?? '#64748b';
+
+// Number of players in each team
+export const countTeamMembers = (players: Pick<Player, 'team'>[], count: number): number[] => {
+  const sizes = new Array(count).fill(0) as number[];
+  players.forEach(p => {
+    if (typeof p.team === 'number' && p.team >= 0 && p.team < count) sizes[p.team]++;
+  });
+  return sizes;
+};
+
+// The team a newcomer joins: the smallest one, the first of them on a tie
+export const smallestTeam = (sizes: number[]): number => sizes.indexOf(Math.min(...sizes));
+
+// Deal players out to teams in a random order, so team sizes differ by at most one
+export const balanceTeams = <P extends { id: string }>(players: P[], count: number): Map<string, number> => {
+  const shuffled = [...players];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return new Map(shuffled.map((p, i) => [p.id, i % count]));
+};
+
+const teamScore = (scores: number[], settings: TeamSettings): number => {
+  if (scores.length === 0) return 0;
+  const total = (values: number[]) => values.reduce((sum, s) => sum + s, 0);
+  if (settings.scoring === 'AVERAGE') return Math.round(total(scores) / scores.length);
+  if (settings.scoring === 'BEST') return total(scores.slice(0, Math.max(1, settings.bestOf)));
+  return total(scores);
+};
+
+// Teams with at least one player, best first
+export const getTeamStandings = (players: Player[], settings: TeamSettings): TeamStanding[] =>
+  Array.from({ length: settings.count }, (_, team) => {
+    const members = players.filter(p => p.team === team).sort((a, b) => b.score - a.score);
+    return { team, name: getTeamName(team), color: getTeamColor(team), score: teamScore(members.map(m => m.score), settings), members };
+  })
+    .filter(standing => standing.members.length > 0)
+    .sort((a, b) => b.score - a.score);
+
+export const describeTeamScoring = (settings: TeamSettings): string => {
+  if (settings.scoring === 'AVERAGE') return 'Average score';
+  if (settings.scoring === 'BEST') return `Best ${settings.bestOf} scores`;
+  return 'Total score';
+};
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MATCH_SETTINGS, matchesAnyAnswer } from '../src/utils/answerMatching.js';
+
+const matches = (input: string, accepted: string, settings = {}, caseSensitive = false) =>
+  matchesAnyAnswer(input, [accepted], { ...DEFAULT_MATCH_SETTINGS, ...settings }, caseSensitive);
+
+test('one typo is forgiven by default, two are not', () => {
+  assert.ok(matches('Pariss', 'Paris'));
+  assert.ok(!matches('Parsi', 'Paris'));
+  assert.ok(matches('Parsi', 'Paris', { maxTypos: 2 }));
+  assert.ok(!matches('Pariss', 'Paris', { maxTypos: 0 }));
+});
+
+test('short answers must match exactly', () => {
+  assert.ok(!matches('car', 'cat'));
+  assert.ok(matches('Cat', 'cat'));
+});
+
+test('case-sensitive answers allow no typos', () => {
+  assert.ok(!matches('paris', 'Paris', {}, true));
+  assert.ok(!matches('Pariss', 'Paris', {}, true));
+  assert.ok(matches('Paris', 'Paris', {}, true));
+});
+
+test('accents, punctuation and leading articles are ignored unless turned off', () => {
+  assert.ok(matches('cafe', 'Café'));
+  assert.ok(!matches('cafe', 'Café', { foldAccents: false, maxTypos: 0 }));
+  assert.ok(matches('rock n roll', "Rock 'n' Roll"));
+  assert.ok(matches('Beatles', 'The Beatles'));
+  assert.ok(!matches('Beatles', 'The Beatles', { ignoreArticles: false }));
+});
+
+test('number words match digits', () => {
+  assert.ok(matches('twenty one', '21'));
+  assert.ok(matches('one hundred and five', '105'));
+  assert.ok(matches('two thousand three hundred', '2300'));
+  assert.ok(!matches('twenty one', '21', { numberWords: false }));
+});
+
+test('accepted answers written as /pattern/ are regexes only when allowed', () => {
+  assert.ok(matches('Color', '/^colou?r$/', { allowRegex: true }));
+  assert.ok(!matches('Color', '/^colou?r$/', { allowRegex: true }, true));
+  assert.ok(!matches('Color', '/^colou?r$/'));
+  assert.ok(!matches('anything', '/[unclosed/', { allowRegex: true }));
+});
+
+test('blank accepted answers match nothing', () => {
+  assert.ok(!matches('', ''));
+  assert.ok(!matches('', '  '));
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_NICKNAME_FILTER, checkNickname } from '../src/utils/nicknames.js';
+
+test('ordinary names pass, including ones with blocked words inside them', () => {
+  assert.equal(checkNickname('Dickens'), null);
+  assert.equal(checkNickname('Sam'), null);
+});
+
+test('profanity is caught through substitutions and accents', () => {
+  assert.notEqual(checkNickname('big $hit'), null);
+  assert.notEqual(checkNickname('Dick'), null);
+  assert.equal(checkNickname('Dick', { ...DEFAULT_NICKNAME_FILTER, profanity: false }), null);
+});
+
+test('names that pass for the host or another player are reserved', () => {
+  assert.notEqual(checkNickname('H0$T'), null);
+  assert.notEqual(checkNickname('Hóst'), null);
+  assert.notEqual(checkNickname('sam', { ...DEFAULT_NICKNAME_FILTER, takenNames: ['Sam'] }), null);
+});
+
+test('blank and overlong names are refused', () => {
+  assert.notEqual(checkNickname('   '), null);
+  assert.notEqual(checkNickname('x'.repeat(31)), null);
+});
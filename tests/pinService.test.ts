@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isBadLookingPin, isValidPin } from '../server/services/pinService.js';
+
+test('PINs are six to eight digits', () => {
+  assert.ok(isValidPin('482913'));
+  assert.ok(isValidPin('48291357'));
+  assert.ok(!isValidPin('48291'));
+  assert.ok(!isValidPin('482913579'));
+  assert.ok(!isValidPin('48a913'));
+});
+
+test('PINs that are hard to read out or easy to guess are avoided', () => {
+  for (const pin of ['012345', '477772', '121212', '123123', '912345', '298765', '516667']) {
+    assert.ok(isBadLookingPin(pin), pin);
+  }
+  assert.ok(!isBadLookingPin('482913'));
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deserializeQuestion, serializeQuestion, toPlayerQuestion, toPlayerQuiz } from '../server/services/questionService.js';
+
+const QUIZ_ID = 'QUIZ-SECRET';
+
+// A question as it comes out of the database, with the columns that tie it to its quiz
+const storedRow = (q: any, index: number) => ({
+  id: `q${index}`,
+  quizId: QUIZ_ID,
+  createdAt: new Date(),
+  ...serializeQuestion({ ...q, bankQuestionId: 'BANK-ENTRY' }, index)
+});
+
+const questions = [
+  { type: 'MULTIPLE_CHOICE', text: 'Pick two', options: ['a', 'b', 'c'], correctIndices: [0, 2], timeLimit: 20 },
+  { type: 'INPUT', text: 'Capital of France?', options: [], correctTexts: ['Paris'], timeLimit: 20 },
+  { type: 'PUZZLE', text: 'Order them', options: [], correctSequence: ['1', '2', '3'], timeLimit: 30 },
+  { type: 'SLIDER', text: 'How many?', options: [], correctValue: 7, minValue: 0, maxValue: 10, timeLimit: 20 }
+].map((q, index) => deserializeQuestion(storedRow(q, index)));
+
+test('player questions carry no answer key', () => {
+  for (const q of questions.map(toPlayerQuestion)) {
+    assert.equal(q.correctIndices, undefined);
+    assert.equal(q.correctTexts, undefined);
+    assert.equal(q.correctSequence, undefined);
+    assert.equal(q.correctValue, undefined);
+  }
+});
+
+test('player questions say how many options to pick without saying which', () => {
+  assert.equal(toPlayerQuestion(questions[0]).multiSelect, true);
+  assert.equal(toPlayerQuestion(questions[1]).multiSelect, false);
+});
+
+test('every puzzle item is handed out, in any order', () => {
+  assert.deepEqual([...toPlayerQuestion(questions[2]).options].sort(), ['1', '2', '3']);
+});
+
+test('a player quiz leads nowhere near its quiz or bank entries', () => {
+  const quiz = toPlayerQuiz({ id: QUIZ_ID, title: 'Capitals', userId: 'author', questions });
+  const payload = JSON.stringify(quiz);
+  assert.ok(!payload.includes(QUIZ_ID), payload);
+  assert.ok(!payload.includes('BANK-ENTRY'), payload);
+});
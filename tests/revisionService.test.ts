@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RevisionContent, diffRevisions, mergeConcurrentSave } from '../server/services/revisionService.js';
+import { PointType, Question, QuestionType } from '../src/types.js';
+
+const question = (id: string, text: string, extra: Partial<Question> = {}) => ({
+  id, type: QuestionType.MULTIPLE_CHOICE, pointType: PointType.NORMAL, text, options: ['a', 'b'], correctIndices: [0], timeLimit: 20, ...extra
+}) as Question;
+
+const version = (questions: Question[], settings: Partial<RevisionContent> = {}): RevisionContent => ({
+  title: 'Quiz', genre: 'General', description: '', visibility: 'PRIVATE', scoringConfig: null, shuffleSettings: null, questions, ...settings
+});
+
+const A = question('a', 'First');
+const B = question('b', 'Second');
+const C = question('c', 'Third');
+const D = question('d', 'Fourth');
+const edited = (q: Question) => ({ ...q, text: `${q.text} (edited)` });
+
+const texts = (content: RevisionContent | null) => content?.questions.map(q => q.text);
+
+test('a merged save keeps the latest order and both sides\' edits', () => {
+  const merged = mergeConcurrentSave(version([A, B, C]), version([B, edited(A), C]), version([A, edited(B), C]));
+  assert.deepEqual(texts(merged), [edited(B).text, edited(A).text, C.text]);
+});
+
+test('questions the saver added follow the question before them in their list', () => {
+  const merged = mergeConcurrentSave(version([A, B, C]), version([B, edited(A), C]), version([A, D, B, C]));
+  assert.deepEqual(texts(merged), [B.text, edited(A).text, D.text, C.text]);
+
+  const first = mergeConcurrentSave(version([A, B]), version([B, A]), version([D, A, B]));
+  assert.deepEqual(texts(first), [D.text, B.text, A.text]);
+});
+
+test('a removed question stays if someone else edited it, and comes back if the saver did', () => {
+  assert.deepEqual(texts(mergeConcurrentSave(version([A, B, C]), version([A, edited(B), C]), version([A]))), [A.text, edited(B).text]);
+  assert.deepEqual(texts(mergeConcurrentSave(version([A, B]), version([A]), version([A, edited(B)]))), [A.text, edited(B).text]);
+  assert.deepEqual(texts(mergeConcurrentSave(version([A, B]), version([A]), version([A, B]))), [A.text]);
+});
+
+test('quiz settings take the saver\'s changes over the latest ones', () => {
+  const merged = mergeConcurrentSave(version([A]), version([A], { genre: 'History' }), version([A], { title: 'Renamed' }));
+  assert.equal(merged?.title, 'Renamed');
+  assert.equal(merged?.genre, 'History');
+});
+
+test('saves made from a version without question IDs are not merged', () => {
+  const baseline = version([{ ...A, id: '' }, { ...B, id: '' }]);
+  assert.equal(mergeConcurrentSave(baseline, version([A, B]), version([A, edited(B)])), null);
+});
+
+test('questions in a baseline without IDs are matched by their content', () => {
+  const baseline = version([{ ...A, id: '' }, { ...B, id: '' }]);
+  const diff = diffRevisions(baseline, version([A, { ...B, options: ['a', 'b', 'c'] }, C]));
+  assert.deepEqual(diff.questions.map(d => d.change), ['UNCHANGED', 'CHANGED', 'ADDED']);
+  assert.deepEqual(diff.questions[1].fields, ['options']);
+});
+
+test('questions with different IDs are never matched, even when they say the same', () => {
+  const diff = diffRevisions(version([A]), version([{ ...A, id: 'other' }]));
+  assert.deepEqual(diff.questions.map(d => [d.change, d.fromIndex, d.toIndex]), [['ADDED', null, 0], ['REMOVED', 0, null]]);
+});
+
+test('reordered questions are listed as moved', () => {
+  const diff = diffRevisions(version([A, B]), version([B, A]));
+  assert.deepEqual(diff.questions.map(d => d.change), ['UNCHANGED', 'MOVED']);
+});
+
+test('blank and missing settings are the same', () => {
+  const diff = diffRevisions(version([A], { description: '' }), version([A], { description: undefined, title: 'Renamed' }));
+  assert.deepEqual(diff.fields, ['title']);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyScore, markedScore, resolveScoringConfig, reviseScore, scoreAnswer } from '../src/utils/scoring.js';
+import { PointType, Question, QuestionType } from '../src/types.js';
+
+const config = resolveScoringConfig({ streakBonuses: [{ streak: 2, bonus: 100 }] });
+
+const question = (q: Partial<Question>) => ({ id: 'q', text: '', options: [], timeLimit: 20, pointType: PointType.NORMAL, ...q }) as Question;
+const choice = question({ type: QuestionType.MULTIPLE_CHOICE, options: ['a', 'b'], correctIndices: [0] });
+const open = question({ type: QuestionType.OPEN_ENDED });
+
+const player = { score: 0, streak: 0, lastAnswerCorrect: false, correctAnswers: 0 };
+
+test('a wrong answer ends the streak', () => {
+  const onStreak = applyScore(applyScore(player, scoreAnswer(choice, 0, 10, config), config), scoreAnswer(choice, 0, 10, config), config);
+  assert.equal(onStreak.streak, 2);
+  assert.equal(applyScore(onStreak, scoreAnswer(choice, 1, 10, config), config).streak, 0);
+});
+
+test('an unmarked open-ended answer leaves the streak alone', () => {
+  const onStreak = { ...player, streak: 3 };
+  assert.equal(applyScore(onStreak, scoreAnswer(open, 'anything', 10, config), config).streak, 3);
+});
+
+test('re-marking an answer works the streak out again from the one going into it', () => {
+  const before = { ...player, score: 500, streak: 3 };
+  const unmarked = scoreAnswer(open, 'anything', 10, config);
+  const revealed = applyScore(before, unmarked, config);
+
+  const right = reviseScore(revealed, unmarked, markedScore(open, true, 10, config), before.streak, config);
+  assert.equal(right.streak, 4);
+  assert.equal(right.correctAnswers, 1);
+  assert.ok(right.score > before.score);
+
+  const rightPoints = right.score - revealed.score;
+  const awarded = { ...markedScore(open, true, 10, config), points: rightPoints };
+  const wrong = reviseScore(right, awarded, markedScore(open, false, 10, config), before.streak, config);
+  assert.equal(wrong.streak, 0);
+  assert.equal(wrong.correctAnswers, 0);
+  assert.equal(wrong.score, before.score);
+
+  // Marking it right again brings back the streak it had before
+  const again = reviseScore(wrong, markedScore(open, false, 10, config), markedScore(open, true, 10, config), before.streak, config);
+  assert.equal(again.streak, 4);
+});
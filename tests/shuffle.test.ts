@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { drawQuestions, getOptionOrder, resolveShuffleSettings, seededShuffle, toCanonicalAnswer, toShuffledAnswer } from '../src/utils/shuffle.js';
+import { QuestionType } from '../src/types.js';
+
+const items = Array.from({ length: 10 }, (_, i) => i);
+
+test('a seeded shuffle is the same every time and keeps every item', () => {
+  assert.deepEqual(seededShuffle(items, 'seed'), seededShuffle(items, 'seed'));
+  assert.deepEqual([...seededShuffle(items, 'seed')].sort((a, b) => a - b), items);
+});
+
+test('a pool draws its questions in the quiz order unless questions are shuffled', () => {
+  const drawn = drawQuestions(items, resolveShuffleSettings({ poolSize: 4 }), 'game');
+  assert.equal(drawn.length, 4);
+  assert.deepEqual(drawn, [...drawn].sort((a, b) => a - b));
+  assert.deepEqual(drawQuestions(items, resolveShuffleSettings({ poolSize: 20 }), 'game'), items);
+});
+
+test('answers given in a player\'s option order map back to the options as written', () => {
+  const q = { id: 'q', type: QuestionType.MULTIPLE_CHOICE, options: ['a', 'b', 'c', 'd'] };
+  const order = getOptionOrder(q, resolveShuffleSettings({ shuffleOptions: true }), 'player');
+  assert.ok(order);
+  assert.deepEqual(toShuffledAnswer(toCanonicalAnswer([0, 2], order), order), [0, 2]);
+  assert.equal(toCanonicalAnswer(1, order), order[1]);
+  assert.equal(getOptionOrder(q, resolveShuffleSettings({ shuffleOptions: false }), 'player'), null);
+});